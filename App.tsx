@@ -18,17 +18,27 @@ import { ErrorBoundary } from './src/components';
 import ProductsScreen from './src/screens/ProductsScreen';
 import OrderScreen from './src/screens/OrderScreen';
 import HistoryScreen from './src/screens/HistoryScreen';
+import SettingsScreen from './src/screens/SettingsScreen';
+import RepairScreen from './src/screens/RepairScreen';
+import AuditLogScreen from './src/screens/AuditLogScreen';
+import ZReportScreen from './src/screens/ZReportScreen';
+import CashDrawerScreen from './src/screens/CashDrawerScreen';
+import { RootTabParamList } from './src/types';
 import { COLORS, FONT_SIZES, SPACING, PLATFORM_SPACING } from './src/constants/theme';
 
-const Tab = createBottomTabNavigator();
+const Tab = createBottomTabNavigator<RootTabParamList>();
 
 /**
  * Main App component
  *
- * Sets up the navigation structure with three main screens:
+ * Sets up the navigation structure with four main screens:
  * - Order: Create and manage current orders
  * - Products: Manage product catalog
  * - History: View order history and statistics
+ * - Settings: Configure payment methods
+ *
+ * Repair (quarantined data) is a hidden route reached from in-app banners;
+ * AuditLog is a hidden route reached from Settings; ZReport and CashDrawer are reached from History.
  *
  * Wrapped in ErrorBoundary, SafeAreaProvider, and AppProvider for
  * error handling, safe areas, and global state management.
@@ -44,6 +54,7 @@ export default function App() {
           />
           <NavigationContainer>
             <Tab.Navigator
+              backBehavior="history"
               screenOptions={{
                 headerShown: false,
                 tabBarActiveTintColor: COLORS.primary,
@@ -104,6 +115,49 @@ export default function App() {
                   tabBarAccessibilityLabel: 'History tab',
                 }}
               />
+              <Tab.Screen
+                name="Settings"
+                component={SettingsScreen}
+                options={{
+                  tabBarLabel: 'Impostazioni',
+                  tabBarIcon: ({ color, size }) => (
+                    <Ionicons name="settings" size={size} color={color} />
+                  ),
+                  tabBarAccessibilityLabel: 'Settings tab',
+                }}
+              />
+              <Tab.Screen
+                name="Repair"
+                component={RepairScreen}
+                options={{
+                  tabBarButton: () => null,
+                  tabBarItemStyle: { display: 'none' },
+                }}
+              />
+              <Tab.Screen
+                name="AuditLog"
+                component={AuditLogScreen}
+                options={{
+                  tabBarButton: () => null,
+                  tabBarItemStyle: { display: 'none' },
+                }}
+              />
+              <Tab.Screen
+                name="ZReport"
+                component={ZReportScreen}
+                options={{
+                  tabBarButton: () => null,
+                  tabBarItemStyle: { display: 'none' },
+                }}
+              />
+              <Tab.Screen
+                name="CashDrawer"
+                component={CashDrawerScreen}
+                options={{
+                  tabBarButton: () => null,
+                  tabBarItemStyle: { display: 'none' },
+                }}
+              />
             </Tab.Navigator>
           </NavigationContainer>
         </AppProvider>
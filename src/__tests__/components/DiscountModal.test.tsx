@@ -0,0 +1,64 @@
+import React from 'react';
+import { Alert } from 'react-native';
+import { render, fireEvent } from '@testing-library/react-native';
+import DiscountModal from '../../components/DiscountModal';
+
+jest.spyOn(Alert, 'alert');
+
+describe('DiscountModal Component', () => {
+  const onApply = jest.fn();
+  const onClose = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should apply a fixed discount typed in euros as cents', () => {
+    const { getByLabelText, queryByLabelText } = render(
+      <DiscountModal visible title="Sconto Ordine" onApply={onApply} onClose={onClose} />
+    );
+
+    expect(queryByLabelText('Remove discount')).toBeNull();
+    fireEvent.press(getByLabelText('Fixed discount'));
+    fireEvent.changeText(getByLabelText('Discount value input'), '2.50');
+    fireEvent.changeText(getByLabelText('Discount reason input'), '  Socio  ');
+    fireEvent.press(getByLabelText('Apply discount'));
+
+    expect(onApply).toHaveBeenCalledWith({ type: 'fixed', value: 250, reason: 'Socio' });
+  });
+
+  it('should refuse percentages above 100 and discounts without a reason', () => {
+    const { getByLabelText } = render(
+      <DiscountModal visible title="Sconto Ordine" onApply={onApply} onClose={onClose} />
+    );
+
+    fireEvent.changeText(getByLabelText('Discount value input'), '150');
+    fireEvent.changeText(getByLabelText('Discount reason input'), 'Socio');
+    fireEvent.press(getByLabelText('Apply discount'));
+    expect(Alert.alert).toHaveBeenCalledWith('Errore', 'La percentuale non può superare 100');
+
+    fireEvent.changeText(getByLabelText('Discount value input'), '10');
+    fireEvent.changeText(getByLabelText('Discount reason input'), '  ');
+    fireEvent.press(getByLabelText('Apply discount'));
+    expect(Alert.alert).toHaveBeenCalledWith('Errore', 'Inserisci il motivo dello sconto');
+    expect(onApply).not.toHaveBeenCalled();
+  });
+
+  it('should open prefilled with the applied discount and remove it', () => {
+    const { getByLabelText } = render(
+      <DiscountModal
+        visible
+        title="Sconto Birra"
+        discount={{ type: 'fixed', value: 150, reason: 'Volontario' }}
+        onApply={onApply}
+        onClose={onClose}
+      />
+    );
+
+    expect(getByLabelText('Discount value input').props.value).toBe('1.50');
+    expect(getByLabelText('Discount reason input').props.value).toBe('Volontario');
+
+    fireEvent.press(getByLabelText('Remove discount'));
+    expect(onApply).toHaveBeenCalledWith(undefined);
+  });
+});
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Alert } from 'react-native';
+import { render, fireEvent } from '@testing-library/react-native';
+import ParkOrderModal from '../../components/ParkOrderModal';
+
+jest.spyOn(Alert, 'alert');
+
+describe('ParkOrderModal Component', () => {
+  const onPark = jest.fn();
+  const onClose = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should park the order under the trimmed name', () => {
+    const { getByLabelText } = render(
+      <ParkOrderModal visible total={1200} parkedNames={[]} onPark={onPark} onClose={onClose} />
+    );
+
+    fireEvent.changeText(getByLabelText('Parked order name input'), '  Tavolo 4  ');
+    fireEvent.press(getByLabelText('Confirm park order'));
+
+    expect(onPark).toHaveBeenCalledWith('Tavolo 4');
+  });
+
+  it('should refuse an empty name or one already parked', () => {
+    const { getByLabelText } = render(
+      <ParkOrderModal visible total={1200} parkedNames={['Tavolo 4']} onPark={onPark} onClose={onClose} />
+    );
+
+    fireEvent.press(getByLabelText('Confirm park order'));
+    expect(Alert.alert).toHaveBeenCalledWith('Errore', 'Inserisci il nome del cliente o il numero del tavolo');
+
+    fireEvent.changeText(getByLabelText('Parked order name input'), 'tavolo 4');
+    fireEvent.press(getByLabelText('Confirm park order'));
+    expect(Alert.alert).toHaveBeenCalledWith('Errore', 'Esiste già un ordine sospeso con questo nome');
+    expect(onPark).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Alert } from 'react-native';
+import { render, fireEvent } from '@testing-library/react-native';
+import ProductSelectionSheet from '../../components/ProductSelectionSheet';
+import { createMockProduct } from '../utils/testUtils';
+
+jest.spyOn(Alert, 'alert');
+
+describe('ProductSelectionSheet Component', () => {
+  const onAdd = jest.fn();
+  const onClose = jest.fn();
+  const variants = [
+    { id: 'small', name: 'Piccola', price: 300 },
+    { id: 'large', name: 'Media', price: 500, stock: 2 },
+  ];
+  const sauces = {
+    id: 'sauces',
+    name: 'Salse',
+    required: true,
+    multiple: true,
+    options: [
+      { id: 'ketchup', name: 'Ketchup', priceDelta: 0 },
+      { id: 'mayo', name: 'Maionese', priceDelta: 50 },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should add a product with variants only as soon as a variant is picked', () => {
+    const product = createMockProduct({ id: 'beer', name: 'Birra', variants });
+    const { getByLabelText } = render(
+      <ProductSelectionSheet
+        product={product}
+        products={[product]}
+        quantityInOrder={{}}
+        onAdd={onAdd}
+        onClose={onClose}
+      />
+    );
+
+    fireEvent.press(getByLabelText('Variant Piccola'));
+
+    expect(onAdd).toHaveBeenCalledWith(product, { variantId: 'small' });
+  });
+
+  it('should require the required groups and add the chosen variant and modifiers', () => {
+    const product = createMockProduct({ id: 'fries', name: 'Patatine', variants, modifierGroups: [sauces] });
+    const { getByLabelText, getByText } = render(
+      <ProductSelectionSheet
+        product={product}
+        products={[product]}
+        quantityInOrder={{}}
+        onAdd={onAdd}
+        onClose={onClose}
+      />
+    );
+
+    fireEvent.press(getByLabelText('Add with selected options'));
+    expect(Alert.alert).toHaveBeenCalledWith('Scelta obbligatoria', "Scegli un'opzione per: Formato, Salse");
+
+    fireEvent.press(getByLabelText('Variant Media'));
+    fireEvent.press(getByLabelText('Salse Maionese'));
+    expect(getByText('€ 5.50')).toBeTruthy();
+    fireEvent.press(getByLabelText('Add with selected options'));
+
+    expect(onAdd).toHaveBeenCalledWith(
+      product,
+      expect.objectContaining({
+        variantId: 'large',
+        modifiers: [{ groupId: 'sauces', optionId: 'mayo', name: 'Maionese', priceDelta: 50 }],
+      })
+    );
+  });
+
+  it('should disable variants sold out once the units in the order are counted', () => {
+    const product = createMockProduct({ id: 'beer', name: 'Birra', variants });
+    const { getByLabelText } = render(
+      <ProductSelectionSheet
+        product={product}
+        products={[product]}
+        quantityInOrder={{ beer: 2, 'beer/large': 2 }}
+        onAdd={onAdd}
+        onClose={onClose}
+      />
+    );
+
+    fireEvent.press(getByLabelText('Variant Media'));
+
+    expect(onAdd).not.toHaveBeenCalled();
+    expect(getByLabelText('Variant Media').props.accessibilityState).toEqual(
+      expect.objectContaining({ disabled: true })
+    );
+  });
+});
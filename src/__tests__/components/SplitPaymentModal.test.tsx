@@ -0,0 +1,68 @@
+import React from 'react';
+import { Alert } from 'react-native';
+import { render, fireEvent } from '@testing-library/react-native';
+import SplitPaymentModal from '../../components/SplitPaymentModal';
+import { DEFAULT_PAYMENT_METHODS } from '../../data/paymentMethods';
+
+jest.spyOn(Alert, 'alert');
+
+describe('SplitPaymentModal Component', () => {
+  const onSelectMethod = jest.fn();
+  const onConfirm = jest.fn(() => true);
+  const onBack = jest.fn();
+
+  const renderModal = (selectedMethodId: string) => (
+    <SplitPaymentModal
+      visible
+      total={1000}
+      paymentMethods={DEFAULT_PAYMENT_METHODS}
+      selectedMethodId={selectedMethodId}
+      onSelectMethod={onSelectMethod}
+      onConfirm={onConfirm}
+      onBack={onBack}
+    />
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should cover the total across methods and give change on the cash tendered', () => {
+    const { getByLabelText, getByText, rerender } = render(renderModal('card'));
+
+    fireEvent.changeText(getByLabelText('Split amount input'), '4');
+    fireEvent.press(getByLabelText('Add payment'));
+    rerender(renderModal('cash'));
+    fireEvent.changeText(getByLabelText('Split amount input'), '10');
+    fireEvent.press(getByLabelText('Add payment'));
+
+    expect(getByText('Resto:')).toBeTruthy();
+    fireEvent.press(getByLabelText('Confirm split payment'));
+
+    expect(onConfirm).toHaveBeenCalledWith(
+      [{ method: 'card', amount: 400 }, { method: 'cash', amount: 600 }],
+      1000
+    );
+  });
+
+  it('should refuse a card leg above the remaining balance', () => {
+    const { getByLabelText, queryByLabelText } = render(renderModal('card'));
+
+    fireEvent.changeText(getByLabelText('Split amount input'), '15');
+    fireEvent.press(getByLabelText('Add payment'));
+
+    expect(Alert.alert).toHaveBeenCalledWith('Errore', 'L\'importo supera il saldo da pagare');
+    expect(queryByLabelText('Remove payment 1')).toBeNull();
+  });
+
+  it('should pay the whole balance when no amount is typed, and drop a leg when removed', () => {
+    const { getByLabelText, queryByLabelText } = render(renderModal('card'));
+
+    fireEvent.press(getByLabelText('Add payment'));
+    expect(queryByLabelText('Split amount input')).toBeNull();
+
+    fireEvent.press(getByLabelText('Remove payment 1'));
+    expect(getByLabelText('Split amount input')).toBeTruthy();
+    expect(onConfirm).not.toHaveBeenCalled();
+  });
+});
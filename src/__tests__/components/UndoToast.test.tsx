@@ -0,0 +1,58 @@
+import React from 'react';
+import { render, fireEvent, act } from '@testing-library/react-native';
+import UndoToast from '../../components/UndoToast';
+import { APP_CONSTANTS } from '../../constants/theme';
+
+describe('UndoToast Component', () => {
+  const onUndo = jest.fn();
+  const onRedo = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should render nothing when there is nothing to undo or redo', () => {
+    const { toJSON } = render(<UndoToast onUndo={onUndo} onRedo={onRedo} />);
+    expect(toJSON()).toBeNull();
+  });
+
+  it('should name the latest change and undo it', () => {
+    const { getByText, getByLabelText, queryByLabelText } = render(
+      <UndoToast undoStep={{ id: '1', action: 'deleteProduct' }} onUndo={onUndo} onRedo={onRedo} />
+    );
+
+    expect(getByText('Prodotto eliminato')).toBeTruthy();
+    expect(queryByLabelText('Redo')).toBeNull();
+
+    fireEvent.press(getByLabelText('Undo'));
+    expect(onUndo).toHaveBeenCalledTimes(1);
+  });
+
+  it('should offer redo once a change was undone', () => {
+    const { getByText, getByLabelText, queryByLabelText } = render(
+      <UndoToast redoStep={{ id: '1', action: 'addToCurrentOrder' }} onUndo={onUndo} onRedo={onRedo} />
+    );
+
+    expect(getByText("Annullato: Prodotto aggiunto all'ordine")).toBeTruthy();
+    expect(queryByLabelText('Undo')).toBeNull();
+
+    fireEvent.press(getByLabelText('Redo'));
+    expect(onRedo).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hide itself after a while and come back with the next change', () => {
+    jest.useFakeTimers();
+    const { queryByLabelText, rerender } = render(
+      <UndoToast undoStep={{ id: '1', action: 'addProduct' }} onUndo={onUndo} onRedo={onRedo} />
+    );
+
+    act(() => {
+      jest.advanceTimersByTime(APP_CONSTANTS.UNDO_TOAST_DURATION);
+    });
+    expect(queryByLabelText('Undo')).toBeNull();
+
+    rerender(<UndoToast undoStep={{ id: '2', action: 'updateProduct' }} onUndo={onUndo} onRedo={onRedo} />);
+    expect(queryByLabelText('Undo')).toBeTruthy();
+    jest.useRealTimers();
+  });
+});
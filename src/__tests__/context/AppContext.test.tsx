@@ -2,8 +2,13 @@ import React from 'react';
 import { renderHook, act, waitFor } from '@testing-library/react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AppProvider, useApp } from '../../context/AppContext';
-import { createMockProduct, createMockOrderItem } from '../utils/testUtils';
-import { Product, Order } from '../../types';
+import { createMockProduct, createMockOrder, createMockOrderItem } from '../utils/testUtils';
+import { Product, Category, Order, PaymentMethod, PricingRule, Promotion, CompleteOrderResult } from '../../types';
+import { formatTimeOfDay } from '../../utils/pricingRules';
+import { DEFAULT_CATEGORIES } from '../../data/categories';
+import { DEFAULT_PAYMENT_METHODS } from '../../data/paymentMethods';
+import { CURRENT_SCHEMA_VERSION } from '../../storage/migrations';
+import { APP_CONSTANTS } from '../../constants/theme';
 
 // Mock AsyncStorage
 jest.mock('@react-native-async-storage/async-storage');
@@ -34,6 +39,7 @@ describe('AppContext', () => {
       const { result } = renderHook(() => useApp(), { wrapper });
 
       expect(result.current).toHaveProperty('products');
+      expect(result.current).toHaveProperty('categories');
       expect(result.current).toHaveProperty('orders');
       expect(result.current).toHaveProperty('currentOrder');
       expect(result.current).toHaveProperty('addProduct');
@@ -43,8 +49,12 @@ describe('AppContext', () => {
       expect(result.current).toHaveProperty('removeFromCurrentOrder');
       expect(result.current).toHaveProperty('clearCurrentOrder');
       expect(result.current).toHaveProperty('completeOrder');
-      expect(result.current).toHaveProperty('deleteOrder');
-      expect(result.current).toHaveProperty('resetSession');
+      expect(result.current).toHaveProperty('voidOrder');
+      expect(result.current).toHaveProperty('closeSession');
+      expect(result.current).toHaveProperty('paymentMethods');
+      expect(result.current).toHaveProperty('quarantine');
+      expect(result.current).toHaveProperty('restoreQuarantinedRecord');
+      expect(result.current).toHaveProperty('deleteQuarantinedRecord');
     });
   });
 
@@ -123,6 +133,107 @@ describe('AppContext', () => {
       expect(result.current.orders[0].timestamp).toBeInstanceOf(Date);
     });
 
+    it('should convert legacy euro amounts to cents on first load', async () => {
+      const mockProducts = [createMockProduct({ id: '1', price: 3.5 })];
+      const mockOrders = [
+        {
+          id: 'order-1',
+          items: [createMockOrderItem({ product: createMockProduct({ price: 0.1 }), quantity: 3 })],
+          total: 0.30000000000000004,
+          timestamp: new Date().toISOString(),
+          cashPaid: 1,
+          change: 0.7,
+        },
+      ];
+
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_products') {
+          return Promise.resolve(JSON.stringify(mockProducts));
+        }
+        if (key === '@party_kiosk_orders') {
+          return Promise.resolve(JSON.stringify(mockOrders));
+        }
+        return Promise.resolve(null);
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.products[0].price).toBe(350);
+      expect(result.current.orders[0].total).toBe(30);
+      expect(result.current.orders[0].items[0].product.price).toBe(10);
+      expect(result.current.orders[0].cashPaid).toBe(100);
+      expect(result.current.orders[0].change).toBe(70);
+      expect(AsyncStorage.multiSet).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          ['@party_kiosk_schema_version', String(CURRENT_SCHEMA_VERSION)],
+          ['@party_kiosk_products', expect.stringContaining('"price":350')],
+        ])
+      );
+    });
+
+    it('should migrate the orders of archived sessions', async () => {
+      const session = {
+        id: 's1',
+        name: 'Sagra',
+        openedAt: '2026-06-01T18:00:00.000Z',
+        closedAt: '2026-06-02T01:00:00.000Z',
+        orders: [{
+          id: 'o1',
+          items: [createMockOrderItem({ product: createMockProduct({ price: 500 }) })],
+          total: 500,
+          timestamp: '2026-06-01T20:00:00.000Z',
+          paymentMethod: 'card',
+        }],
+      };
+
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_schema_version') {
+          return Promise.resolve('2');
+        }
+        return Promise.resolve(null);
+      });
+      (AsyncStorage.getAllKeys as jest.Mock).mockResolvedValueOnce(['@party_kiosk_session_s1']);
+      (AsyncStorage.multiGet as jest.Mock).mockResolvedValueOnce([['@party_kiosk_session_s1', JSON.stringify(session)]]);
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.sessions[0].orders[0].payments).toEqual([{ method: 'card', amount: 500 }]);
+      expect(AsyncStorage.multiSet).toHaveBeenCalledWith(
+        expect.arrayContaining([['@party_kiosk_session_s1', expect.stringContaining('"payments"')]])
+      );
+    });
+
+    it('should not migrate data already at the current schema version', async () => {
+      const mockProducts = [createMockProduct({ id: '1', price: 350 })];
+
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_products') {
+          return Promise.resolve(JSON.stringify(mockProducts));
+        }
+        if (key === '@party_kiosk_schema_version') {
+          return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+        }
+        return Promise.resolve(null);
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.products[0].price).toBe(350);
+      expect(AsyncStorage.multiSet).not.toHaveBeenCalled();
+    });
+
     it('should handle AsyncStorage errors gracefully', async () => {
       const consoleError = jest.spyOn(console, 'error').mockImplementation();
       (AsyncStorage.getItem as jest.Mock).mockRejectedValue(new Error('Storage error'));
@@ -135,10 +246,92 @@ describe('AppContext', () => {
 
       expect(result.current.products).toEqual([]);
       expect(result.current.orders).toEqual([]);
+      expect(result.current.loadFailed).toBe(true);
       expect(consoleError).toHaveBeenCalled();
 
       consoleError.mockRestore();
     });
+
+    it('should load the readable keys but save nothing when one key fails to read', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const storedProducts = [createMockProduct({ id: '1', price: 350 })];
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_cash_drawer') return Promise.reject(new Error('Storage error'));
+        if (key === '@party_kiosk_schema_version') return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+        if (key === '@party_kiosk_products') return Promise.resolve(JSON.stringify(storedProducts));
+        return Promise.resolve(null);
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.products).toEqual(storedProducts);
+      expect(result.current.loadFailed).toBe(true);
+
+      act(() => {
+        result.current.addProduct(createMockProduct({ id: '2' }));
+      });
+      await new Promise(resolve => setTimeout(resolve, APP_CONSTANTS.DEBOUNCE_DELAY + 100));
+
+      expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+      expect(AsyncStorage.multiSet).not.toHaveBeenCalled();
+
+      consoleError.mockRestore();
+    });
+
+    it('should save nothing when quarantined records cannot be written', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_schema_version') return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+        if (key === '@party_kiosk_products') return Promise.resolve('not json');
+        return Promise.resolve(null);
+      });
+      (AsyncStorage.setItem as jest.Mock).mockRejectedValueOnce(new Error('Storage error'));
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.loadFailed).toBe(true);
+      expect(result.current.quarantine).toHaveLength(1);
+      expect(AsyncStorage.setItem).toHaveBeenCalledTimes(1);
+
+      consoleError.mockRestore();
+    });
+
+    it('should resume saving once a reload succeeds', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      (AsyncStorage.getItem as jest.Mock).mockRejectedValue(new Error('Storage error'));
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.loadFailed).toBe(true);
+      });
+
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      await act(async () => {
+        await result.current.reloadData();
+      });
+
+      expect(result.current.loadFailed).toBe(false);
+
+      const product = createMockProduct();
+      act(() => {
+        result.current.addProduct(product);
+      });
+
+      await waitFor(() => {
+        expect(AsyncStorage.setItem).toHaveBeenCalledWith('@party_kiosk_products', JSON.stringify([product]));
+      });
+
+      consoleError.mockRestore();
+    });
   });
 
   describe('Product Management', () => {
@@ -210,20 +403,20 @@ describe('AppContext', () => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product = createMockProduct({ id: 'test-1', name: 'Pizza', price: 5.0 });
+        const product = createMockProduct({ id: 'test-1', name: 'Pizza', price: 500 });
 
         act(() => {
           result.current.addProduct(product);
         });
 
-        const updatedProduct = { ...product, name: 'Updated Pizza', price: 7.0 };
+        const updatedProduct = { ...product, name: 'Updated Pizza', price: 700 };
 
         act(() => {
           result.current.updateProduct('test-1', updatedProduct);
         });
 
         expect(result.current.products[0].name).toBe('Updated Pizza');
-        expect(result.current.products[0].price).toBe(7.0);
+        expect(result.current.products[0].price).toBe(700);
       });
 
       it('should not affect other products when updating', async () => {
@@ -347,345 +540,2888 @@ describe('AppContext', () => {
     });
   });
 
-  describe('Current Order Management', () => {
-    describe('addToCurrentOrder', () => {
-      it('should add a product to current order with quantity 1', async () => {
-        const { result } = renderHook(() => useApp(), { wrapper });
+  describe('Category Management', () => {
+    it('should seed default categories when none are stored', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
 
-        await waitFor(() => {
-          expect(result.current.isLoading).toBe(false);
-        });
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
 
-        const product = createMockProduct({ id: '1', name: 'Pizza' });
+      expect(result.current.categories.map(c => c.id)).toEqual(
+        DEFAULT_CATEGORIES.map(c => c.id)
+      );
+    });
 
-        act(() => {
-          result.current.addToCurrentOrder(product);
-        });
+    it('should load categories from AsyncStorage sorted by order', async () => {
+      const stored: Category[] = [
+        { id: 'wine', name: 'Vini', emoji: '🍷', color: '#E91E63', order: 1 },
+        { id: 'grill', name: 'Griglia', emoji: '🍖', color: '#FF5722', order: 0 },
+      ];
 
-        expect(result.current.currentOrder).toHaveLength(1);
-        expect(result.current.currentOrder[0].product).toEqual(product);
-        expect(result.current.currentOrder[0].quantity).toBe(1);
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_categories') {
+          return Promise.resolve(JSON.stringify(stored));
+        }
+        return Promise.resolve(null);
       });
 
-      it('should increment quantity when same product is added again', async () => {
-        const { result } = renderHook(() => useApp(), { wrapper });
+      const { result } = renderHook(() => useApp(), { wrapper });
 
-        await waitFor(() => {
-          expect(result.current.isLoading).toBe(false);
-        });
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
 
-        const product = createMockProduct({ id: '1', name: 'Pizza' });
+      expect(result.current.categories.map(c => c.name)).toEqual(['Griglia', 'Vini']);
+    });
 
-        act(() => {
-          result.current.addToCurrentOrder(product);
-          result.current.addToCurrentOrder(product);
-          result.current.addToCurrentOrder(product);
-        });
+    it('should append new categories at the end of the display order', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
 
-        expect(result.current.currentOrder).toHaveLength(1);
-        expect(result.current.currentOrder[0].quantity).toBe(3);
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
       });
 
-      it('should handle multiple different products in order', async () => {
-        const { result } = renderHook(() => useApp(), { wrapper });
+      act(() => {
+        result.current.addCategory({ id: 'beer', name: 'Birre', emoji: '🍺', color: '#FF9800' });
+      });
 
-        await waitFor(() => {
-          expect(result.current.isLoading).toBe(false);
-        });
+      const last = result.current.categories[result.current.categories.length - 1];
+      expect(last.id).toBe('beer');
+      expect(last.order).toBe(DEFAULT_CATEGORIES.length);
 
-        const product1 = createMockProduct({ id: '1', name: 'Pizza' });
-        const product2 = createMockProduct({ id: '2', name: 'Burger' });
+      await waitFor(() => {
+        expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+          '@party_kiosk_categories',
+          expect.stringContaining('Birre')
+        );
+      });
+    });
 
-        act(() => {
-          result.current.addToCurrentOrder(product1);
-          result.current.addToCurrentOrder(product2);
-          result.current.addToCurrentOrder(product1);
-        });
+    it('should update a category', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
 
-        expect(result.current.currentOrder).toHaveLength(2);
-        expect(result.current.currentOrder[0].quantity).toBe(2);
-        expect(result.current.currentOrder[1].quantity).toBe(1);
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
       });
+
+      const food = result.current.categories.find(c => c.id === 'food')!;
+
+      act(() => {
+        result.current.updateCategory('food', { ...food, name: 'Griglia' });
+      });
+
+      expect(result.current.categories.find(c => c.id === 'food')?.name).toBe('Griglia');
     });
 
-    describe('removeFromCurrentOrder', () => {
-      it('should decrement quantity when product has multiple items', async () => {
-        const { result } = renderHook(() => useApp(), { wrapper });
+    it('should move a category up and down', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
 
-        await waitFor(() => {
-          expect(result.current.isLoading).toBe(false);
-        });
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
 
-        const product = createMockProduct({ id: '1' });
+      act(() => {
+        result.current.moveCategory('drinks', 'up');
+      });
 
-        act(() => {
-          result.current.addToCurrentOrder(product);
-          result.current.addToCurrentOrder(product);
-          result.current.addToCurrentOrder(product);
-        });
+      expect(result.current.categories[0].id).toBe('drinks');
+      expect(result.current.categories[1].id).toBe('food');
 
-        expect(result.current.currentOrder[0].quantity).toBe(3);
+      act(() => {
+        result.current.moveCategory('drinks', 'up');
+      });
+
+      expect(result.current.categories[0].id).toBe('drinks');
+
+      act(() => {
+        result.current.moveCategory('drinks', 'down');
+      });
+
+      expect(result.current.categories[0].id).toBe('food');
+    });
+
+    it('should reassign products when deleting a category', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(createMockProduct({ id: '1', category: 'snacks' }));
+        result.current.addProduct(createMockProduct({ id: '2', category: 'food' }));
+      });
+
+      act(() => {
+        result.current.deleteCategory('snacks', 'food');
+      });
+
+      expect(result.current.categories.some(c => c.id === 'snacks')).toBe(false);
+      expect(result.current.products.map(p => p.category)).toEqual(['food', 'food']);
+    });
+
+    it('should leave products uncategorized when no reassignment target is given', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(createMockProduct({ id: '1', category: 'snacks' }));
+      });
+
+      act(() => {
+        result.current.deleteCategory('snacks');
+      });
+
+      expect(result.current.products[0].category).toBeUndefined();
+    });
+  });
+
+  describe('Quarantine', () => {
+    const mockStorage = (entries: { [key: string]: string }) => {
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) =>
+        Promise.resolve(entries[key] ?? null)
+      );
+    };
+
+    it('should keep valid records and quarantine invalid ones', async () => {
+      mockStorage({
+        '@party_kiosk_schema_version': String(CURRENT_SCHEMA_VERSION),
+        '@party_kiosk_products': JSON.stringify([
+          createMockProduct({ id: '1', name: 'Pizza' }),
+          createMockProduct({ id: '2', name: '' }),
+        ]),
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.products).toHaveLength(1);
+      expect(result.current.products[0].name).toBe('Pizza');
+      expect(result.current.quarantine).toHaveLength(1);
+      expect(result.current.quarantine[0].kind).toBe('product');
+      expect(result.current.quarantine[0].record).toMatchObject({ id: '2' });
+      expect(result.current.quarantine[0].issues[0].path).toBe('name');
+    });
+
+    it('should persist quarantined records before anything else is saved', async () => {
+      mockStorage({
+        '@party_kiosk_schema_version': String(CURRENT_SCHEMA_VERSION),
+        '@party_kiosk_orders': JSON.stringify([{ id: 'order-1', items: [], total: -1 }]),
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+        '@party_kiosk_quarantine',
+        expect.stringContaining('order-1')
+      );
+      expect(result.current.orders).toHaveLength(0);
+    });
+
+    it('should quarantine unparseable JSON as raw text', async () => {
+      mockStorage({
+        '@party_kiosk_schema_version': String(CURRENT_SCHEMA_VERSION),
+        '@party_kiosk_products': '[{"id": "1",',
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.error).toBeNull();
+      expect(result.current.quarantine).toHaveLength(1);
+      expect(result.current.quarantine[0].record).toBe('[{"id": "1",');
+      expect(result.current.quarantine[0].issues[0].message).toBe('Invalid JSON');
+    });
+
+    it('should load previously quarantined records', async () => {
+      mockStorage({
+        '@party_kiosk_schema_version': String(CURRENT_SCHEMA_VERSION),
+        '@party_kiosk_quarantine': JSON.stringify([
+          {
+            id: 'q-1',
+            kind: 'category',
+            record: { id: 'x' },
+            issues: [{ path: 'name', message: 'Required' }],
+            quarantinedAt: '2025-01-15T10:30:00.000Z',
+          },
+        ]),
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.quarantine).toHaveLength(1);
+      expect(result.current.quarantine[0].id).toBe('q-1');
+      expect(AsyncStorage.setItem).not.toHaveBeenCalledWith('@party_kiosk_quarantine', expect.anything());
+    });
+
+    it('should restore a repaired record', async () => {
+      mockStorage({
+        '@party_kiosk_schema_version': String(CURRENT_SCHEMA_VERSION),
+        '@party_kiosk_products': JSON.stringify([
+          createMockProduct({ id: '2', name: 'Burger', price: 5.5 }),
+        ]),
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const { id, record } = result.current.quarantine[0];
+      let issues: unknown[] = [];
+
+      act(() => {
+        issues = result.current.restoreQuarantinedRecord(id, record);
+      });
+
+      expect(issues.length).toBeGreaterThan(0);
+      expect(result.current.quarantine).toHaveLength(1);
+
+      act(() => {
+        issues = result.current.restoreQuarantinedRecord(id, { ...(record as object), price: 550 });
+      });
+
+      expect(issues).toEqual([]);
+      expect(result.current.quarantine).toHaveLength(0);
+      expect(result.current.products).toHaveLength(1);
+      expect(result.current.products[0].price).toBe(550);
+    });
+
+    it('should not restore a record whose ID already exists', async () => {
+      mockStorage({
+        '@party_kiosk_schema_version': String(CURRENT_SCHEMA_VERSION),
+        '@party_kiosk_products': JSON.stringify([
+          createMockProduct({ id: '1' }),
+          createMockProduct({ id: '1', name: 'Duplicate', price: -1 }),
+        ]),
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const { id, record } = result.current.quarantine[0];
+      let issues: { path: string }[] = [];
+
+      act(() => {
+        issues = result.current.restoreQuarantinedRecord(id, { ...(record as object), price: 100 });
+      });
+
+      expect(issues[0].path).toBe('id');
+      expect(result.current.products).toHaveLength(1);
+    });
+
+    it('should delete a quarantined record', async () => {
+      mockStorage({
+        '@party_kiosk_schema_version': String(CURRENT_SCHEMA_VERSION),
+        '@party_kiosk_categories': JSON.stringify([{ id: 'bad' }]),
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.deleteQuarantinedRecord(result.current.quarantine[0].id);
+      });
+
+      expect(result.current.quarantine).toHaveLength(0);
+    });
+  });
+
+  describe('Payment Methods', () => {
+    it('should seed default payment methods when none are stored', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.paymentMethods).toEqual(DEFAULT_PAYMENT_METHODS);
+    });
+
+    it('should load payment methods and always keep cash', async () => {
+      const storedMethods: PaymentMethod[] = [
+        { id: 'card', name: 'Bancomat', emoji: '💳', enabled: true },
+      ];
+
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_payment_methods') {
+          return Promise.resolve(JSON.stringify(storedMethods));
+        }
+        return Promise.resolve(null);
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.paymentMethods.map(m => m.id)).toEqual(['cash', 'card']);
+      expect(result.current.paymentMethods[1].name).toBe('Bancomat');
+    });
+
+    it('should add, update and delete payment methods', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const method: PaymentMethod = { id: 'paypal', name: 'PayPal', emoji: '🅿️', enabled: true };
+
+      act(() => {
+        result.current.addPaymentMethod(method);
+      });
+      expect(result.current.paymentMethods[result.current.paymentMethods.length - 1]).toEqual(method);
+
+      act(() => {
+        result.current.updatePaymentMethod('paypal', { ...method, enabled: false });
+      });
+      expect(result.current.paymentMethods.find(m => m.id === 'paypal')?.enabled).toBe(false);
+
+      act(() => {
+        result.current.deletePaymentMethod('paypal');
+      });
+      expect(result.current.paymentMethods.find(m => m.id === 'paypal')).toBeUndefined();
+    });
+
+    it('should never disable or delete cash', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const cash = result.current.paymentMethods[0];
+
+      act(() => {
+        result.current.updatePaymentMethod('cash', { ...cash, name: 'Cash', enabled: false });
+      });
+      expect(result.current.paymentMethods[0]).toEqual({ ...cash, name: 'Cash', enabled: true });
+
+      act(() => {
+        result.current.deletePaymentMethod('cash');
+      });
+      expect(result.current.paymentMethods[0].id).toBe('cash');
+    });
+  });
+
+  describe('Current Order Management', () => {
+    describe('addToCurrentOrder', () => {
+      it('should add a product to current order with quantity 1', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product = createMockProduct({ id: '1', name: 'Pizza' });
+
+        act(() => {
+          result.current.addToCurrentOrder(product);
+        });
+
+        expect(result.current.currentOrder).toHaveLength(1);
+        expect(result.current.currentOrder[0].product).toEqual(product);
+        expect(result.current.currentOrder[0].quantity).toBe(1);
+      });
+
+      it('should increment quantity when same product is added again', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product = createMockProduct({ id: '1', name: 'Pizza' });
+
+        act(() => {
+          result.current.addToCurrentOrder(product);
+          result.current.addToCurrentOrder(product);
+          result.current.addToCurrentOrder(product);
+        });
+
+        expect(result.current.currentOrder).toHaveLength(1);
+        expect(result.current.currentOrder[0].quantity).toBe(3);
+      });
+
+      it('should handle multiple different products in order', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product1 = createMockProduct({ id: '1', name: 'Pizza' });
+        const product2 = createMockProduct({ id: '2', name: 'Burger' });
+
+        act(() => {
+          result.current.addToCurrentOrder(product1);
+          result.current.addToCurrentOrder(product2);
+          result.current.addToCurrentOrder(product1);
+        });
+
+        expect(result.current.currentOrder).toHaveLength(2);
+        expect(result.current.currentOrder[0].quantity).toBe(2);
+        expect(result.current.currentOrder[1].quantity).toBe(1);
+      });
+    });
+
+    describe('removeFromCurrentOrder', () => {
+      it('should decrement quantity when product has multiple items', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product = createMockProduct({ id: '1' });
+
+        act(() => {
+          result.current.addToCurrentOrder(product);
+          result.current.addToCurrentOrder(product);
+          result.current.addToCurrentOrder(product);
+        });
+
+        expect(result.current.currentOrder[0].quantity).toBe(3);
+
+        act(() => {
+          result.current.removeFromCurrentOrder('1');
+        });
+
+        expect(result.current.currentOrder[0].quantity).toBe(2);
+      });
+
+      it('should remove item completely when quantity is 1', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product = createMockProduct({ id: '1' });
+
+        act(() => {
+          result.current.addToCurrentOrder(product);
+        });
+
+        expect(result.current.currentOrder).toHaveLength(1);
+
+        act(() => {
+          result.current.removeFromCurrentOrder('1');
+        });
+
+        expect(result.current.currentOrder).toHaveLength(0);
+      });
+
+      it('should only affect the specified product', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product1 = createMockProduct({ id: '1' });
+        const product2 = createMockProduct({ id: '2' });
+
+        act(() => {
+          result.current.addToCurrentOrder(product1);
+          result.current.addToCurrentOrder(product2);
+          result.current.addToCurrentOrder(product2);
+        });
+
+        act(() => {
+          result.current.removeFromCurrentOrder('2');
+        });
+
+        expect(result.current.currentOrder).toHaveLength(2);
+        expect(result.current.currentOrder.find(item => item.product.id === '1')?.quantity).toBe(1);
+        expect(result.current.currentOrder.find(item => item.product.id === '2')?.quantity).toBe(1);
+      });
+
+      it('should handle removing non-existent product gracefully', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product = createMockProduct({ id: '1' });
+
+        act(() => {
+          result.current.addToCurrentOrder(product);
+        });
+
+        act(() => {
+          result.current.removeFromCurrentOrder('non-existent');
+        });
+
+        expect(result.current.currentOrder).toHaveLength(1);
+      });
+    });
+
+    describe('clearCurrentOrder', () => {
+      it('should clear all items from current order', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product1 = createMockProduct({ id: '1' });
+        const product2 = createMockProduct({ id: '2' });
+
+        act(() => {
+          result.current.addToCurrentOrder(product1);
+          result.current.addToCurrentOrder(product2);
+        });
+
+        expect(result.current.currentOrder).toHaveLength(2);
+
+        act(() => {
+          result.current.clearCurrentOrder();
+        });
+
+        expect(result.current.currentOrder).toHaveLength(0);
+      });
+
+      it('should handle clearing empty order', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        act(() => {
+          result.current.clearCurrentOrder();
+        });
+
+        expect(result.current.currentOrder).toHaveLength(0);
+      });
+    });
+  });
+
+  describe('Stock', () => {
+    it('should take sold units out of stock and put them back when the order is voided', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const product = createMockProduct({ id: '1', stock: 5 });
+
+      act(() => {
+        result.current.addProduct(product);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(product);
+        result.current.addToCurrentOrder(product);
+      });
+
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+
+      expect(result.current.products[0].stock).toBe(3);
+
+      act(() => {
+        result.current.voidOrder(result.current.orders[0].id, 'Ordine sbagliato');
+      });
+
+      expect(result.current.products[0].stock).toBe(5);
+    });
+
+    it('should not add more units than are in stock', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const product = createMockProduct({ id: '1', stock: 1 });
+
+      act(() => {
+        result.current.addProduct(product);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(product);
+        result.current.addToCurrentOrder(product);
+      });
+
+      expect(result.current.currentOrder[0].quantity).toBe(1);
+    });
+
+    it('should refuse to complete a resumed parked order whose units were sold since', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const product = createMockProduct({ id: '1', stock: 2 });
+
+      act(() => {
+        result.current.addProduct(product);
+      });
+      act(() => {
+        result.current.addToCurrentOrder(product);
+        result.current.addToCurrentOrder(product);
+      });
+      act(() => {
+        result.current.parkCurrentOrder('Tavolo 4');
+      });
+      act(() => {
+        result.current.addToCurrentOrder(product);
+        result.current.addToCurrentOrder(product);
+      });
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+      act(() => {
+        result.current.resumeParkedOrder(result.current.parkedOrders[0].id);
+      });
+
+      let completion: CompleteOrderResult | undefined;
+      act(() => {
+        completion = result.current.completeOrder('cash');
+      });
+
+      expect(completion).toEqual({ success: false, error: 'stock' });
+      expect(result.current.orders).toHaveLength(1);
+      expect(result.current.products[0].stock).toBe(0);
+      expect(result.current.currentOrder[0].quantity).toBe(2);
+
+      consoleError.mockRestore();
+    });
+
+    it('should not add sold-out products', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const product = createMockProduct({ id: '1', stock: 0 });
+
+      act(() => {
+        result.current.addProduct(product);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(product);
+      });
+
+      expect(result.current.currentOrder).toHaveLength(0);
+    });
+
+    it('should restock a product and start tracking stock if needed', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(createMockProduct({ id: '1', stock: 2 }));
+        result.current.addProduct(createMockProduct({ id: '2' }));
+      });
+
+      act(() => {
+        result.current.restockProduct('1', 10);
+        result.current.restockProduct('2', 4);
+      });
+
+      expect(result.current.products[0].stock).toBe(12);
+      expect(result.current.products[1].stock).toBe(4);
+    });
+  });
+
+  describe('Modifiers', () => {
+    const ketchup = { groupId: 'salse', optionId: 'ketchup', name: 'Ketchup', priceDelta: 0 };
+    const cheese = { groupId: 'extra', optionId: 'formaggio', name: 'Formaggio', priceDelta: 50 };
+
+    it('should keep the same product with different modifiers on separate lines', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const product = createMockProduct({ id: '1', price: 500 });
+
+      act(() => {
+        result.current.addToCurrentOrder(product, { modifiers: [ketchup] });
+        result.current.addToCurrentOrder(product, { modifiers: [ketchup, cheese] });
+        result.current.addToCurrentOrder(product, { modifiers: [cheese, ketchup] });
+        result.current.addToCurrentOrder(product);
+      });
+
+      expect(result.current.currentOrder.map(item => item.quantity)).toEqual([1, 2, 1]);
+      expect(result.current.currentOrder[2].modifiers).toBeUndefined();
+
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+
+      expect(result.current.orders[0].total).toBe(500 + 2 * 550 + 500);
+      expect(result.current.orders[0].items[1].modifiers).toEqual([ketchup, cheese]);
+    });
+
+    it('should remove units and discount lines by line key', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const product = createMockProduct({ id: '1', price: 500 });
+
+      act(() => {
+        result.current.addToCurrentOrder(product);
+        result.current.addToCurrentOrder(product, { modifiers: [cheese] });
+      });
+
+      act(() => {
+        result.current.setItemDiscount('1:extra.formaggio', { type: 'fixed', value: 100, reason: 'Socio' });
+        result.current.removeFromCurrentOrder('1');
+      });
+
+      expect(result.current.currentOrder).toHaveLength(1);
+      expect(result.current.currentOrder[0].modifiers).toEqual([cheese]);
+      expect(result.current.currentOrder[0].discount?.value).toBe(100);
+    });
+
+    it('should count stock across every line of a product', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const product = createMockProduct({ id: '1', stock: 2 });
+
+      act(() => {
+        result.current.addProduct(product);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(product, { modifiers: [ketchup] });
+        result.current.addToCurrentOrder(product, { modifiers: [cheese] });
+        result.current.addToCurrentOrder(product);
+      });
+
+      expect(result.current.currentOrder).toHaveLength(2);
+    });
+  });
+
+  describe('Variants', () => {
+    const beer = createMockProduct({
+      id: '1',
+      price: 300,
+      variants: [
+        { id: 'piccola', name: 'Piccola', price: 300, stock: 1 },
+        { id: 'media', name: 'Media', price: 500 },
+      ],
+    });
+
+    it('should price lines by variant and keep variants on separate lines', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(beer, { variantId: 'media' });
+        result.current.addToCurrentOrder(beer, { variantId: 'piccola' });
+        result.current.addToCurrentOrder(beer, { variantId: 'media' });
+      });
+
+      expect(result.current.currentOrder.map(item => [item.variantId, item.quantity])).toEqual([
+        ['media', 2],
+        ['piccola', 1],
+      ]);
+
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+
+      expect(result.current.orders[0].total).toBe(1300);
+      expect(result.current.products[0].variants?.[0].stock).toBe(0);
+    });
+
+    it('should not add more of a variant than it has in stock', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(beer, { variantId: 'piccola' });
+        result.current.addToCurrentOrder(beer, { variantId: 'piccola' });
+      });
+
+      expect(result.current.currentOrder).toEqual([{ product: beer, quantity: 1, variantId: 'piccola' }]);
+    });
+
+    it('should drop lines for a variant removed from the product', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(beer, { variantId: 'piccola' });
+        result.current.addToCurrentOrder(beer, { variantId: 'media' });
+      });
+
+      act(() => {
+        result.current.updateProduct('1', { ...beer, variants: [beer.variants![1]] });
+      });
+
+      expect(result.current.currentOrder.map(item => item.variantId)).toEqual(['media']);
+    });
+  });
+
+  describe('Bundles', () => {
+    const burger = createMockProduct({ id: '1', name: 'Burger', price: 500, stock: 5 });
+    const cola = createMockProduct({ id: '2', name: 'Cola', price: 250, stock: 1, category: 'bibite' });
+    const menu = createMockProduct({
+      id: '3',
+      name: 'Menu',
+      price: 600,
+      bundleSlots: [
+        { id: 'panino', name: 'Panino', type: 'fixed', productId: '1' },
+        { id: 'bibita', name: 'Bibita', type: 'category', categoryId: 'bibite' },
+      ],
+    });
+    const components = [
+      { slotId: 'panino', product: burger },
+      { slotId: 'bibita', product: cola },
+    ];
+
+    it('should sell bundles at their own price and take components out of stock', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(burger);
+        result.current.addProduct(cola);
+        result.current.addProduct(menu);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(menu, { bundleComponents: components });
+      });
+
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+
+      expect(result.current.orders[0].total).toBe(600);
+      expect(result.current.products.map(p => p.stock)).toEqual([4, 0, undefined]);
+    });
+
+    it('should not add a bundle when a component is out of stock', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(burger);
+        result.current.addProduct(cola);
+        result.current.addProduct(menu);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(cola);
+        result.current.addToCurrentOrder(menu, { bundleComponents: components });
+      });
+
+      expect(result.current.currentOrder.map(item => item.product.id)).toEqual(['2']);
+    });
+
+    it('should drop bundle lines when a component is deleted', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(burger);
+        result.current.addProduct(cola);
+        result.current.addProduct(menu);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(menu, { bundleComponents: components });
+        result.current.addToCurrentOrder(burger);
+      });
+
+      act(() => {
+        result.current.deleteProduct('2');
+      });
+
+      expect(result.current.currentOrder.map(item => item.product.id)).toEqual(['1']);
+    });
+  });
+
+  describe('Pricing Rules', () => {
+    const beer = createMockProduct({ id: '1', name: 'Beer', price: 500, category: 'bevande' });
+    const burger = createMockProduct({ id: '2', name: 'Burger', price: 800, category: 'cibo' });
+    // A window open for the next hour, whenever the test runs
+    const minutes = new Date().getHours() * 60 + new Date().getMinutes();
+    const happyHour: PricingRule = {
+      id: 'hh',
+      name: 'Happy Hour',
+      enabled: true,
+      startTime: formatTimeOfDay(minutes),
+      endTime: formatTimeOfDay((minutes + 60) % 1440),
+      days: [],
+      categoryIds: ['bevande'],
+      productIds: [],
+      adjustment: { type: 'fixedPrice', value: 300 },
+    };
+
+    it('should price matching lines with the active rule and keep it on the order', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+        result.current.addProduct(burger);
+        result.current.addPricingRule(happyHour);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+        result.current.addToCurrentOrder(beer);
+        result.current.addToCurrentOrder(burger);
+      });
+
+      expect(result.current.currentOrder[0].pricingRule).toEqual({
+        ruleId: 'hh',
+        name: 'Happy Hour',
+        unitPrice: 300,
+      });
+      expect(result.current.currentOrder[1].pricingRule).toBeUndefined();
+
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+
+      expect(result.current.orders[0].total).toBe(1400);
+      expect(result.current.orders[0].items[0].pricingRule?.name).toBe('Happy Hour');
+    });
+
+    it('should re-price the order at checkout when a rule no longer applies', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+        result.current.addPricingRule(happyHour);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+      });
+
+      act(() => {
+        result.current.updatePricingRule('hh', { ...happyHour, enabled: false });
+      });
+
+      // Nothing is charged at a price the cashier wasn't shown
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      let outcome: CompleteOrderResult | undefined;
+      act(() => {
+        outcome = result.current.completeOrder([{ method: 'cash', amount: 300 }], 500);
+      });
+      consoleError.mockRestore();
+
+      expect(outcome).toEqual({ success: false, error: 'pricesChanged' });
+      expect(result.current.orders).toHaveLength(0);
+      expect(result.current.currentOrder[0].pricingRule).toBeUndefined();
+
+      act(() => {
+        result.current.completeOrder('cash', 500);
+      });
+
+      expect(result.current.orders[0].total).toBe(500);
+      expect(result.current.orders[0].items[0].pricingRule).toBeUndefined();
+      expect(result.current.orders[0].cashPaid).toBe(500);
+    });
+
+    it('should re-price the order being built on request', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+        result.current.addPricingRule(happyHour);
+      });
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+      });
+      const priced = result.current.currentOrder;
+
+      act(() => {
+        result.current.repriceCurrentOrder();
+      });
+      expect(result.current.currentOrder).toBe(priced);
+
+      act(() => {
+        result.current.updatePricingRule('hh', { ...happyHour, enabled: false });
+      });
+      act(() => {
+        result.current.repriceCurrentOrder();
+      });
+
+      expect(result.current.currentOrder[0].pricingRule).toBeUndefined();
+    });
+  });
+
+  describe('Promotions', () => {
+    const beer = createMockProduct({ id: '1', name: 'Beer', price: 500, category: 'bevande' });
+    const threeForTwo: Promotion = {
+      id: '3x2',
+      name: '3x2 Birre',
+      enabled: true,
+      categoryIds: ['bevande'],
+      productIds: [],
+      deal: { type: 'multiBuy', buy: 3, pay: 2 },
+    };
+
+    it('should apply promotions as the order changes and store them on the completed order', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+        result.current.addPromotion(threeForTwo);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+        result.current.addToCurrentOrder(beer);
+      });
+      expect(result.current.currentOrderPromotions).toEqual([]);
+
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+      });
+      expect(result.current.currentOrderPromotions).toEqual([
+        { promotionId: '3x2', name: '3x2 Birre', savings: 500 },
+      ]);
+
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+
+      expect(result.current.orders[0].total).toBe(1000);
+      expect(result.current.orders[0].promotions).toEqual([
+        { promotionId: '3x2', name: '3x2 Birre', savings: 500 },
+      ]);
+      expect(result.current.orders[0].discountTotal).toBeUndefined();
+    });
+
+    it('should stop applying a disabled promotion', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+        result.current.addPromotion(threeForTwo);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+        result.current.addToCurrentOrder(beer);
+        result.current.addToCurrentOrder(beer);
+      });
+
+      act(() => {
+        result.current.updatePromotion('3x2', { ...threeForTwo, enabled: false });
+      });
+      expect(result.current.currentOrderPromotions).toEqual([]);
+
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+
+      expect(result.current.orders[0].total).toBe(1500);
+      expect(result.current.orders[0].promotions).toBeUndefined();
+    });
+  });
+
+  describe('Deposits', () => {
+    const beer = createMockProduct({ id: '1', name: 'Beer', price: 500, deposit: 100 });
+
+    it('should charge deposits and take returned ones off the total', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+        result.current.addToCurrentOrder(beer);
+        result.current.addDepositReturn(100);
+      });
+      expect(result.current.currentOrderDepositReturns).toEqual([{ amount: 100, quantity: 1 }]);
+
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+
+      expect(result.current.orders[0].total).toBe(1100);
+      expect(result.current.orders[0].depositReturns).toEqual([{ amount: 100, quantity: 1 }]);
+      expect(result.current.currentOrderDepositReturns).toEqual([]);
+    });
+
+    it('should pay out returned deposits in cash when nothing is bought', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addDepositReturn(100);
+        result.current.addDepositReturn(100);
+        result.current.addDepositReturn(100);
+        result.current.removeDepositReturn(100);
+      });
+
+      act(() => {
+        result.current.completeOrder('card');
+      });
+
+      expect(result.current.orders[0].items).toEqual([]);
+      expect(result.current.orders[0].total).toBe(-200);
+      expect(result.current.orders[0].payments).toEqual([{ method: 'cash', amount: -200 }]);
+    });
+  });
+
+  describe('Tokens', () => {
+    const beer = createMockProduct({ id: '1', name: 'Beer', price: 500, tokenPrice: 2 });
+    const fries = createMockProduct({ id: '2', name: 'Fries', price: 300 });
+
+    it('should record the tokens redeemed when paying with tokens', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+        result.current.addToCurrentOrder(beer);
+      });
+
+      let outcome: CompleteOrderResult | undefined;
+      act(() => {
+        outcome = result.current.completeOrder('tokens');
+      });
+
+      expect(outcome).toEqual({ success: true, order: result.current.orders[0] });
+      expect(result.current.orders[0].tokensRedeemed).toBe(4);
+      expect(result.current.orders[0].payments).toEqual([{ method: 'tokens', amount: 1000 }]);
+    });
+
+    it('should not pay with tokens when a line has no token price', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+        result.current.addToCurrentOrder(fries);
+      });
+
+      let outcome: CompleteOrderResult | undefined;
+      act(() => {
+        outcome = result.current.completeOrder('tokens');
+      });
+
+      expect(outcome).toEqual({ success: false, error: 'tokens' });
+      expect(result.current.orders).toHaveLength(0);
+      expect(result.current.currentOrder).toHaveLength(2);
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('Refunds', () => {
+    const beer = createMockProduct({ id: '1', name: 'Beer', price: 500, stock: 10 });
+
+    it('should refund some units and then void the rest, keeping the order', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+      });
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+        result.current.addToCurrentOrder(beer);
+        result.current.addToCurrentOrder(beer);
+      });
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+      const orderId = result.current.orders[0].id;
+      expect(result.current.products[0].stock).toBe(7);
+
+      act(() => {
+        result.current.refundOrder(orderId, [{ itemIndex: 0, quantity: 1 }], 'Rovesciata');
+      });
+
+      expect(result.current.orders).toHaveLength(1);
+      expect(result.current.orders[0].refunds).toEqual([
+        expect.objectContaining({
+          type: 'partial',
+          reason: 'Rovesciata',
+          lines: [{ itemIndex: 0, quantity: 1 }],
+          amount: 500,
+        }),
+      ]);
+      expect(result.current.products[0].stock).toBe(8);
+
+      act(() => {
+        result.current.voidOrder(orderId, 'Cliente andato via');
+      });
+
+      expect(result.current.orders[0].refunds?.[1]).toEqual(
+        expect.objectContaining({ type: 'void', lines: [{ itemIndex: 0, quantity: 2 }], amount: 1000 })
+      );
+      expect(result.current.orders[0].total).toBe(1500);
+      expect(result.current.products[0].stock).toBe(10);
+    });
+
+    it('should ignore refunds without a reason or beyond what was sold', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+      });
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+      const orderId = result.current.orders[0].id;
+
+      act(() => {
+        result.current.refundOrder(orderId, [{ itemIndex: 0, quantity: 1 }], '  ');
+        result.current.refundOrder(orderId, [{ itemIndex: 0, quantity: 2 }], 'Errore');
+      });
+
+      expect(result.current.orders[0].refunds).toBeUndefined();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('Order Edits', () => {
+    const beer = createMockProduct({ id: '1', name: 'Beer', price: 500, stock: 10 });
+
+    it('should save an edited order in place and record the change', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+      });
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+        result.current.addToCurrentOrder(beer);
+      });
+      act(() => {
+        result.current.completeOrder('cash', 1000);
+      });
+      const { id, timestamp } = result.current.orders[0];
+
+      act(() => {
+        result.current.editOrder(id);
+      });
+
+      expect(result.current.editingOrderId).toBe(id);
+      expect(result.current.currentOrder[0].quantity).toBe(2);
+      expect(result.current.products[0].stock).toBe(10);
+
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+      });
+      act(() => {
+        result.current.completeOrder('cash', 2000);
+      });
+
+      expect(result.current.orders).toHaveLength(1);
+      expect(result.current.orders[0]).toEqual(
+        expect.objectContaining({ id, timestamp, total: 1500, cashPaid: 2000, change: 500 })
+      );
+      expect(result.current.orders[0].edits).toEqual([
+        expect.objectContaining({
+          changes: [{ name: 'Beer', before: 2, after: 3 }],
+          totalBefore: 1000,
+          totalAfter: 1500,
+          paymentsBefore: [{ method: 'cash', amount: 1000 }],
+        }),
+      ]);
+      expect(result.current.editingOrderId).toBeUndefined();
+      expect(result.current.products[0].stock).toBe(7);
+    });
+
+    it('should leave the order as it was when the edit is cancelled', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+      });
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+      });
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+      const order = result.current.orders[0];
+
+      act(() => {
+        result.current.editOrder(order.id);
+      });
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+      });
+      act(() => {
+        result.current.cancelOrderEdit();
+      });
+
+      expect(result.current.orders).toEqual([order]);
+      expect(result.current.currentOrder).toEqual([]);
+      expect(result.current.editingOrderId).toBeUndefined();
+      expect(result.current.products[0].stock).toBe(9);
+    });
+
+    it('should price lines added during an edit as at the time of the order', async () => {
+      const drink = createMockProduct({ id: '1', name: 'Beer', price: 500, category: 'bevande' });
+      const placedAt = new Date(Date.now() - 3 * 60 * 60 * 1000);
+      const minutes = new Date().getHours() * 60 + new Date().getMinutes();
+      // On now, but not when the order was placed
+      const happyHour: PricingRule = {
+        id: 'hh',
+        name: 'Happy Hour',
+        enabled: true,
+        startTime: formatTimeOfDay(minutes),
+        endTime: formatTimeOfDay((minutes + 60) % 1440),
+        days: [],
+        categoryIds: ['bevande'],
+        productIds: [],
+        adjustment: { type: 'fixedPrice', value: 300 },
+      };
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_schema_version') {
+          return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+        }
+        if (key === '@party_kiosk_products') {
+          return Promise.resolve(JSON.stringify([drink]));
+        }
+        if (key === '@party_kiosk_pricing_rules') {
+          return Promise.resolve(JSON.stringify([happyHour]));
+        }
+        if (key === '@party_kiosk_orders') {
+          return Promise.resolve(JSON.stringify([
+            { id: 'o1', items: [{ product: drink, quantity: 1 }], total: 500, timestamp: placedAt.toISOString() },
+          ]));
+        }
+        return Promise.resolve(null);
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.editOrder('o1');
+      });
+      act(() => {
+        result.current.addToCurrentOrder(result.current.products[0]);
+      });
+
+      expect(result.current.currentOrder[0]).toEqual(expect.objectContaining({ quantity: 2 }));
+      expect(result.current.currentOrder[0].pricingRule).toBeUndefined();
+    });
+
+    it('should keep the sold price of the edited order when the product changes', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+      });
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+      });
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+      const { id } = result.current.orders[0];
+
+      act(() => {
+        result.current.editOrder(id);
+      });
+      act(() => {
+        result.current.updateProduct('1', { ...result.current.products[0], price: 1000 });
+      });
+
+      expect(result.current.currentOrder[0].product.price).toBe(500);
+
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+
+      expect(result.current.orders[0].total).toBe(500);
+      expect(result.current.orders[0].edits?.[0]).toEqual(
+        expect.objectContaining({ changes: [], totalBefore: 500, totalAfter: 500 })
+      );
+    });
+
+    it('should keep the sold price of the edited order when it is restored on load', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_schema_version') {
+          return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+        }
+        if (key === '@party_kiosk_products') {
+          return Promise.resolve(JSON.stringify([{ ...beer, price: 1000 }]));
+        }
+        if (key === '@party_kiosk_orders') {
+          return Promise.resolve(JSON.stringify([
+            { id: 'o1', items: [{ product: beer, quantity: 1 }], total: 500, timestamp: new Date().toISOString() },
+          ]));
+        }
+        if (key === '@party_kiosk_current_order') {
+          return Promise.resolve(JSON.stringify({ items: [{ product: beer, quantity: 1 }], editingOrderId: 'o1' }));
+        }
+        return Promise.resolve(null);
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.editingOrderId).toBe('o1');
+      expect(result.current.currentOrder[0].product.price).toBe(500);
+    });
+  });
+
+  describe('Audit Log', () => {
+    const beer = createMockProduct({ id: '1', name: 'Beer', price: 500 });
+
+    it('should record who changed what, keeping the log when the event is closed', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.setOperator('  Giulia ');
+      });
+      act(() => {
+        result.current.addProduct(beer);
+      });
+      act(() => {
+        result.current.updateProduct('1', { ...beer, price: 600 });
+      });
+      act(() => {
+        result.current.addToCurrentOrder(result.current.products[0]);
+      });
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+      const order = result.current.orders[0];
+      act(() => {
+        result.current.voidOrder(order.id, 'Ordine sbagliato');
+      });
+      act(() => {
+        result.current.addToCurrentOrder(result.current.products[0]);
+      });
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+      await act(async () => {
+        await result.current.closeSession('Sagra');
+      });
+
+      expect(result.current.operator).toBe('Giulia');
+      expect(result.current.auditLog.map(entry => entry.action)).toEqual([
+        'setOperator',
+        'addProduct',
+        'updateProduct',
+        'addToCurrentOrder',
+        'completeOrder',
+        'voidOrder',
+        'addToCurrentOrder',
+        'completeOrder',
+        'closeSession',
+      ]);
+      expect(result.current.auditLog[0]).toEqual(
+        expect.objectContaining({ after: 'Giulia', before: undefined })
+      );
+      expect(result.current.auditLog[0].actor).toBeUndefined();
+      expect(result.current.auditLog[2]).toEqual(
+        expect.objectContaining({
+          actor: 'Giulia',
+          targetId: '1',
+          before: expect.objectContaining({ price: 500 }),
+          after: expect.objectContaining({ price: 600 }),
+        })
+      );
+      expect(result.current.auditLog[5]).toEqual(
+        expect.objectContaining({ targetId: order.id, before: order })
+      );
+    });
+
+    it('should load the stored log and quarantine invalid entries', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_schema_version') {
+          return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+        }
+        if (key === '@party_kiosk_audit_log') {
+          return Promise.resolve(JSON.stringify([
+            { id: 'a1', timestamp: '2026-06-01T21:00:00.000Z', actor: 'Marco', action: 'deleteOrder', targetId: 'o1' },
+            { id: 'a2', timestamp: '2026-06-01T21:05:00.000Z', action: 'hackTheTill' },
+          ]));
+        }
+        if (key === '@party_kiosk_operator') {
+          return Promise.resolve(JSON.stringify('Marco'));
+        }
+        return Promise.resolve(null);
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.operator).toBe('Marco');
+      expect(result.current.auditLog).toHaveLength(1);
+      expect(result.current.auditLog[0].timestamp).toEqual(new Date('2026-06-01T21:00:00.000Z'));
+      expect(result.current.quarantine).toHaveLength(1);
+      expect(result.current.quarantine[0].kind).toBe('auditEntry');
+    });
+
+    it('should record each action once when several fire in the same event under StrictMode', async () => {
+      const strictWrapper = ({ children }: { children: React.ReactNode }) => (
+        <React.StrictMode>
+          <AppProvider>{children}</AppProvider>
+        </React.StrictMode>
+      );
+      const { result } = renderHook(() => useApp(), { wrapper: strictWrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+      });
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+        result.current.addToCurrentOrder(beer);
+        result.current.addDepositReturn(100);
+      });
+
+      expect(result.current.currentOrder[0].quantity).toBe(2);
+      expect(result.current.auditLog.map(entry => entry.action)).toEqual([
+        'addProduct',
+        'addToCurrentOrder',
+        'addToCurrentOrder',
+        'addDepositReturn',
+      ]);
+    });
+
+    it('should roll the oldest entries over to an archive key once the log is full', async () => {
+      const stored = Array.from({ length: APP_CONSTANTS.AUDIT_LOG_SIZE + 1 }, (_, index) => ({
+        id: `a${index}`,
+        timestamp: '2026-06-01T21:00:00.000Z',
+        action: 'addProduct',
+      }));
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_schema_version') {
+          return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+        }
+        if (key === '@party_kiosk_audit_log') {
+          return Promise.resolve(JSON.stringify(stored));
+        }
+        return Promise.resolve(null);
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.auditLog).toHaveLength(APP_CONSTANTS.AUDIT_LOG_SIZE - APP_CONSTANTS.AUDIT_LOG_ROLLOVER);
+      });
+
+      const archived = (AsyncStorage.setItem as jest.Mock).mock.calls.find(
+        ([key]) => key === '@party_kiosk_audit_log_archive_a0'
+      );
+      expect(JSON.parse(archived[1])).toHaveLength(APP_CONSTANTS.AUDIT_LOG_ROLLOVER + 1);
+      expect(result.current.auditLog[0].id).toBe(`a${APP_CONSTANTS.AUDIT_LOG_ROLLOVER + 1}`);
+      expect(result.current.auditArchive).toHaveLength(APP_CONSTANTS.AUDIT_LOG_ROLLOVER + 1);
+      expect(result.current.auditArchive[0].id).toBe('a0');
+    });
+
+    it('should load rolled-over entries from the archive keys, oldest first', async () => {
+      const archives: { [key: string]: unknown[] } = {
+        '@party_kiosk_audit_log_archive_b0': [
+          { id: 'b0', timestamp: '2026-06-01T20:00:00.000Z', action: 'addProduct' },
+        ],
+        '@party_kiosk_audit_log_archive_a0': [
+          { id: 'a0', timestamp: '2026-06-01T19:00:00.000Z', action: 'addProduct' },
+          { id: 'a1', timestamp: '2026-06-01T19:05:00.000Z', action: 'hackTheTill' },
+        ],
+      };
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      (AsyncStorage.getAllKeys as jest.Mock).mockResolvedValueOnce(['@party_kiosk_products', ...Object.keys(archives)]);
+      (AsyncStorage.multiGet as jest.Mock).mockImplementationOnce((keys: string[]) =>
+        Promise.resolve(keys.map(key => [key, JSON.stringify(archives[key])]))
+      );
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(AsyncStorage.multiGet).toHaveBeenCalledWith(Object.keys(archives));
+      expect(result.current.auditArchive.map(entry => entry.id)).toEqual(['a0', 'b0']);
+      expect(result.current.auditArchive[0].timestamp).toBeInstanceOf(Date);
+      expect(result.current.loadFailed).toBe(false);
+
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('Undo/Redo', () => {
+    const beer = createMockProduct({ id: '1', name: 'Beer', price: 500, stock: 10 });
+    const burger = createMockProduct({ id: '2', name: 'Burger', price: 800 });
+
+    it('should undo and redo changes to the order being built', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+      });
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+      });
+      act(() => {
+        result.current.addToCurrentOrder(beer);
+      });
+      act(() => {
+        result.current.setOrderDiscount({ type: 'percentage', value: 10, reason: 'Socio' });
+      });
+      act(() => {
+        result.current.clearCurrentOrder();
+      });
+
+      expect(result.current.undoSteps.currentOrder?.action).toBe('clearCurrentOrder');
+
+      act(() => {
+        result.current.undo('currentOrder');
+      });
+      expect(result.current.currentOrder[0].quantity).toBe(2);
+      expect(result.current.currentOrderDiscount?.reason).toBe('Socio');
+
+      act(() => {
+        result.current.undo('currentOrder');
+      });
+      act(() => {
+        result.current.undo('currentOrder');
+      });
+      expect(result.current.currentOrder[0].quantity).toBe(1);
+      expect(result.current.currentOrderDiscount).toBeUndefined();
+      expect(result.current.redoSteps.currentOrder?.action).toBe('addToCurrentOrder');
+
+      act(() => {
+        result.current.redo('currentOrder');
+      });
+      expect(result.current.currentOrder[0].quantity).toBe(2);
+
+      // A new change can't be redone over
+      act(() => {
+        result.current.removeFromCurrentOrder(result.current.currentOrder[0].product.id);
+      });
+      expect(result.current.redoSteps.currentOrder).toBeUndefined();
+      expect(result.current.auditLog.map(entry => entry.action)).toContain('undoOrderChange');
+    });
+
+    it('should bring a deleted product back in place', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+      });
+      act(() => {
+        result.current.addProduct(burger);
+      });
+      act(() => {
+        result.current.deleteProduct('1');
+      });
+      act(() => {
+        result.current.undo('products');
+      });
+
+      expect(result.current.products.map(p => p.id)).toEqual(['1', '2']);
+
+      act(() => {
+        result.current.redo('products');
+      });
+      expect(result.current.products.map(p => p.id)).toEqual(['2']);
+    });
+
+    it('should not undo a product edit once the product has been sold', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+      });
+      act(() => {
+        result.current.updateProduct('1', { ...beer, price: 600 });
+      });
+      act(() => {
+        result.current.addToCurrentOrder(result.current.products[0]);
+      });
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+
+      expect(result.current.undoSteps.products).toBeUndefined();
+      act(() => {
+        result.current.undo('products');
+      });
+      expect(result.current.products[0]).toEqual(expect.objectContaining({ price: 600, stock: 9 }));
+    });
+
+    it('should undo changes fired in the same event one step at a time', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+      });
+      act(() => {
+        result.current.addToCurrentOrder(result.current.products[0]);
+        result.current.addToCurrentOrder(result.current.products[0]);
+      });
+      act(() => {
+        result.current.undo('currentOrder');
+      });
+      expect(result.current.currentOrder[0].quantity).toBe(1);
+
+      act(() => {
+        result.current.undo('currentOrder');
+      });
+      expect(result.current.currentOrder).toHaveLength(0);
+      expect(result.current.undoSteps.currentOrder).toBeUndefined();
+    });
+
+    it('should keep order changes undoable when a product not in the order is edited', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+        result.current.addProduct(burger);
+      });
+      act(() => {
+        result.current.addToCurrentOrder(result.current.products[0]);
+      });
+      act(() => {
+        result.current.updateProduct('2', { ...burger, price: 900 });
+      });
+
+      expect(result.current.undoSteps.currentOrder?.action).toBe('addToCurrentOrder');
+    });
+
+    it('should not undo over a change made outside the history', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct(beer);
+      });
+      act(() => {
+        result.current.addToCurrentOrder(result.current.products[0]);
+      });
+      act(() => {
+        result.current.parkCurrentOrder('Tavolo 1');
+      });
+      act(() => {
+        result.current.resumeParkedOrder(result.current.parkedOrders[0].id);
+      });
+
+      expect(result.current.undoSteps.currentOrder).toBeUndefined();
+      act(() => {
+        result.current.undo('currentOrder');
+      });
+      expect(result.current.currentOrder[0].quantity).toBe(1);
+    });
+
+    it('should keep a bounded history', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addProduct({ ...beer, stock: undefined });
+      });
+      for (let i = 0; i < 35; i++) {
+        act(() => {
+          result.current.addToCurrentOrder(result.current.products[0]);
+        });
+      }
+      for (let i = 0; i < 35; i++) {
+        act(() => {
+          result.current.undo('currentOrder');
+        });
+      }
+
+      expect(result.current.currentOrder[0].quantity).toBe(5);
+      expect(result.current.undoSteps.currentOrder).toBeUndefined();
+    });
+  });
+
+  describe('Current Order Persistence', () => {
+    it('should restore the current order against the latest products', async () => {
+      const burger = createMockProduct({ id: '1', name: 'Burger', price: 500 });
+      const fries = createMockProduct({ id: '2', name: 'Fries', price: 300 });
+
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_schema_version') {
+          return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+        }
+        if (key === '@party_kiosk_products') {
+          return Promise.resolve(JSON.stringify([{ ...burger, price: 550 }]));
+        }
+        if (key === '@party_kiosk_current_order') {
+          return Promise.resolve(JSON.stringify({
+            items: [
+              { product: burger, quantity: 2 },
+              { product: fries, quantity: 1 },
+            ],
+            discount: { type: 'percentage', value: 10, reason: 'Socio' },
+          }));
+        }
+        return Promise.resolve(null);
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.currentOrder).toHaveLength(1);
+      expect(result.current.currentOrder[0].product.price).toBe(550);
+      expect(result.current.currentOrder[0].quantity).toBe(2);
+      expect(result.current.currentOrderDiscount?.reason).toBe('Socio');
+    });
+
+    it('should quarantine an invalid stored current order', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_current_order') {
+          return Promise.resolve(JSON.stringify({ items: [{ product: {}, quantity: 0 }] }));
+        }
+        return Promise.resolve(null);
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.currentOrder).toHaveLength(0);
+      expect(result.current.quarantine).toHaveLength(1);
+      expect(result.current.quarantine[0].kind).toBe('currentOrder');
+    });
+
+    it('should save the current order to storage', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(createMockProduct({ id: 'saved-product' }));
+      });
+
+      await waitFor(() => {
+        expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+          '@party_kiosk_current_order',
+          expect.stringContaining('saved-product')
+        );
+      });
+    });
+
+    it('should update and remove lines when their product is edited or deleted', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const burger = createMockProduct({ id: '1', price: 500 });
+      const fries = createMockProduct({ id: '2', price: 300 });
+
+      act(() => {
+        result.current.addProduct(burger);
+        result.current.addProduct(fries);
+        result.current.addToCurrentOrder(burger);
+        result.current.addToCurrentOrder(fries);
+      });
+
+      act(() => {
+        result.current.updateProduct('1', { ...burger, price: 600 });
+        result.current.deleteProduct('2');
+      });
+
+      expect(result.current.currentOrder).toHaveLength(1);
+      expect(result.current.currentOrder[0].product.price).toBe(600);
+    });
+  });
+
+  describe('Parked Orders', () => {
+    it('should park the current order under a name and start a new one', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(createMockProduct({ id: '1' }));
+        result.current.setOrderDiscount({ type: 'percentage', value: 10, reason: 'Socio' });
+      });
+
+      act(() => {
+        result.current.parkCurrentOrder(' Tavolo 4 ');
+      });
+
+      expect(result.current.currentOrder).toHaveLength(0);
+      expect(result.current.currentOrderDiscount).toBeUndefined();
+      expect(result.current.parkedOrders).toHaveLength(1);
+      expect(result.current.parkedOrders[0].name).toBe('Tavolo 4');
+      expect(result.current.parkedOrders[0].discount?.reason).toBe('Socio');
+    });
+
+    it('should not park an empty order', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.parkCurrentOrder('Mario');
+      });
+
+      expect(result.current.parkedOrders).toHaveLength(0);
+    });
+
+    it('should resume a parked order into the current order', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const product = createMockProduct({ id: '1' });
+
+      act(() => {
+        result.current.addProduct(product);
+        result.current.addToCurrentOrder(product);
+        result.current.addToCurrentOrder(product);
+        result.current.setOrderDiscount({ type: 'fixed', value: 100, reason: 'Coupon' });
+      });
+
+      act(() => {
+        result.current.parkCurrentOrder('Mario');
+      });
+
+      act(() => {
+        result.current.resumeParkedOrder(result.current.parkedOrders[0].id);
+      });
+
+      expect(result.current.parkedOrders).toHaveLength(0);
+      expect(result.current.currentOrder[0].quantity).toBe(2);
+      expect(result.current.currentOrderDiscount?.reason).toBe('Coupon');
+    });
+
+    it('should not resume a parked order over pending deposit returns or an order edit', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const product = createMockProduct({ id: '1', price: 500 });
+
+      act(() => {
+        result.current.addProduct(product);
+        result.current.addToCurrentOrder(product);
+      });
+      act(() => {
+        result.current.parkCurrentOrder('Mario');
+      });
+      const parkedId = result.current.parkedOrders[0].id;
+
+      act(() => {
+        result.current.addDepositReturn(100);
+      });
+      act(() => {
+        result.current.resumeParkedOrder(parkedId);
+      });
+
+      expect(result.current.parkedOrders).toHaveLength(1);
+      expect(result.current.currentOrderDepositReturns).toEqual([{ amount: 100, quantity: 1 }]);
+
+      act(() => {
+        result.current.clearCurrentOrder();
+      });
+      act(() => {
+        result.current.addToCurrentOrder(product);
+      });
+      act(() => {
+        result.current.completeOrder('cash');
+      });
+      act(() => {
+        result.current.editOrder(result.current.orders[0].id);
+      });
+      act(() => {
+        result.current.removeFromCurrentOrder('1');
+      });
+      act(() => {
+        result.current.resumeParkedOrder(parkedId);
+      });
+
+      expect(result.current.parkedOrders).toHaveLength(1);
+      expect(result.current.editingOrderId).toBe(result.current.orders[0].id);
+      expect(result.current.currentOrder).toHaveLength(0);
+
+      consoleError.mockRestore();
+    });
+
+    it('should delete a parked order', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(createMockProduct());
+      });
+
+      act(() => {
+        result.current.parkCurrentOrder('Mario');
+      });
+
+      act(() => {
+        result.current.deleteParkedOrder(result.current.parkedOrders[0].id);
+      });
+
+      expect(result.current.parkedOrders).toHaveLength(0);
+    });
+
+    it('should load parked orders and quarantine invalid ones', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_parked_orders') {
+          return Promise.resolve(JSON.stringify([
+            {
+              id: 'p1',
+              name: 'Tavolo 4',
+              items: [{ product: createMockProduct(), quantity: 1 }],
+              parkedAt: new Date().toISOString(),
+            },
+            { id: 'p2', name: '', items: [], parkedAt: new Date().toISOString() },
+          ]));
+        }
+        return Promise.resolve(null);
+      });
+
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.parkedOrders).toHaveLength(1);
+      expect(result.current.parkedOrders[0].parkedAt).toBeInstanceOf(Date);
+      expect(result.current.quarantine).toHaveLength(1);
+      expect(result.current.quarantine[0].kind).toBe('parkedOrder');
+    });
+
+    it('should save parked orders to storage', async () => {
+      const { result } = renderHook(() => useApp(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      act(() => {
+        result.current.addToCurrentOrder(createMockProduct());
+      });
+
+      act(() => {
+        result.current.parkCurrentOrder('Mario');
+      });
+
+      await waitFor(() => {
+        expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+          '@party_kiosk_parked_orders',
+          expect.stringContaining('Mario')
+        );
+      });
+    });
+  });
+
+  describe('Order Completion', () => {
+    describe('completeOrder', () => {
+      it('should create an order from current order items', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product = createMockProduct({ id: '1', price: 500 });
+
+        act(() => {
+          result.current.addToCurrentOrder(product);
+          result.current.addToCurrentOrder(product);
+        });
+
+        act(() => {
+          result.current.completeOrder('cash');
+        });
+
+        expect(result.current.orders).toHaveLength(1);
+        expect(result.current.orders[0].items).toHaveLength(1);
+        expect(result.current.orders[0].total).toBe(1000);
+      });
+
+      it('should calculate total correctly', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product1 = createMockProduct({ id: '1', price: 500 });
+        const product2 = createMockProduct({ id: '2', price: 350 });
+
+        act(() => {
+          result.current.addToCurrentOrder(product1);
+          result.current.addToCurrentOrder(product1);
+          result.current.addToCurrentOrder(product2);
+        });
+
+        act(() => {
+          result.current.completeOrder('cash');
+        });
+
+        expect(result.current.orders[0].total).toBe(1350); // (500*2) + (350*1)
+      });
+
+      it('should handle cash payment and calculate change', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product = createMockProduct({ price: 1000 });
+
+        act(() => {
+          result.current.addToCurrentOrder(product);
+        });
+
+        act(() => {
+          result.current.completeOrder('cash', 2000);
+        });
+
+        expect(result.current.orders[0].cashPaid).toBe(2000);
+        expect(result.current.orders[0].change).toBe(1000);
+      });
+
+      it('should handle exact cash payment', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product = createMockProduct({ price: 1500 });
+
+        act(() => {
+          result.current.addToCurrentOrder(product);
+        });
+
+        act(() => {
+          result.current.completeOrder('cash', 1500);
+        });
+
+        expect(result.current.orders[0].cashPaid).toBe(1500);
+        expect(result.current.orders[0].change).toBe(0);
+      });
+
+      it('should record the payment method', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        act(() => {
+          result.current.addToCurrentOrder(createMockProduct());
+        });
+
+        act(() => {
+          result.current.completeOrder('satispay');
+        });
+
+        expect(result.current.orders[0].payments).toEqual([{ method: 'satispay', amount: 500 }]);
+      });
+
+      it('should split payment across several legs with change on the cash leg', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        act(() => {
+          result.current.addToCurrentOrder(createMockProduct({ price: 1000 }));
+        });
+
+        act(() => {
+          result.current.completeOrder(
+            [
+              { method: 'card', amount: 600 },
+              { method: 'cash', amount: 400 },
+            ],
+            500
+          );
+        });
+
+        expect(result.current.orders[0].payments).toHaveLength(2);
+        expect(result.current.orders[0].cashPaid).toBe(500);
+        expect(result.current.orders[0].change).toBe(100);
+      });
+
+      it('should not complete an order whose payments do not add up to the total', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation();
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        act(() => {
+          result.current.addToCurrentOrder(createMockProduct({ price: 1000 }));
+        });
+
+        let outcome: CompleteOrderResult | undefined;
+        act(() => {
+          outcome = result.current.completeOrder([{ method: 'card', amount: 600 }]);
+        });
+
+        expect(outcome).toEqual({ success: false, error: 'payments' });
+        expect(result.current.orders).toHaveLength(0);
+        expect(result.current.currentOrder).toHaveLength(1);
+        consoleError.mockRestore();
+      });
+
+      it('should report an empty order without saving it', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        let outcome: CompleteOrderResult | undefined;
+        act(() => {
+          outcome = result.current.completeOrder('cash');
+        });
+
+        expect(outcome).toEqual({ success: false, error: 'empty' });
+        expect(result.current.orders).toHaveLength(0);
+      });
+
+      it('should ignore cash paid for non-cash methods', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        act(() => {
+          result.current.addToCurrentOrder(createMockProduct({ price: 1000 }));
+        });
+
+        act(() => {
+          result.current.completeOrder('card', 2000);
+        });
+
+        expect(result.current.orders[0].payments).toEqual([{ method: 'card', amount: 1000 }]);
+        expect(result.current.orders[0].cashPaid).toBeUndefined();
+        expect(result.current.orders[0].change).toBeUndefined();
+      });
+
+      it('should clear current order after completion', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product = createMockProduct();
+
+        act(() => {
+          result.current.addToCurrentOrder(product);
+        });
+
+        expect(result.current.currentOrder).toHaveLength(1);
+
+        act(() => {
+          result.current.completeOrder('cash');
+        });
+
+        expect(result.current.currentOrder).toHaveLength(0);
+      });
+
+      it('should add new orders to the beginning of the list', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product1 = createMockProduct({ id: '1' });
+        const product2 = createMockProduct({ id: '2' });
+
+        act(() => {
+          result.current.addToCurrentOrder(product1);
+        });
+
+        act(() => {
+          result.current.completeOrder('cash');
+        });
+
+        act(() => {
+          result.current.addToCurrentOrder(product2);
+        });
+
+        act(() => {
+          result.current.completeOrder('cash');
+        });
+
+        expect(result.current.orders).toHaveLength(2);
+        expect(result.current.orders[0].items[0].product.id).toBe('2');
+        expect(result.current.orders[1].items[0].product.id).toBe('1');
+      });
+
+      it('should not create order when current order is empty', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        act(() => {
+          result.current.completeOrder('cash');
+        });
+
+        expect(result.current.orders).toHaveLength(0);
+      });
+
+      it('should generate unique order IDs', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product = createMockProduct();
+
+        act(() => {
+          result.current.addToCurrentOrder(product);
+        });
+
+        act(() => {
+          result.current.completeOrder('cash');
+        });
+
+        act(() => {
+          result.current.addToCurrentOrder(product);
+        });
+
+        act(() => {
+          result.current.completeOrder('cash');
+        });
+
+        expect(result.current.orders[0].id).not.toBe(result.current.orders[1].id);
+      });
+
+      it('should set timestamp to current date', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
+        });
+
+        const product = createMockProduct();
+        const beforeTime = new Date();
+
+        act(() => {
+          result.current.addToCurrentOrder(product);
+        });
 
         act(() => {
-          result.current.removeFromCurrentOrder('1');
+          result.current.completeOrder('cash');
         });
 
-        expect(result.current.currentOrder[0].quantity).toBe(2);
+        const afterTime = new Date();
+
+        expect(result.current.orders[0].timestamp).toBeInstanceOf(Date);
+        expect(result.current.orders[0].timestamp.getTime()).toBeGreaterThanOrEqual(beforeTime.getTime());
+        expect(result.current.orders[0].timestamp.getTime()).toBeLessThanOrEqual(afterTime.getTime());
       });
+    });
 
-      it('should remove item completely when quantity is 1', async () => {
+    describe('discounts', () => {
+      it('should apply line and order discounts to the total', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product = createMockProduct({ id: '1' });
-
         act(() => {
-          result.current.addToCurrentOrder(product);
+          result.current.addToCurrentOrder(createMockProduct({ id: '1', price: 1000 }));
+          result.current.addToCurrentOrder(createMockProduct({ id: '2', price: 500 }));
         });
 
-        expect(result.current.currentOrder).toHaveLength(1);
+        act(() => {
+          result.current.setItemDiscount('1', { type: 'percentage', value: 10, reason: 'Socio' });
+          result.current.setOrderDiscount({ type: 'fixed', value: 200, reason: 'Coupon' });
+        });
 
         act(() => {
-          result.current.removeFromCurrentOrder('1');
+          result.current.completeOrder('cash');
         });
 
-        expect(result.current.currentOrder).toHaveLength(0);
+        const order = result.current.orders[0];
+        expect(order.total).toBe(1200);
+        expect(order.discountTotal).toBe(300);
+        expect(order.discount).toEqual({ type: 'fixed', value: 200, reason: 'Coupon' });
+        expect(order.items[0].discount?.reason).toBe('Socio');
+        expect(order.payments).toEqual([{ method: 'cash', amount: 1200 }]);
+        expect(result.current.currentOrderDiscount).toBeUndefined();
       });
 
-      it('should only affect the specified product', async () => {
+      it('should remove a line discount', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product1 = createMockProduct({ id: '1' });
-        const product2 = createMockProduct({ id: '2' });
+        act(() => {
+          result.current.addToCurrentOrder(createMockProduct({ id: '1' }));
+        });
 
         act(() => {
-          result.current.addToCurrentOrder(product1);
-          result.current.addToCurrentOrder(product2);
-          result.current.addToCurrentOrder(product2);
+          result.current.setItemDiscount('1', { type: 'fixed', value: 100, reason: 'Volontario' });
         });
 
+        expect(result.current.currentOrder[0].discount).toBeDefined();
+
         act(() => {
-          result.current.removeFromCurrentOrder('2');
+          result.current.setItemDiscount('1', undefined);
         });
 
-        expect(result.current.currentOrder).toHaveLength(2);
-        expect(result.current.currentOrder.find(item => item.product.id === '1')?.quantity).toBe(1);
-        expect(result.current.currentOrder.find(item => item.product.id === '2')?.quantity).toBe(1);
+        expect(result.current.currentOrder[0]).not.toHaveProperty('discount');
       });
 
-      it('should handle removing non-existent product gracefully', async () => {
+      it('should complete a fully discounted order without payment legs', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product = createMockProduct({ id: '1' });
+        act(() => {
+          result.current.addToCurrentOrder(createMockProduct({ price: 500 }));
+        });
 
         act(() => {
-          result.current.addToCurrentOrder(product);
+          result.current.setOrderDiscount({ type: 'percentage', value: 100, reason: 'Staff' });
         });
 
         act(() => {
-          result.current.removeFromCurrentOrder('non-existent');
+          result.current.completeOrder('cash');
         });
 
-        expect(result.current.currentOrder).toHaveLength(1);
+        expect(result.current.orders[0].total).toBe(0);
+        expect(result.current.orders[0].discountTotal).toBe(500);
+        expect(result.current.orders[0].payments).toBeUndefined();
       });
-    });
 
-    describe('clearCurrentOrder', () => {
-      it('should clear all items from current order', async () => {
+      it('should not record discount fields when nothing was discounted', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product1 = createMockProduct({ id: '1' });
-        const product2 = createMockProduct({ id: '2' });
-
         act(() => {
-          result.current.addToCurrentOrder(product1);
-          result.current.addToCurrentOrder(product2);
+          result.current.addToCurrentOrder(createMockProduct({ price: 500 }));
         });
 
-        expect(result.current.currentOrder).toHaveLength(2);
-
         act(() => {
-          result.current.clearCurrentOrder();
+          result.current.completeOrder('cash');
         });
 
-        expect(result.current.currentOrder).toHaveLength(0);
+        expect(result.current.orders[0]).not.toHaveProperty('discount');
+        expect(result.current.orders[0]).not.toHaveProperty('discountTotal');
       });
 
-      it('should handle clearing empty order', async () => {
+      it('should clear the order discount with the current order', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
+        act(() => {
+          result.current.addToCurrentOrder(createMockProduct());
+          result.current.setOrderDiscount({ type: 'percentage', value: 10, reason: 'Socio' });
+        });
+
         act(() => {
           result.current.clearCurrentOrder();
         });
 
-        expect(result.current.currentOrder).toHaveLength(0);
+        expect(result.current.currentOrderDiscount).toBeUndefined();
       });
     });
-  });
 
-  describe('Order Completion', () => {
-    describe('completeOrder', () => {
-      it('should create an order from current order items', async () => {
+    describe('voidOrder', () => {
+      it('should keep a voided order in history', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product = createMockProduct({ id: '1', price: 5.0 });
+        const product = createMockProduct();
 
         act(() => {
           result.current.addToCurrentOrder(product);
-          result.current.addToCurrentOrder(product);
         });
 
         act(() => {
-          result.current.completeOrder();
+          result.current.completeOrder('cash');
+        });
+
+        const orderId = result.current.orders[0].id;
+
+        act(() => {
+          result.current.voidOrder(orderId, 'Ordine sbagliato');
         });
 
         expect(result.current.orders).toHaveLength(1);
-        expect(result.current.orders[0].items).toHaveLength(1);
-        expect(result.current.orders[0].total).toBe(10.0);
+        expect(result.current.orders[0].refunds).toEqual([
+          expect.objectContaining({ type: 'void', reason: 'Ordine sbagliato' }),
+        ]);
       });
 
-      it('should calculate total correctly', async () => {
+      it('should only void the specified order', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product1 = createMockProduct({ id: '1', price: 5.0 });
-        const product2 = createMockProduct({ id: '2', price: 3.5 });
+        const product = createMockProduct();
 
         act(() => {
-          result.current.addToCurrentOrder(product1);
-          result.current.addToCurrentOrder(product1);
-          result.current.addToCurrentOrder(product2);
+          result.current.addToCurrentOrder(product);
+          result.current.completeOrder('cash');
+          result.current.addToCurrentOrder(product);
+          result.current.completeOrder('cash');
+          result.current.addToCurrentOrder(product);
+          result.current.completeOrder('cash');
         });
 
+        const orderIdToVoid = result.current.orders[1].id;
+
         act(() => {
-          result.current.completeOrder();
+          result.current.voidOrder(orderIdToVoid, 'Ordine sbagliato');
         });
 
-        expect(result.current.orders[0].total).toBe(13.5); // (5*2) + (3.5*1)
+        expect(result.current.orders).toHaveLength(3);
+        expect(result.current.orders.filter(o => o.refunds)).toEqual([
+          expect.objectContaining({ id: orderIdToVoid }),
+        ]);
       });
+    });
+  });
 
-      it('should handle cash payment and calculate change', async () => {
+  describe('Session Management', () => {
+    describe('closeSession', () => {
+      it('should move all orders into a named archived session', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product = createMockProduct({ price: 10.0 });
+        const product = createMockProduct();
 
         act(() => {
           result.current.addToCurrentOrder(product);
+          result.current.completeOrder('cash');
+          result.current.addToCurrentOrder(product);
+          result.current.completeOrder('cash');
         });
 
-        act(() => {
-          result.current.completeOrder(20.0);
+        expect(result.current.orders).toHaveLength(2);
+        const orders = result.current.orders;
+
+        let closed: boolean | undefined;
+        await act(async () => {
+          closed = await result.current.closeSession('  Sagra  ');
         });
 
-        expect(result.current.orders[0].cashPaid).toBe(20.0);
-        expect(result.current.orders[0].change).toBe(10.0);
+        expect(closed).toBe(true);
+        expect(result.current.orders).toHaveLength(0);
+        expect(result.current.sessions).toHaveLength(1);
+        expect(result.current.sessions[0]).toEqual(
+          expect.objectContaining({ name: 'Sagra', orders, openedAt: orders[1].timestamp })
+        );
+        expect(result.current.sessions[0].closedAt).toBeInstanceOf(Date);
+        expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+          `@party_kiosk_session_${result.current.sessions[0].id}`,
+          JSON.stringify(result.current.sessions[0])
+        );
       });
 
-      it('should handle exact cash payment', async () => {
+      it('should clear current order', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product = createMockProduct({ price: 15.0 });
+        const product = createMockProduct();
 
         act(() => {
           result.current.addToCurrentOrder(product);
+          result.current.completeOrder('cash');
         });
-
         act(() => {
-          result.current.completeOrder(15.0);
+          result.current.addToCurrentOrder(product);
         });
 
-        expect(result.current.orders[0].cashPaid).toBe(15.0);
-        expect(result.current.orders[0].change).toBe(0);
+        expect(result.current.currentOrder).toHaveLength(1);
+
+        await act(async () => {
+          await result.current.closeSession('Sagra');
+        });
+
+        expect(result.current.currentOrder).toHaveLength(0);
       });
 
-      it('should clear current order after completion', async () => {
+      it('should store the cash drawer and count with the session and open a new drawer', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product = createMockProduct();
+        const product = createMockProduct({ price: 500 });
 
         act(() => {
+          result.current.setOpeningFloat(2000);
           result.current.addToCurrentOrder(product);
         });
-
-        expect(result.current.currentOrder).toHaveLength(1);
-
         act(() => {
-          result.current.completeOrder();
+          result.current.completeOrder('cash');
         });
 
-        expect(result.current.currentOrder).toHaveLength(0);
+        // € 20.00 float + € 5.00 sale = € 25.00 expected; € 24.50 counted
+        await act(async () => {
+          await result.current.closeSession('Sagra', { 2000: 1, 200: 2, 50: 1 });
+        });
+
+        const session = result.current.sessions[0];
+        expect(session.cashDrawer).toEqual({ openingFloat: 2000, movements: [] });
+        expect(session.cashCount).toEqual({
+          lines: [
+            { value: 2000, quantity: 1 },
+            { value: 200, quantity: 2 },
+            { value: 50, quantity: 1 },
+          ],
+          counted: 2450,
+          expected: 2500,
+        });
+        expect(result.current.cashDrawer).toEqual({ openingFloat: 0, movements: [] });
+        expect(AsyncStorage.removeItem).toHaveBeenCalledWith('@party_kiosk_cash_drawer');
       });
 
-      it('should add new orders to the beginning of the list', async () => {
+      it('should close without a count', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product1 = createMockProduct({ id: '1' });
-        const product2 = createMockProduct({ id: '2' });
-
-        act(() => {
-          result.current.addToCurrentOrder(product1);
-        });
-
         act(() => {
-          result.current.completeOrder();
+          result.current.addToCurrentOrder(createMockProduct());
         });
-
         act(() => {
-          result.current.addToCurrentOrder(product2);
+          result.current.completeOrder('cash');
         });
 
-        act(() => {
-          result.current.completeOrder();
+        await act(async () => {
+          await result.current.closeSession('Sagra');
         });
 
-        expect(result.current.orders).toHaveLength(2);
-        expect(result.current.orders[0].items[0].product.id).toBe('2');
-        expect(result.current.orders[1].items[0].product.id).toBe('1');
+        expect(result.current.sessions[0].cashCount).toBeUndefined();
       });
 
-      it('should not create order when current order is empty', async () => {
+      it('should remove orders from AsyncStorage', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
@@ -693,68 +3429,112 @@ describe('AppContext', () => {
         });
 
         act(() => {
-          result.current.completeOrder();
+          result.current.addToCurrentOrder(createMockProduct());
+          result.current.completeOrder('cash');
         });
 
-        expect(result.current.orders).toHaveLength(0);
+        await act(async () => {
+          await result.current.closeSession('Sagra');
+        });
+
+        expect(AsyncStorage.removeItem).toHaveBeenCalledWith('@party_kiosk_orders');
       });
 
-      it('should generate unique order IDs', async () => {
+      it('should not close without orders or a name', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product = createMockProduct();
+        await act(async () => {
+          await result.current.closeSession('Sagra');
+        });
+        expect(result.current.sessions).toHaveLength(0);
 
         act(() => {
-          result.current.addToCurrentOrder(product);
+          result.current.addToCurrentOrder(createMockProduct());
+          result.current.completeOrder('cash');
+        });
+        await act(async () => {
+          await result.current.closeSession('   ');
         });
 
-        act(() => {
-          result.current.completeOrder();
+        expect(result.current.sessions).toHaveLength(0);
+        expect(result.current.orders).toHaveLength(1);
+      });
+
+      it('should close a session with only an opening float or cash movements', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
+
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
         });
 
         act(() => {
-          result.current.addToCurrentOrder(product);
+          result.current.setOpeningFloat(10000);
+        });
+        let closed: boolean | undefined;
+        await act(async () => {
+          closed = await result.current.closeSession('Apertura');
         });
 
+        expect(closed).toBe(true);
+        expect(result.current.sessions[0]).toEqual(
+          expect.objectContaining({ name: 'Apertura', orders: [], cashDrawer: { openingFloat: 10000, movements: [] } })
+        );
+
         act(() => {
-          result.current.completeOrder();
+          result.current.addCashMovement('in', 2000, 'Resto');
+        });
+        await act(async () => {
+          closed = await result.current.closeSession('Versamento');
         });
 
-        expect(result.current.orders[0].id).not.toBe(result.current.orders[1].id);
+        expect(closed).toBe(true);
+        expect(result.current.sessions).toHaveLength(2);
+        expect(result.current.sessions[0].openedAt).toEqual(result.current.sessions[0].cashDrawer?.movements[0].timestamp);
+        expect(result.current.cashDrawer).toEqual({ openingFloat: 0, movements: [] });
       });
 
-      it('should set timestamp to current date', async () => {
+      it('should not close while an order is being edited', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation();
         const { result } = renderHook(() => useApp(), { wrapper });
+        const product = createMockProduct({ id: '1', stock: 10 });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product = createMockProduct();
-        const beforeTime = new Date();
-
         act(() => {
+          result.current.addProduct(product);
+        });
+        act(() => {
+          result.current.addToCurrentOrder(product);
           result.current.addToCurrentOrder(product);
+          result.current.completeOrder('cash');
         });
-
         act(() => {
-          result.current.completeOrder();
+          result.current.editOrder(result.current.orders[0].id);
         });
 
-        const afterTime = new Date();
+        let closed: boolean | undefined;
+        await act(async () => {
+          closed = await result.current.closeSession('Sagra');
+        });
 
-        expect(result.current.orders[0].timestamp).toBeInstanceOf(Date);
-        expect(result.current.orders[0].timestamp.getTime()).toBeGreaterThanOrEqual(beforeTime.getTime());
-        expect(result.current.orders[0].timestamp.getTime()).toBeLessThanOrEqual(afterTime.getTime());
+        expect(closed).toBe(false);
+        expect(result.current.sessions).toHaveLength(0);
+        expect(result.current.editingOrderId).toBe(result.current.orders[0].id);
+
+        act(() => {
+          result.current.cancelOrderEdit();
+        });
+        expect(result.current.products[0].stock).toBe(8);
+        consoleError.mockRestore();
       });
-    });
 
-    describe('deleteOrder', () => {
-      it('should delete an order by id', async () => {
+      it('should not affect products', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
@@ -764,138 +3544,181 @@ describe('AppContext', () => {
         const product = createMockProduct();
 
         act(() => {
-          result.current.addToCurrentOrder(product);
+          result.current.addProduct(product);
         });
-
         act(() => {
-          result.current.completeOrder();
+          result.current.addToCurrentOrder(result.current.products[0]);
+          result.current.completeOrder('cash');
         });
 
-        const orderId = result.current.orders[0].id;
-
-        act(() => {
-          result.current.deleteOrder(orderId);
+        await act(async () => {
+          await result.current.closeSession('Sagra');
         });
 
-        expect(result.current.orders).toHaveLength(0);
+        expect(result.current.products).toHaveLength(1);
       });
 
-      it('should only delete the specified order', async () => {
+      it('should keep the session open when the archive cannot be saved', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation();
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product = createMockProduct();
-
         act(() => {
-          result.current.addToCurrentOrder(product);
-          result.current.completeOrder();
-          result.current.addToCurrentOrder(product);
-          result.current.completeOrder();
-          result.current.addToCurrentOrder(product);
-          result.current.completeOrder();
+          result.current.addToCurrentOrder(createMockProduct());
+          result.current.completeOrder('cash');
         });
+        (AsyncStorage.setItem as jest.Mock).mockRejectedValueOnce(new Error('Storage error'));
 
-        const orderIdToDelete = result.current.orders[1].id;
-
-        act(() => {
-          result.current.deleteOrder(orderIdToDelete);
+        let closed: boolean | undefined;
+        await act(async () => {
+          closed = await result.current.closeSession('Sagra');
         });
 
-        expect(result.current.orders).toHaveLength(2);
-        expect(result.current.orders.find(o => o.id === orderIdToDelete)).toBeUndefined();
+        expect(closed).toBe(false);
+        expect(result.current.orders).toHaveLength(1);
+        expect(result.current.sessions).toHaveLength(0);
+        expect(result.current.error).toBe('Failed to save sessions');
+        expect(consoleError).toHaveBeenCalled();
+
+        consoleError.mockRestore();
       });
-    });
-  });
 
-  describe('Session Management', () => {
-    describe('resetSession', () => {
-      it('should clear all orders', async () => {
+      it('should handle AsyncStorage errors gracefully', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation();
+        (AsyncStorage.removeItem as jest.Mock).mockRejectedValueOnce(new Error('Storage error'));
+
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product = createMockProduct();
-
         act(() => {
-          result.current.addToCurrentOrder(product);
-          result.current.completeOrder();
-          result.current.addToCurrentOrder(product);
-          result.current.completeOrder();
+          result.current.addToCurrentOrder(createMockProduct());
+          result.current.completeOrder('cash');
         });
 
-        expect(result.current.orders).toHaveLength(2);
-
         await act(async () => {
-          await result.current.resetSession();
+          await result.current.closeSession('Sagra');
         });
 
         expect(result.current.orders).toHaveLength(0);
+        expect(consoleError).toHaveBeenCalled();
+
+        consoleError.mockRestore();
       });
 
-      it('should clear current order', async () => {
+      it('should load archived sessions and quarantine invalid ones', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation();
+        const order = createMockOrder({ id: 'o1' });
+        (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+          if (key === '@party_kiosk_schema_version') {
+            return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+          }
+          return Promise.resolve(null);
+        });
+        const stored = {
+          '@party_kiosk_session_s1': { id: 's1', name: 'Sagra', openedAt: order.timestamp, closedAt: new Date(), orders: [order] },
+          '@party_kiosk_session_s2': { id: 's2', name: '', openedAt: order.timestamp, closedAt: new Date(), orders: [] },
+        };
+        (AsyncStorage.getAllKeys as jest.Mock).mockResolvedValueOnce(Object.keys(stored));
+        (AsyncStorage.multiGet as jest.Mock).mockResolvedValueOnce(
+          Object.entries(stored).map(([key, session]) => [key, JSON.stringify(session)])
+        );
+
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product = createMockProduct();
+        expect(result.current.sessions).toHaveLength(1);
+        expect(result.current.sessions[0].orders[0].timestamp).toBeInstanceOf(Date);
+        expect(result.current.quarantine).toEqual([
+          expect.objectContaining({ kind: 'session', record: expect.objectContaining({ id: 's2' }) }),
+        ]);
+        expect(AsyncStorage.multiRemove).toHaveBeenCalledWith(['@party_kiosk_session_s2']);
 
-        act(() => {
-          result.current.addToCurrentOrder(product);
-        });
+        consoleError.mockRestore();
+        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+      });
+    });
 
-        expect(result.current.currentOrder).toHaveLength(1);
+    describe('cash drawer', () => {
+      it('should set the opening float and record cash movements', async () => {
+        const { result } = renderHook(() => useApp(), { wrapper });
 
-        await act(async () => {
-          await result.current.resetSession();
+        await waitFor(() => {
+          expect(result.current.isLoading).toBe(false);
         });
 
-        expect(result.current.currentOrder).toHaveLength(0);
+        act(() => {
+          result.current.setOpeningFloat(10000);
+          result.current.addCashMovement('out', 2500, '  Fornitore  ');
+        });
+
+        expect(result.current.cashDrawer.openingFloat).toBe(10000);
+        expect(result.current.cashDrawer.movements).toEqual([
+          expect.objectContaining({ type: 'out', amount: 2500, reason: 'Fornitore' }),
+        ]);
+        expect(result.current.auditLog.map(entry => entry.action)).toEqual(
+          expect.arrayContaining(['setOpeningFloat', 'addCashMovement'])
+        );
       });
 
-      it('should remove orders from AsyncStorage', async () => {
+      it('should reject invalid floats and movements', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        await act(async () => {
-          await result.current.resetSession();
+        act(() => {
+          result.current.setOpeningFloat(-100);
+          result.current.setOpeningFloat(10.5);
+          result.current.addCashMovement('in', 0, 'Resto');
+          result.current.addCashMovement('in', 500, '  ');
         });
 
-        expect(AsyncStorage.removeItem).toHaveBeenCalledWith('@party_kiosk_orders');
+        expect(result.current.cashDrawer).toEqual({ openingFloat: 0, movements: [] });
+        expect(consoleError).toHaveBeenCalledTimes(4);
+        consoleError.mockRestore();
       });
 
-      it('should not affect products', async () => {
+      it('should delete a movement', async () => {
         const { result } = renderHook(() => useApp(), { wrapper });
 
         await waitFor(() => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        const product = createMockProduct();
-
         act(() => {
-          result.current.addProduct(product);
+          result.current.addCashMovement('in', 500, 'Resto');
         });
+        const id = result.current.cashDrawer.movements[0].id;
 
-        await act(async () => {
-          await result.current.resetSession();
+        act(() => {
+          result.current.deleteCashMovement(id);
         });
 
-        expect(result.current.products).toHaveLength(1);
+        expect(result.current.cashDrawer.movements).toHaveLength(0);
       });
 
-      it('should handle AsyncStorage errors gracefully', async () => {
-        const consoleError = jest.spyOn(console, 'error').mockImplementation();
-        (AsyncStorage.removeItem as jest.Mock).mockRejectedValueOnce(new Error('Storage error'));
+      it('should quarantine an invalid stored drawer', async () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+        (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+          if (key === '@party_kiosk_schema_version') {
+            return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+          }
+          if (key === '@party_kiosk_cash_drawer') {
+            return Promise.resolve(JSON.stringify({ openingFloat: -5, movements: [] }));
+          }
+          return Promise.resolve(null);
+        });
 
         const { result } = renderHook(() => useApp(), { wrapper });
 
@@ -903,14 +3726,11 @@ describe('AppContext', () => {
           expect(result.current.isLoading).toBe(false);
         });
 
-        await act(async () => {
-          await result.current.resetSession();
-        });
-
-        expect(result.current.orders).toHaveLength(0);
-        expect(consoleError).toHaveBeenCalled();
+        expect(result.current.cashDrawer).toEqual({ openingFloat: 0, movements: [] });
+        expect(result.current.quarantine).toEqual([expect.objectContaining({ kind: 'cashDrawer' })]);
 
         consoleError.mockRestore();
+        (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
       });
     });
   });
@@ -951,7 +3771,7 @@ describe('AppContext', () => {
       });
 
       act(() => {
-        result.current.completeOrder();
+        result.current.completeOrder('cash');
       });
 
       await waitFor(() => {
@@ -983,7 +3803,7 @@ describe('AppContext', () => {
         expect(result.current.isLoading).toBe(false);
       });
 
-      const product = createMockProduct({ id: '1', price: 5.0 });
+      const product = createMockProduct({ id: '1', price: 500 });
 
       act(() => {
         result.current.addToCurrentOrder(product);
@@ -1014,7 +3834,7 @@ describe('AppContext', () => {
       });
 
       act(() => {
-        result.current.completeOrder();
+        result.current.completeOrder('cash');
       });
 
       expect(result.current.orders[0].items).toHaveLength(20);
@@ -1029,7 +3849,7 @@ describe('AppContext', () => {
         expect(result.current.isLoading).toBe(false);
       });
 
-      const product = createMockProduct({ price: 3.33 });
+      const product = createMockProduct({ price: 333 });
 
       act(() => {
         result.current.addToCurrentOrder(product);
@@ -1038,11 +3858,11 @@ describe('AppContext', () => {
       });
 
       act(() => {
-        result.current.completeOrder(10.0);
+        result.current.completeOrder('cash', 1000);
       });
 
-      expect(result.current.orders[0].total).toBeCloseTo(9.99, 2);
-      expect(result.current.orders[0].change).toBeCloseTo(0.01, 2);
+      expect(result.current.orders[0].total).toBe(999);
+      expect(result.current.orders[0].change).toBe(1);
     });
   });
 });
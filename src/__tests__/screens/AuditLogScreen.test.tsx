@@ -0,0 +1,133 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { Share } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import AuditLogScreen from '../../screens/AuditLogScreen';
+import { AppProvider } from '../../context/AppContext';
+import { CURRENT_SCHEMA_VERSION } from '../../storage/migrations';
+
+// Mock dependencies
+jest.mock('expo-haptics');
+jest.mock('@react-native-async-storage/async-storage');
+
+const renderWithProvider = (component: React.ReactElement) => {
+  return render(<AppProvider>{component}</AppProvider>);
+};
+
+const mockStoredAuditLog = (entries: unknown[]) => {
+  (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+    if (key === '@party_kiosk_schema_version') {
+      return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+    }
+    if (key === '@party_kiosk_audit_log') {
+      return Promise.resolve(JSON.stringify(entries));
+    }
+    return Promise.resolve(null);
+  });
+};
+
+const storedEntries = [
+  {
+    id: 'a1',
+    timestamp: new Date().toISOString(),
+    actor: 'Giulia',
+    action: 'updateProduct',
+    targetId: 'p1',
+    before: { price: 500 },
+    after: { price: 600 },
+  },
+  {
+    id: 'a2',
+    timestamp: new Date().toISOString(),
+    action: 'deleteOrder',
+    targetId: 'o1',
+    before: { id: 'o1', total: 500 },
+  },
+];
+
+describe('AuditLogScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('should show empty state when nothing was logged', async () => {
+    const { getByText } = renderWithProvider(<AuditLogScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Nessuna attività')).toBeTruthy();
+    });
+  });
+
+  it('should list entries with operator and before/after states', async () => {
+    mockStoredAuditLog(storedEntries);
+
+    const { getByText } = renderWithProvider(<AuditLogScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Prodotto modificato')).toBeTruthy();
+    });
+    expect(getByText('👤 Giulia • #p1')).toBeTruthy();
+    expect(getByText('Prima: {"price":500}')).toBeTruthy();
+    expect(getByText('Dopo: {"price":600}')).toBeTruthy();
+    expect(getByText('👤 Operatore non indicato • #o1')).toBeTruthy();
+  });
+
+  it('should filter entries by area', async () => {
+    mockStoredAuditLog(storedEntries);
+
+    const { getByText, getByLabelText, queryByText } = renderWithProvider(<AuditLogScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Ordine eliminato')).toBeTruthy();
+    });
+
+    fireEvent.press(getByLabelText('Show order entries'));
+
+    expect(getByText('Ordine eliminato')).toBeTruthy();
+    expect(queryByText('Prodotto modificato')).toBeNull();
+  });
+
+  it('should export the filtered log through the share sheet', async () => {
+    const shareSpy = jest.spyOn(Share, 'share').mockResolvedValue({ action: 'sharedAction' });
+    mockStoredAuditLog(storedEntries);
+
+    const { getByText, getByLabelText } = renderWithProvider(<AuditLogScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Ordine eliminato')).toBeTruthy();
+    });
+
+    fireEvent.press(getByLabelText('Export audit log'));
+
+    expect(shareSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('"deleteOrder"') })
+    );
+    shareSpy.mockRestore();
+  });
+
+  it('should list and export entries rolled over to the archive', async () => {
+    const shareSpy = jest.spyOn(Share, 'share').mockResolvedValue({ action: 'sharedAction' });
+    mockStoredAuditLog(storedEntries);
+    (AsyncStorage.getAllKeys as jest.Mock).mockResolvedValueOnce(['@party_kiosk_audit_log_archive_a0']);
+    (AsyncStorage.multiGet as jest.Mock).mockResolvedValueOnce([
+      [
+        '@party_kiosk_audit_log_archive_a0',
+        JSON.stringify([{ id: 'a0', timestamp: new Date().toISOString(), action: 'setOperator', after: 'Giulia' }]),
+      ],
+    ]);
+
+    const { getByText, getByLabelText } = renderWithProvider(<AuditLogScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Dopo: "Giulia"')).toBeTruthy();
+    });
+
+    fireEvent.press(getByLabelText('Export audit log'));
+
+    expect(shareSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('"setOperator"') })
+    );
+    shareSpy.mockRestore();
+  });
+});
@@ -0,0 +1,92 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { Alert } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import CashDrawerScreen from '../../screens/CashDrawerScreen';
+import { AppProvider } from '../../context/AppContext';
+import { CURRENT_SCHEMA_VERSION } from '../../storage/migrations';
+import { createMockOrder } from '../utils/testUtils';
+
+// Mock dependencies
+jest.mock('expo-haptics');
+jest.mock('@react-native-async-storage/async-storage');
+
+jest.spyOn(Alert, 'alert');
+
+const renderWithProvider = (component: React.ReactElement) => {
+  return render(<AppProvider>{component}</AppProvider>);
+};
+
+describe('CashDrawerScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('should add the opening float and cash sales up to the expected cash', async () => {
+    (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+      if (key === '@party_kiosk_schema_version') {
+        return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+      }
+      if (key === '@party_kiosk_orders') {
+        return Promise.resolve(JSON.stringify([
+          createMockOrder({ id: 'o1', total: 800, payments: [{ method: 'cash', amount: 800 }] }),
+        ]));
+      }
+      return Promise.resolve(null);
+    });
+
+    const { getByLabelText, getByText } = renderWithProvider(<CashDrawerScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Vendite in contanti')).toBeTruthy();
+    });
+
+    fireEvent.changeText(getByLabelText('Opening float input'), '50');
+    fireEvent.press(getByLabelText('Save opening float'));
+
+    expect(getByText('€ 50.00')).toBeTruthy();
+    expect(getByText('€ 58.00')).toBeTruthy();
+  });
+
+  it('should record and delete a cash movement', async () => {
+    const { getByLabelText, getByText, queryByText } = renderWithProvider(<CashDrawerScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Nessun movimento')).toBeTruthy();
+    });
+
+    fireEvent.press(getByLabelText('Cash out'));
+    fireEvent.changeText(getByLabelText('Cash movement amount input'), '12,50');
+    fireEvent.changeText(getByLabelText('Cash movement reason input'), 'Ghiaccio');
+    fireEvent.press(getByLabelText('Add cash movement'));
+
+    expect(getByText('⬆️ Ghiaccio')).toBeTruthy();
+    expect(getByText('Atteso in cassa')).toBeTruthy();
+
+    fireEvent.press(getByLabelText('Delete cash movement Ghiaccio'));
+    const buttons = (Alert.alert as jest.Mock).mock.calls[0][2];
+    buttons.find((button: { text: string }) => button.text === 'Elimina').onPress();
+
+    await waitFor(() => {
+      expect(getByText('Nessun movimento')).toBeTruthy();
+    });
+    expect(queryByText('⬆️ Ghiaccio')).toBeNull();
+  });
+
+  it('should reject a movement without amount or reason', async () => {
+    const { getByLabelText, getByText } = renderWithProvider(<CashDrawerScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Nessun movimento')).toBeTruthy();
+    });
+
+    fireEvent.press(getByLabelText('Add cash movement'));
+    expect(Alert.alert).toHaveBeenCalledWith('Errore', 'Inserisci un importo valido');
+
+    fireEvent.changeText(getByLabelText('Cash movement amount input'), '5');
+    fireEvent.press(getByLabelText('Add cash movement'));
+    expect(Alert.alert).toHaveBeenCalledWith('Errore', 'Inserisci il motivo');
+    expect(getByText('Nessun movimento')).toBeTruthy();
+  });
+});
@@ -1,8 +1,10 @@
 import React from 'react';
 import { render, fireEvent, waitFor } from '@testing-library/react-native';
-import { Alert } from 'react-native';
+import { Alert, Share } from 'react-native';
 import HistoryScreen from '../../screens/HistoryScreen';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AppProvider } from '../../context/AppContext';
+import { CURRENT_SCHEMA_VERSION } from '../../storage/migrations';
 import { createMockProduct, createMockOrder } from '../utils/testUtils';
 
 // Mock dependencies
@@ -15,6 +17,25 @@ const renderWithProvider = (component: React.ReactElement) => {
   return render(<AppProvider>{component}</AppProvider>);
 };
 
+const mockStoredOrders = (orders: unknown[], sessions?: unknown[]) => {
+  (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+    if (key === '@party_kiosk_schema_version') {
+      return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+    }
+    if (key === '@party_kiosk_orders') {
+      return Promise.resolve(JSON.stringify(orders));
+    }
+    return Promise.resolve(null);
+  });
+  const storedSessions = new Map(
+    (sessions ?? []).map(session => [`@party_kiosk_session_${(session as { id: string }).id}`, session])
+  );
+  (AsyncStorage.getAllKeys as jest.Mock).mockResolvedValue([...storedSessions.keys()]);
+  (AsyncStorage.multiGet as jest.Mock).mockImplementation((keys: string[]) =>
+    Promise.resolve(keys.map(key => [key, JSON.stringify(storedSessions.get(key))]))
+  );
+};
+
 describe('HistoryScreen', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -68,12 +89,29 @@ describe('HistoryScreen', () => {
       });
     });
 
-    it('should not show reset button when no orders', async () => {
+    it('should not show close event button when no orders', async () => {
       const { queryByText } = renderWithProvider(<HistoryScreen />);
 
       await waitFor(() => {
-        expect(queryByText('Reset Sessione')).toBeNull();
+        expect(queryByText('Chiudi Evento')).toBeNull();
+      });
+    });
+
+    it('should show close event button when the drawer has a float but no orders', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+        if (key === '@party_kiosk_schema_version') return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+        if (key === '@party_kiosk_cash_drawer') {
+          return Promise.resolve(JSON.stringify({ openingFloat: 10000, movements: [] }));
+        }
+        return Promise.resolve(null);
+      });
+
+      const { getByLabelText } = renderWithProvider(<HistoryScreen />);
+
+      await waitFor(() => {
+        expect(getByLabelText('Close event')).toBeTruthy();
       });
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
     });
 
     it('should not show summary when no orders', async () => {
@@ -176,39 +214,138 @@ describe('HistoryScreen', () => {
     });
   });
 
-  describe('Reset Session', () => {
-    it('should show reset button when orders exist', async () => {
-      // Test reset button appears
+  describe('Close Event', () => {
+    afterEach(() => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
     });
 
-    it('should show confirmation alert when resetting', async () => {
-      const { getByText } = renderWithProvider(<HistoryScreen />);
+    const archivedSession = {
+      id: 's1',
+      name: 'Festa di primavera',
+      openedAt: new Date('2026-04-18T18:00:00'),
+      closedAt: new Date('2026-04-19T02:00:00'),
+      orders: [createMockOrder({ id: 'old1', total: 1500 })],
+    };
+
+    it('should archive the orders under the event name and start an empty session', async () => {
+      mockStoredOrders([createMockOrder({ id: 'o1', total: 500 })]);
+
+      const { getByLabelText, getByText } = renderWithProvider(<HistoryScreen />);
 
       await waitFor(() => {
-        // Click reset, verify alert
+        expect(getByLabelText('Close event')).toBeTruthy();
       });
+
+      fireEvent.press(getByLabelText('Close event'));
+      fireEvent.changeText(getByLabelText('Event name input'), '  ');
+      fireEvent.press(getByLabelText('Confirm close event'));
+      expect(Alert.alert).toHaveBeenCalledWith('Errore', "Inserisci il nome dell'evento");
+
+      fireEvent.changeText(getByLabelText('Event name input'), 'Sagra');
+      fireEvent.press(getByLabelText('Confirm close event'));
+
+      await waitFor(() => {
+        expect(getByText('Nessun ordine ancora')).toBeTruthy();
+      });
+      expect(getByLabelText('Show session Sagra')).toBeTruthy();
     });
 
-    it('should clear all orders when confirmed', async () => {
-      // Test session reset
+    it('should keep the close dialog open when the event cannot be archived', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const setItem = AsyncStorage.setItem as jest.Mock;
+      const saveItem = setItem.getMockImplementation();
+      setItem.mockImplementation((key: string, value: string) =>
+        key.startsWith('@party_kiosk_session_') ? Promise.reject(new Error('Storage error')) : saveItem?.(key, value)
+      );
+      mockStoredOrders([createMockOrder({ id: 'o1', total: 500 })]);
+
+      const { getByLabelText } = renderWithProvider(<HistoryScreen />);
+
+      await waitFor(() => {
+        expect(getByLabelText('Close event')).toBeTruthy();
+      });
+
+      fireEvent.press(getByLabelText('Close event'));
+      fireEvent.changeText(getByLabelText('Event name input'), 'Sagra');
+      fireEvent.press(getByLabelText('Confirm close event'));
+
+      await waitFor(() => {
+        expect(Alert.alert).toHaveBeenCalledWith('Errore', "Impossibile chiudere l'evento");
+      });
+      expect(getByLabelText('Confirm close event')).toBeTruthy();
+      setItem.mockImplementation(saveItem);
+      consoleError.mockRestore();
     });
 
-    it('should not reset when cancelled', async () => {
-      // Test cancellation
+    it('should count the cash drawer by denomination and keep the over/short with the session', async () => {
+      mockStoredOrders([
+        createMockOrder({ id: 'o1', total: 500, payments: [{ method: 'cash', amount: 500 }], cashPaid: 1000, change: 500 }),
+      ]);
+
+      const { getByLabelText, getByText } = renderWithProvider(<HistoryScreen />);
+
+      await waitFor(() => {
+        expect(getByLabelText('Close event')).toBeTruthy();
+      });
+
+      fireEvent.press(getByLabelText('Close event'));
+      fireEvent.changeText(getByLabelText('Pieces of € 5.00'), '1');
+      expect(getByText('In pari')).toBeTruthy();
+
+      fireEvent.changeText(getByLabelText('Pieces of € 0.50'), '3');
+      expect(getByText('Eccedenza € 1.50')).toBeTruthy();
+
+      fireEvent.changeText(getByLabelText('Event name input'), 'Sagra');
+      fireEvent.press(getByLabelText('Confirm close event'));
+
+      await waitFor(() => {
+        expect(getByLabelText('Show session Sagra')).toBeTruthy();
+      });
+      fireEvent.press(getByLabelText('Show session Sagra'));
+
+      expect(getByText('Eccedenza € 1.50')).toBeTruthy();
+      expect(getByText('Contato')).toBeTruthy();
     });
 
-    it('should have warning in alert message', async () => {
-      // Test alert message content
+    it('should browse an archived session read-only and compare it with the current one', async () => {
+      mockStoredOrders([createMockOrder({ id: 'o1', total: 500 })], [archivedSession]);
+
+      const { getByLabelText, getByText, queryByLabelText } = renderWithProvider(<HistoryScreen />);
+
+      await waitFor(() => {
+        expect(getByText('Confronto Sessioni')).toBeTruthy();
+      });
+      expect(getByText('1 ordini • 1 pz • € 15.00')).toBeTruthy();
+      expect(getByLabelText('Void order o1')).toBeTruthy();
+      // Orders are voided with a reason, never deleted
+      expect(queryByLabelText('Delete order o1')).toBeNull();
+
+      fireEvent.press(getByLabelText('Show session Festa di primavera'));
+
+      expect(getByText('Riepilogo: Festa di primavera')).toBeTruthy();
+      expect(queryByLabelText('Void order old1')).toBeNull();
+      expect(queryByLabelText('Close event')).toBeNull();
+
+      fireEvent.press(getByLabelText('Show current session'));
+      expect(getByLabelText('Void order o1')).toBeTruthy();
     });
 
-    it('should have proper accessibility label for reset button', async () => {
-      const { queryByLabelText } = renderWithProvider(
-        <HistoryScreen />
-      );
+    it('should export the selected session', async () => {
+      const shareSpy = jest.spyOn(Share, 'share').mockResolvedValue({ action: 'sharedAction' });
+      mockStoredOrders([], [archivedSession]);
+
+      const { getByLabelText } = renderWithProvider(<HistoryScreen />);
 
       await waitFor(() => {
-        // Should have reset session accessibility label
+        expect(getByLabelText('Show session Festa di primavera')).toBeTruthy();
       });
+      fireEvent.press(getByLabelText('Show session Festa di primavera'));
+      fireEvent.press(getByLabelText('Export session'));
+
+      expect(shareSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Festa di primavera', message: expect.stringContaining('old1') })
+      );
+      shareSpy.mockRestore();
     });
   });
 
@@ -295,8 +432,8 @@ describe('HistoryScreen', () => {
       // Test delete button accessibility
     });
 
-    it('should have proper accessibility for reset button', async () => {
-      // Test reset button accessibility
+    it('should have proper accessibility for close event button', async () => {
+      // Test close event button accessibility
     });
   });
 
@@ -376,6 +513,211 @@ describe('HistoryScreen', () => {
     });
   });
 
+  describe('Payment Method Totals', () => {
+    afterEach(() => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+    });
+
+    it('should total revenue per payment method', async () => {
+      mockStoredOrders([
+        createMockOrder({ id: 'o1', total: 500, payments: [{ method: 'cash', amount: 500 }] }),
+        createMockOrder({ id: 'o2', total: 700, payments: [{ method: 'card', amount: 700 }] }),
+        createMockOrder({ id: 'o3', total: 300, payments: [{ method: 'card', amount: 300 }] }),
+      ]);
+
+      const { getByText } = renderWithProvider(<HistoryScreen />);
+
+      await waitFor(() => {
+        expect(getByText('Incasso per Metodo')).toBeTruthy();
+      });
+      expect(getByText('2 ordini • € 10.00')).toBeTruthy();
+      expect(getByText('1 ordini • € 5.00')).toBeTruthy();
+    });
+
+    it('should split revenue across the legs of split payments', async () => {
+      mockStoredOrders([
+        createMockOrder({
+          id: 'o1',
+          total: 1000,
+          payments: [
+            { method: 'card', amount: 600 },
+            { method: 'satispay', amount: 400 },
+          ],
+        }),
+        createMockOrder({ id: 'o2', total: 500, payments: [{ method: 'card', amount: 500 }] }),
+      ]);
+
+      const { getByText } = renderWithProvider(<HistoryScreen />);
+
+      await waitFor(() => {
+        expect(getByText('Incasso per Metodo')).toBeTruthy();
+      });
+      expect(getByText('2 ordini • € 11.00')).toBeTruthy();
+      expect(getByText('1 ordini • € 4.00')).toBeTruthy();
+      expect(getByText('Carta € 6.00 • Satispay € 4.00')).toBeTruthy();
+    });
+
+    it('should label orders without a payment method as unspecified', async () => {
+      mockStoredOrders([createMockOrder({ id: 'o1', total: 500 })]);
+
+      const { getAllByText } = renderWithProvider(<HistoryScreen />);
+
+      await waitFor(() => {
+        expect(getAllByText('Non specificato').length).toBeGreaterThan(0);
+      });
+    });
+  });
+
+  describe('Discount Totals', () => {
+    afterEach(() => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+    });
+
+    it('should report total discounts by reason', async () => {
+      mockStoredOrders([
+        createMockOrder({
+          id: 'o1',
+          items: [
+            {
+              product: createMockProduct({ id: 'p1', price: 1000 }),
+              quantity: 1,
+              discount: { type: 'percentage', value: 10, reason: 'Socio' },
+            },
+          ],
+          total: 700,
+          discount: { type: 'fixed', value: 200, reason: 'Coupon' },
+          discountTotal: 300,
+        }),
+        createMockOrder({ id: 'o2', total: 500 }),
+      ]);
+
+      const { getByText } = renderWithProvider(<HistoryScreen />);
+
+      await waitFor(() => {
+        expect(getByText('Sconti Concessi')).toBeTruthy();
+      });
+      expect(getByText('1 ordini • € 3.00')).toBeTruthy();
+      expect(getByText('1 sconti • € 2.00')).toBeTruthy();
+      expect(getByText('1 sconti • € 1.00')).toBeTruthy();
+      expect(getByText('Sconto ordine -€ 2.00 (Coupon)')).toBeTruthy();
+    });
+
+    it('should not show discounts when none were given', async () => {
+      mockStoredOrders([createMockOrder({ id: 'o1', total: 500 })]);
+
+      const { getByText, queryByText } = renderWithProvider(<HistoryScreen />);
+
+      await waitFor(() => {
+        expect(getByText('Incasso per Metodo')).toBeTruthy();
+      });
+      expect(queryByText('Sconti Concessi')).toBeNull();
+    });
+  });
+
+  describe('Refunds', () => {
+    afterEach(() => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+    });
+
+    it('should show refunded orders and take refunds off revenue', async () => {
+      mockStoredOrders([
+        createMockOrder({
+          id: 'o1',
+          items: [{ product: createMockProduct({ id: 'p1', name: 'Birra', price: 500 }), quantity: 2 }],
+          total: 1000,
+          refunds: [
+            {
+              id: 'r1',
+              type: 'partial',
+              reason: 'Rovesciata',
+              lines: [{ itemIndex: 0, quantity: 1 }],
+              amount: 500,
+              timestamp: new Date(),
+            },
+          ],
+        }),
+      ]);
+
+      const { getByText, getAllByText } = renderWithProvider(<HistoryScreen />);
+
+      await waitFor(() => {
+        expect(getByText('RIMBORSATO PARZIALMENTE')).toBeTruthy();
+      });
+      expect(getByText("Storni e Rimborsi (dedotti dall'incasso)")).toBeTruthy();
+      expect(getByText('1 rimborsi • € 5.00')).toBeTruthy();
+      expect(getAllByText('€ 5.00').length).toBeGreaterThan(0);
+    });
+
+    it('should void an order with a reason', async () => {
+      mockStoredOrders([createMockOrder({ id: 'o1', total: 500 })]);
+
+      const { getByLabelText, getByText, queryByLabelText } = renderWithProvider(<HistoryScreen />);
+
+      await waitFor(() => {
+        expect(getByLabelText('Void order o1')).toBeTruthy();
+      });
+
+      fireEvent.press(getByLabelText('Void order o1'));
+      fireEvent.press(getByLabelText('Confirm refund'));
+      expect(Alert.alert).toHaveBeenCalledWith('Errore', 'Inserisci il motivo');
+
+      fireEvent.changeText(getByLabelText('Refund reason input'), 'Ordine sbagliato');
+      fireEvent.press(getByLabelText('Confirm refund'));
+
+      await waitFor(() => {
+        expect(getByText('STORNATO')).toBeTruthy();
+      });
+      expect(queryByLabelText('Void order o1')).toBeNull();
+    });
+  });
+
+  describe('Order Edits', () => {
+    afterEach(() => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+    });
+
+    it('should list the before/after of edited orders', async () => {
+      mockStoredOrders([
+        createMockOrder({
+          id: 'o1',
+          total: 1500,
+          edits: [
+            {
+              timestamp: new Date(),
+              changes: [{ name: 'Birra', before: 2, after: 3 }],
+              totalBefore: 1000,
+              totalAfter: 1500,
+            },
+          ],
+        }),
+      ]);
+
+      const { getByText } = renderWithProvider(<HistoryScreen />);
+
+      await waitFor(() => {
+        expect(getByText('€ 10.00 → € 15.00')).toBeTruthy();
+      });
+    });
+
+    it('should reopen an order for editing', async () => {
+      mockStoredOrders([createMockOrder({ id: 'o1', total: 500 })]);
+
+      const { getByLabelText, getByText, queryByLabelText } = renderWithProvider(<HistoryScreen />);
+
+      await waitFor(() => {
+        expect(getByLabelText('Edit order o1')).toBeTruthy();
+      });
+
+      fireEvent.press(getByLabelText('Edit order o1'));
+
+      await waitFor(() => {
+        expect(getByText('IN MODIFICA')).toBeTruthy();
+      });
+      expect(queryByLabelText('Void order o1')).toBeNull();
+      expect(queryByLabelText('Close event')).toBeNull();
+    });
+  });
+
   describe('Snapshots', () => {
     it('should match snapshot for empty state', async () => {
       const { toJSON } = renderWithProvider(<HistoryScreen />);
@@ -4,6 +4,8 @@ import { fireEvent, waitFor } from '@testing-library/react-native';
 import ProductsScreen from '../../screens/ProductsScreen';
 import { renderWithProviders, createMockProduct } from '../utils/testUtils';
 import { useApp } from '../../context/AppContext';
+import { DEFAULT_CATEGORIES } from '../../data/categories';
+import { DEFAULT_PAYMENT_METHODS } from '../../data/paymentMethods';
 
 // Mock the useApp hook
 jest.mock('../../context/AppContext', () => ({
@@ -21,17 +23,36 @@ describe('ProductsScreen', () => {
 
   const defaultMockContext = {
     products: [],
+    categories: DEFAULT_CATEGORIES,
     orders: [],
+    sessions: [],
     currentOrder: [],
     addProduct: mockAddProduct,
     updateProduct: mockUpdateProduct,
     deleteProduct: mockDeleteProduct,
+    restockProduct: jest.fn(),
+    addCategory: jest.fn(),
+    updateCategory: jest.fn(),
+    deleteCategory: jest.fn(),
+    moveCategory: jest.fn(),
     addToCurrentOrder: jest.fn(),
     removeFromCurrentOrder: jest.fn(),
     clearCurrentOrder: jest.fn(),
+    setItemDiscount: jest.fn(),
+    setOrderDiscount: jest.fn(),
+    parkedOrders: [],
+    parkCurrentOrder: jest.fn(),
+    resumeParkedOrder: jest.fn(),
+    deleteParkedOrder: jest.fn(),
+    paymentMethods: DEFAULT_PAYMENT_METHODS,
+    addPaymentMethod: jest.fn(),
+    updatePaymentMethod: jest.fn(),
+    deletePaymentMethod: jest.fn(),
     completeOrder: jest.fn(),
-    deleteOrder: jest.fn(),
-    resetSession: jest.fn(),
+    closeSession: jest.fn(),
+    quarantine: [],
+    restoreQuarantinedRecord: jest.fn(),
+    deleteQuarantinedRecord: jest.fn(),
     isLoading: false,
   };
 
@@ -60,8 +81,8 @@ describe('ProductsScreen', () => {
 
     it('should render product list when products exist', () => {
       const mockProducts = [
-        createMockProduct({ id: '1', name: 'Pizza', price: 5.0 }),
-        createMockProduct({ id: '2', name: 'Burger', price: 7.0 }),
+        createMockProduct({ id: '1', name: 'Pizza', price: 500 }),
+        createMockProduct({ id: '2', name: 'Burger', price: 700 }),
       ];
 
       (useApp as jest.Mock).mockReturnValue({
@@ -249,7 +270,7 @@ describe('ProductsScreen', () => {
       expect(mockAddProduct).toHaveBeenCalledWith(
         expect.objectContaining({
           name: 'Pizza',
-          price: 5.5,
+          price: 550,
           emoji: '🍕',
         })
       );
@@ -308,7 +329,7 @@ describe('ProductsScreen', () => {
 
       expect(mockAddProduct).toHaveBeenCalledWith(
         expect.objectContaining({
-          price: 5.99,
+          price: 599,
         })
       );
     });
@@ -317,7 +338,7 @@ describe('ProductsScreen', () => {
   describe('Edit Product Modal', () => {
     it('should open edit modal when edit button is pressed', () => {
       const mockProducts = [
-        createMockProduct({ id: '1', name: 'Pizza', price: 5.0 }),
+        createMockProduct({ id: '1', name: 'Pizza', price: 500 }),
       ];
 
       (useApp as jest.Mock).mockReturnValue({
@@ -338,7 +359,7 @@ describe('ProductsScreen', () => {
           id: '1',
           name: 'Pizza',
           emoji: '🍕',
-          price: 5.0
+          price: 500
         }),
       ];
 
@@ -352,12 +373,12 @@ describe('ProductsScreen', () => {
       fireEvent.press(getByText('Modifica'));
 
       expect(getByDisplayValue('Pizza')).toBeTruthy();
-      expect(getByDisplayValue('5')).toBeTruthy();
+      expect(getByDisplayValue('5.00')).toBeTruthy();
     });
 
     it('should call updateProduct when saving edited product', () => {
       const mockProducts = [
-        createMockProduct({ id: '1', name: 'Pizza', price: 5.0 }),
+        createMockProduct({ id: '1', name: 'Pizza', price: 500 }),
       ];
 
       (useApp as jest.Mock).mockReturnValue({
@@ -372,7 +393,7 @@ describe('ProductsScreen', () => {
       const nameInput = getByDisplayValue('Pizza');
       fireEvent.changeText(nameInput, 'Super Pizza');
 
-      const priceInput = getByDisplayValue('5');
+      const priceInput = getByDisplayValue('5.00');
       fireEvent.changeText(priceInput, '7.50');
 
       fireEvent.press(getByText('Salva'));
@@ -381,14 +402,14 @@ describe('ProductsScreen', () => {
         '1',
         expect.objectContaining({
           name: 'Super Pizza',
-          price: 7.5,
+          price: 750,
         })
       );
     });
 
     it('should preserve product ID when updating', () => {
       const mockProducts = [
-        createMockProduct({ id: 'original-id', name: 'Pizza', price: 5.0 }),
+        createMockProduct({ id: 'original-id', name: 'Pizza', price: 500 }),
       ];
 
       (useApp as jest.Mock).mockReturnValue({
@@ -415,7 +436,7 @@ describe('ProductsScreen', () => {
 
     it('should validate edited product name', () => {
       const mockProducts = [
-        createMockProduct({ id: '1', name: 'Pizza', price: 5.0 }),
+        createMockProduct({ id: '1', name: 'Pizza', price: 500 }),
       ];
 
       (useApp as jest.Mock).mockReturnValue({
@@ -438,7 +459,7 @@ describe('ProductsScreen', () => {
 
     it('should validate edited product price', () => {
       const mockProducts = [
-        createMockProduct({ id: '1', name: 'Pizza', price: 5.0 }),
+        createMockProduct({ id: '1', name: 'Pizza', price: 500 }),
       ];
 
       (useApp as jest.Mock).mockReturnValue({
@@ -450,7 +471,7 @@ describe('ProductsScreen', () => {
 
       fireEvent.press(getByText('Modifica'));
 
-      const priceInput = getByDisplayValue('5');
+      const priceInput = getByDisplayValue('5.00');
       fireEvent.changeText(priceInput, '-10');
 
       fireEvent.press(getByText('Salva'));
@@ -590,9 +611,9 @@ describe('ProductsScreen', () => {
   describe('Multiple Products', () => {
     it('should render multiple products correctly', () => {
       const mockProducts = [
-        createMockProduct({ id: '1', name: 'Pizza', price: 5.0 }),
-        createMockProduct({ id: '2', name: 'Burger', price: 7.0 }),
-        createMockProduct({ id: '3', name: 'Fries', price: 3.0 }),
+        createMockProduct({ id: '1', name: 'Pizza', price: 500 }),
+        createMockProduct({ id: '2', name: 'Burger', price: 700 }),
+        createMockProduct({ id: '3', name: 'Fries', price: 300 }),
       ];
 
       (useApp as jest.Mock).mockReturnValue({
@@ -662,7 +683,7 @@ describe('ProductsScreen', () => {
 
       expect(mockAddProduct).toHaveBeenCalledWith(
         expect.objectContaining({
-          price: 999999.99,
+          price: 99999999,
         })
       );
     });
@@ -682,12 +703,12 @@ describe('ProductsScreen', () => {
 
       expect(mockAddProduct).toHaveBeenCalledWith(
         expect.objectContaining({
-          price: 0.01,
+          price: 1,
         })
       );
     });
 
-    it('should handle price with many decimal places', () => {
+    it('should reject prices with more than two decimal places', () => {
       const { getByText, getByPlaceholderText } = renderWithProviders(<ProductsScreen />);
 
       fireEvent.press(getByText('+ Aggiungi Prodotto'));
@@ -700,11 +721,9 @@ describe('ProductsScreen', () => {
 
       fireEvent.press(getByText('Salva'));
 
-      expect(mockAddProduct).toHaveBeenCalledWith(
-        expect.objectContaining({
-          price: 5.123456789,
-        })
-      );
+      // Prices are stored in whole cents, so sub-cent amounts are rejected
+      expect(Alert.alert).toHaveBeenCalledWith('Errore', 'Inserisci un prezzo valido');
+      expect(mockAddProduct).not.toHaveBeenCalled();
     });
 
     it('should handle special characters in product name', () => {
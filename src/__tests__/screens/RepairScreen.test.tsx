@@ -0,0 +1,157 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { Alert, Share } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import RepairScreen from '../../screens/RepairScreen';
+import { AppProvider } from '../../context/AppContext';
+import { CURRENT_SCHEMA_VERSION } from '../../storage/migrations';
+
+// Mock dependencies
+jest.mock('expo-haptics');
+jest.mock('@react-native-async-storage/async-storage');
+
+jest.spyOn(Alert, 'alert');
+
+const renderWithProvider = (component: React.ReactElement) => {
+  return render(<AppProvider>{component}</AppProvider>);
+};
+
+const invalidProduct = {
+  id: 'p-1',
+  name: 'Burger',
+  price: 5.5,
+  emoji: '🍔',
+  color: '#FF0000',
+  buttonColor: '#FFFFFF',
+};
+
+const mockStoredProducts = (products: unknown[]) => {
+  (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+    if (key === '@party_kiosk_schema_version') {
+      return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+    }
+    if (key === '@party_kiosk_products') {
+      return Promise.resolve(JSON.stringify(products));
+    }
+    return Promise.resolve(null);
+  });
+};
+
+describe('RepairScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation();
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  it('should show empty state when nothing is quarantined', async () => {
+    const { getByText } = renderWithProvider(<RepairScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Nessun dato da riparare')).toBeTruthy();
+    });
+  });
+
+  it('should list quarantined records with their issues', async () => {
+    mockStoredProducts([invalidProduct]);
+
+    const { getByText } = renderWithProvider(<RepairScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Prodotto')).toBeTruthy();
+    });
+    expect(getByText('• price: Price must be in whole cents')).toBeTruthy();
+  });
+
+  it('should keep a record quarantined while it is still invalid', async () => {
+    mockStoredProducts([invalidProduct]);
+
+    const { getByText, getByLabelText } = renderWithProvider(<RepairScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Ripristina')).toBeTruthy();
+    });
+
+    fireEvent.press(getByLabelText('Restore product record'));
+
+    expect(Alert.alert).toHaveBeenCalledWith(
+      'Record ancora non valido',
+      'price: Price must be in whole cents'
+    );
+    expect(getByText('Prodotto')).toBeTruthy();
+  });
+
+  it('should restore a record once its JSON is fixed', async () => {
+    mockStoredProducts([invalidProduct]);
+
+    const { getByText, getByLabelText } = renderWithProvider(<RepairScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Ripristina')).toBeTruthy();
+    });
+
+    fireEvent.changeText(
+      getByLabelText('Edit product record'),
+      JSON.stringify({ ...invalidProduct, price: 550 })
+    );
+    fireEvent.press(getByLabelText('Restore product record'));
+
+    await waitFor(() => {
+      expect(getByText('Nessun dato da riparare')).toBeTruthy();
+    });
+  });
+
+  it('should reject text that is not valid JSON', async () => {
+    mockStoredProducts([invalidProduct]);
+
+    const { getByText, getByLabelText } = renderWithProvider(<RepairScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Ripristina')).toBeTruthy();
+    });
+
+    fireEvent.changeText(getByLabelText('Edit product record'), '{ broken');
+    fireEvent.press(getByLabelText('Restore product record'));
+
+    expect(Alert.alert).toHaveBeenCalledWith('Errore', 'Il testo non è un JSON valido');
+  });
+
+  it('should export a record through the share sheet', async () => {
+    const shareSpy = jest.spyOn(Share, 'share').mockResolvedValue({ action: 'sharedAction' });
+    mockStoredProducts([invalidProduct]);
+
+    const { getByText, getByLabelText } = renderWithProvider(<RepairScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Esporta')).toBeTruthy();
+    });
+
+    fireEvent.press(getByLabelText('Export product record'));
+
+    expect(shareSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('"p-1"') })
+    );
+  });
+
+  it('should ask for confirmation before deleting a record', async () => {
+    mockStoredProducts([invalidProduct]);
+
+    const { getByText, getByLabelText } = renderWithProvider(<RepairScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Elimina')).toBeTruthy();
+    });
+
+    fireEvent.press(getByLabelText('Delete product record'));
+
+    expect(Alert.alert).toHaveBeenCalledWith(
+      'Elimina Record',
+      expect.any(String),
+      expect.any(Array)
+    );
+  });
+});
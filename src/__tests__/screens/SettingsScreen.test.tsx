@@ -0,0 +1,189 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { Alert } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import SettingsScreen from '../../screens/SettingsScreen';
+import { AppProvider } from '../../context/AppContext';
+import { CURRENT_SCHEMA_VERSION } from '../../storage/migrations';
+import { createMockOrder } from '../utils/testUtils';
+
+// Mock dependencies
+jest.mock('expo-haptics');
+jest.mock('@react-native-async-storage/async-storage');
+
+jest.spyOn(Alert, 'alert');
+
+const renderWithProvider = (component: React.ReactElement) => {
+  return render(<AppProvider>{component}</AppProvider>);
+};
+
+describe('SettingsScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('should list the default payment methods', async () => {
+    const { getByText } = renderWithProvider(<SettingsScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Metodi di Pagamento')).toBeTruthy();
+    });
+    expect(getByText('Contanti')).toBeTruthy();
+    expect(getByText('Carta')).toBeTruthy();
+    expect(getByText('Satispay')).toBeTruthy();
+    expect(getByText('Buono')).toBeTruthy();
+  });
+
+  it('should not allow deleting cash', async () => {
+    const { getByText, queryByLabelText } = renderWithProvider(<SettingsScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Contanti')).toBeTruthy();
+    });
+    expect(queryByLabelText('Delete payment method Contanti')).toBeNull();
+  });
+
+  it('should add a new payment method', async () => {
+    const { getByText, getByLabelText } = renderWithProvider(<SettingsScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Metodi di Pagamento')).toBeTruthy();
+    });
+
+    fireEvent.changeText(getByLabelText('Payment method name input'), 'PayPal');
+    fireEvent.press(getByLabelText('Save payment method'));
+
+    await waitFor(() => {
+      expect(getByText('PayPal')).toBeTruthy();
+    });
+  });
+
+  it('should reject duplicate names', async () => {
+    const { getByText, getByLabelText } = renderWithProvider(<SettingsScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Metodi di Pagamento')).toBeTruthy();
+    });
+
+    fireEvent.changeText(getByLabelText('Payment method name input'), 'carta');
+    fireEvent.press(getByLabelText('Save payment method'));
+
+    expect(Alert.alert).toHaveBeenCalledWith(
+      'Errore',
+      'Esiste già un metodo di pagamento con questo nome'
+    );
+  });
+
+  it('should offer to disable a method already used by orders', async () => {
+    (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+      if (key === '@party_kiosk_schema_version') {
+        return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+      }
+      if (key === '@party_kiosk_orders') {
+        return Promise.resolve(JSON.stringify([createMockOrder({ payments: [{ method: 'card', amount: 500 }] })]));
+      }
+      return Promise.resolve(null);
+    });
+
+    const { getByText, getByLabelText } = renderWithProvider(<SettingsScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Carta')).toBeTruthy();
+    });
+
+    fireEvent.press(getByLabelText('Delete payment method Carta'));
+
+    expect(Alert.alert).toHaveBeenCalledWith(
+      'Metodo in uso',
+      expect.any(String),
+      expect.arrayContaining([expect.objectContaining({ text: 'Disattiva' })])
+    );
+  });
+
+  it('should add a pricing rule', async () => {
+    const { getByText, getByLabelText } = renderWithProvider(<SettingsScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Prezzi a Tempo')).toBeTruthy();
+    });
+
+    fireEvent.changeText(getByLabelText('Pricing rule name input'), 'Happy Hour');
+    fireEvent.changeText(getByLabelText('Pricing rule start time input'), '18:00');
+    fireEvent.changeText(getByLabelText('Pricing rule end time input'), '20:00');
+    fireEvent.press(getByLabelText('Pricing rule category Bevande'));
+    fireEvent.changeText(getByLabelText('Pricing rule value input'), '3');
+    fireEvent.press(getByLabelText('Save pricing rule'));
+
+    await waitFor(() => {
+      expect(getByText('Happy Hour')).toBeTruthy();
+    });
+    expect(getByText('18:00-20:00 • tutti i giorni • € 3.00')).toBeTruthy();
+  });
+
+  it('should require a category or product for a pricing rule', async () => {
+    const { getByText, getByLabelText } = renderWithProvider(<SettingsScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Prezzi a Tempo')).toBeTruthy();
+    });
+
+    fireEvent.changeText(getByLabelText('Pricing rule name input'), 'Happy Hour');
+    fireEvent.changeText(getByLabelText('Pricing rule start time input'), '18:00');
+    fireEvent.changeText(getByLabelText('Pricing rule end time input'), '20:00');
+    fireEvent.press(getByLabelText('Save pricing rule'));
+
+    expect(Alert.alert).toHaveBeenCalledWith('Errore', 'Scegli almeno una categoria o un prodotto');
+  });
+
+  it('should add a promotion', async () => {
+    const { getByText, getByLabelText } = renderWithProvider(<SettingsScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Promozioni')).toBeTruthy();
+    });
+
+    fireEvent.changeText(getByLabelText('Promotion name input'), '3x2 Birre');
+    fireEvent.changeText(getByLabelText('Promotion quantity input'), '3');
+    fireEvent.changeText(getByLabelText('Promotion value input'), '2');
+    fireEvent.press(getByLabelText('Promotion category Bevande'));
+    fireEvent.press(getByLabelText('Save promotion'));
+
+    await waitFor(() => {
+      expect(getByText('3x2 Birre')).toBeTruthy();
+    });
+    expect(getByText('3x2')).toBeTruthy();
+  });
+
+  it('should reject a promotion that charges for every unit', async () => {
+    const { getByText, getByLabelText } = renderWithProvider(<SettingsScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Promozioni')).toBeTruthy();
+    });
+
+    fireEvent.changeText(getByLabelText('Promotion name input'), '3x3');
+    fireEvent.changeText(getByLabelText('Promotion quantity input'), '3');
+    fireEvent.changeText(getByLabelText('Promotion value input'), '3');
+    fireEvent.press(getByLabelText('Promotion category Bevande'));
+    fireEvent.press(getByLabelText('Save promotion'));
+
+    expect(Alert.alert).toHaveBeenCalledWith('Errore', 'I pezzi da pagare devono essere tra 1 e 2');
+  });
+
+  it('should save the operator who signs the audit log', async () => {
+    const { getByText, getByLabelText } = renderWithProvider(<SettingsScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Operatore')).toBeTruthy();
+    });
+
+    fireEvent.changeText(getByLabelText('Operator name input'), 'Giulia');
+    fireEvent.press(getByLabelText('Save operator'));
+
+    await waitFor(() => {
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith('@party_kiosk_operator', '"Giulia"');
+    });
+    expect(getByLabelText('Open audit log')).toBeTruthy();
+  });
+});
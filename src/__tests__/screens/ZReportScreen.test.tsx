@@ -0,0 +1,95 @@
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import { Share } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import ZReportScreen from '../../screens/ZReportScreen';
+import { AppProvider } from '../../context/AppContext';
+import { CURRENT_SCHEMA_VERSION } from '../../storage/migrations';
+import { createMockOrder, createMockOrderItem, createMockProduct } from '../utils/testUtils';
+
+// Mock dependencies
+jest.mock('expo-haptics');
+jest.mock('@react-native-async-storage/async-storage');
+
+const renderWithProvider = (component: React.ReactElement) => {
+  return render(<AppProvider>{component}</AppProvider>);
+};
+
+const mockStoredOrders = (orders: unknown[]) => {
+  (AsyncStorage.getItem as jest.Mock).mockImplementation((key: string) => {
+    if (key === '@party_kiosk_schema_version') {
+      return Promise.resolve(String(CURRENT_SCHEMA_VERSION));
+    }
+    if (key === '@party_kiosk_orders') {
+      return Promise.resolve(JSON.stringify(orders));
+    }
+    return Promise.resolve(null);
+  });
+};
+
+const beer = createMockProduct({ id: 'beer', name: 'Birra', price: 500, category: 'drinks' });
+
+describe('ZReportScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('should show empty state when the session has no orders', async () => {
+    const { getByText } = renderWithProvider(<ZReportScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Nessun ordine')).toBeTruthy();
+    });
+  });
+
+  it('should show totals and breakdowns of the current session', async () => {
+    mockStoredOrders([
+      createMockOrder({
+        id: 'o1',
+        items: [createMockOrderItem({ product: beer, quantity: 2 })],
+        discount: { type: 'fixed', value: 200, reason: 'Socio' },
+        discountTotal: 200,
+        total: 800,
+        payments: [{ method: 'card', amount: 800 }],
+      }),
+    ]);
+
+    const { getByText, getAllByText } = renderWithProvider(<ZReportScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Netto')).toBeTruthy();
+    });
+    expect(getByText('Sessione corrente')).toBeTruthy();
+    expect(getByText('€ 10.00')).toBeTruthy();
+    expect(getByText('-€ 2.00')).toBeTruthy();
+    expect(getByText('€ 8.00')).toBeTruthy();
+    expect(getByText('1 ordini • € 8.00')).toBeTruthy();
+    expect(getByText('Bevande')).toBeTruthy();
+    expect(getByText('Cauzioni nette')).toBeTruthy();
+    // Once for the category, once for the product, after the order discount
+    expect(getAllByText('2 pz • € 8.00')).toHaveLength(2);
+  });
+
+  it('should export the report as text and as CSV', async () => {
+    const shareSpy = jest.spyOn(Share, 'share').mockResolvedValue({ action: 'sharedAction' });
+    mockStoredOrders([createMockOrder({ id: 'o1', items: [createMockOrderItem({ product: beer })] })]);
+
+    const { getByLabelText, getByText } = renderWithProvider(<ZReportScreen />);
+
+    await waitFor(() => {
+      expect(getByText('Netto')).toBeTruthy();
+    });
+
+    fireEvent.press(getByLabelText('Export Z report as text'));
+    expect(shareSpy).toHaveBeenLastCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('REPORT Z - Sessione corrente') })
+    );
+
+    fireEvent.press(getByLabelText('Export Z report as CSV'));
+    expect(shareSpy).toHaveBeenLastCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('Sezione,Voce,Valore,Importo') })
+    );
+    shareSpy.mockRestore();
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  convertProductsToCents,
+  convertOrdersToCents,
+  inferOrderPaymentMethods,
+  convertPaymentMethodsToLegs,
+  getStoredSchemaVersion,
+  runMigrations,
+  MIGRATIONS,
+  CURRENT_SCHEMA_VERSION,
+  PersistedData,
+} from '../../storage/migrations';
+
+describe('Storage Migrations', () => {
+  describe('convertProductsToCents', () => {
+    it('should convert product prices from euros to cents', () => {
+      const products = [
+        { id: '1', name: 'Birra', price: 3.5 },
+        { id: '2', name: 'Acqua', price: 1 },
+      ];
+
+      expect(convertProductsToCents(products)).toEqual([
+        { id: '1', name: 'Birra', price: 350 },
+        { id: '2', name: 'Acqua', price: 100 },
+      ]);
+    });
+
+    it('should leave malformed entries for validation to reject', () => {
+      expect(convertProductsToCents([null, { id: '1', price: 'free' }])).toEqual([
+        null,
+        { id: '1', price: 'free' },
+      ]);
+      expect(convertProductsToCents(null)).toBeNull();
+    });
+  });
+
+  describe('convertOrdersToCents', () => {
+    it('should convert totals, payments and item prices', () => {
+      const orders = [
+        {
+          id: 'o1',
+          items: [{ product: { id: '1', price: 0.1 }, quantity: 3 }],
+          total: 0.30000000000000004,
+          timestamp: '2025-01-15T10:30:00.000Z',
+          cashPaid: 1,
+          change: 0.7,
+        },
+      ];
+
+      expect(convertOrdersToCents(orders)).toEqual([
+        {
+          id: 'o1',
+          items: [{ product: { id: '1', price: 10 }, quantity: 3 }],
+          total: 30,
+          timestamp: '2025-01-15T10:30:00.000Z',
+          cashPaid: 100,
+          change: 70,
+        },
+      ]);
+    });
+
+    it('should not add payment fields to non-cash orders', () => {
+      const [order] = convertOrdersToCents([{ id: 'o1', items: [], total: 2 }]) as object[];
+
+      expect(order).not.toHaveProperty('cashPaid');
+      expect(order).not.toHaveProperty('change');
+    });
+  });
+
+  describe('MIGRATIONS', () => {
+    it('should be numbered consecutively from 1', () => {
+      expect(MIGRATIONS.map(m => m.version)).toEqual(
+        MIGRATIONS.map((_, index) => index + 1)
+      );
+      expect(CURRENT_SCHEMA_VERSION).toBe(MIGRATIONS.length);
+    });
+  });
+
+  describe('getStoredSchemaVersion', () => {
+    it('should parse a stored version', () => {
+      expect(getStoredSchemaVersion('3')).toBe(3);
+    });
+
+    it('should treat unversioned data as version 0', () => {
+      expect(getStoredSchemaVersion(null)).toBe(0);
+      expect(getStoredSchemaVersion('garbage')).toBe(0);
+    });
+  });
+
+  describe('inferOrderPaymentMethods', () => {
+    it('should mark orders with cash paid as cash', () => {
+      const orders = [{ id: 'o1', total: 500, cashPaid: 1000, change: 500 }];
+
+      expect(inferOrderPaymentMethods(orders)).toEqual([
+        { id: 'o1', total: 500, cashPaid: 1000, change: 500, paymentMethod: 'cash' },
+      ]);
+    });
+
+    it('should leave orders without cash paid unspecified', () => {
+      const orders = [{ id: 'o1', total: 500 }];
+
+      expect(inferOrderPaymentMethods(orders)).toEqual([{ id: 'o1', total: 500 }]);
+    });
+
+    it('should not overwrite an existing payment method', () => {
+      const orders = [{ id: 'o1', total: 500, cashPaid: 500, paymentMethod: 'card' }];
+
+      expect(inferOrderPaymentMethods(orders)).toEqual(orders);
+    });
+
+    it('should pass malformed data through unchanged', () => {
+      expect(inferOrderPaymentMethods(null)).toBeNull();
+      expect(inferOrderPaymentMethods(['bad'])).toEqual(['bad']);
+    });
+  });
+
+  describe('convertPaymentMethodsToLegs', () => {
+    it('should turn the payment method into a single leg for the total', () => {
+      const orders = [{ id: 'o1', total: 500, paymentMethod: 'card' }];
+
+      expect(convertPaymentMethodsToLegs(orders)).toEqual([
+        { id: 'o1', total: 500, payments: [{ method: 'card', amount: 500 }] },
+      ]);
+    });
+
+    it('should leave orders without a payment method unspecified', () => {
+      const orders = [{ id: 'o1', total: 500 }];
+
+      expect(convertPaymentMethodsToLegs(orders)).toEqual(orders);
+    });
+
+    it('should pass malformed data through unchanged', () => {
+      expect(convertPaymentMethodsToLegs('bad')).toBe('bad');
+    });
+  });
+
+  describe('runMigrations', () => {
+    const legacyData: PersistedData = {
+      products: [{ id: '1', price: 2.5 }],
+      categories: null,
+      orders: [],
+      sessions: null,
+    };
+
+    it('should upgrade unversioned data to the current version', () => {
+      const { data, version } = runMigrations(legacyData, 0);
+
+      expect(version).toBe(CURRENT_SCHEMA_VERSION);
+      expect((data.products as { price: number }[])[0].price).toBe(250);
+    });
+
+    it('should skip migrations at or below the stored version', () => {
+      const { data, version } = runMigrations(legacyData, CURRENT_SCHEMA_VERSION);
+
+      expect(version).toBe(CURRENT_SCHEMA_VERSION);
+      expect(data).toBe(legacyData);
+    });
+
+    it('should migrate the orders of archived sessions', () => {
+      const { data } = runMigrations(
+        {
+          products: null,
+          categories: null,
+          orders: null,
+          sessions: [
+            { id: 's1', name: 'Sagra', orders: [{ id: 'o1', items: [], total: 1.2, cashPaid: 2 }] },
+            'not a session',
+          ],
+        },
+        0
+      );
+
+      expect(data.sessions).toEqual([
+        {
+          id: 's1',
+          name: 'Sagra',
+          orders: [{ id: 'o1', items: [], total: 120, cashPaid: 200, payments: [{ method: 'cash', amount: 120 }] }],
+        },
+        'not a session',
+      ]);
+    });
+
+    describe('v1: money as integer cents', () => {
+      it('should convert products and orders to cents', () => {
+        const v1 = MIGRATIONS[0].migrate({
+          products: [{ id: '1', price: 1.2 }],
+          categories: null,
+          orders: [{ id: 'o1', items: [], total: 1.2 }],
+          sessions: null,
+        });
+
+        expect(v1.products).toEqual([{ id: '1', price: 120 }]);
+        expect(v1.orders).toEqual([{ id: 'o1', items: [], total: 120 }]);
+        expect(v1.categories).toBeNull();
+      });
+    });
+
+    describe('v2: payment method on cash orders', () => {
+      it('should infer cash from cashPaid', () => {
+        const v2 = MIGRATIONS[1].migrate({
+          products: null,
+          categories: null,
+          orders: [{ id: 'o1', total: 120, cashPaid: 200 }, { id: 'o2', total: 120 }],
+          sessions: null,
+        });
+
+        expect(v2.orders).toEqual([
+          { id: 'o1', total: 120, cashPaid: 200, paymentMethod: 'cash' },
+          { id: 'o2', total: 120 },
+        ]);
+      });
+    });
+
+    describe('v3: payment legs', () => {
+      it('should move the payment method into a payment leg', () => {
+        const v3 = MIGRATIONS[2].migrate({
+          products: null,
+          categories: null,
+          orders: [{ id: 'o1', total: 120, cashPaid: 200, paymentMethod: 'cash' }],
+          sessions: null,
+        });
+
+        expect(v3.orders).toEqual([
+          { id: 'o1', total: 120, cashPaid: 200, payments: [{ method: 'cash', amount: 120 }] },
+        ]);
+      });
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { filterAuditLog, formatAuditValue, getAuditArea } from '../../utils/audit';
+import { AuditEntry } from '../../types';
+
+describe('Audit Log Utilities', () => {
+  const entry = (id: string, action: AuditEntry['action'], timestamp: string): AuditEntry => ({
+    id,
+    action,
+    timestamp: new Date(timestamp),
+  });
+  const log = [
+    entry('1', 'addProduct', '2026-06-01T18:00:00.000Z'),
+    entry('2', 'completeOrder', '2026-06-01T20:00:00.000Z'),
+    entry('3', 'deleteOrder', '2026-06-01T21:00:00.000Z'),
+  ];
+
+  describe('getAuditArea', () => {
+    it('should group actions by the data they change', () => {
+      expect(getAuditArea(log[0])).toBe('product');
+      expect(getAuditArea(log[2])).toBe('order');
+      expect(getAuditArea(entry('4', 'setOrderDiscount', '2026-06-01T21:00:00.000Z'))).toBe('currentOrder');
+    });
+  });
+
+  describe('filterAuditLog', () => {
+    it('should list everything newest first without filters', () => {
+      expect(filterAuditLog(log, {}).map(e => e.id)).toEqual(['3', '2', '1']);
+      expect(log.map(e => e.id)).toEqual(['1', '2', '3']);
+    });
+
+    it('should filter by area and time', () => {
+      expect(filterAuditLog(log, { area: 'order' }).map(e => e.id)).toEqual(['3', '2']);
+      expect(
+        filterAuditLog(log, { since: new Date('2026-06-01T20:30:00.000Z') }).map(e => e.id)
+      ).toEqual(['3']);
+      expect(filterAuditLog(log, { area: 'category' })).toEqual([]);
+    });
+  });
+
+  describe('formatAuditValue', () => {
+    it('should show short values as JSON and truncate long ones', () => {
+      expect(formatAuditValue({ price: 500 })).toBe('{"price":500}');
+      expect(formatAuditValue(2)).toBe('2');
+      expect(formatAuditValue('x'.repeat(200), 20)).toHaveLength(20);
+      expect(formatAuditValue('x'.repeat(200), 20).endsWith('…')).toBe(true);
+    });
+  });
+});
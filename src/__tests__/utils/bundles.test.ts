@@ -0,0 +1,171 @@
+import {
+  isBundle,
+  canBeBundleComponent,
+  getSlotChoices,
+  getMissingBundleSlots,
+  toBundleComponents,
+  expandBundleComponents,
+  getUnitsInOrder,
+  getBundleBreakdown,
+  formatBundleComponents,
+} from '../../utils/bundles';
+import { createMockOrderItem, createMockProduct } from './testUtils';
+
+describe('Bundle Utilities', () => {
+  const burger = createMockProduct({ id: 'burger', name: 'Panino', price: 500, category: 'cibo' });
+  const cola = createMockProduct({ id: 'cola', name: 'Cola', price: 250, category: 'bibite' });
+  const water = createMockProduct({ id: 'water', name: 'Acqua', price: 100, category: 'bibite' });
+  const beer = createMockProduct({
+    id: 'beer',
+    name: 'Birra',
+    price: 300,
+    category: 'bibite',
+    variants: [{ id: 'media', name: 'Media', price: 300 }],
+  });
+  const menu = createMockProduct({
+    id: 'menu',
+    name: 'Menu',
+    price: 600,
+    bundleSlots: [
+      { id: 'panino', name: 'Panino', type: 'fixed', productId: 'burger' },
+      { id: 'bibita', name: 'Bibita', type: 'category', categoryId: 'bibite' },
+    ],
+  });
+  const products = [burger, cola, water, beer, menu];
+
+  describe('isBundle / canBeBundleComponent', () => {
+    it('should tell bundles apart from plain products', () => {
+      expect(isBundle(menu)).toBe(true);
+      expect(isBundle(burger)).toBe(false);
+      expect(isBundle(createMockProduct({ bundleSlots: [] }))).toBe(false);
+    });
+
+    it('should not allow bundles or products with variants as components', () => {
+      expect(canBeBundleComponent(cola)).toBe(true);
+      expect(canBeBundleComponent(beer)).toBe(false);
+      expect(canBeBundleComponent(menu)).toBe(false);
+    });
+  });
+
+  describe('getSlotChoices', () => {
+    it('should offer the fixed product or the category products', () => {
+      expect(getSlotChoices(menu.bundleSlots![0], products)).toEqual([burger]);
+      expect(getSlotChoices(menu.bundleSlots![1], products)).toEqual([cola, water]);
+    });
+
+    it('should be empty when the fixed product was deleted', () => {
+      expect(getSlotChoices(menu.bundleSlots![0], [cola, water])).toEqual([]);
+    });
+  });
+
+  describe('getMissingBundleSlots / toBundleComponents', () => {
+    it('should require a pick for category slots', () => {
+      expect(getMissingBundleSlots(menu, {}, products).map(slot => slot.id)).toEqual(['bibita']);
+      expect(getMissingBundleSlots(menu, { bibita: 'water' }, products)).toEqual([]);
+    });
+
+    it('should ignore picks outside the slot category', () => {
+      expect(getMissingBundleSlots(menu, { bibita: 'burger' }, products).map(slot => slot.id)).toEqual([
+        'bibita',
+      ]);
+    });
+
+    it('should build one component per slot in slot order', () => {
+      expect(toBundleComponents(menu, { bibita: 'cola' }, products)).toEqual([
+        { slotId: 'panino', product: burger },
+        { slotId: 'bibita', product: cola },
+      ]);
+    });
+  });
+
+  describe('expandBundleComponents / getUnitsInOrder', () => {
+    const items = [
+      createMockOrderItem({
+        product: menu,
+        quantity: 2,
+        bundleComponents: [
+          { slotId: 'panino', product: burger },
+          { slotId: 'bibita', product: cola },
+        ],
+      }),
+      createMockOrderItem({ product: cola, quantity: 1 }),
+    ];
+
+    it('should turn bundle lines into component lines', () => {
+      expect(expandBundleComponents(items)).toEqual([
+        { product: burger, quantity: 2 },
+        { product: cola, quantity: 2 },
+      ]);
+    });
+
+    it('should count units sold alone and inside bundles', () => {
+      expect(getUnitsInOrder(items, 'cola')).toBe(3);
+      expect(getUnitsInOrder(items, 'burger')).toBe(2);
+      expect(getUnitsInOrder(items, 'menu')).toBe(2);
+      expect(getUnitsInOrder(items, 'water')).toBe(0);
+    });
+  });
+
+  describe('getBundleBreakdown', () => {
+    it('should share the line total in proportion to component prices', () => {
+      const item = createMockOrderItem({
+        product: menu,
+        quantity: 1,
+        bundleComponents: [
+          { slotId: 'panino', product: burger },
+          { slotId: 'bibita', product: cola },
+        ],
+      });
+
+      expect(getBundleBreakdown(item)).toEqual([
+        { product: burger, quantity: 1, revenue: 400 },
+        { product: cola, quantity: 1, revenue: 200 },
+      ]);
+    });
+
+    it('should give rounding cents to the last component so revenues add up', () => {
+      const item = createMockOrderItem({
+        product: { ...menu, price: 1000 },
+        quantity: 1,
+        bundleComponents: [
+          { slotId: 'a', product: water },
+          { slotId: 'b', product: water },
+          { slotId: 'c', product: water },
+        ],
+      });
+
+      const revenues = getBundleBreakdown(item).map(entry => entry.revenue);
+      expect(revenues).toEqual([333, 333, 334]);
+    });
+
+    it('should split equally when all components are free', () => {
+      const free = createMockProduct({ price: 0 });
+      const item = createMockOrderItem({
+        product: menu,
+        quantity: 1,
+        bundleComponents: [
+          { slotId: 'a', product: free },
+          { slotId: 'b', product: free },
+        ],
+      });
+
+      expect(getBundleBreakdown(item).map(entry => entry.revenue)).toEqual([300, 300]);
+    });
+
+    it('should be empty for plain lines', () => {
+      expect(getBundleBreakdown(createMockOrderItem())).toEqual([]);
+    });
+  });
+
+  describe('formatBundleComponents', () => {
+    it('should list component names', () => {
+      expect(
+        formatBundleComponents([
+          { slotId: 'panino', product: burger },
+          { slotId: 'bibita', product: cola },
+        ])
+      ).toBe('Panino, Cola');
+      expect(formatBundleComponents()).toBe('');
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  createCashCount,
+  EMPTY_CASH_DRAWER,
+  formatOverShort,
+  getCashDrawerSummary,
+  getOrderCash,
+  getOverShort,
+} from '../../utils/cashDrawer';
+import { CashDrawer, OrderRefund } from '../../types';
+import { createMockOrder } from './testUtils';
+
+describe('Cash Drawer Utilities', () => {
+  const refund = (amount: number): OrderRefund => ({
+    id: 'r1',
+    type: 'partial',
+    reason: 'Ordine sbagliato',
+    lines: [{ itemIndex: 0, quantity: 1 }],
+    amount,
+    timestamp: new Date(),
+  });
+
+  describe('getOrderCash', () => {
+    it('should keep cash paid minus change', () => {
+      const order = createMockOrder({
+        total: 800,
+        payments: [{ method: 'cash', amount: 800 }],
+        cashPaid: 1000,
+        change: 200,
+      });
+
+      expect(getOrderCash(order)).toBe(800);
+    });
+
+    it('should fall back to the cash legs when nothing was tendered', () => {
+      const split = createMockOrder({
+        total: 1000,
+        payments: [
+          { method: 'cash', amount: 400 },
+          { method: 'card', amount: 600 },
+        ],
+      });
+      const payout = createMockOrder({ total: -200, payments: [{ method: 'cash', amount: -200 }] });
+
+      expect(getOrderCash(split)).toBe(400);
+      expect(getOrderCash(payout)).toBe(-200);
+      expect(getOrderCash(createMockOrder({ payments: [{ method: 'card', amount: 1000 }] }))).toBe(0);
+    });
+
+    it('should take refunds out of the drawer up to the cash paid', () => {
+      const order = createMockOrder({
+        total: 1000,
+        payments: [
+          { method: 'cash', amount: 400 },
+          { method: 'card', amount: 600 },
+        ],
+      });
+
+      expect(getOrderCash({ ...order, refunds: [refund(300)] })).toBe(100);
+      expect(getOrderCash({ ...order, refunds: [refund(1000)] })).toBe(0);
+    });
+  });
+
+  describe('getCashDrawerSummary', () => {
+    it('should add float, cash sales and movements up to the expected cash', () => {
+      const drawer: CashDrawer = {
+        openingFloat: 10000,
+        movements: [
+          { id: 'm1', type: 'out', amount: 2500, reason: 'Fornitore', timestamp: new Date() },
+          { id: 'm2', type: 'in', amount: 500, reason: 'Resto', timestamp: new Date() },
+        ],
+      };
+      const orders = [
+        createMockOrder({ id: 'o1', total: 800, payments: [{ method: 'cash', amount: 800 }], cashPaid: 1000, change: 200 }),
+        createMockOrder({ id: 'o2', total: 1200, payments: [{ method: 'card', amount: 1200 }] }),
+      ];
+
+      expect(getCashDrawerSummary(drawer, orders)).toEqual({
+        openingFloat: 10000,
+        sales: 800,
+        cashIn: 500,
+        cashOut: 2500,
+        expected: 8800,
+      });
+    });
+
+    it('should expect nothing from an empty drawer without orders', () => {
+      expect(getCashDrawerSummary(EMPTY_CASH_DRAWER, []).expected).toBe(0);
+    });
+  });
+
+  describe('cash count', () => {
+    it('should count pieces per denomination, leaving out empty ones', () => {
+      const count = createCashCount({ 2000: 2, 500: 1, 50: 3, 10: 0 }, 4600);
+
+      expect(count.lines).toEqual([
+        { value: 2000, quantity: 2 },
+        { value: 500, quantity: 1 },
+        { value: 50, quantity: 3 },
+      ]);
+      expect(count.counted).toBe(4650);
+      expect(count.expected).toBe(4600);
+    });
+
+    it('should report over, short or even', () => {
+      const over = createCashCount({ 2000: 1 }, 1950);
+      const short = createCashCount({ 1000: 1 }, 1250);
+      const even = createCashCount({ 500: 2 }, 1000);
+
+      expect(getOverShort(over)).toBe(50);
+      expect(getOverShort(short)).toBe(-250);
+      expect(formatOverShort(over)).toBe('Eccedenza € 0.50');
+      expect(formatOverShort(short)).toBe('Ammanco € 2.50');
+      expect(formatOverShort(even)).toBe('In pari');
+    });
+  });
+});
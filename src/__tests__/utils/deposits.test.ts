@@ -0,0 +1,80 @@
+import {
+  getUnitDeposit,
+  getLineDeposit,
+  getLineDepositUnits,
+  getDepositsCharged,
+  getDepositsReturned,
+  getDepositAmounts,
+  changeDepositReturns,
+} from '../../utils/deposits';
+import { createMockOrderItem, createMockProduct } from './testUtils';
+
+describe('Deposit Utilities', () => {
+  const beer = createMockProduct({ id: 'beer', price: 500, deposit: 100 });
+  const wine = createMockProduct({ id: 'wine', price: 1600, deposit: 200 });
+  const burger = createMockProduct({ id: 'burger', price: 800 });
+  const menu = createMockProduct({ id: 'menu', price: 1000 });
+
+  describe('getUnitDeposit / getLineDeposit', () => {
+    it('should charge the product deposit for every unit', () => {
+      const item = createMockOrderItem({ product: beer, quantity: 3 });
+      expect(getUnitDeposit(item)).toBe(100);
+      expect(getLineDeposit(item)).toBe(300);
+      expect(getLineDepositUnits(item)).toBe(3);
+    });
+
+    it('should charge the deposits of bundle components', () => {
+      const item = createMockOrderItem({
+        product: menu,
+        quantity: 2,
+        bundleComponents: [
+          { slotId: 'panino', product: burger },
+          { slotId: 'bibita', product: beer },
+        ],
+      });
+      expect(getLineDeposit(item)).toBe(200);
+      expect(getLineDepositUnits(item)).toBe(2);
+    });
+
+    it('should be zero for products without a deposit', () => {
+      expect(getLineDeposit(createMockOrderItem({ product: burger }))).toBe(0);
+    });
+  });
+
+  describe('getDepositsCharged / getDepositsReturned', () => {
+    it('should add up deposits on lines and returns', () => {
+      const items = [
+        createMockOrderItem({ product: beer, quantity: 2 }),
+        createMockOrderItem({ product: wine, quantity: 1 }),
+        createMockOrderItem({ product: burger, quantity: 1 }),
+      ];
+      expect(getDepositsCharged(items)).toBe(400);
+      expect(getDepositsReturned([{ amount: 100, quantity: 3 }, { amount: 200, quantity: 1 }])).toBe(500);
+      expect(getDepositsReturned()).toBe(0);
+    });
+  });
+
+  describe('getDepositAmounts', () => {
+    it('should list distinct deposit amounts, lowest first', () => {
+      const cup = createMockProduct({ id: 'cup', deposit: 100 });
+      expect(getDepositAmounts([wine, burger, beer, cup])).toEqual([100, 200]);
+    });
+  });
+
+  describe('changeDepositReturns', () => {
+    it('should group returns by amount', () => {
+      let returns = changeDepositReturns([], 200, 1);
+      returns = changeDepositReturns(returns, 100, 1);
+      returns = changeDepositReturns(returns, 100, 1);
+      expect(returns).toEqual([
+        { amount: 100, quantity: 2 },
+        { amount: 200, quantity: 1 },
+      ]);
+    });
+
+    it('should remove a group when it reaches zero', () => {
+      expect(changeDepositReturns([{ amount: 100, quantity: 1 }], 100, -1)).toEqual([]);
+      expect(changeDepositReturns([], 100, -1)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  hasModifiers,
+  getModifiersPrice,
+  getMissingRequiredGroups,
+  toggleModifierOption,
+  toSelectedModifiers,
+  formatPriceDelta,
+  formatModifiers,
+} from '../../utils/modifiers';
+import { ModifierGroup } from '../../types';
+import { createMockProduct } from './testUtils';
+
+describe('Modifier Utilities', () => {
+  const sauces: ModifierGroup = {
+    id: 'salse',
+    name: 'Salse',
+    required: false,
+    multiple: true,
+    options: [
+      { id: 'ketchup', name: 'Ketchup', priceDelta: 0 },
+      { id: 'maionese', name: 'Maionese', priceDelta: 0 },
+    ],
+  };
+  const size: ModifierGroup = {
+    id: 'formato',
+    name: 'Formato',
+    required: true,
+    multiple: false,
+    options: [
+      { id: 'normale', name: 'Normale', priceDelta: 0 },
+      { id: 'doppio', name: 'Doppio', priceDelta: 150 },
+    ],
+  };
+  const product = createMockProduct({ id: '1', modifierGroups: [sauces, size] });
+
+  describe('hasModifiers', () => {
+    it('should only be true for products with modifier groups', () => {
+      expect(hasModifiers(product)).toBe(true);
+      expect(hasModifiers(createMockProduct())).toBe(false);
+      expect(hasModifiers(createMockProduct({ modifierGroups: [] }))).toBe(false);
+    });
+  });
+
+  describe('toggleModifierOption', () => {
+    it('should keep a single option in single-choice groups', () => {
+      const first = toggleModifierOption({}, size, 'normale');
+      expect(toggleModifierOption(first, size, 'doppio')).toEqual({ formato: ['doppio'] });
+    });
+
+    it('should add and remove options in multiple-choice groups', () => {
+      const both = toggleModifierOption(toggleModifierOption({}, sauces, 'ketchup'), sauces, 'maionese');
+      expect(both).toEqual({ salse: ['ketchup', 'maionese'] });
+      expect(toggleModifierOption(both, sauces, 'ketchup')).toEqual({ salse: ['maionese'] });
+    });
+  });
+
+  describe('getMissingRequiredGroups', () => {
+    it('should list required groups without a choice', () => {
+      expect(getMissingRequiredGroups(product, { salse: ['ketchup'] })).toEqual([size]);
+      expect(getMissingRequiredGroups(product, { formato: ['normale'] })).toEqual([]);
+    });
+  });
+
+  describe('toSelectedModifiers', () => {
+    it('should copy names and prices in the order the product lists them', () => {
+      const modifiers = toSelectedModifiers(product, { formato: ['doppio'], salse: ['maionese', 'ketchup'] });
+
+      expect(modifiers.map(m => m.optionId)).toEqual(['ketchup', 'maionese', 'doppio']);
+      expect(modifiers[2]).toEqual({ groupId: 'formato', optionId: 'doppio', name: 'Doppio', priceDelta: 150 });
+      expect(getModifiersPrice(modifiers)).toBe(150);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should label price changes with their sign', () => {
+      expect(formatPriceDelta(50)).toBe('+€ 0.50');
+      expect(formatPriceDelta(-100)).toBe('-€ 1.00');
+      expect(formatPriceDelta(0)).toBe('');
+    });
+
+    it('should list modifier names', () => {
+      expect(formatModifiers(toSelectedModifiers(product, { salse: ['ketchup'], formato: ['doppio'] })))
+        .toBe('Ketchup, Doppio');
+      expect(formatModifiers(undefined)).toBe('');
+    });
+  });
+});
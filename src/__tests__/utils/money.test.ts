@@ -0,0 +1,89 @@
+import {
+  toCents,
+  parseMoney,
+  addMoney,
+  multiplyMoney,
+  formatMoney,
+  formatMoneyInput,
+} from '../../utils/money';
+
+describe('Money Utilities', () => {
+  describe('toCents', () => {
+    it('should convert euros to integer cents', () => {
+      expect(toCents(3.5)).toBe(350);
+      expect(toCents(0)).toBe(0);
+    });
+
+    it('should absorb floating-point drift', () => {
+      expect(toCents(0.1 + 0.2)).toBe(30);
+      expect(toCents(1.005 * 100) / 100).toBe(100.5);
+    });
+  });
+
+  describe('parseMoney', () => {
+    it('should parse amounts with dot or comma separators', () => {
+      expect(parseMoney('2.50')).toBe(250);
+      expect(parseMoney('2,5')).toBe(250);
+      expect(parseMoney('10')).toBe(1000);
+      expect(parseMoney('10.')).toBe(1000);
+      expect(parseMoney('.5')).toBe(50);
+    });
+
+    it('should ignore the euro sign and surrounding spaces', () => {
+      expect(parseMoney(' € 3,20 ')).toBe(320);
+    });
+
+    it('should reject invalid input', () => {
+      expect(parseMoney('')).toBeNull();
+      expect(parseMoney('abc')).toBeNull();
+      expect(parseMoney('-5')).toBeNull();
+      expect(parseMoney('1.234')).toBeNull();
+      expect(parseMoney('1.2.3')).toBeNull();
+    });
+  });
+
+  describe('addMoney', () => {
+    it('should sum any number of amounts', () => {
+      expect(addMoney(10, 20, 30)).toBe(60);
+      expect(addMoney()).toBe(0);
+    });
+
+    it('should stay exact where float euros drift', () => {
+      const cents = Array.from({ length: 1000 }, () => 10);
+      expect(addMoney(...cents)).toBe(10000);
+    });
+  });
+
+  describe('multiplyMoney', () => {
+    it('should multiply by a quantity', () => {
+      expect(multiplyMoney(333, 3)).toBe(999);
+    });
+
+    it('should round fractional results to the nearest cent', () => {
+      expect(multiplyMoney(333, 0.5)).toBe(167);
+    });
+  });
+
+  describe('formatMoney', () => {
+    it('should format cents with the euro sign', () => {
+      expect(formatMoney(550)).toBe('€ 5.50');
+      expect(formatMoney(5)).toBe('€ 0.05');
+      expect(formatMoney(0)).toBe('€ 0.00');
+    });
+
+    it('should format negative amounts', () => {
+      expect(formatMoney(-200)).toBe('-€ 2.00');
+    });
+  });
+
+  describe('formatMoneyInput', () => {
+    it('should format cents as a plain decimal string', () => {
+      expect(formatMoneyInput(550)).toBe('5.50');
+      expect(formatMoneyInput(123456)).toBe('1234.56');
+    });
+
+    it('should round-trip through parseMoney', () => {
+      expect(parseMoney(formatMoneyInput(1999))).toBe(1999);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { diffOrderItems, createOrderEdit, formatOrderEditChange } from '../../utils/orderEdits';
+import { createMockOrder, createMockOrderItem, createMockProduct } from './testUtils';
+
+describe('Order Edit Utilities', () => {
+  const beer = createMockProduct({ id: 'beer', name: 'Birra', price: 500 });
+  const burger = createMockProduct({ id: 'burger', name: 'Panino', price: 800 });
+  const fries = createMockProduct({ id: 'fries', name: 'Patatine', price: 300 });
+
+  describe('diffOrderItems', () => {
+    it('should list added, removed and changed lines only', () => {
+      const before = [
+        createMockOrderItem({ product: beer, quantity: 2 }),
+        createMockOrderItem({ product: burger, quantity: 1 }),
+      ];
+      const after = [
+        createMockOrderItem({ product: beer, quantity: 3 }),
+        createMockOrderItem({ product: fries, quantity: 1 }),
+      ];
+
+      expect(diffOrderItems(before, after)).toEqual([
+        { name: 'Birra', before: 2, after: 3 },
+        { name: 'Panino', before: 1, after: 0 },
+        { name: 'Patatine', before: 0, after: 1 },
+      ]);
+    });
+
+    it('should tell lines apart by their modifiers', () => {
+      const ketchup = [{ groupId: 'salse', optionId: 'ketchup', name: 'Ketchup', priceDelta: 0 }];
+      const before = [createMockOrderItem({ product: fries, quantity: 1 })];
+      const after = [
+        createMockOrderItem({ product: fries, quantity: 1 }),
+        createMockOrderItem({ product: fries, quantity: 1, modifiers: ketchup }),
+      ];
+
+      expect(diffOrderItems(before, after)).toEqual([{ name: 'Patatine (Ketchup)', before: 0, after: 1 }]);
+    });
+  });
+
+  describe('createOrderEdit / formatOrderEditChange', () => {
+    it('should record totals and payments before the edit', () => {
+      const timestamp = new Date('2024-06-01T21:00:00');
+      const before = createMockOrder({
+        items: [createMockOrderItem({ product: beer, quantity: 1 })],
+        total: 500,
+        payments: [{ method: 'cash', amount: 500 }],
+      });
+      const after = { ...before, items: [createMockOrderItem({ product: beer, quantity: 2 })], total: 1000 };
+
+      expect(createOrderEdit(before, after, timestamp)).toEqual({
+        timestamp,
+        changes: [{ name: 'Birra', before: 1, after: 2 }],
+        totalBefore: 500,
+        totalAfter: 1000,
+        paymentsBefore: [{ method: 'cash', amount: 500 }],
+      });
+      expect(formatOrderEditChange({ name: 'Birra', before: 1, after: 2 })).toBe('Birra 1 → 2');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  reconcileOrderItems,
+  getLineKey,
+  getItemVariant,
+  getItemName,
+} from '../../utils/orderItems';
+import { createMockProduct } from './testUtils';
+
+describe('Order Item Utilities', () => {
+  describe('reconcileOrderItems', () => {
+    const burger = createMockProduct({ id: '1', name: 'Burger', price: 500 });
+    const fries = createMockProduct({ id: '2', name: 'Fries', price: 300 });
+
+    it('should point lines at the current version of their product', () => {
+      const edited = { ...burger, price: 550 };
+      const { items, removed } = reconcileOrderItems([{ product: burger, quantity: 2 }], [edited]);
+
+      expect(items).toEqual([{ product: edited, quantity: 2 }]);
+      expect(removed).toHaveLength(0);
+    });
+
+    it('should drop lines whose product was deleted', () => {
+      const { items, removed } = reconcileOrderItems(
+        [
+          { product: burger, quantity: 1 },
+          { product: fries, quantity: 1 },
+        ],
+        [burger]
+      );
+
+      expect(items.map(item => item.product.id)).toEqual(['1']);
+      expect(removed.map(item => item.product.id)).toEqual(['2']);
+    });
+
+    it('should keep line discounts', () => {
+      const discount = { type: 'fixed' as const, value: 100, reason: 'Coupon' };
+      const { items } = reconcileOrderItems([{ product: burger, quantity: 1, discount }], [burger]);
+
+      expect(items[0].discount).toEqual(discount);
+    });
+
+    it('should drop lines whose variant was removed', () => {
+      const beer = createMockProduct({
+        id: '3',
+        variants: [
+          { id: 'piccola', name: 'Piccola', price: 300 },
+          { id: 'media', name: 'Media', price: 500 },
+        ],
+      });
+      const edited = { ...beer, variants: [beer.variants![1]] };
+
+      const { items, removed } = reconcileOrderItems(
+        [
+          { product: beer, quantity: 1, variantId: 'piccola' },
+          { product: beer, quantity: 1, variantId: 'media' },
+        ],
+        [edited]
+      );
+
+      expect(items).toEqual([{ product: edited, quantity: 1, variantId: 'media' }]);
+      expect(removed.map(item => item.variantId)).toEqual(['piccola']);
+    });
+
+    it('should refresh bundle components and drop bundles missing one', () => {
+      const menu = createMockProduct({
+        id: '4',
+        bundleSlots: [{ id: 'panino', name: 'Panino', type: 'fixed', productId: '1' }],
+      });
+      const line = { product: menu, quantity: 1, bundleComponents: [{ slotId: 'panino', product: burger }] };
+      const edited = { ...burger, name: 'Cheeseburger' };
+
+      expect(reconcileOrderItems([line], [menu, edited]).items).toEqual([
+        { ...line, bundleComponents: [{ slotId: 'panino', product: edited }] },
+      ]);
+      expect(reconcileOrderItems([line], [menu]).removed).toEqual([line]);
+      expect(reconcileOrderItems([line], [{ ...menu, bundleSlots: undefined }, burger]).removed).toEqual([line]);
+    });
+  });
+
+  describe('getLineKey', () => {
+    const product = createMockProduct({ id: '1' });
+    const ketchup = { groupId: 'salse', optionId: 'ketchup', name: 'Ketchup', priceDelta: 0 };
+    const doppio = { groupId: 'formato', optionId: 'doppio', name: 'Doppio', priceDelta: 150 };
+
+    it('should use the product ID for plain lines', () => {
+      expect(getLineKey({ product })).toBe('1');
+      expect(getLineKey({ product, modifiers: [] })).toBe('1');
+    });
+
+    it('should not depend on the order modifiers were chosen in', () => {
+      expect(getLineKey({ product, modifiers: [ketchup, doppio] })).toBe(
+        getLineKey({ product, modifiers: [doppio, ketchup] })
+      );
+      expect(getLineKey({ product, modifiers: [ketchup] })).not.toBe(getLineKey({ product }));
+    });
+
+    it('should tell variants apart', () => {
+      expect(getLineKey({ product, variantId: 'media' })).toBe('1/media');
+      expect(getLineKey({ product, variantId: 'media', modifiers: [ketchup] })).toBe('1/media:salse.ketchup');
+    });
+
+    it('should tell bundle components apart', () => {
+      const cola = createMockProduct({ id: '2' });
+      const water = createMockProduct({ id: '3' });
+
+      expect(getLineKey({ product, bundleComponents: [{ slotId: 'bibita', product: cola }] })).toBe(
+        '1[bibita=2]'
+      );
+      expect(getLineKey({ product, bundleComponents: [{ slotId: 'bibita', product: water }] })).not.toBe(
+        getLineKey({ product, bundleComponents: [{ slotId: 'bibita', product: cola }] })
+      );
+    });
+  });
+
+  describe('variants', () => {
+    const wine = createMockProduct({
+      name: 'Vino',
+      variants: [{ id: 'calice', name: 'Calice', price: 400 }],
+    });
+
+    it('should look the chosen variant up on the line product', () => {
+      expect(getItemVariant({ product: wine, variantId: 'calice' })?.price).toBe(400);
+      expect(getItemVariant({ product: wine, variantId: 'bottiglia' })).toBeUndefined();
+      expect(getItemVariant({ product: wine })).toBeUndefined();
+    });
+
+    it('should name lines after their variant', () => {
+      expect(getItemName({ product: wine, variantId: 'calice' })).toBe('Vino (Calice)');
+      expect(getItemName({ product: wine })).toBe('Vino');
+    });
+  });
+});
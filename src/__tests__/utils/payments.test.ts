@@ -0,0 +1,69 @@
+import {
+  sumPayments,
+  getCashAmount,
+  getRemainingBalance,
+  createPaymentLeg,
+} from '../../utils/payments';
+import { PaymentLeg } from '../../types';
+
+describe('Payment Utilities', () => {
+  const legs: PaymentLeg[] = [
+    { method: 'card', amount: 600 },
+    { method: 'cash', amount: 250 },
+    { method: 'cash', amount: 100 },
+  ];
+
+  describe('sumPayments', () => {
+    it('should add up every leg', () => {
+      expect(sumPayments(legs)).toBe(950);
+    });
+
+    it('should return 0 for no legs', () => {
+      expect(sumPayments([])).toBe(0);
+    });
+  });
+
+  describe('getCashAmount', () => {
+    it('should add up only cash legs', () => {
+      expect(getCashAmount(legs)).toBe(350);
+    });
+  });
+
+  describe('getRemainingBalance', () => {
+    it('should subtract paid legs from the total', () => {
+      expect(getRemainingBalance(1000, legs)).toBe(50);
+    });
+
+    it('should never be negative', () => {
+      expect(getRemainingBalance(500, legs)).toBe(0);
+    });
+  });
+
+  describe('createPaymentLeg', () => {
+    it('should create a leg for part of the balance', () => {
+      expect(createPaymentLeg(1000, [], 'card', 400)).toEqual({
+        leg: { method: 'card', amount: 400 },
+        change: 0,
+      });
+    });
+
+    it('should give change when cash exceeds the balance', () => {
+      expect(createPaymentLeg(1000, [{ method: 'card', amount: 600 }], 'cash', 500)).toEqual({
+        leg: { method: 'cash', amount: 400 },
+        change: 100,
+      });
+    });
+
+    it('should reject non-cash amounts above the balance', () => {
+      expect(createPaymentLeg(1000, [{ method: 'card', amount: 600 }], 'card', 500)).toBeNull();
+    });
+
+    it('should reject zero amounts', () => {
+      expect(createPaymentLeg(1000, [], 'card', 0)).toBeNull();
+    });
+
+    it('should reject legs once the balance is paid', () => {
+      expect(createPaymentLeg(1000, [{ method: 'card', amount: 1000 }], 'cash', 100)).toBeNull();
+    });
+  });
+});
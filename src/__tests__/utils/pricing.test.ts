@@ -0,0 +1,127 @@
+import {
+  getDiscountAmount,
+  getLineSubtotal,
+  getLineTotal,
+  getUnitPrice,
+  calculateOrderTotals,
+  formatDiscountValue,
+} from '../../utils/pricing';
+import { OrderItem } from '../../types';
+import { createMockProduct } from './testUtils';
+
+describe('Pricing Utilities', () => {
+  const items: OrderItem[] = [
+    {
+      product: createMockProduct({ id: '1', price: 500 }),
+      quantity: 2,
+      discount: { type: 'percentage', value: 10, reason: 'Socio' },
+    },
+    { product: createMockProduct({ id: '2', price: 350 }), quantity: 1 },
+  ];
+
+  describe('getDiscountAmount', () => {
+    it('should take a percentage of the amount, rounded to the cent', () => {
+      expect(getDiscountAmount(999, { type: 'percentage', value: 10, reason: 'Socio' })).toBe(100);
+    });
+
+    it('should take a fixed amount off', () => {
+      expect(getDiscountAmount(1000, { type: 'fixed', value: 200, reason: 'Coupon' })).toBe(200);
+    });
+
+    it('should never exceed the amount', () => {
+      expect(getDiscountAmount(150, { type: 'fixed', value: 200, reason: 'Coupon' })).toBe(150);
+    });
+
+    it('should return 0 without a discount', () => {
+      expect(getDiscountAmount(1000)).toBe(0);
+    });
+  });
+
+  describe('line totals', () => {
+    it('should discount the whole line', () => {
+      expect(getLineSubtotal(items[0])).toBe(1000);
+      expect(getLineTotal(items[0])).toBe(900);
+    });
+
+    it('should leave lines without a discount unchanged', () => {
+      expect(getLineTotal(items[1])).toBe(350);
+    });
+
+    it('should add modifier prices to every unit, never going below zero', () => {
+      const item: OrderItem = {
+        product: createMockProduct({ price: 500 }),
+        quantity: 3,
+        modifiers: [
+          { groupId: 'extra', optionId: 'formaggio', name: 'Formaggio', priceDelta: 50 },
+          { groupId: 'senza', optionId: 'cipolla', name: 'Senza cipolla', priceDelta: 0 },
+        ],
+      };
+
+      expect(getUnitPrice(item)).toBe(550);
+      expect(getLineSubtotal(item)).toBe(1650);
+      expect(getUnitPrice({
+        ...item,
+        modifiers: [{ groupId: 'formato', optionId: 'mini', name: 'Mini', priceDelta: -800 }],
+      })).toBe(0);
+    });
+  });
+
+  describe('calculateOrderTotals', () => {
+    it('should apply the order discount after line discounts', () => {
+      expect(calculateOrderTotals(items, { type: 'percentage', value: 50, reason: 'Staff' })).toEqual({
+        subtotal: 1350,
+        lineDiscounts: 100,
+        promotionSavings: 0,
+        orderDiscount: 625,
+        discountTotal: 725,
+        depositsCharged: 0,
+        depositsReturned: 0,
+        total: 625,
+      });
+    });
+
+    it('should return the raw sum without discounts', () => {
+      const plain = items.map(({ product, quantity }) => ({ product, quantity }));
+      expect(calculateOrderTotals(plain).total).toBe(1350);
+      expect(calculateOrderTotals(plain).discountTotal).toBe(0);
+    });
+
+    it('should take promotion savings off before the order discount', () => {
+      const plain = items.map(({ product, quantity }) => ({ product, quantity }));
+      const totals = calculateOrderTotals(plain, { type: 'percentage', value: 10, reason: 'Socio' }, [
+        { promotionId: '3x2', name: '3x2', savings: 350 },
+      ]);
+
+      expect(totals.promotionSavings).toBe(350);
+      expect(totals.orderDiscount).toBe(100);
+      expect(totals.discountTotal).toBe(100);
+      expect(totals.total).toBe(900);
+    });
+
+    it('should add deposits after discounts', () => {
+      const cup = createMockProduct({ price: 500, deposit: 100 });
+      const totals = calculateOrderTotals(
+        [{ product: cup, quantity: 2 }],
+        { type: 'percentage', value: 50, reason: 'Staff' },
+        [],
+        [{ amount: 100, quantity: 3 }]
+      );
+
+      expect(totals.orderDiscount).toBe(500);
+      expect(totals.depositsCharged).toBe(200);
+      expect(totals.depositsReturned).toBe(300);
+      expect(totals.total).toBe(400);
+    });
+
+    it('should return zeros for an empty order', () => {
+      expect(calculateOrderTotals([]).total).toBe(0);
+    });
+  });
+
+  describe('formatDiscountValue', () => {
+    it('should describe percentage and fixed discounts', () => {
+      expect(formatDiscountValue({ type: 'percentage', value: 10, reason: 'Socio' })).toBe('-10%');
+      expect(formatDiscountValue({ type: 'fixed', value: 200, reason: 'Coupon' })).toBe('-€ 2.00');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  parseTimeOfDay,
+  formatTimeOfDay,
+  isRuleActive,
+  ruleAppliesTo,
+  getRuleUnitPrice,
+  findPricingRule,
+  applyPricingRules,
+  formatRuleSchedule,
+} from '../../utils/pricingRules';
+import { PricingRule } from '../../types';
+import { createMockOrderItem, createMockProduct } from './testUtils';
+
+describe('Pricing Rule Utilities', () => {
+  const happyHour: PricingRule = {
+    id: 'hh',
+    name: 'Happy Hour',
+    enabled: true,
+    startTime: '18:00',
+    endTime: '20:00',
+    days: [],
+    categoryIds: ['bevande'],
+    productIds: [],
+    adjustment: { type: 'fixedPrice', value: 300 },
+  };
+  const lateNight: PricingRule = {
+    ...happyHour,
+    id: 'late',
+    name: 'Dopo mezzanotte',
+    startTime: '22:00',
+    endTime: '02:00',
+    days: [5],
+    adjustment: { type: 'percentage', value: 50 },
+  };
+
+  // 2026-10-16 is a Friday
+  const at = (day: number, time: string) => new Date(`2026-10-${day}T${time}:00`);
+
+  const beer = createMockProduct({ id: 'beer', price: 500, category: 'bevande' });
+  const burger = createMockProduct({ id: 'burger', price: 800, category: 'cibo' });
+
+  describe('parseTimeOfDay / formatTimeOfDay', () => {
+    it('should convert between "HH:MM" and minutes', () => {
+      expect(parseTimeOfDay('18:30')).toBe(1110);
+      expect(parseTimeOfDay('8:05')).toBe(485);
+      expect(formatTimeOfDay(485)).toBe('08:05');
+    });
+
+    it('should reject invalid times', () => {
+      expect(parseTimeOfDay('24:00')).toBeNull();
+      expect(parseTimeOfDay('18:60')).toBeNull();
+      expect(parseTimeOfDay('18')).toBeNull();
+    });
+  });
+
+  describe('isRuleActive', () => {
+    it('should be active from the start time up to the end time', () => {
+      expect(isRuleActive(happyHour, at(16, '17:59'))).toBe(false);
+      expect(isRuleActive(happyHour, at(16, '18:00'))).toBe(true);
+      expect(isRuleActive(happyHour, at(16, '19:59'))).toBe(true);
+      expect(isRuleActive(happyHour, at(16, '20:00'))).toBe(false);
+    });
+
+    it('should ignore disabled rules', () => {
+      expect(isRuleActive({ ...happyHour, enabled: false }, at(16, '19:00'))).toBe(false);
+    });
+
+    it('should count windows past midnight as the day they started on', () => {
+      expect(isRuleActive(lateNight, at(16, '23:00'))).toBe(true);
+      expect(isRuleActive(lateNight, at(17, '01:30'))).toBe(true);
+      expect(isRuleActive(lateNight, at(17, '23:00'))).toBe(false);
+      expect(isRuleActive(lateNight, at(16, '01:30'))).toBe(false);
+    });
+  });
+
+  describe('ruleAppliesTo / getRuleUnitPrice', () => {
+    it('should match products by category or ID', () => {
+      expect(ruleAppliesTo(happyHour, beer)).toBe(true);
+      expect(ruleAppliesTo(happyHour, burger)).toBe(false);
+      expect(ruleAppliesTo({ ...happyHour, productIds: ['burger'] }, burger)).toBe(true);
+    });
+
+    it('should set a fixed price or take a percentage off', () => {
+      expect(getRuleUnitPrice(happyHour, 500)).toBe(300);
+      expect(getRuleUnitPrice(lateNight, 550)).toBe(275);
+    });
+  });
+
+  describe('findPricingRule', () => {
+    it('should use the first active rule matching the product', () => {
+      const rules = [{ ...happyHour, id: 'other', name: 'Altro', enabled: false }, happyHour];
+      expect(findPricingRule({ product: beer, quantity: 1 }, rules, at(16, '19:00'))).toEqual({
+        ruleId: 'hh',
+        name: 'Happy Hour',
+        unitPrice: 300,
+      });
+      expect(findPricingRule({ product: burger, quantity: 1 }, rules, at(16, '19:00'))).toBeUndefined();
+    });
+
+    it('should take percentages off the variant price', () => {
+      const wine = createMockProduct({
+        category: 'bevande',
+        variants: [{ id: 'bottiglia', name: 'Bottiglia', price: 1600 }],
+      });
+      const applied = findPricingRule(
+        { product: wine, quantity: 1, variantId: 'bottiglia' },
+        [lateNight],
+        at(16, '23:00')
+      );
+      expect(applied?.unitPrice).toBe(800);
+    });
+  });
+
+  describe('applyPricingRules', () => {
+    it('should record the rule on matching lines', () => {
+      const items = [createMockOrderItem({ product: beer }), createMockOrderItem({ product: burger })];
+      const [priced, unchanged] = applyPricingRules(items, [happyHour], at(16, '19:00'));
+
+      expect(priced.pricingRule?.unitPrice).toBe(300);
+      expect(unchanged).toBe(items[1]);
+    });
+
+    it('should remove the rule once the window has closed', () => {
+      const item = createMockOrderItem({
+        product: beer,
+        pricingRule: { ruleId: 'hh', name: 'Happy Hour', unitPrice: 300 },
+      });
+      const [repriced] = applyPricingRules([item], [happyHour], at(16, '20:30'));
+
+      expect(repriced.pricingRule).toBeUndefined();
+      expect(repriced.product).toBe(beer);
+    });
+  });
+
+  describe('formatRuleSchedule', () => {
+    it('should describe the window and days', () => {
+      expect(formatRuleSchedule(happyHour)).toBe('18:00-20:00 • tutti i giorni');
+      expect(formatRuleSchedule({ ...happyHour, days: [6, 5] })).toBe('18:00-20:00 • Ven, Sab');
+    });
+  });
+});
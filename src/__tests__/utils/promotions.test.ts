@@ -0,0 +1,111 @@
+import {
+  promotionAppliesTo,
+  applyPromotions,
+  getPromotionSavings,
+  formatDeal,
+} from '../../utils/promotions';
+import { Promotion } from '../../types';
+import { createMockOrderItem, createMockProduct } from './testUtils';
+
+describe('Promotion Utilities', () => {
+  const threeForTwo: Promotion = {
+    id: '3x2',
+    name: '3x2 Birre',
+    enabled: true,
+    categoryIds: ['bevande'],
+    productIds: [],
+    deal: { type: 'multiBuy', buy: 3, pay: 2 },
+  };
+  const secondHalfPrice: Promotion = {
+    id: 'half',
+    name: 'Secondo a metà',
+    enabled: true,
+    categoryIds: [],
+    productIds: ['burger'],
+    deal: { type: 'nthDiscounted', nth: 2, percentage: 50 },
+  };
+
+  const beer = createMockProduct({ id: 'beer', price: 500, category: 'bevande' });
+  const cola = createMockProduct({ id: 'cola', price: 300, category: 'bevande' });
+  const burger = createMockProduct({ id: 'burger', price: 800, category: 'cibo' });
+
+  describe('promotionAppliesTo', () => {
+    it('should match products by category or ID', () => {
+      expect(promotionAppliesTo(threeForTwo, beer)).toBe(true);
+      expect(promotionAppliesTo(threeForTwo, burger)).toBe(false);
+      expect(promotionAppliesTo(secondHalfPrice, burger)).toBe(true);
+    });
+  });
+
+  describe('applyPromotions', () => {
+    it('should make the cheapest unit of each group free', () => {
+      const items = [
+        createMockOrderItem({ product: beer, quantity: 2 }),
+        createMockOrderItem({ product: cola, quantity: 1 }),
+      ];
+
+      expect(applyPromotions(items, [threeForTwo])).toEqual([
+        { promotionId: '3x2', name: '3x2 Birre', savings: 300 },
+      ]);
+    });
+
+    it('should only count full groups', () => {
+      const items = [createMockOrderItem({ product: beer, quantity: 5 })];
+      expect(applyPromotions(items, [threeForTwo])[0].savings).toBe(500);
+      expect(applyPromotions([createMockOrderItem({ product: beer, quantity: 2 })], [threeForTwo])).toEqual([]);
+    });
+
+    it('should take a percentage off the last unit of each group', () => {
+      const items = [createMockOrderItem({ product: burger, quantity: 4 })];
+      expect(applyPromotions(items, [secondHalfPrice])).toEqual([
+        { promotionId: 'half', name: 'Secondo a metà', savings: 800 },
+      ]);
+    });
+
+    it('should skip disabled promotions and discounted lines', () => {
+      const items = [createMockOrderItem({ product: beer, quantity: 3 })];
+      expect(applyPromotions(items, [{ ...threeForTwo, enabled: false }])).toEqual([]);
+
+      const discounted = [
+        createMockOrderItem({
+          product: beer,
+          quantity: 3,
+          discount: { type: 'percentage', value: 10, reason: 'Socio' },
+        }),
+      ];
+      expect(applyPromotions(discounted, [threeForTwo])).toEqual([]);
+    });
+
+    it('should count each unit towards one promotion only, in list order', () => {
+      const allDrinks: Promotion = {
+        ...secondHalfPrice,
+        id: 'drinks',
+        name: 'Bibite',
+        categoryIds: ['bevande'],
+        productIds: [],
+      };
+      const items = [createMockOrderItem({ product: beer, quantity: 4 })];
+
+      expect(applyPromotions(items, [threeForTwo, allDrinks])).toEqual([
+        { promotionId: '3x2', name: '3x2 Birre', savings: 500 },
+      ]);
+    });
+  });
+
+  describe('getPromotionSavings / formatDeal', () => {
+    it('should add up savings', () => {
+      expect(
+        getPromotionSavings([
+          { promotionId: 'a', name: 'A', savings: 300 },
+          { promotionId: 'b', name: 'B', savings: 150 },
+        ])
+      ).toBe(450);
+      expect(getPromotionSavings()).toBe(0);
+    });
+
+    it('should describe deals', () => {
+      expect(formatDeal(threeForTwo.deal)).toBe('3x2');
+      expect(formatDeal(secondHalfPrice.deal)).toBe('2° al -50%');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  getRefundedQuantity,
+  getRefundableQuantity,
+  getRefundTotal,
+  getOrderStatus,
+  getVoidLines,
+  getRefundAmount,
+  getRefundedItems,
+  getKeptItems,
+} from '../../utils/refunds';
+import { OrderRefund } from '../../types';
+import { createMockOrder, createMockOrderItem, createMockProduct } from './testUtils';
+
+describe('Refund Utilities', () => {
+  const beer = createMockProduct({ id: 'beer', price: 500 });
+  const burger = createMockProduct({ id: 'burger', price: 800 });
+
+  const refund = (overrides?: Partial<OrderRefund>): OrderRefund => ({
+    id: 'r1',
+    type: 'partial',
+    reason: 'Ordine sbagliato',
+    lines: [{ itemIndex: 0, quantity: 1 }],
+    amount: 500,
+    timestamp: new Date(),
+    ...overrides,
+  });
+
+  const order = createMockOrder({
+    items: [
+      createMockOrderItem({ product: beer, quantity: 2 }),
+      createMockOrderItem({ product: burger, quantity: 1 }),
+    ],
+    total: 1800,
+  });
+
+  describe('refunded quantities', () => {
+    it('should count units refunded across refunds', () => {
+      const refunded = {
+        ...order,
+        refunds: [
+          refund(),
+          refund({
+            id: 'r2',
+            lines: [
+              { itemIndex: 0, quantity: 1 },
+              { itemIndex: 1, quantity: 1 },
+            ],
+          }),
+        ],
+      };
+      expect(getRefundedQuantity(refunded, 0)).toBe(2);
+      expect(getRefundableQuantity(refunded, 0)).toBe(0);
+      expect(getRefundableQuantity(refunded, 1)).toBe(0);
+      expect(getVoidLines(refunded)).toEqual([]);
+    });
+
+    it('should list what is left to void', () => {
+      expect(getVoidLines({ ...order, refunds: [refund()] })).toEqual([
+        { itemIndex: 0, quantity: 1 },
+        { itemIndex: 1, quantity: 1 },
+      ]);
+    });
+  });
+
+  describe('getOrderStatus / getRefundTotal', () => {
+    it('should tell completed, refunded and voided orders apart', () => {
+      expect(getOrderStatus(order)).toBe('completed');
+      expect(getOrderStatus({ ...order, refunds: [refund()] })).toBe('refunded');
+      expect(getOrderStatus({ ...order, refunds: [refund(), refund({ id: 'r2', type: 'void' })] })).toBe('voided');
+    });
+
+    it('should add up refunded money', () => {
+      expect(getRefundTotal({ ...order, refunds: [refund(), refund({ id: 'r2', amount: 800 })] })).toBe(1300);
+      expect(getRefundTotal(order)).toBe(0);
+    });
+  });
+
+  describe('getRefundAmount', () => {
+    it('should refund the price paid for the units', () => {
+      expect(getRefundAmount(order, [{ itemIndex: 0, quantity: 1 }])).toBe(500);
+      expect(getRefundAmount(order, [{ itemIndex: 1, quantity: 1 }])).toBe(800);
+    });
+
+    it('should share order discounts across the lines', () => {
+      const discounted = { ...order, total: 1620, discountTotal: 180 };
+      expect(getRefundAmount(discounted, [{ itemIndex: 0, quantity: 1 }])).toBe(450);
+    });
+
+    it('should refund exactly what is left when everything is taken back', () => {
+      const refunded = { ...order, total: 1000, refunds: [refund({ amount: 333 })] };
+      expect(getRefundAmount(refunded, getVoidLines(refunded))).toBe(667);
+    });
+
+    it('should leave deposits out', () => {
+      const cup = createMockProduct({ id: 'cup', price: 500, deposit: 100 });
+      const withDeposit = createMockOrder({
+        items: [createMockOrderItem({ product: cup, quantity: 2 })],
+        total: 1200,
+      });
+      expect(getRefundAmount(withDeposit, [{ itemIndex: 0, quantity: 1 }])).toBe(500);
+      expect(getRefundAmount(withDeposit, getVoidLines(withDeposit))).toBe(1000);
+    });
+  });
+
+  describe('getRefundedItems / getKeptItems', () => {
+    it('should split lines into refunded and kept units', () => {
+      const refunded = { ...order, refunds: [refund()] };
+      expect(getRefundedItems(order, [{ itemIndex: 0, quantity: 1 }])).toEqual([
+        { ...order.items[0], quantity: 1 },
+      ]);
+      expect(getKeptItems(refunded).map(item => [item.product.id, item.quantity])).toEqual([
+        ['beer', 1],
+        ['burger', 1],
+      ]);
+    });
+  });
+});
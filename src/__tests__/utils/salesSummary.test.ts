@@ -0,0 +1,79 @@
+import { getSalesSummary } from '../../utils/salesSummary';
+import { DEFAULT_PAYMENT_METHODS } from '../../data/paymentMethods';
+import { Refund } from '../../types';
+import { createMockOrder, createMockOrderItem, createMockProduct } from './testUtils';
+
+describe('Sales Summary Utilities', () => {
+  const tokenPack = createMockProduct({ id: 'pack', name: 'Gettoni x10', price: 1000, tokensIssued: 10 });
+  const beer = createMockProduct({ id: 'beer', name: 'Birra', price: 500, tokenPrice: 2 });
+  const timestamp = new Date('2026-06-01T20:00:00.000Z');
+
+  const refund = (type: Refund['type'], quantity: number, amount: number): Refund => ({
+    id: `r-${type}`,
+    type,
+    reason: 'Sbagliato',
+    lines: [{ itemIndex: 0, quantity }],
+    amount,
+    timestamp,
+  });
+
+  describe('tokens', () => {
+    it('should count tokens issued and redeemed', () => {
+      const { tokens, totalRevenue } = getSalesSummary(
+        [
+          createMockOrder({ id: 'o1', items: [createMockOrderItem({ product: tokenPack, quantity: 2 })], total: 2000 }),
+          createMockOrder({
+            id: 'o2',
+            items: [createMockOrderItem({ product: beer, quantity: 3 })],
+            total: 1500,
+            tokensRedeemed: 6,
+            payments: [{ method: 'tokens', amount: 1500 }],
+          }),
+        ],
+        DEFAULT_PAYMENT_METHODS
+      );
+
+      expect(tokens).toEqual({ issued: 20, redeemed: 6, redeemedValue: 1500 });
+      expect(totalRevenue).toBe(2000);
+    });
+
+    it('should leave out tokens of voided and refunded units', () => {
+      const { tokens, totalRevenue } = getSalesSummary(
+        [
+          createMockOrder({
+            id: 'o1',
+            items: [createMockOrderItem({ product: tokenPack, quantity: 2 })],
+            total: 2000,
+            refunds: [refund('partial', 1, 1000)],
+          }),
+          createMockOrder({
+            id: 'o2',
+            items: [createMockOrderItem({ product: tokenPack, quantity: 1 })],
+            total: 1000,
+            refunds: [refund('void', 1, 1000)],
+          }),
+          createMockOrder({
+            id: 'o3',
+            items: [createMockOrderItem({ product: beer, quantity: 3 })],
+            total: 1500,
+            tokensRedeemed: 6,
+            payments: [{ method: 'tokens', amount: 1500 }],
+            refunds: [refund('partial', 1, 500)],
+          }),
+          createMockOrder({
+            id: 'o4',
+            items: [createMockOrderItem({ product: beer, quantity: 1 })],
+            total: 500,
+            tokensRedeemed: 2,
+            payments: [{ method: 'tokens', amount: 500 }],
+            refunds: [refund('void', 1, 500)],
+          }),
+        ],
+        DEFAULT_PAYMENT_METHODS
+      );
+
+      expect(tokens).toEqual({ issued: 10, redeemed: 4, redeemedValue: 1000 });
+      expect(totalRevenue).toBe(1000);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  isSoldOut,
+  isLowStock,
+  getAvailableStock,
+  applyStockChange,
+  hasStockFor,
+  getStockOverview,
+} from '../../utils/stock';
+import { createMockProduct, createMockOrder } from './testUtils';
+
+describe('Stock Utilities', () => {
+  const tracked = createMockProduct({ id: '1', stock: 5 });
+  const untracked = createMockProduct({ id: '2' });
+
+  describe('isSoldOut', () => {
+    it('should only be sold out when tracked stock reaches zero', () => {
+      expect(isSoldOut({ ...tracked, stock: 0 })).toBe(true);
+      expect(isSoldOut(tracked)).toBe(false);
+      expect(isSoldOut(untracked)).toBe(false);
+    });
+  });
+
+  describe('isLowStock', () => {
+    it('should flag stock at or below the threshold', () => {
+      expect(isLowStock({ ...tracked, lowStockThreshold: 5 })).toBe(true);
+      expect(isLowStock({ ...tracked, lowStockThreshold: 4 })).toBe(false);
+    });
+
+    it('should ignore products without a threshold or stock', () => {
+      expect(isLowStock({ ...tracked, stock: 0 })).toBe(false);
+      expect(isLowStock({ ...untracked, lowStockThreshold: 3 })).toBe(false);
+    });
+  });
+
+  describe('getAvailableStock', () => {
+    it('should subtract units already in the order', () => {
+      expect(getAvailableStock(tracked, 2)).toBe(3);
+      expect(getAvailableStock(tracked, 7)).toBe(0);
+    });
+
+    it('should be unlimited when stock is not tracked', () => {
+      expect(getAvailableStock(untracked, 100)).toBe(Infinity);
+    });
+  });
+
+  describe('hasStockFor', () => {
+    it('should count a product across all its lines and bundle components', () => {
+      const menu = createMockProduct({ id: '3' });
+      const items = [
+        { product: tracked, quantity: 3 },
+        { product: menu, quantity: 2, bundleComponents: [{ slotId: 'panino', product: tracked }] },
+      ];
+
+      expect(hasStockFor([tracked, menu], items)).toBe(true);
+      expect(hasStockFor([{ ...tracked, stock: 4 }, menu], items)).toBe(false);
+    });
+
+    it('should ignore untracked products and products no longer in the catalog', () => {
+      expect(hasStockFor([untracked], [{ product: untracked, quantity: 100 }, { product: tracked, quantity: 9 }])).toBe(true);
+    });
+  });
+
+  describe('applyStockChange', () => {
+    const items = [
+      { product: tracked, quantity: 2 },
+      { product: untracked, quantity: 3 },
+    ];
+
+    it('should take sold units out of stock', () => {
+      const [updated, unchanged] = applyStockChange([tracked, untracked], items, 'sell');
+      expect(updated.stock).toBe(3);
+      expect(unchanged).toBe(untracked);
+    });
+
+    it('should put returned units back', () => {
+      const [updated] = applyStockChange([tracked], items, 'return');
+      expect(updated.stock).toBe(7);
+    });
+
+    it('should never go below zero', () => {
+      const [updated] = applyStockChange([{ ...tracked, stock: 1 }], items, 'sell');
+      expect(updated.stock).toBe(0);
+    });
+
+    it('should take bundle components out of stock', () => {
+      const menu = createMockProduct({ id: '3' });
+      const [updated] = applyStockChange(
+        [tracked, menu],
+        [{ product: menu, quantity: 2, bundleComponents: [{ slotId: 'panino', product: tracked }] }],
+        'sell'
+      );
+      expect(updated.stock).toBe(3);
+    });
+  });
+
+  describe('variants', () => {
+    const beer = createMockProduct({
+      id: '5',
+      lowStockThreshold: 2,
+      variants: [
+        { id: 'piccola', name: 'Piccola', price: 300, stock: 4 },
+        { id: 'media', name: 'Media', price: 500 },
+      ],
+    });
+
+    it('should only be sold out when every variant is', () => {
+      expect(isSoldOut(beer)).toBe(false);
+      expect(isSoldOut({ ...beer, variants: [{ id: 'media', name: 'Media', price: 500, stock: 0 }] })).toBe(true);
+    });
+
+    it('should flag a variant running low', () => {
+      expect(isLowStock(beer)).toBe(false);
+      expect(isLowStock({ ...beer, variants: [{ id: 'piccola', name: 'Piccola', price: 300, stock: 1 }] })).toBe(true);
+    });
+
+    it('should take sold units out of the variant stock', () => {
+      const [updated] = applyStockChange(
+        [beer],
+        [
+          { product: beer, quantity: 3, variantId: 'piccola' },
+          { product: beer, quantity: 2, variantId: 'media' },
+        ],
+        'sell'
+      );
+
+      expect(updated.variants?.map(variant => variant.stock)).toEqual([1, undefined]);
+      expect(updated.stock).toBeUndefined();
+    });
+
+    it('should check the stock of each variant', () => {
+      expect(hasStockFor([beer], [{ product: beer, quantity: 4, variantId: 'piccola' }])).toBe(true);
+      expect(hasStockFor([beer], [{ product: beer, quantity: 5, variantId: 'piccola' }])).toBe(false);
+      expect(hasStockFor([beer], [{ product: beer, quantity: 9, variantId: 'media' }])).toBe(true);
+    });
+
+    it('should list tracked variants in the stock overview', () => {
+      const overview = getStockOverview([beer], [], new Date(), 60);
+
+      expect(overview).toHaveLength(1);
+      expect(overview[0].variant?.id).toBe('piccola');
+      expect(overview[0].remaining).toBe(4);
+    });
+  });
+
+  describe('getStockOverview', () => {
+    const now = new Date('2024-06-01T20:00:00');
+
+    it('should project run-out from recent sales and skip untracked products', () => {
+      const orders = [
+        createMockOrder({
+          items: [{ product: tracked, quantity: 10 }],
+          timestamp: new Date('2024-06-01T18:00:00'),
+        }),
+        createMockOrder({
+          items: [{ product: tracked, quantity: 5 }, { product: untracked, quantity: 1 }],
+          timestamp: new Date('2024-06-01T19:30:00'),
+        }),
+      ];
+
+      const overview = getStockOverview([tracked, untracked], orders, now, 60);
+
+      expect(overview).toHaveLength(1);
+      expect(overview[0]).toMatchObject({ remaining: 5, sold: 15, hourlyRate: 5 });
+      expect(overview[0].projectedRunOut).toEqual(new Date('2024-06-01T21:00:00'));
+    });
+
+    it('should list sold-out products first and products not selling last', () => {
+      const idle = createMockProduct({ id: '3', stock: 10 });
+      const soldOut = createMockProduct({ id: '4', stock: 0 });
+      const orders = [
+        createMockOrder({
+          items: [{ product: tracked, quantity: 1 }],
+          timestamp: new Date('2024-06-01T19:45:00'),
+        }),
+      ];
+
+      const overview = getStockOverview([idle, tracked, soldOut], orders, now, 60);
+
+      expect(overview.map(entry => entry.product.id)).toEqual(['4', '1', '3']);
+      expect(overview[0].projectedRunOut).toBeNull();
+      expect(overview[2].projectedRunOut).toBeNull();
+    });
+  });
+});
@@ -29,7 +29,7 @@ export const createMockProduct = (overrides?: Partial<Product>): Product => ({
   id: `product-${Date.now()}-${Math.random()}`,
   name: 'Test Product',
   emoji: '🍕',
-  price: 5.0,
+  price: 500,
   buttonColor: '#FF6B6B',
   ...overrides,
 });
@@ -51,7 +51,7 @@ export const createMockOrderItem = (
 export const createMockOrder = (overrides?: Partial<Order>): Order => ({
   id: `order-${Date.now()}-${Math.random()}`,
   items: [createMockOrderItem()],
-  total: 5.0,
+  total: 500,
   timestamp: new Date(),
   ...overrides,
 });
@@ -68,7 +68,7 @@ export const createMockProducts = (count: number): Product[] => {
     id: `product-${i}`,
     name: names[i % names.length],
     emoji: emojis[i % emojis.length],
-    price: (i + 1) * 2.5,
+    price: (i + 1) * 250,
     buttonColor: colors[i % colors.length],
   }));
 };
@@ -0,0 +1,58 @@
+import {
+  isTokenProduct,
+  getTokensIssued,
+  getOrderTokenPrice,
+  formatTokens,
+} from '../../utils/tokens';
+import { createMockOrderItem, createMockProduct } from './testUtils';
+
+describe('Token Utilities', () => {
+  const tokenPack = createMockProduct({ id: 'pack', price: 1000, tokensIssued: 10 });
+  const beer = createMockProduct({ id: 'beer', price: 500, tokenPrice: 2 });
+  const burger = createMockProduct({ id: 'burger', price: 800, tokenPrice: 4 });
+  const fries = createMockProduct({ id: 'fries', price: 300 });
+
+  describe('isTokenProduct', () => {
+    it('should detect products that sell tokens', () => {
+      expect(isTokenProduct(tokenPack)).toBe(true);
+      expect(isTokenProduct(beer)).toBe(false);
+    });
+  });
+
+  describe('getTokensIssued', () => {
+    it('should count tokens for every unit of a token product', () => {
+      const items = [
+        createMockOrderItem({ product: tokenPack, quantity: 2 }),
+        createMockOrderItem({ product: fries, quantity: 1 }),
+      ];
+      expect(getTokensIssued(items)).toBe(20);
+      expect(getTokensIssued([])).toBe(0);
+    });
+  });
+
+  describe('getOrderTokenPrice', () => {
+    it('should add up token prices', () => {
+      const items = [
+        createMockOrderItem({ product: beer, quantity: 2 }),
+        createMockOrderItem({ product: burger, quantity: 1 }),
+      ];
+      expect(getOrderTokenPrice(items)).toBe(8);
+    });
+
+    it('should be null when a line has no token price or the order is empty', () => {
+      const items = [
+        createMockOrderItem({ product: beer, quantity: 1 }),
+        createMockOrderItem({ product: fries, quantity: 1 }),
+      ];
+      expect(getOrderTokenPrice(items)).toBeNull();
+      expect(getOrderTokenPrice([])).toBeNull();
+    });
+  });
+
+  describe('formatTokens', () => {
+    it('should use the singular for one token', () => {
+      expect(formatTokens(1)).toBe('1 gettone');
+      expect(formatTokens(5)).toBe('5 gettoni');
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { getZReport, formatZReportText, formatZReportCsv } from '../../utils/zReport';
+import { DEFAULT_CATEGORIES } from '../../data/categories';
+import { DEFAULT_PAYMENT_METHODS } from '../../data/paymentMethods';
+import { createMockOrder, createMockOrderItem, createMockProduct } from './testUtils';
+
+describe('Z Report Utilities', () => {
+  const beer = createMockProduct({ id: 'beer', name: 'Birra', price: 500, category: 'drinks' });
+  const burger = createMockProduct({ id: 'burger', name: 'Panino', price: 800, category: 'food' });
+  const fries = createMockProduct({ id: 'fries', name: 'Patatine, grandi', price: 300 });
+
+  const orders = [
+    createMockOrder({
+      id: 'o1',
+      items: [createMockOrderItem({ product: beer, quantity: 2 })],
+      discount: { type: 'fixed', value: 200, reason: 'Socio' },
+      discountTotal: 200,
+      total: 800,
+      payments: [{ method: DEFAULT_PAYMENT_METHODS[0].id, amount: 800 }],
+      timestamp: new Date('2026-06-01T18:00:00.000Z'),
+    }),
+    createMockOrder({
+      id: 'o2',
+      items: [createMockOrderItem({ product: burger, quantity: 2 })],
+      total: 1600,
+      payments: [{ method: 'card', amount: 1600 }],
+      refunds: [
+        {
+          id: 'r1',
+          type: 'partial',
+          reason: 'Bruciato',
+          lines: [{ itemIndex: 0, quantity: 1 }],
+          amount: 800,
+          timestamp: new Date('2026-06-01T20:30:00.000Z'),
+        },
+      ],
+      timestamp: new Date('2026-06-01T20:00:00.000Z'),
+    }),
+    createMockOrder({
+      id: 'o3',
+      items: [createMockOrderItem({ product: fries, quantity: 1 })],
+      promotions: [{ promotionId: 'promo', name: 'Promo', savings: 100 }],
+      total: 200,
+      timestamp: new Date('2026-06-01T19:00:00.000Z'),
+    }),
+  ];
+
+  describe('getZReport', () => {
+    it('should report gross, discounts, refunds and net', () => {
+      const report = getZReport(orders, DEFAULT_CATEGORIES, DEFAULT_PAYMENT_METHODS);
+
+      expect(report.orderCount).toBe(3);
+      expect(report.net).toBe(1800);
+      expect(report.discounts).toBe(300);
+      expect(report.refunds).toBe(800);
+      expect(report.gross).toBe(2900);
+      expect(report.firstOrderAt).toEqual(new Date('2026-06-01T18:00:00.000Z'));
+      expect(report.lastOrderAt).toEqual(new Date('2026-06-01T20:00:00.000Z'));
+    });
+
+    it('should break sales down per payment method, category and product', () => {
+      const report = getZReport(orders, DEFAULT_CATEGORIES, DEFAULT_PAYMENT_METHODS);
+
+      // Refunds come off the method paid with; discounts and promotions off the lines
+      expect(report.paymentMethods.map(method => [method.label, method.count, method.total])).toEqual([
+        ['Contanti', 1, 800],
+        ['Carta', 1, 800],
+        ['Non specificato', 1, 200],
+      ]);
+      expect(report.categories).toEqual([
+        { id: 'drinks', name: 'Bevande', count: 2, total: 800 },
+        { id: 'food', name: 'Cibo', count: 1, total: 800 },
+        { id: '', name: 'Senza categoria', count: 1, total: 200 },
+      ]);
+      expect(report.products.map(product => [product.name, product.count, product.total])).toEqual([
+        ['Birra', 2, 800],
+        ['Panino', 1, 800],
+        ['Patatine, grandi', 1, 200],
+      ]);
+    });
+
+    it('should add up: categories to net, payment methods to net plus deposits', () => {
+      const cup = createMockProduct({ id: 'cup', name: 'Birra', price: 500, category: 'drinks', deposit: 100 });
+      const voided = createMockOrder({
+        id: 'v1',
+        items: [createMockOrderItem({ product: burger, quantity: 1 }), createMockOrderItem({ product: fries })],
+        total: 1000,
+        payments: [{ method: 'card', amount: 1000 }],
+        refunds: [{
+          id: 'r1',
+          type: 'void',
+          reason: 'Errore',
+          lines: [{ itemIndex: 0, quantity: 1 }, { itemIndex: 1, quantity: 1 }],
+          amount: 1000,
+          timestamp: new Date('2026-06-01T21:00:00.000Z'),
+        }],
+      });
+      const discounted = createMockOrder({
+        id: 'd1',
+        items: [
+          createMockOrderItem({ product: cup, quantity: 3 }),
+          createMockOrderItem({ product: burger, quantity: 1 }),
+        ],
+        discount: { type: 'fixed', value: 500, reason: 'Socio' },
+        discountTotal: 500,
+        total: 2100,
+        payments: [{ method: 'cash', amount: 2100 }],
+      });
+      const tokens = createMockOrder({
+        id: 't1',
+        items: [createMockOrderItem({ product: { ...beer, tokenPrice: 2 } })],
+        total: 500,
+        tokensRedeemed: 2,
+        payments: [{ method: 'tokens', amount: 500 }],
+      });
+
+      const report = getZReport([voided, discounted, tokens], DEFAULT_CATEGORIES, DEFAULT_PAYMENT_METHODS);
+      const sum = (groups: { total: number }[]) => groups.reduce((total, group) => total + group.total, 0);
+
+      expect(report.net).toBe(1800);
+      expect(report.deposits).toBe(300);
+      expect(sum(report.categories)).toBe(report.net);
+      expect(sum(report.products)).toBe(report.net);
+      expect(sum(report.paymentMethods)).toBe(report.net + report.deposits);
+      expect(report.paymentMethods.find(method => method.id === 'card')?.total).toBe(0);
+    });
+
+    it('should report nothing without orders', () => {
+      const report = getZReport([], DEFAULT_CATEGORIES, DEFAULT_PAYMENT_METHODS);
+
+      expect(report).toEqual(
+        expect.objectContaining({ orderCount: 0, gross: 0, net: 0, products: [], categories: [] })
+      );
+      expect(report.firstOrderAt).toBeUndefined();
+    });
+  });
+
+  describe('formatZReportText / formatZReportCsv', () => {
+    const report = getZReport(orders, DEFAULT_CATEGORIES, DEFAULT_PAYMENT_METHODS);
+
+    it('should print the totals and each breakdown as text', () => {
+      const text = formatZReportText(report, 'Sagra');
+
+      expect(text).toContain('REPORT Z - Sagra');
+      expect(text).toContain('Lordo: € 29.00');
+      expect(text).toContain('Sconti: -€ 3.00');
+      expect(text).toContain('Rimborsi: -€ 8.00');
+      expect(text).toContain('Netto: € 18.00');
+      expect(text).toContain('Cauzioni nette: € 0.00');
+      expect(text).toContain('Carta: 1 ordini • € 8.00');
+      expect(text).toContain('Bevande: 2 pz • € 8.00');
+    });
+
+    it('should export one CSV row per line, quoting fields with commas', () => {
+      const rows = formatZReportCsv(report).split('\n');
+
+      expect(rows[0]).toBe('Sezione,Voce,Valore,Importo');
+      expect(rows).toContain('Totali,Netto,,18.00');
+      expect(rows).toContain('Orari,Primo ordine,2026-06-01T18:00:00.000Z,');
+      expect(rows).toContain('Metodo di pagamento,Contanti,1,8.00');
+      expect(rows).toContain('Totali,Cauzioni nette,,0.00');
+      expect(rows).toContain('Categoria,Senza categoria,1,2.00');
+      expect(rows).toContain('Prodotto,"Patatine, grandi",1,2.00');
+    });
+  });
+});
@@ -1,13 +1,34 @@
 import {
   ProductSchema,
+  CategorySchema,
   OrderItemSchema,
   OrderSchema,
+  PaymentMethodSchema,
+  PricingRuleSchema,
+  PromotionSchema,
+  DiscountSchema,
+  AuditEntrySchema,
+  ArchivedSessionSchema,
+  CashDrawerSchema,
+  CashCountSchema,
   validateProduct,
   validateOrder,
   validateProducts,
   validateOrders,
+  validateCategories,
+  partitionRecords,
 } from '../../validators/schemas';
-import { Product, OrderItem, Order } from '../../types';
+import {
+  Product,
+  Category,
+  OrderItem,
+  Order,
+  PaymentMethod,
+  PricingRule,
+  Promotion,
+  AuditEntry,
+  ArchivedSession,
+} from '../../types';
 
 describe('Validation Schemas', () => {
   describe('ProductSchema', () => {
@@ -15,7 +36,7 @@ describe('Validation Schemas', () => {
       id: 'test-1',
       name: 'Pizza Margherita',
       emoji: '🍕',
-      price: 9.99,
+      price: 999,
       buttonColor: '#FF6B6B',
       category: 'food',
     };
@@ -106,11 +127,47 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(true);
     });
 
-    it('should allow decimal prices', () => {
+    it('should reject fractional cents', () => {
       const product = { ...validProduct, price: 3.33 };
       const result = ProductSchema.safeParse(product);
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject token products that are paid with tokens', () => {
+      expect(ProductSchema.safeParse({ ...validProduct, tokenPrice: 2 }).success).toBe(true);
+      expect(ProductSchema.safeParse({ ...validProduct, tokensIssued: 10 }).success).toBe(true);
+      expect(ProductSchema.safeParse({ ...validProduct, tokenPrice: 2, tokensIssued: 10 }).success).toBe(false);
+    });
+  });
+
+  describe('CategorySchema', () => {
+    const validCategory: Category = {
+      id: 'grill',
+      name: 'Griglia',
+      emoji: '🍖',
+      color: '#FF5722',
+      order: 0,
+    };
+
+    it('should validate a valid category', () => {
+      const result = CategorySchema.safeParse(validCategory);
       expect(result.success).toBe(true);
     });
+
+    it('should require name', () => {
+      const result = CategorySchema.safeParse({ ...validCategory, name: '' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should require valid hex color', () => {
+      const result = CategorySchema.safeParse({ ...validCategory, color: 'red' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject negative or decimal order', () => {
+      expect(CategorySchema.safeParse({ ...validCategory, order: -1 }).success).toBe(false);
+      expect(CategorySchema.safeParse({ ...validCategory, order: 1.5 }).success).toBe(false);
+    });
   });
 
   describe('OrderItemSchema', () => {
@@ -155,6 +212,238 @@ describe('Validation Schemas', () => {
       const result = OrderItemSchema.safeParse(item);
       expect(result.success).toBe(false);
     });
+
+    it('should only accept a variant of the line product', () => {
+      const product = { ...validProduct, variants: [{ id: 'media', name: 'Media', price: 500 }] };
+
+      expect(OrderItemSchema.safeParse({ ...validOrderItem, product, variantId: 'media' }).success).toBe(true);
+      expect(OrderItemSchema.safeParse({ ...validOrderItem, product, variantId: 'grande' }).success).toBe(false);
+      expect(OrderItemSchema.safeParse({ ...validOrderItem, variantId: 'media' }).success).toBe(false);
+    });
+
+    it('should validate bundle slots and components', () => {
+      const product = {
+        ...validProduct,
+        bundleSlots: [
+          { id: 'panino', name: 'Panino', type: 'fixed', productId: '2' },
+          { id: 'bibita', name: 'Bibita', type: 'category', categoryId: 'bibite' },
+        ],
+      };
+      const bundleComponents = [{ slotId: 'panino', product: validProduct }];
+
+      expect(OrderItemSchema.safeParse({ ...validOrderItem, product, bundleComponents }).success).toBe(true);
+      expect(
+        OrderItemSchema.safeParse({
+          ...validOrderItem,
+          product: { ...product, bundleSlots: [{ id: 'panino', name: 'Panino', type: 'fixed' }] },
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('PaymentMethodSchema', () => {
+    const validMethod: PaymentMethod = { id: 'card', name: 'Carta', emoji: '💳', enabled: true };
+
+    it('should validate a valid payment method', () => {
+      const result = PaymentMethodSchema.safeParse(validMethod);
+      expect(result.success).toBe(true);
+    });
+
+    it('should require a name', () => {
+      const result = PaymentMethodSchema.safeParse({ ...validMethod, name: '' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should require the enabled flag', () => {
+      const { enabled: _enabled, ...method } = validMethod;
+      const result = PaymentMethodSchema.safeParse(method);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('PricingRuleSchema', () => {
+    const validRule: PricingRule = {
+      id: 'hh',
+      name: 'Happy Hour',
+      enabled: true,
+      startTime: '18:00',
+      endTime: '20:00',
+      days: [5, 6],
+      categoryIds: ['bevande'],
+      productIds: [],
+      adjustment: { type: 'fixedPrice', value: 300 },
+    };
+
+    it('should validate a valid pricing rule', () => {
+      expect(PricingRuleSchema.safeParse(validRule).success).toBe(true);
+    });
+
+    it('should reject malformed times and empty windows', () => {
+      expect(PricingRuleSchema.safeParse({ ...validRule, startTime: '18' }).success).toBe(false);
+      expect(PricingRuleSchema.safeParse({ ...validRule, endTime: '24:00' }).success).toBe(false);
+      expect(PricingRuleSchema.safeParse({ ...validRule, endTime: '18:00' }).success).toBe(false);
+    });
+
+    it('should reject percentages over 100', () => {
+      const rule = { ...validRule, adjustment: { type: 'percentage', value: 150 } };
+      expect(PricingRuleSchema.safeParse(rule).success).toBe(false);
+    });
+  });
+
+  describe('PromotionSchema', () => {
+    const validPromotion: Promotion = {
+      id: '3x2',
+      name: '3x2 Birre',
+      enabled: true,
+      categoryIds: ['bevande'],
+      productIds: [],
+      deal: { type: 'multiBuy', buy: 3, pay: 2 },
+    };
+
+    it('should validate both kinds of deal', () => {
+      expect(PromotionSchema.safeParse(validPromotion).success).toBe(true);
+      expect(
+        PromotionSchema.safeParse({
+          ...validPromotion,
+          deal: { type: 'nthDiscounted', nth: 2, percentage: 50 },
+        }).success
+      ).toBe(true);
+    });
+
+    it('should reject deals that save nothing or charge nothing', () => {
+      const deal = (d: unknown) => PromotionSchema.safeParse({ ...validPromotion, deal: d }).success;
+      expect(deal({ type: 'multiBuy', buy: 3, pay: 3 })).toBe(false);
+      expect(deal({ type: 'multiBuy', buy: 3, pay: 0 })).toBe(false);
+      expect(deal({ type: 'nthDiscounted', nth: 1, percentage: 50 })).toBe(false);
+    });
+  });
+
+  describe('AuditEntrySchema', () => {
+    const validEntry: AuditEntry = {
+      id: '1717275600000-0',
+      timestamp: new Date('2026-06-01T21:00:00.000Z'),
+      actor: 'Giulia',
+      action: 'deleteOrder',
+      targetId: 'o1',
+      before: { id: 'o1', total: 500 },
+    };
+
+    it('should validate entries with or without an operator and states', () => {
+      expect(AuditEntrySchema.safeParse(validEntry).success).toBe(true);
+      expect(
+        AuditEntrySchema.safeParse({ id: '2', timestamp: new Date(), action: 'resetSession' }).success
+      ).toBe(true);
+    });
+
+    it('should reject unknown actions and string timestamps', () => {
+      expect(AuditEntrySchema.safeParse({ ...validEntry, action: 'hackTheTill' }).success).toBe(false);
+      expect(
+        AuditEntrySchema.safeParse({ ...validEntry, timestamp: '2026-06-01T21:00:00.000Z' }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('ArchivedSessionSchema', () => {
+    const validSession: ArchivedSession = {
+      id: '1717282800000',
+      name: 'Festa di primavera',
+      openedAt: new Date('2026-06-01T17:00:00.000Z'),
+      closedAt: new Date('2026-06-01T23:00:00.000Z'),
+      orders: [
+        {
+          id: 'o1',
+          items: [{ product: { id: 'p1', name: 'Birra', emoji: '🍺', price: 500, buttonColor: '#FF6B6B' }, quantity: 1 }],
+          total: 500,
+          timestamp: new Date('2026-06-01T17:00:00.000Z'),
+        },
+      ],
+    };
+
+    it('should validate a closed session with its orders', () => {
+      expect(ArchivedSessionSchema.safeParse(validSession).success).toBe(true);
+    });
+
+    it('should reject sessions without a name, without orders or with invalid orders', () => {
+      expect(ArchivedSessionSchema.safeParse({ ...validSession, name: '  ' }).success).toBe(false);
+      expect(ArchivedSessionSchema.safeParse({ ...validSession, orders: [] }).success).toBe(false);
+      expect(
+        ArchivedSessionSchema.safeParse({ ...validSession, orders: [{ ...validSession.orders[0], total: -1 }] })
+          .success
+      ).toBe(false);
+      expect(
+        ArchivedSessionSchema.safeParse({ ...validSession, orders: [], cashDrawer: { openingFloat: 0, movements: [] } })
+          .success
+      ).toBe(false);
+    });
+
+    it('should validate a session without orders that kept a float or cash movements', () => {
+      const movement = { id: 'm1', type: 'in', amount: 1000, reason: 'Resto', timestamp: new Date() };
+
+      expect(
+        ArchivedSessionSchema.safeParse({ ...validSession, orders: [], cashDrawer: { openingFloat: 5000, movements: [] } })
+          .success
+      ).toBe(true);
+      expect(
+        ArchivedSessionSchema.safeParse({
+          ...validSession,
+          orders: [],
+          cashDrawer: { openingFloat: 0, movements: [movement] },
+        }).success
+      ).toBe(true);
+    });
+
+    it('should validate the cash drawer and count kept with the session', () => {
+      const cashCount = { lines: [{ value: 2000, quantity: 1 }], counted: 2000, expected: 2050 };
+
+      expect(
+        ArchivedSessionSchema.safeParse({
+          ...validSession,
+          cashDrawer: { openingFloat: 1500, movements: [] },
+          cashCount,
+        }).success
+      ).toBe(true);
+      expect(CashCountSchema.safeParse({ ...cashCount, counted: 2500 }).success).toBe(false);
+    });
+  });
+
+  describe('CashDrawerSchema', () => {
+    const movement = { id: 'm1', type: 'out', amount: 2500, reason: 'Fornitore', timestamp: new Date() };
+
+    it('should validate an opening float with cash movements', () => {
+      expect(CashDrawerSchema.safeParse({ openingFloat: 10000, movements: [movement] }).success).toBe(true);
+    });
+
+    it('should reject negative floats, non-positive amounts and missing reasons', () => {
+      expect(CashDrawerSchema.safeParse({ openingFloat: -1, movements: [] }).success).toBe(false);
+      expect(
+        CashDrawerSchema.safeParse({ openingFloat: 0, movements: [{ ...movement, amount: 0 }] }).success
+      ).toBe(false);
+      expect(
+        CashDrawerSchema.safeParse({ openingFloat: 0, movements: [{ ...movement, reason: ' ' }] }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('DiscountSchema', () => {
+    it('should validate percentage and fixed discounts', () => {
+      expect(DiscountSchema.safeParse({ type: 'percentage', value: 10, reason: 'Socio' }).success).toBe(true);
+      expect(DiscountSchema.safeParse({ type: 'fixed', value: 200, reason: 'Coupon' }).success).toBe(true);
+    });
+
+    it('should reject percentages over 100', () => {
+      const result = DiscountSchema.safeParse({ type: 'percentage', value: 150, reason: 'Socio' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject fractional cents and non-positive values', () => {
+      expect(DiscountSchema.safeParse({ type: 'fixed', value: 1.5, reason: 'Coupon' }).success).toBe(false);
+      expect(DiscountSchema.safeParse({ type: 'fixed', value: 0, reason: 'Coupon' }).success).toBe(false);
+    });
+
+    it('should require a reason', () => {
+      const result = DiscountSchema.safeParse({ type: 'fixed', value: 200, reason: '  ' });
+      expect(result.success).toBe(false);
+    });
   });
 
   describe('OrderSchema', () => {
@@ -196,6 +485,48 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(false);
     });
 
+    it('should allow a negative total paid out in cash when deposits are returned', () => {
+      const order = {
+        ...validOrder,
+        items: [],
+        total: -200,
+        depositReturns: [{ amount: 100, quantity: 2 }],
+        payments: [{ method: 'cash', amount: -200 }],
+      };
+      expect(OrderSchema.safeParse(order).success).toBe(true);
+      expect(OrderSchema.safeParse({ ...order, depositReturns: undefined }).success).toBe(false);
+    });
+
+    it('should reject refunds of more units than were sold', () => {
+      const refund = {
+        id: 'r1',
+        type: 'partial',
+        reason: 'Ordine sbagliato',
+        lines: [{ itemIndex: 0, quantity: 1 }],
+        amount: 100,
+        timestamp: new Date(),
+      };
+      expect(OrderSchema.safeParse({ ...validOrder, refunds: [refund] }).success).toBe(true);
+      const tooMany = [refund, { ...refund, id: 'r2', lines: [{ itemIndex: 0, quantity: 2 }] }];
+      expect(OrderSchema.safeParse({ ...validOrder, refunds: tooMany }).success).toBe(false);
+      expect(
+        OrderSchema.safeParse({ ...validOrder, refunds: [{ ...refund, lines: [{ itemIndex: 5, quantity: 1 }] }] })
+          .success
+      ).toBe(false);
+      expect(OrderSchema.safeParse({ ...validOrder, refunds: [{ ...refund, reason: ' ' }] }).success).toBe(false);
+    });
+
+    it('should reject negative payments on orders with a positive total', () => {
+      const order = {
+        ...validOrder,
+        payments: [
+          { method: 'cash', amount: 30 },
+          { method: 'card', amount: -10 },
+        ],
+      };
+      expect(OrderSchema.safeParse(order).success).toBe(false);
+    });
+
     it('should accept zero total', () => {
       const order = { ...validOrder, total: 0 };
       const result = OrderSchema.safeParse(order);
@@ -226,6 +557,37 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(true);
     });
 
+    it('should accept payment legs that add up to the total', () => {
+      const order = {
+        ...validOrder,
+        total: 2000,
+        payments: [
+          { method: 'card', amount: 1200 },
+          { method: 'cash', amount: 800 },
+        ],
+      };
+      const result = OrderSchema.safeParse(order);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject payment legs that do not add up to the total', () => {
+      const order = { ...validOrder, total: 2000, payments: [{ method: 'card', amount: 1500 }] };
+      const result = OrderSchema.safeParse(order);
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject an empty payment method', () => {
+      const order = { ...validOrder, total: 2000, payments: [{ method: '', amount: 2000 }] };
+      const result = OrderSchema.safeParse(order);
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject an empty list of payments', () => {
+      const order = { ...validOrder, payments: [] };
+      const result = OrderSchema.safeParse(order);
+      expect(result.success).toBe(false);
+    });
+
     it('should reject negative cashPaid', () => {
       const order = { ...validOrder, cashPaid: -10.0 };
       const result = OrderSchema.safeParse(order);
@@ -438,4 +800,54 @@ describe('Validation Schemas', () => {
       }
     });
   });
+
+  describe('validateCategories function', () => {
+    it('should validate array of valid categories', () => {
+      const categories: Category[] = [
+        { id: 'grill', name: 'Griglia', emoji: '🍖', color: '#FF5722', order: 0 },
+        { id: 'beer', name: 'Birre', emoji: '🍺', color: '#FF9800', order: 1 },
+      ];
+
+      const result = validateCategories(categories);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject array with invalid categories', () => {
+      const result = validateCategories([{ id: '', name: '', emoji: '', color: 'bad', order: 0 }]);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('partitionRecords function', () => {
+    it('should split valid and invalid records', () => {
+      const result = partitionRecords(CategorySchema, [
+        { id: 'grill', name: 'Griglia', emoji: '🍖', color: '#FF5722', order: 0 },
+        { id: 'beer', name: '', emoji: '🍺', color: '#FF9800', order: 1 },
+      ]);
+
+      expect(result.valid).toHaveLength(1);
+      expect(result.valid[0].id).toBe('grill');
+      expect(result.rejected).toHaveLength(1);
+      expect(result.rejected[0].record).toMatchObject({ id: 'beer' });
+      expect(result.rejected[0].issues).toEqual([
+        { path: 'name', message: 'Category name is required' },
+      ]);
+    });
+
+    it('should join nested issue paths with dots', () => {
+      const result = partitionRecords(OrderSchema, [
+        { id: 'order-1', items: [{ product: { id: '1' }, quantity: 1 }], total: 0, timestamp: new Date() },
+      ]);
+
+      expect(result.rejected[0].issues.map(issue => issue.path)).toContain('items.0.product.name');
+    });
+
+    it('should reject a payload that is not an array as a whole', () => {
+      const result = partitionRecords(ProductSchema, { id: '1' });
+
+      expect(result.valid).toEqual([]);
+      expect(result.rejected).toHaveLength(1);
+      expect(result.rejected[0].record).toEqual({ id: '1' });
+    });
+  });
 });
@@ -0,0 +1,263 @@
+/**
+ * Form section for editing the slots of a bundle (menu) product
+ *
+ * Each slot has a name and is filled either by a fixed product or by one
+ * product picked from a category when the bundle is ordered. Only products
+ * that can be bundle components are offered.
+ *
+ * @module components/BundleSlotsEditor
+ */
+
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ViewStyle } from 'react-native';
+import Button from './Button';
+import { BundleSlot, Category, Product } from '../types';
+import { canBeBundleComponent } from '../utils/bundles';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, TOUCH_TARGETS } from '../constants/theme';
+
+/**
+ * A bundle slot being edited; only the ID matching its type is used on save
+ */
+export interface BundleSlotDraft {
+  id: string;
+  name: string;
+  type: BundleSlot['type'];
+  productId?: string;
+  categoryId?: string;
+}
+
+/**
+ * Turn a product's bundle slots into editable drafts
+ */
+export const toBundleSlotDrafts = (slots?: BundleSlot[]): BundleSlotDraft[] => {
+  return (slots ?? []).map(slot => ({ ...slot }));
+};
+
+/**
+ * Validate drafts and turn them back into bundle slots
+ *
+ * @param drafts - Slots as edited in the form
+ * @returns The slots, or an error message (in Italian) to show the user
+ */
+export const parseBundleSlotDrafts = (
+  drafts: BundleSlotDraft[]
+): { slots: BundleSlot[] } | { error: string } => {
+  const slots: BundleSlot[] = [];
+
+  for (const draft of drafts) {
+    const name = draft.name.trim();
+    if (!name) {
+      return { error: 'Inserisci un nome per ogni componente del menu' };
+    }
+
+    if (draft.type === 'fixed') {
+      if (!draft.productId) {
+        return { error: `Scegli il prodotto per "${name}"` };
+      }
+      slots.push({ id: draft.id, name, type: 'fixed', productId: draft.productId });
+    } else {
+      if (!draft.categoryId) {
+        return { error: `Scegli la categoria per "${name}"` };
+      }
+      slots.push({ id: draft.id, name, type: 'category', categoryId: draft.categoryId });
+    }
+  }
+
+  return { slots };
+};
+
+/**
+ * BundleSlotsEditor component props
+ */
+export interface BundleSlotsEditorProps {
+  /** Slots being edited */
+  slots: BundleSlotDraft[];
+  /** Products that can be picked for fixed slots (the bundle itself should be left out) */
+  products: Product[];
+  /** Categories that can be picked for category slots */
+  categories: Category[];
+  /** Called with the updated slots after every edit */
+  onChange: (slots: BundleSlotDraft[]) => void;
+  /** Custom container styles */
+  style?: ViewStyle;
+}
+
+/**
+ * BundleSlotsEditor component
+ *
+ * @example
+ * ```tsx
+ * <BundleSlotsEditor
+ *   slots={bundleSlots}
+ *   products={products}
+ *   categories={categories}
+ *   onChange={setBundleSlots}
+ * />
+ * ```
+ */
+const BundleSlotsEditor: React.FC<BundleSlotsEditorProps> = ({
+  slots,
+  products,
+  categories,
+  onChange,
+  style,
+}) => {
+  const componentProducts = products.filter(canBeBundleComponent);
+
+  const updateSlot = (slotId: string, changes: Partial<BundleSlotDraft>) => {
+    onChange(slots.map(slot => (slot.id === slotId ? { ...slot, ...changes } : slot)));
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+    accessibilityLabel: string
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      accessibilityRole="radio"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityState={{ checked: selected }}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={style}>
+      {slots.map((slot, index) => (
+        <View key={slot.id} style={styles.slot}>
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.nameInput]}
+              placeholder="Componente (es. Bibita)"
+              value={slot.name}
+              onChangeText={text => updateSlot(slot.id, { name: text })}
+              maxLength={30}
+              accessibilityLabel={`Bundle slot ${index + 1} name input`}
+            />
+            <Button
+              title="✕"
+              variant="ghost"
+              size="small"
+              onPress={() => onChange(slots.filter(s => s.id !== slot.id))}
+              accessibilityLabel={`Remove bundle slot ${index + 1}`}
+            />
+          </View>
+
+          <View style={styles.chips}>
+            {renderChip(
+              'fixed',
+              'Fisso',
+              slot.type === 'fixed',
+              () => updateSlot(slot.id, { type: 'fixed' }),
+              `Bundle slot ${index + 1} fixed product`
+            )}
+            {renderChip(
+              'category',
+              'Scelta da categoria',
+              slot.type === 'category',
+              () => updateSlot(slot.id, { type: 'category' }),
+              `Bundle slot ${index + 1} pick from category`
+            )}
+          </View>
+
+          <View style={styles.chips}>
+            {slot.type === 'fixed'
+              ? componentProducts.map(product =>
+                  renderChip(
+                    product.id,
+                    `${product.emoji} ${product.name}`,
+                    slot.productId === product.id,
+                    () => updateSlot(slot.id, { productId: product.id }),
+                    `Bundle slot ${index + 1} product ${product.name}`
+                  )
+                )
+              : categories.map(category =>
+                  renderChip(
+                    category.id,
+                    `${category.emoji} ${category.name}`,
+                    slot.categoryId === category.id,
+                    () => updateSlot(slot.id, { categoryId: category.id }),
+                    `Bundle slot ${index + 1} category ${category.name}`
+                  )
+                )}
+          </View>
+        </View>
+      ))}
+
+      <Button
+        title="+ Componente menu"
+        variant="secondary"
+        size="medium"
+        onPress={() =>
+          onChange([...slots, { id: `${Date.now()}-${slots.length}`, name: '', type: 'fixed' }])
+        }
+        fullWidth
+        accessibilityLabel="Add bundle slot"
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  slot: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: SPACING.sm,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.sm,
+    fontSize: FONT_SIZES.md,
+    marginBottom: SPACING.sm,
+    minHeight: TOUCH_TARGETS.small,
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.surface,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    minHeight: TOUCH_TARGETS.small,
+    justifyContent: 'center',
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  chipSelected: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textPrimary,
+  },
+  chipTextSelected: {
+    color: COLORS.surface,
+  },
+});
+
+export default BundleSlotsEditor;
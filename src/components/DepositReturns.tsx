@@ -0,0 +1,133 @@
+/**
+ * Order section for refunding returned cups and bottles
+ *
+ * Shows one button per deposit amount charged by the products, and the
+ * returns already in the order with their refund. Renders nothing when no
+ * product charges a deposit and nothing has been returned.
+ *
+ * @module components/DepositReturns
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ViewStyle } from 'react-native';
+import Button from './Button';
+import { DepositReturn } from '../types';
+import { formatMoney, formatMoneyInput } from '../utils/money';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, TOUCH_TARGETS } from '../constants/theme';
+
+/**
+ * DepositReturns component props
+ */
+export interface DepositReturnsProps {
+  /** Deposit amounts charged by the products, in cents */
+  depositAmounts: number[];
+  /** Returns already in the order */
+  depositReturns: DepositReturn[];
+  /** Called to refund one more return of the given deposit */
+  onReturn: (amount: number) => void;
+  /** Called to take back one return of the given deposit */
+  onRemove: (amount: number) => void;
+  /** Custom container styles */
+  style?: ViewStyle;
+}
+
+/**
+ * DepositReturns component
+ *
+ * @example
+ * ```tsx
+ * <DepositReturns
+ *   depositAmounts={getDepositAmounts(products)}
+ *   depositReturns={currentOrderDepositReturns}
+ *   onReturn={addDepositReturn}
+ *   onRemove={removeDepositReturn}
+ * />
+ * ```
+ */
+const DepositReturns: React.FC<DepositReturnsProps> = ({
+  depositAmounts,
+  depositReturns,
+  onReturn,
+  onRemove,
+  style,
+}) => {
+  if (depositAmounts.length === 0 && depositReturns.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, style]}>
+      {depositReturns.map(entry => (
+        <View key={entry.amount} style={styles.returnRow}>
+          <Text style={styles.returnText}>
+            ♻️ Reso cauzione {formatMoney(entry.amount)} x {entry.quantity}
+          </Text>
+          <View style={styles.returnAmount}>
+            <Text style={styles.returnText}>{formatMoney(-entry.amount * entry.quantity)}</Text>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => onRemove(entry.amount)}
+              accessibilityRole="button"
+              accessibilityLabel={`Remove returned deposit ${formatMoneyInput(entry.amount)}`}
+            >
+              <Text style={styles.removeButtonText}>-</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+      <View style={styles.buttons}>
+        {depositAmounts.map(amount => (
+          <Button
+            key={amount}
+            title={`♻️ Reso cauzione ${formatMoney(amount)}`}
+            variant="secondary"
+            size="small"
+            onPress={() => onReturn(amount)}
+            accessibilityLabel={`Return deposit ${formatMoneyInput(amount)}`}
+          />
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: SPACING.sm,
+  },
+  returnRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: SPACING.xs,
+  },
+  returnText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.warning,
+  },
+  returnAmount: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  removeButton: {
+    width: TOUCH_TARGETS.medium,
+    height: TOUCH_TARGETS.medium,
+    borderRadius: BORDER_RADIUS.round,
+    backgroundColor: COLORS.info,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  removeButtonText: {
+    color: COLORS.textInverse,
+    fontSize: FONT_SIZES.xxl,
+    fontWeight: 'bold',
+  },
+  buttons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+});
+
+export default DepositReturns;
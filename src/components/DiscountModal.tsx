@@ -0,0 +1,271 @@
+/**
+ * Modal for giving a percentage or fixed discount, with a reason
+ *
+ * Used for a single line of the order or the whole order. Opens prefilled
+ * with the discount already applied, which can then be changed or removed.
+ * Fixed amounts are typed in euros and stored in cents.
+ *
+ * @module components/DiscountModal
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Alert,
+  Platform,
+  KeyboardAvoidingView,
+} from 'react-native';
+import Button from './Button';
+import { Discount } from '../types';
+import { triggerHaptic } from '../utils/haptics';
+import { formatMoneyInput, parseMoney } from '../utils/money';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, TOUCH_TARGETS } from '../constants/theme';
+
+/**
+ * DiscountModal component props
+ */
+export interface DiscountModalProps {
+  /** Whether the modal is shown */
+  visible: boolean;
+  /** Title naming what is discounted (e.g. "Sconto Ordine") */
+  title: string;
+  /** Discount already applied, to prefill the form and offer its removal */
+  discount?: Discount;
+  /** Called with the new discount, or undefined to remove it */
+  onApply: (discount?: Discount) => void;
+  /** Called when the modal is dismissed without changes */
+  onClose: () => void;
+}
+
+/**
+ * DiscountModal component
+ *
+ * @example
+ * ```tsx
+ * <DiscountModal
+ *   visible={discountTarget !== null}
+ *   title="Sconto Ordine"
+ *   discount={currentOrderDiscount}
+ *   onApply={applyDiscount}
+ *   onClose={closeDiscountModal}
+ * />
+ * ```
+ */
+const DiscountModal: React.FC<DiscountModalProps> = ({
+  visible,
+  title,
+  discount,
+  onApply,
+  onClose,
+}) => {
+  const [type, setType] = useState<Discount['type']>('percentage');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState('');
+
+  // Prefill with the applied discount each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setType(discount?.type ?? 'percentage');
+    setValue(
+      discount
+        ? discount.type === 'percentage' ? String(discount.value) : formatMoneyInput(discount.value)
+        : ''
+    );
+    setReason(discount?.reason ?? '');
+  }, [visible, discount]);
+
+  const handleApply = useCallback(() => {
+    const parsed = type === 'percentage' ? Number(value.trim()) : parseMoney(value);
+
+    if (parsed === null || !Number.isInteger(parsed) || parsed <= 0) {
+      Alert.alert('Errore', 'Inserisci un valore valido');
+      return;
+    }
+    if (type === 'percentage' && parsed > 100) {
+      Alert.alert('Errore', 'La percentuale non può superare 100');
+      return;
+    }
+    if (!reason.trim()) {
+      Alert.alert('Errore', 'Inserisci il motivo dello sconto');
+      return;
+    }
+
+    onApply({ type, value: parsed, reason: reason.trim() });
+    triggerHaptic('success');
+  }, [type, value, reason, onApply]);
+
+  const handleRemove = useCallback(() => {
+    onApply(undefined);
+    triggerHaptic('medium');
+  }, [onApply]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+      accessibilityViewIsModal
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.overlay}
+      >
+        <View style={styles.content}>
+          <Text style={styles.title}>{title}</Text>
+
+          <View style={styles.typeRow}>
+            {(['percentage', 'fixed'] as const).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.typeTab, type === option && styles.typeTabActive]}
+                onPress={() => setType(option)}
+                accessibilityRole="button"
+                accessibilityLabel={option === 'percentage' ? 'Percentage discount' : 'Fixed discount'}
+                accessibilityState={{ selected: type === option }}
+              >
+                <Text style={[styles.typeTabText, type === option && styles.typeTabTextActive]}>
+                  {option === 'percentage' ? 'Percentuale (%)' : 'Importo (€)'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TextInput
+            style={styles.valueInput}
+            placeholder={type === 'percentage' ? 'Es. 10' : 'Es. 2.00'}
+            value={value}
+            onChangeText={setValue}
+            keyboardType={type === 'percentage' ? 'number-pad' : 'decimal-pad'}
+            accessibilityLabel="Discount value input"
+          />
+          <TextInput
+            style={styles.reasonInput}
+            placeholder="Motivo (es. Volontario, Socio)"
+            value={reason}
+            onChangeText={setReason}
+            maxLength={50}
+            accessibilityLabel="Discount reason input"
+          />
+
+          <View style={styles.actions}>
+            <Button
+              title="Indietro"
+              variant="ghost"
+              size="large"
+              onPress={onClose}
+              style={styles.actionButton}
+            />
+            <Button
+              title="Applica"
+              variant="primary"
+              size="large"
+              onPress={handleApply}
+              style={styles.actionButton}
+              accessibilityLabel="Apply discount"
+            />
+          </View>
+          {discount && (
+            <Button
+              title="Rimuovi sconto"
+              variant="danger"
+              size="medium"
+              onPress={handleRemove}
+              fullWidth
+              style={styles.removeButton}
+              accessibilityLabel="Remove discount"
+            />
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.lg,
+  },
+  content: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.xl,
+    padding: SPACING.xxl,
+    width: '100%',
+    maxWidth: 400,
+  },
+  title: {
+    fontSize: FONT_SIZES.xxxl,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    color: COLORS.textPrimary,
+    marginBottom: SPACING.xxl,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: SPACING.lg,
+  },
+  typeTab: {
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.round,
+    backgroundColor: COLORS.background,
+    marginRight: SPACING.sm,
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: TOUCH_TARGETS.medium,
+  },
+  typeTabActive: {
+    backgroundColor: COLORS.primary,
+  },
+  typeTabText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  typeTabTextActive: {
+    color: COLORS.textInverse,
+  },
+  valueInput: {
+    borderWidth: 2,
+    borderColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.lg,
+    fontSize: FONT_SIZES.xxxl,
+    textAlign: 'center',
+    marginBottom: SPACING.lg,
+    minHeight: TOUCH_TARGETS.xlarge,
+    color: COLORS.textPrimary,
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.lg,
+    minHeight: TOUCH_TARGETS.medium,
+    marginBottom: SPACING.lg,
+    color: COLORS.textPrimary,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  removeButton: {
+    marginTop: SPACING.sm,
+  },
+});
+
+export default DiscountModal;
@@ -0,0 +1,77 @@
+/**
+ * Error banner shown when saved data could not be read on load
+ *
+ * Warns that changes are not being saved and offers to read the data again.
+ * Renders nothing when the load succeeded.
+ *
+ * @module components/LoadFailedBanner
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, ViewStyle } from 'react-native';
+import Button from './Button';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS } from '../constants/theme';
+
+/**
+ * LoadFailedBanner component props
+ */
+export interface LoadFailedBannerProps {
+  /** Whether the last load failed */
+  visible: boolean;
+  /** Called when the user taps the retry button */
+  onRetry: () => void;
+  /** Custom container styles */
+  style?: ViewStyle;
+}
+
+/**
+ * LoadFailedBanner component
+ *
+ * @example
+ * ```tsx
+ * <LoadFailedBanner visible={loadFailed} onRetry={reloadData} />
+ * ```
+ */
+const LoadFailedBanner: React.FC<LoadFailedBannerProps> = ({ visible, onRetry, style }) => {
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, style]} accessibilityRole="alert">
+      <Text style={styles.message}>
+        ⛔ Dati salvati non leggibili: le modifiche non vengono salvate
+      </Text>
+      <Button
+        title="Riprova"
+        variant="danger"
+        size="small"
+        onPress={onRetry}
+        accessibilityLabel="Reload saved data"
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: SPACING.md,
+    backgroundColor: COLORS.surface,
+    borderLeftWidth: 4,
+    borderLeftColor: COLORS.error,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    marginHorizontal: SPACING.lg,
+    marginTop: SPACING.md,
+  },
+  message: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textPrimary,
+  },
+});
+
+export default LoadFailedBanner;
@@ -0,0 +1,65 @@
+/**
+ * Warning banner listing products that are running low or sold out
+ *
+ * Shown on the order screen so cashiers and the kitchen see shortages before
+ * they happen. Renders nothing when no product is below its threshold.
+ *
+ * @module components/LowStockBanner
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, ViewStyle } from 'react-native';
+import { Product } from '../types';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS } from '../constants/theme';
+
+/**
+ * LowStockBanner component props
+ */
+export interface LowStockBannerProps {
+  /** Products at or below their low-stock threshold */
+  products: Product[];
+  /** Custom container styles */
+  style?: ViewStyle;
+}
+
+/**
+ * LowStockBanner component
+ *
+ * @example
+ * ```tsx
+ * <LowStockBanner products={products.filter(isLowStock)} />
+ * ```
+ */
+const LowStockBanner: React.FC<LowStockBannerProps> = ({ products, style }) => {
+  if (products.length === 0) {
+    return null;
+  }
+
+  const summary = products
+    .map(p => `${p.emoji} ${p.name} (${p.stock === 0 ? 'esaurito' : p.stock})`)
+    .join(', ');
+
+  return (
+    <View style={[styles.container, style]} accessibilityRole="alert">
+      <Text style={styles.message}>⚠️ Scorte basse: {summary}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: COLORS.surface,
+    borderLeftWidth: 4,
+    borderLeftColor: COLORS.warning,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    marginHorizontal: SPACING.lg,
+    marginTop: SPACING.md,
+  },
+  message: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textPrimary,
+  },
+});
+
+export default LowStockBanner;
@@ -0,0 +1,284 @@
+/**
+ * Form section for editing a product's modifier groups
+ *
+ * Each group has a name, whether a choice is required, whether several
+ * options can be chosen, and a list of options with a price change. Prices
+ * are edited as text and only parsed when the product is saved.
+ *
+ * @module components/ModifierGroupsEditor
+ */
+
+import React from 'react';
+import { View, Text, TextInput, Switch, StyleSheet, ViewStyle } from 'react-native';
+import Button from './Button';
+import { ModifierGroup } from '../types';
+import { formatMoneyInput, parseMoney } from '../utils/money';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, TOUCH_TARGETS } from '../constants/theme';
+
+/**
+ * A modifier option being edited, with its price change as typed
+ */
+export interface ModifierOptionDraft {
+  id: string;
+  name: string;
+  /** Price change in euros as typed (empty for free, "-" prefix for a reduction) */
+  priceDelta: string;
+}
+
+/**
+ * A modifier group being edited
+ */
+export interface ModifierGroupDraft {
+  id: string;
+  name: string;
+  required: boolean;
+  multiple: boolean;
+  options: ModifierOptionDraft[];
+}
+
+/**
+ * Turn a product's modifier groups into editable drafts
+ */
+export const toModifierGroupDrafts = (groups?: ModifierGroup[]): ModifierGroupDraft[] => {
+  return (groups ?? []).map(group => ({
+    ...group,
+    options: group.options.map(option => ({
+      ...option,
+      priceDelta: option.priceDelta === 0 ? '' : formatMoneyInput(option.priceDelta),
+    })),
+  }));
+};
+
+/**
+ * Validate drafts and turn them back into modifier groups
+ *
+ * @param drafts - Groups as edited in the form
+ * @returns The groups, or an error message (in Italian) to show the user
+ */
+export const parseModifierGroupDrafts = (
+  drafts: ModifierGroupDraft[]
+): { groups: ModifierGroup[] } | { error: string } => {
+  const groups: ModifierGroup[] = [];
+
+  for (const draft of drafts) {
+    const name = draft.name.trim();
+    if (!name) {
+      return { error: 'Inserisci un nome per ogni gruppo di opzioni' };
+    }
+    if (draft.options.length === 0) {
+      return { error: `Aggiungi almeno un'opzione al gruppo "${name}"` };
+    }
+
+    const options: ModifierGroup['options'] = [];
+    for (const option of draft.options) {
+      const optionName = option.name.trim();
+      if (!optionName) {
+        return { error: `Inserisci un nome per ogni opzione di "${name}"` };
+      }
+
+      const typed = option.priceDelta.trim();
+      const isReduction = typed.startsWith('-');
+      const amount = typed === '' ? 0 : parseMoney(typed.replace(/^[+-]/, ''));
+      if (amount === null) {
+        return { error: `Prezzo non valido per "${optionName}"` };
+      }
+
+      options.push({ id: option.id, name: optionName, priceDelta: isReduction ? -amount : amount });
+    }
+
+    groups.push({ id: draft.id, name, required: draft.required, multiple: draft.multiple, options });
+  }
+
+  return { groups };
+};
+
+/**
+ * ModifierGroupsEditor component props
+ */
+export interface ModifierGroupsEditorProps {
+  /** Groups being edited */
+  groups: ModifierGroupDraft[];
+  /** Called with the updated groups after every edit */
+  onChange: (groups: ModifierGroupDraft[]) => void;
+  /** Custom container styles */
+  style?: ViewStyle;
+}
+
+/**
+ * ModifierGroupsEditor component
+ *
+ * @example
+ * ```tsx
+ * <ModifierGroupsEditor groups={modifierGroups} onChange={setModifierGroups} />
+ * ```
+ */
+const ModifierGroupsEditor: React.FC<ModifierGroupsEditorProps> = ({ groups, onChange, style }) => {
+  const updateGroup = (groupId: string, changes: Partial<ModifierGroupDraft>) => {
+    onChange(groups.map(group => (group.id === groupId ? { ...group, ...changes } : group)));
+  };
+
+  const updateOption = (group: ModifierGroupDraft, optionId: string, changes: Partial<ModifierOptionDraft>) => {
+    updateGroup(group.id, {
+      options: group.options.map(option => (option.id === optionId ? { ...option, ...changes } : option)),
+    });
+  };
+
+  const addGroup = () => {
+    onChange([
+      ...groups,
+      {
+        id: `${Date.now()}-${groups.length}`,
+        name: '',
+        required: false,
+        multiple: false,
+        options: [{ id: `${Date.now()}-0`, name: '', priceDelta: '' }],
+      },
+    ]);
+  };
+
+  const addOption = (group: ModifierGroupDraft) => {
+    updateGroup(group.id, {
+      options: [...group.options, { id: `${Date.now()}-${group.options.length}`, name: '', priceDelta: '' }],
+    });
+  };
+
+  return (
+    <View style={style}>
+      {groups.map((group, groupIndex) => (
+        <View key={group.id} style={styles.group}>
+          <TextInput
+            style={styles.input}
+            placeholder="Nome gruppo (es. Salse)"
+            value={group.name}
+            onChangeText={text => updateGroup(group.id, { name: text })}
+            maxLength={30}
+            accessibilityLabel={`Modifier group ${groupIndex + 1} name input`}
+          />
+
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Obbligatorio</Text>
+            <Switch
+              value={group.required}
+              onValueChange={required => updateGroup(group.id, { required })}
+              trackColor={{ true: COLORS.primary, false: COLORS.border }}
+              accessibilityLabel={`Modifier group ${groupIndex + 1} required`}
+            />
+          </View>
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Scelta multipla</Text>
+            <Switch
+              value={group.multiple}
+              onValueChange={multiple => updateGroup(group.id, { multiple })}
+              trackColor={{ true: COLORS.primary, false: COLORS.border }}
+              accessibilityLabel={`Modifier group ${groupIndex + 1} multiple choice`}
+            />
+          </View>
+
+          {group.options.map((option, optionIndex) => (
+            <View key={option.id} style={styles.optionRow}>
+              <TextInput
+                style={[styles.input, styles.optionName]}
+                placeholder="Opzione (es. Maionese)"
+                value={option.name}
+                onChangeText={text => updateOption(group, option.id, { name: text })}
+                maxLength={30}
+                accessibilityLabel={`Modifier group ${groupIndex + 1} option ${optionIndex + 1} name input`}
+              />
+              <TextInput
+                style={[styles.input, styles.optionPrice]}
+                placeholder="+€"
+                value={option.priceDelta}
+                onChangeText={text => updateOption(group, option.id, { priceDelta: text })}
+                keyboardType="numbers-and-punctuation"
+                accessibilityLabel={`Modifier group ${groupIndex + 1} option ${optionIndex + 1} price input`}
+              />
+              <Button
+                title="✕"
+                variant="ghost"
+                size="small"
+                onPress={() =>
+                  updateGroup(group.id, { options: group.options.filter(o => o.id !== option.id) })
+                }
+                accessibilityLabel={`Remove option ${optionIndex + 1} from modifier group ${groupIndex + 1}`}
+              />
+            </View>
+          ))}
+
+          <View style={styles.groupActions}>
+            <Button
+              title="+ Opzione"
+              variant="secondary"
+              size="small"
+              onPress={() => addOption(group)}
+              accessibilityLabel={`Add option to modifier group ${groupIndex + 1}`}
+            />
+            <Button
+              title="Rimuovi gruppo"
+              variant="danger"
+              size="small"
+              onPress={() => onChange(groups.filter(g => g.id !== group.id))}
+              accessibilityLabel={`Remove modifier group ${groupIndex + 1}`}
+            />
+          </View>
+        </View>
+      ))}
+
+      <Button
+        title="+ Gruppo di opzioni"
+        variant="secondary"
+        size="medium"
+        onPress={addGroup}
+        fullWidth
+        accessibilityLabel="Add modifier group"
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  group: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.sm,
+    fontSize: FONT_SIZES.md,
+    marginBottom: SPACING.sm,
+    minHeight: TOUCH_TARGETS.small,
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.surface,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: SPACING.sm,
+  },
+  switchLabel: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textPrimary,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: SPACING.sm,
+  },
+  optionName: {
+    flex: 1,
+  },
+  optionPrice: {
+    width: 80,
+  },
+  groupActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+});
+
+export default ModifierGroupsEditor;
@@ -0,0 +1,189 @@
+/**
+ * Modal for parking the current order under a customer name or table
+ *
+ * Names are compared case-insensitively with the orders already parked, so
+ * each parked order can be told apart when it is resumed.
+ *
+ * @module components/ParkOrderModal
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  Alert,
+  Platform,
+  KeyboardAvoidingView,
+} from 'react-native';
+import Button from './Button';
+import { formatMoney } from '../utils/money';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, TOUCH_TARGETS } from '../constants/theme';
+
+/**
+ * ParkOrderModal component props
+ */
+export interface ParkOrderModalProps {
+  /** Whether the modal is shown */
+  visible: boolean;
+  /** Total of the order being parked, in cents */
+  total: number;
+  /** Names of the orders already parked */
+  parkedNames: string[];
+  /** Called with the trimmed, unused name */
+  onPark: (name: string) => void;
+  /** Called when the modal is dismissed without parking */
+  onClose: () => void;
+}
+
+/**
+ * ParkOrderModal component
+ *
+ * @example
+ * ```tsx
+ * <ParkOrderModal
+ *   visible={parkModalVisible}
+ *   total={total}
+ *   parkedNames={parkedOrders.map(p => p.name)}
+ *   onPark={handleConfirmPark}
+ *   onClose={() => setParkModalVisible(false)}
+ * />
+ * ```
+ */
+const ParkOrderModal: React.FC<ParkOrderModalProps> = ({
+  visible,
+  total,
+  parkedNames,
+  onPark,
+  onClose,
+}) => {
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    if (visible) setName('');
+  }, [visible]);
+
+  const handleConfirm = useCallback(() => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      Alert.alert('Errore', 'Inserisci il nome del cliente o il numero del tavolo');
+      return;
+    }
+    if (parkedNames.some(parkedName => parkedName.toLowerCase() === trimmedName.toLowerCase())) {
+      Alert.alert('Errore', 'Esiste già un ordine sospeso con questo nome');
+      return;
+    }
+
+    onPark(trimmedName);
+  }, [name, parkedNames, onPark]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+      accessibilityViewIsModal
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.overlay}
+      >
+        <View style={styles.content}>
+          <Text style={styles.title}>Parcheggia Ordine</Text>
+          <View style={styles.total}>
+            <Text style={styles.totalLabel}>Totale ordine:</Text>
+            <Text style={styles.totalAmount}>{formatMoney(total)}</Text>
+          </View>
+
+          <TextInput
+            style={styles.nameInput}
+            placeholder="Nome cliente o tavolo (es. Tavolo 4)"
+            value={name}
+            onChangeText={setName}
+            maxLength={30}
+            autoFocus
+            accessibilityLabel="Parked order name input"
+          />
+
+          <View style={styles.actions}>
+            <Button
+              title="Annulla"
+              variant="ghost"
+              size="large"
+              onPress={onClose}
+              style={styles.actionButton}
+            />
+            <Button
+              title="Parcheggia"
+              variant="primary"
+              size="large"
+              onPress={handleConfirm}
+              style={styles.actionButton}
+              accessibilityLabel="Confirm park order"
+            />
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.lg,
+  },
+  content: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.xl,
+    padding: SPACING.xxl,
+    width: '100%',
+    maxWidth: 400,
+  },
+  title: {
+    fontSize: FONT_SIZES.xxxl,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    color: COLORS.textPrimary,
+    marginBottom: SPACING.xxl,
+  },
+  total: {
+    alignItems: 'center',
+    marginBottom: SPACING.xxl,
+  },
+  totalLabel: {
+    fontSize: FONT_SIZES.lg,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.sm,
+  },
+  totalAmount: {
+    fontSize: FONT_SIZES.display,
+    fontWeight: 'bold',
+    color: COLORS.primary,
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.lg,
+    minHeight: TOUCH_TARGETS.medium,
+    marginBottom: SPACING.lg,
+    color: COLORS.textPrimary,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
+
+export default ParkOrderModal;
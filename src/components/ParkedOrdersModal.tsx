@@ -0,0 +1,179 @@
+/**
+ * Modal listing the parked orders, to resume or delete them
+ *
+ * Each order shows its units, its total with the promotions active now and
+ * the time it was parked.
+ *
+ * @module components/ParkedOrdersModal
+ */
+
+import React, { useCallback } from 'react';
+import { View, Text, StyleSheet, FlatList, Modal } from 'react-native';
+import Button from './Button';
+import EmptyState from './EmptyState';
+import { ParkedOrder, Promotion } from '../types';
+import { formatMoney } from '../utils/money';
+import { calculateOrderTotals } from '../utils/pricing';
+import { applyPromotions } from '../utils/promotions';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS } from '../constants/theme';
+
+/**
+ * ParkedOrdersModal component props
+ */
+export interface ParkedOrdersModalProps {
+  /** Whether the modal is shown */
+  visible: boolean;
+  /** Orders parked, in the order they are listed */
+  parkedOrders: ParkedOrder[];
+  /** Promotions, to total each order as it would be resumed */
+  promotions: Promotion[];
+  /** Called when an order is picked to be resumed */
+  onResume: (parkedOrder: ParkedOrder) => void;
+  /** Called when an order is picked to be deleted */
+  onDelete: (parkedOrder: ParkedOrder) => void;
+  /** Called when the modal is dismissed */
+  onClose: () => void;
+}
+
+/**
+ * ParkedOrdersModal component
+ *
+ * @example
+ * ```tsx
+ * <ParkedOrdersModal
+ *   visible={parkedListVisible}
+ *   parkedOrders={parkedOrders}
+ *   promotions={promotions}
+ *   onResume={handleResumeParked}
+ *   onDelete={handleDeleteParked}
+ *   onClose={() => setParkedListVisible(false)}
+ * />
+ * ```
+ */
+const ParkedOrdersModal: React.FC<ParkedOrdersModalProps> = ({
+  visible,
+  parkedOrders,
+  promotions,
+  onResume,
+  onDelete,
+  onClose,
+}) => {
+  const renderParkedOrder = useCallback(({ item: parkedOrder }: { item: ParkedOrder }) => (
+    <View style={styles.row}>
+      <View style={styles.details}>
+        <Text style={styles.name} numberOfLines={1}>{parkedOrder.name}</Text>
+        <Text style={styles.summary}>
+          {parkedOrder.items.reduce((count, item) => count + item.quantity, 0)} prodotti •{' '}
+          {formatMoney(
+            calculateOrderTotals(
+              parkedOrder.items,
+              parkedOrder.discount,
+              applyPromotions(parkedOrder.items, promotions),
+              parkedOrder.depositReturns
+            ).total
+          )} •{' '}
+          {new Date(parkedOrder.parkedAt).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}
+        </Text>
+      </View>
+      <Button
+        title="Riprendi"
+        variant="primary"
+        size="small"
+        onPress={() => onResume(parkedOrder)}
+        accessibilityLabel={`Resume order ${parkedOrder.name}`}
+      />
+      <Button
+        title="Elimina"
+        variant="danger"
+        size="small"
+        onPress={() => onDelete(parkedOrder)}
+        accessibilityLabel={`Delete parked order ${parkedOrder.name}`}
+      />
+    </View>
+  ), [onResume, onDelete, promotions]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+      accessibilityViewIsModal
+    >
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Ordini Sospesi</Text>
+          <FlatList
+            data={parkedOrders}
+            renderItem={renderParkedOrder}
+            keyExtractor={item => item.id}
+            ListEmptyComponent={
+              <EmptyState
+                emoji="🅿️"
+                title="Nessun ordine sospeso"
+              />
+            }
+          />
+          <Button
+            title="Chiudi"
+            variant="ghost"
+            size="medium"
+            onPress={onClose}
+            fullWidth
+            style={styles.closeButton}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.lg,
+  },
+  content: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.xl,
+    padding: SPACING.xxl,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: FONT_SIZES.xxxl,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    color: COLORS.textPrimary,
+    marginBottom: SPACING.lg,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  details: {
+    flex: 1,
+  },
+  name: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  summary: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  closeButton: {
+    marginTop: SPACING.sm,
+  },
+});
+
+export default ParkedOrdersModal;
@@ -0,0 +1,385 @@
+/**
+ * Sheet for choosing a variant, bundle components and modifiers before a
+ * product is added to the order
+ *
+ * Shown for products with variants (e.g. piccola/media), modifiers (e.g.
+ * sauces, "no onions") and for bundles. Choices already sold out are
+ * disabled, counting the units already in the order. A product with variants
+ * and no modifiers is added as soon as a variant is picked.
+ *
+ * @module components/ProductSelectionSheet
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import Button from './Button';
+import { LineSelection, Product, ProductVariant } from '../types';
+import { triggerHaptic } from '../utils/haptics';
+import { formatMoney } from '../utils/money';
+import { getUnitPrice } from '../utils/pricing';
+import {
+  ModifierSelection,
+  formatPriceDelta,
+  getMissingRequiredGroups,
+  hasModifiers,
+  toSelectedModifiers,
+  toggleModifierOption,
+} from '../utils/modifiers';
+import {
+  BundleSelection,
+  getMissingBundleSlots,
+  getSlotChoices,
+  toBundleComponents,
+} from '../utils/bundles';
+import { getAvailableStock } from '../utils/stock';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, TOUCH_TARGETS } from '../constants/theme';
+
+/**
+ * ProductSelectionSheet component props
+ */
+export interface ProductSelectionSheetProps {
+  /** Product being added; the sheet is hidden when null */
+  product: Product | null;
+  /** All products, to list the choices of bundle slots */
+  products: Product[];
+  /** Units already in the order per product ID, and per "productId/variantId" for variants */
+  quantityInOrder: { [productId: string]: number };
+  /** Called with the product and the choices made once every required choice is made */
+  onAdd: (product: Product, selection: LineSelection) => void;
+  /** Called when the sheet is dismissed without adding */
+  onClose: () => void;
+}
+
+/**
+ * ProductSelectionSheet component
+ *
+ * @example
+ * ```tsx
+ * <ProductSelectionSheet
+ *   product={selectionProduct}
+ *   products={products}
+ *   quantityInOrder={quantityInOrder}
+ *   onAdd={handleAddSelection}
+ *   onClose={() => setSelectionProduct(null)}
+ * />
+ * ```
+ */
+const ProductSelectionSheet: React.FC<ProductSelectionSheetProps> = ({
+  product,
+  products,
+  quantityInOrder,
+  onAdd,
+  onClose,
+}) => {
+  const [selectedVariantId, setSelectedVariantId] = useState<string | undefined>(undefined);
+  const [modifierSelection, setModifierSelection] = useState<ModifierSelection>({});
+  const [bundleSelection, setBundleSelection] = useState<BundleSelection>({});
+
+  // Every product opens the sheet with nothing chosen
+  useEffect(() => {
+    setSelectedVariantId(undefined);
+    setModifierSelection({});
+    setBundleSelection({});
+  }, [product]);
+
+  const handleSelectVariant = useCallback((variant: ProductVariant) => {
+    if (!product) return;
+
+    if (!hasModifiers(product)) {
+      onAdd(product, { variantId: variant.id });
+      return;
+    }
+
+    setSelectedVariantId(variant.id);
+    triggerHaptic('light');
+  }, [product, onAdd]);
+
+  const handleToggleModifier = useCallback((groupId: string, optionId: string) => {
+    const group = product?.modifierGroups?.find(g => g.id === groupId);
+    if (!group) return;
+
+    setModifierSelection(prev => toggleModifierOption(prev, group, optionId));
+    triggerHaptic('light');
+  }, [product]);
+
+  const handleSelectBundleChoice = useCallback((slotId: string, productId: string) => {
+    setBundleSelection(prev => ({ ...prev, [slotId]: productId }));
+    triggerHaptic('light');
+  }, []);
+
+  const handleConfirm = useCallback(() => {
+    if (!product) return;
+
+    const missing = [
+      ...(product.variants?.length && !selectedVariantId ? ['Formato'] : []),
+      ...getMissingBundleSlots(product, bundleSelection, products).map(slot => slot.name),
+      ...getMissingRequiredGroups(product, modifierSelection).map(g => g.name),
+    ];
+    if (missing.length > 0) {
+      Alert.alert('Scelta obbligatoria', `Scegli un'opzione per: ${missing.join(', ')}`);
+      return;
+    }
+
+    onAdd(product, {
+      variantId: selectedVariantId,
+      modifiers: toSelectedModifiers(product, modifierSelection),
+      bundleComponents: toBundleComponents(product, bundleSelection, products),
+    });
+  }, [product, selectedVariantId, bundleSelection, modifierSelection, products, onAdd]);
+
+  const unitPrice = product
+    ? getUnitPrice({
+        product,
+        quantity: 1,
+        variantId: selectedVariantId,
+        modifiers: toSelectedModifiers(product, modifierSelection),
+      })
+    : 0;
+
+  return (
+    <Modal
+      visible={product !== null}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+      accessibilityViewIsModal
+    >
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>
+            {product?.emoji} {product?.name}
+          </Text>
+          <ScrollView style={styles.choices}>
+            {product?.variants && product.variants.length > 0 && (
+              <View style={styles.group}>
+                <Text style={styles.groupLabel}>Formato</Text>
+                <View style={styles.options}>
+                  {product.variants.map(variant => {
+                    const selected = selectedVariantId === variant.id;
+                    const variantAvailable = Math.min(
+                      getAvailableStock(product, quantityInOrder[product.id]),
+                      getAvailableStock(variant, quantityInOrder[`${product.id}/${variant.id}`])
+                    );
+                    return (
+                      <TouchableOpacity
+                        key={variant.id}
+                        style={[
+                          styles.option,
+                          selected && styles.optionActive,
+                          variantAvailable === 0 && styles.optionUnavailable,
+                        ]}
+                        onPress={() => handleSelectVariant(variant)}
+                        disabled={variantAvailable === 0}
+                        accessibilityRole="radio"
+                        accessibilityLabel={`Variant ${variant.name}`}
+                        accessibilityState={{ checked: selected, disabled: variantAvailable === 0 }}
+                      >
+                        <Text style={[styles.optionText, selected && styles.optionTextActive]}>
+                          {variant.name} {formatMoney(variant.price)}
+                          {variant.stock !== undefined &&
+                            (variantAvailable === 0 ? ' • Esaurito' : ` • ${variantAvailable}`)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+            {product?.bundleSlots?.map(slot => {
+              const choices = getSlotChoices(slot, products);
+              return (
+                <View key={slot.id} style={styles.group}>
+                  <Text style={styles.groupLabel}>{slot.name}</Text>
+                  <View style={styles.options}>
+                    {choices.length === 0 && (
+                      <Text style={styles.emptyText}>Nessun prodotto disponibile</Text>
+                    )}
+                    {choices.map(choice => {
+                      const choiceAvailable = getAvailableStock(choice, quantityInOrder[choice.id]);
+                      const selected = slot.type === 'fixed' || bundleSelection[slot.id] === choice.id;
+                      return (
+                        <TouchableOpacity
+                          key={choice.id}
+                          style={[
+                            styles.option,
+                            selected && styles.optionActive,
+                            choiceAvailable === 0 && styles.optionUnavailable,
+                          ]}
+                          onPress={() => handleSelectBundleChoice(slot.id, choice.id)}
+                          disabled={slot.type === 'fixed' || choiceAvailable === 0}
+                          accessibilityRole="radio"
+                          accessibilityLabel={`${slot.name} ${choice.name}`}
+                          accessibilityState={{ checked: selected, disabled: choiceAvailable === 0 }}
+                        >
+                          <Text style={[styles.optionText, selected && styles.optionTextActive]}>
+                            {choice.emoji} {choice.name}
+                            {choice.stock !== undefined &&
+                              (choiceAvailable === 0 ? ' • Esaurito' : ` • ${choiceAvailable}`)}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              );
+            })}
+            {product?.modifierGroups?.map(group => (
+              <View key={group.id} style={styles.group}>
+                <Text style={styles.groupLabel}>
+                  {group.name}
+                  {group.required ? ' (obbligatorio)' : ''}
+                  {group.multiple ? ' • scelta multipla' : ''}
+                </Text>
+                <View style={styles.options}>
+                  {group.options.map(option => {
+                    const selected = modifierSelection[group.id]?.includes(option.id) ?? false;
+                    return (
+                      <TouchableOpacity
+                        key={option.id}
+                        style={[styles.option, selected && styles.optionActive]}
+                        onPress={() => handleToggleModifier(group.id, option.id)}
+                        accessibilityRole={group.multiple ? 'checkbox' : 'radio'}
+                        accessibilityLabel={`${group.name} ${option.name}`}
+                        accessibilityState={{ checked: selected }}
+                      >
+                        <Text style={[styles.optionText, selected && styles.optionTextActive]}>
+                          {option.name} {formatPriceDelta(option.priceDelta)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.priceRow}>
+            <Text style={styles.priceLabel}>Prezzo:</Text>
+            <Text style={styles.priceAmount}>{formatMoney(unitPrice)}</Text>
+          </View>
+
+          <View style={styles.actions}>
+            <Button
+              title="Annulla"
+              variant="ghost"
+              size="large"
+              onPress={onClose}
+              style={styles.actionButton}
+            />
+            <Button
+              title="Aggiungi"
+              variant="primary"
+              size="large"
+              onPress={handleConfirm}
+              style={styles.actionButton}
+              accessibilityLabel="Add with selected options"
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.lg,
+  },
+  content: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.xl,
+    padding: SPACING.xxl,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: FONT_SIZES.xxxl,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    color: COLORS.textPrimary,
+    marginBottom: SPACING.lg,
+  },
+  choices: {
+    maxHeight: 200,
+  },
+  group: {
+    marginBottom: SPACING.sm,
+  },
+  groupLabel: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    marginTop: SPACING.md,
+    marginBottom: SPACING.sm,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  option: {
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.round,
+    backgroundColor: COLORS.background,
+    marginRight: SPACING.sm,
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: TOUCH_TARGETS.medium,
+  },
+  optionActive: {
+    backgroundColor: COLORS.primary,
+  },
+  optionUnavailable: {
+    opacity: 0.5,
+  },
+  optionText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  optionTextActive: {
+    color: COLORS.textInverse,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  priceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.md,
+  },
+  priceLabel: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  priceAmount: {
+    fontSize: FONT_SIZES.xxxl,
+    fontWeight: 'bold',
+    color: COLORS.primary,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
+
+export default ProductSelectionSheet;
@@ -0,0 +1,80 @@
+/**
+ * Warning banner shown when stored records failed validation on load
+ *
+ * Tells the user how many records are quarantined and offers a shortcut to
+ * the repair screen. Renders nothing when the count is zero.
+ *
+ * @module components/QuarantineBanner
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, ViewStyle } from 'react-native';
+import Button from './Button';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS } from '../constants/theme';
+
+/**
+ * QuarantineBanner component props
+ */
+export interface QuarantineBannerProps {
+  /** Number of quarantined records */
+  count: number;
+  /** Called when the user taps the repair button */
+  onRepair: () => void;
+  /** Custom container styles */
+  style?: ViewStyle;
+}
+
+/**
+ * QuarantineBanner component
+ *
+ * @example
+ * ```tsx
+ * <QuarantineBanner
+ *   count={quarantine.length}
+ *   onRepair={() => navigation.navigate('Repair')}
+ * />
+ * ```
+ */
+const QuarantineBanner: React.FC<QuarantineBannerProps> = ({ count, onRepair, style }) => {
+  if (count === 0) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, style]} accessibilityRole="alert">
+      <Text style={styles.message}>
+        ⚠️ {count === 1 ? '1 record non valido' : `${count} record non validi`} in quarantena
+      </Text>
+      <Button
+        title="Ripara"
+        variant="warning"
+        size="small"
+        onPress={onRepair}
+        accessibilityLabel="Open data repair"
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: SPACING.md,
+    backgroundColor: COLORS.surface,
+    borderLeftWidth: 4,
+    borderLeftColor: COLORS.warning,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    marginHorizontal: SPACING.lg,
+    marginTop: SPACING.md,
+  },
+  message: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textPrimary,
+  },
+});
+
+export default QuarantineBanner;
@@ -0,0 +1,392 @@
+/**
+ * Modal for paying an order across several payment methods
+ *
+ * Each leg pays part of the remaining balance; an empty amount pays all of
+ * it. Cash tendered beyond the amount applied to the bill is given back as
+ * change. The order can only be confirmed once the balance is covered.
+ *
+ * @module components/SplitPaymentModal
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  Alert,
+  Platform,
+  KeyboardAvoidingView,
+} from 'react-native';
+import Button from './Button';
+import { PaymentLeg, PaymentMethod } from '../types';
+import { CASH_PAYMENT_METHOD_ID, getPaymentMethodLabel } from '../data/paymentMethods';
+import { triggerHaptic } from '../utils/haptics';
+import { addMoney, parseMoney, formatMoney, formatMoneyInput, Cents } from '../utils/money';
+import { createPaymentLeg, getRemainingBalance } from '../utils/payments';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, TOUCH_TARGETS } from '../constants/theme';
+
+/**
+ * SplitPaymentModal component props
+ */
+export interface SplitPaymentModalProps {
+  /** Whether the modal is shown */
+  visible: boolean;
+  /** Order total to cover, in cents */
+  total: number;
+  /** Payment methods a leg can be paid with */
+  paymentMethods: PaymentMethod[];
+  /** Method the next leg is paid with */
+  selectedMethodId: string;
+  /** Called when another method is picked for the next leg */
+  onSelectMethod: (methodId: string) => void;
+  /**
+   * Called with the legs covering the total and the cash tendered (if any)
+   * @returns Whether the order was completed
+   */
+  onConfirm: (payments: PaymentLeg[], cashTendered?: Cents) => boolean;
+  /** Called to go back to the receipt without paying */
+  onBack: () => void;
+}
+
+/**
+ * SplitPaymentModal component
+ *
+ * @example
+ * ```tsx
+ * <SplitPaymentModal
+ *   visible={splitModalVisible}
+ *   total={total}
+ *   paymentMethods={enabledPaymentMethods}
+ *   selectedMethodId={activePaymentMethod}
+ *   onSelectMethod={handleSelectPaymentMethod}
+ *   onConfirm={handleConfirmSplit}
+ *   onBack={handleCloseSplit}
+ * />
+ * ```
+ */
+const SplitPaymentModal: React.FC<SplitPaymentModalProps> = ({
+  visible,
+  total,
+  paymentMethods,
+  selectedMethodId,
+  onSelectMethod,
+  onConfirm,
+  onBack,
+}) => {
+  const [legs, setLegs] = useState<{ leg: PaymentLeg; tendered: number }[]>([]);
+  const [amount, setAmount] = useState('');
+
+  // Every split starts from the whole total
+  useEffect(() => {
+    if (!visible) return;
+    setLegs([]);
+    setAmount('');
+  }, [visible]);
+
+  const payments = useMemo(() => legs.map(({ leg }) => leg), [legs]);
+  const remaining = getRemainingBalance(total, payments);
+  const cashTendered = addMoney(
+    ...legs.filter(({ leg }) => leg.method === CASH_PAYMENT_METHOD_ID).map(({ tendered }) => tendered)
+  );
+  const change = addMoney(...legs.map(({ leg, tendered }) => tendered - leg.amount));
+
+  /**
+   * Add a payment leg for the selected method
+   * An empty amount pays the whole remaining balance.
+   */
+  const handleAddLeg = useCallback(() => {
+    const tendered = amount.trim() === '' ? remaining : parseMoney(amount);
+    if (tendered === null) {
+      Alert.alert('Errore', 'Inserisci un importo valido');
+      return;
+    }
+
+    const result = createPaymentLeg(total, payments, selectedMethodId, tendered);
+    if (!result) {
+      Alert.alert('Errore', 'L\'importo supera il saldo da pagare');
+      return;
+    }
+
+    setLegs(prev => [...prev, { leg: result.leg, tendered }]);
+    setAmount('');
+    triggerHaptic('light');
+  }, [amount, remaining, total, payments, selectedMethodId]);
+
+  const handleRemoveLeg = useCallback((index: number) => {
+    setLegs(prev => prev.filter((_, i) => i !== index));
+    triggerHaptic('medium');
+  }, []);
+
+  const handleConfirm = useCallback(() => {
+    if (remaining > 0) {
+      Alert.alert('Errore', 'Saldo non ancora coperto');
+      return;
+    }
+
+    if (!onConfirm(payments, cashTendered > 0 ? cashTendered : undefined)) return;
+    setLegs([]);
+    setAmount('');
+  }, [remaining, payments, cashTendered, onConfirm]);
+
+  const renderPaymentMethod = useCallback(({ item }: { item: PaymentMethod }) => (
+    <TouchableOpacity
+      style={[styles.methodTab, selectedMethodId === item.id && styles.methodTabActive]}
+      onPress={() => onSelectMethod(item.id)}
+      accessibilityRole="button"
+      accessibilityLabel={`Pay with ${item.name}`}
+      accessibilityState={{ selected: selectedMethodId === item.id }}
+    >
+      <Text style={styles.methodEmoji}>{item.emoji}</Text>
+      <Text style={[styles.methodTabText, selectedMethodId === item.id && styles.methodTabTextActive]}>
+        {item.name}
+      </Text>
+    </TouchableOpacity>
+  ), [selectedMethodId, onSelectMethod]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onBack}
+      accessibilityViewIsModal
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.overlay}
+      >
+        <View style={styles.content}>
+          <Text style={styles.title}>Pagamento Diviso</Text>
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Totale:</Text>
+            <Text style={styles.totalLabel}>{formatMoney(total)}</Text>
+          </View>
+
+          {legs.map(({ leg, tendered }, index) => (
+            <View key={`${leg.method}-${index}`} style={styles.legRow}>
+              <Text style={styles.legText}>
+                {getPaymentMethodLabel(paymentMethods, leg.method)}
+                {tendered > leg.amount ? ` (ricevuti ${formatMoney(tendered)})` : ''}
+              </Text>
+              <Text style={styles.legAmount}>{formatMoney(leg.amount)}</Text>
+              <TouchableOpacity
+                style={styles.removeLegButton}
+                onPress={() => handleRemoveLeg(index)}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove payment ${index + 1}`}
+              >
+                <Text style={styles.removeLegText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <View style={styles.divider} />
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Da pagare:</Text>
+            <Text style={styles.remainingAmount}>{formatMoney(remaining)}</Text>
+          </View>
+
+          {remaining > 0 ? (
+            <>
+              <FlatList
+                horizontal
+                data={paymentMethods}
+                renderItem={renderPaymentMethod}
+                keyExtractor={item => item.id}
+                style={styles.methodList}
+                showsHorizontalScrollIndicator={false}
+              />
+              <View style={styles.inputRow}>
+                <TextInput
+                  style={styles.amountInput}
+                  placeholder={formatMoneyInput(remaining)}
+                  value={amount}
+                  onChangeText={setAmount}
+                  keyboardType="decimal-pad"
+                  accessibilityLabel="Split amount input"
+                />
+                <Button
+                  title="Aggiungi"
+                  variant="primary"
+                  size="medium"
+                  onPress={handleAddLeg}
+                  accessibilityLabel="Add payment"
+                />
+              </View>
+            </>
+          ) : (
+            change > 0 && (
+              <View style={styles.changeSection}>
+                <Text style={styles.changeLabel}>Resto:</Text>
+                <Text style={styles.changeAmount}>{formatMoney(change)}</Text>
+              </View>
+            )
+          )}
+
+          <View style={styles.actions}>
+            <Button
+              title="Indietro"
+              variant="ghost"
+              size="large"
+              onPress={onBack}
+              style={styles.actionButton}
+            />
+            <Button
+              title="Conferma"
+              variant="primary"
+              size="large"
+              onPress={handleConfirm}
+              disabled={remaining > 0}
+              style={styles.actionButton}
+              accessibilityLabel="Confirm split payment"
+            />
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.lg,
+  },
+  content: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.xl,
+    padding: SPACING.xxl,
+    width: '100%',
+    maxWidth: 400,
+  },
+  title: {
+    fontSize: FONT_SIZES.xxxl,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    color: COLORS.textPrimary,
+    marginBottom: SPACING.xxl,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.md,
+  },
+  totalLabel: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  remainingAmount: {
+    fontSize: FONT_SIZES.xxxl,
+    fontWeight: 'bold',
+    color: COLORS.primary,
+  },
+  legRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.sm,
+  },
+  legText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textPrimary,
+    flex: 1,
+  },
+  legAmount: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  removeLegButton: {
+    width: TOUCH_TARGETS.small,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: SPACING.sm,
+  },
+  removeLegText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.error,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: COLORS.border,
+    marginVertical: SPACING.md,
+  },
+  methodList: {
+    flexGrow: 0,
+  },
+  methodTab: {
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.round,
+    backgroundColor: COLORS.background,
+    marginRight: SPACING.sm,
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: TOUCH_TARGETS.medium,
+  },
+  methodTabActive: {
+    backgroundColor: COLORS.primary,
+  },
+  methodEmoji: {
+    fontSize: FONT_SIZES.xl,
+    marginRight: 6,
+  },
+  methodTabText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  methodTabTextActive: {
+    color: COLORS.textInverse,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginTop: SPACING.md,
+  },
+  amountInput: {
+    flex: 1,
+    borderWidth: 2,
+    borderColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.xl,
+    textAlign: 'center',
+    minHeight: TOUCH_TARGETS.medium,
+    color: COLORS.textPrimary,
+  },
+  changeSection: {
+    backgroundColor: COLORS.primaryLight,
+    padding: SPACING.lg,
+    borderRadius: BORDER_RADIUS.md,
+    alignItems: 'center',
+    marginBottom: SPACING.lg,
+  },
+  changeLabel: {
+    fontSize: FONT_SIZES.lg,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.sm,
+  },
+  changeAmount: {
+    fontSize: FONT_SIZES.heading,
+    fontWeight: 'bold',
+    color: COLORS.primary,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
+
+export default SplitPaymentModal;
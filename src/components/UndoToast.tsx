@@ -0,0 +1,112 @@
+/**
+ * Toast offering to undo the latest change, or redo the one just undone
+ *
+ * Shown after each change to the order or the catalog so a mis-tap can be
+ * taken back at once. It hides itself after a few seconds and comes back with
+ * the next change. Renders nothing when there is nothing to undo or redo.
+ *
+ * @module components/UndoToast
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ViewStyle } from 'react-native';
+import Button from './Button';
+import { UndoStep } from '../types';
+import { AUDIT_ACTION_LABELS } from '../utils/audit';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, APP_CONSTANTS } from '../constants/theme';
+
+/**
+ * UndoToast component props
+ */
+export interface UndoToastProps {
+  /** Change that undo would revert, if any */
+  undoStep?: UndoStep;
+  /** Undone change that redo would apply again, if any */
+  redoStep?: UndoStep;
+  /** Called when the user taps undo */
+  onUndo: () => void;
+  /** Called when the user taps redo */
+  onRedo: () => void;
+  /** Custom container styles */
+  style?: ViewStyle;
+}
+
+/**
+ * UndoToast component
+ *
+ * @example
+ * ```tsx
+ * <UndoToast
+ *   undoStep={undoSteps.products}
+ *   redoStep={redoSteps.products}
+ *   onUndo={() => undo('products')}
+ *   onRedo={() => redo('products')}
+ * />
+ * ```
+ */
+const UndoToast: React.FC<UndoToastProps> = ({ undoStep, redoStep, onUndo, onRedo, style }) => {
+  // The toast is dismissed for one pair of steps; a new change brings it back
+  const stepsKey = `${undoStep?.id ?? ''}:${redoStep?.id ?? ''}`;
+  const [dismissedKey, setDismissedKey] = useState<string | null>(null);
+  const visible = (undoStep !== undefined || redoStep !== undefined) && dismissedKey !== stepsKey;
+
+  useEffect(() => {
+    if (!visible) return;
+    const timeout = setTimeout(() => setDismissedKey(stepsKey), APP_CONSTANTS.UNDO_TOAST_DURATION);
+    return () => clearTimeout(timeout);
+  }, [stepsKey, visible]);
+
+  const step = undoStep ?? redoStep;
+  if (!visible || !step) {
+    return null;
+  }
+
+  const label = AUDIT_ACTION_LABELS[step.action];
+  const message = undoStep ? label : `Annullato: ${label}`;
+
+  return (
+    <View style={[styles.container, style]} accessibilityRole="alert">
+      <Text style={styles.message} numberOfLines={1}>{message}</Text>
+      {undoStep && (
+        <Button
+          title="↩️ Annulla"
+          variant="secondary"
+          size="small"
+          onPress={onUndo}
+          accessibilityLabel="Undo"
+        />
+      )}
+      {redoStep && (
+        <Button
+          title="↪️ Ripeti"
+          variant="ghost"
+          size="small"
+          onPress={onRedo}
+          accessibilityLabel="Redo"
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    backgroundColor: COLORS.surface,
+    borderLeftWidth: 4,
+    borderLeftColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.sm,
+    marginHorizontal: SPACING.lg,
+    marginTop: SPACING.md,
+  },
+  message: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textPrimary,
+  },
+});
+
+export default UndoToast;
@@ -0,0 +1,183 @@
+/**
+ * Form section for editing a product's variants (sizes or formats)
+ *
+ * Each variant has a name, its own price and an optional stock count.
+ * Prices and stock are edited as text and only parsed when the product is
+ * saved.
+ *
+ * @module components/VariantsEditor
+ */
+
+import React from 'react';
+import { View, TextInput, StyleSheet, ViewStyle } from 'react-native';
+import Button from './Button';
+import { ProductVariant } from '../types';
+import { formatMoneyInput, parseMoney } from '../utils/money';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, TOUCH_TARGETS } from '../constants/theme';
+
+/**
+ * A variant being edited, with price and stock as typed
+ */
+export interface VariantDraft {
+  id: string;
+  name: string;
+  /** Price in euros as typed */
+  price: string;
+  /** Units left as typed (empty when not tracked) */
+  stock: string;
+}
+
+/**
+ * Turn a product's variants into editable drafts
+ */
+export const toVariantDrafts = (variants?: ProductVariant[]): VariantDraft[] => {
+  return (variants ?? []).map(variant => ({
+    id: variant.id,
+    name: variant.name,
+    price: formatMoneyInput(variant.price),
+    stock: variant.stock === undefined ? '' : String(variant.stock),
+  }));
+};
+
+/**
+ * Validate drafts and turn them back into variants
+ *
+ * @param drafts - Variants as edited in the form
+ * @returns The variants, or an error message (in Italian) to show the user
+ */
+export const parseVariantDrafts = (
+  drafts: VariantDraft[]
+): { variants: ProductVariant[] } | { error: string } => {
+  const variants: ProductVariant[] = [];
+
+  for (const draft of drafts) {
+    const name = draft.name.trim();
+    if (!name) {
+      return { error: 'Inserisci un nome per ogni formato' };
+    }
+    if (variants.some(variant => variant.name.toLowerCase() === name.toLowerCase())) {
+      return { error: `Il formato "${name}" è ripetuto` };
+    }
+
+    const price = parseMoney(draft.price);
+    if (price === null || price <= 0) {
+      return { error: `Inserisci un prezzo valido per "${name}"` };
+    }
+
+    const variant: ProductVariant = { id: draft.id, name, price };
+    if (draft.stock.trim() !== '') {
+      const stock = Number(draft.stock.trim());
+      if (!Number.isInteger(stock) || stock < 0) {
+        return { error: `Inserisci scorte valide per "${name}"` };
+      }
+      variant.stock = stock;
+    }
+    variants.push(variant);
+  }
+
+  return { variants };
+};
+
+/**
+ * VariantsEditor component props
+ */
+export interface VariantsEditorProps {
+  /** Variants being edited */
+  variants: VariantDraft[];
+  /** Called with the updated variants after every edit */
+  onChange: (variants: VariantDraft[]) => void;
+  /** Custom container styles */
+  style?: ViewStyle;
+}
+
+/**
+ * VariantsEditor component
+ *
+ * @example
+ * ```tsx
+ * <VariantsEditor variants={variants} onChange={setVariants} />
+ * ```
+ */
+const VariantsEditor: React.FC<VariantsEditorProps> = ({ variants, onChange, style }) => {
+  const updateVariant = (variantId: string, changes: Partial<VariantDraft>) => {
+    onChange(variants.map(variant => (variant.id === variantId ? { ...variant, ...changes } : variant)));
+  };
+
+  return (
+    <View style={style}>
+      {variants.map((variant, index) => (
+        <View key={variant.id} style={styles.row}>
+          <TextInput
+            style={[styles.input, styles.nameInput]}
+            placeholder="Formato (es. Media)"
+            value={variant.name}
+            onChangeText={text => updateVariant(variant.id, { name: text })}
+            maxLength={30}
+            accessibilityLabel={`Variant ${index + 1} name input`}
+          />
+          <TextInput
+            style={[styles.input, styles.numberInput]}
+            placeholder="€"
+            value={variant.price}
+            onChangeText={text => updateVariant(variant.id, { price: text })}
+            keyboardType="decimal-pad"
+            accessibilityLabel={`Variant ${index + 1} price input`}
+          />
+          <TextInput
+            style={[styles.input, styles.numberInput]}
+            placeholder="Scorte"
+            value={variant.stock}
+            onChangeText={text => updateVariant(variant.id, { stock: text })}
+            keyboardType="number-pad"
+            accessibilityLabel={`Variant ${index + 1} stock input`}
+          />
+          <Button
+            title="✕"
+            variant="ghost"
+            size="small"
+            onPress={() => onChange(variants.filter(v => v.id !== variant.id))}
+            accessibilityLabel={`Remove variant ${index + 1}`}
+          />
+        </View>
+      ))}
+
+      <Button
+        title="+ Formato"
+        variant="secondary"
+        size="medium"
+        onPress={() =>
+          onChange([...variants, { id: `${Date.now()}-${variants.length}`, name: '', price: '', stock: '' }])
+        }
+        fullWidth
+        accessibilityLabel="Add variant"
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: SPACING.sm,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.sm,
+    fontSize: FONT_SIZES.md,
+    marginBottom: SPACING.sm,
+    minHeight: TOUCH_TARGETS.small,
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.surface,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  numberInput: {
+    width: 70,
+  },
+});
+
+export default VariantsEditor;
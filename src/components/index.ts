@@ -3,3 +3,27 @@ export { default as Card } from './Card';
 export { default as Loading } from './Loading';
 export { default as EmptyState } from './EmptyState';
 export { default as ErrorBoundary } from './ErrorBoundary';
+export { default as QuarantineBanner } from './QuarantineBanner';
+export { default as LoadFailedBanner } from './LoadFailedBanner';
+export { default as LowStockBanner } from './LowStockBanner';
+export { default as UndoToast } from './UndoToast';
+export { default as DepositReturns } from './DepositReturns';
+export { default as DiscountModal } from './DiscountModal';
+export { default as ParkOrderModal } from './ParkOrderModal';
+export { default as ParkedOrdersModal } from './ParkedOrdersModal';
+export { default as ProductSelectionSheet } from './ProductSelectionSheet';
+export { default as SplitPaymentModal } from './SplitPaymentModal';
+export {
+  default as ModifierGroupsEditor,
+  toModifierGroupDrafts,
+  parseModifierGroupDrafts,
+} from './ModifierGroupsEditor';
+export type { ModifierGroupDraft } from './ModifierGroupsEditor';
+export { default as VariantsEditor, toVariantDrafts, parseVariantDrafts } from './VariantsEditor';
+export type { VariantDraft } from './VariantsEditor';
+export {
+  default as BundleSlotsEditor,
+  toBundleSlotDrafts,
+  parseBundleSlotDrafts,
+} from './BundleSlotsEditor';
+export type { BundleSlotDraft } from './BundleSlotsEditor';
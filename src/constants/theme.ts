@@ -148,4 +148,14 @@ export const APP_CONSTANTS = {
     maxToRenderPerBatch: 10,
     initialNumToRender: 8,
   },
+  /** Recent sales window used to project when a product runs out */
+  STOCK_RATE_WINDOW_MINUTES: 60,
+  /** Changes kept in each undo history (order being built, product catalog) */
+  UNDO_HISTORY_SIZE: 30,
+  /** Audit entries kept in the live log; beyond it the oldest are rolled over to the archive */
+  AUDIT_LOG_SIZE: 2000,
+  /** Audit entries rolled over to the archive at a time */
+  AUDIT_LOG_ROLLOVER: 500,
+  /** How long the undo toast stays up after a change (ms) */
+  UNDO_TOAST_DURATION: 5000,
 } as const;
@@ -1,7 +1,10 @@
 /**
  * AppContext - Global state management for Party Kiosk
  *
- * Manages products, orders, and current order state with persistent storage.
+ * Manages products, categories, orders, parked orders and current order state with persistent storage.
+ * Every state-changing action is appended to an audit log with the operator and the before/after state.
+ * Changes to the order being built and to the catalog can be undone and redone.
+ * Records that fail validation on load are quarantined rather than discarded.
  * Uses debounced auto-save to AsyncStorage for optimal performance.
  *
  * @module context/AppContext
@@ -9,8 +12,75 @@
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Product, Order, OrderItem } from '../types';
-import { validateProducts, validateOrders } from '../validators/schemas';
+import {
+  Product,
+  Category,
+  Order,
+  OrderItem,
+  CompleteOrderResult,
+  Discount,
+  LineSelection,
+  CurrentOrderSnapshot,
+  ParkedOrder,
+  ArchivedSession,
+  CashDrawer,
+  CashMovement,
+  PaymentMethod,
+  PaymentLeg,
+  PricingRule,
+  Promotion,
+  AppliedPromotion,
+  DepositReturn,
+  RefundLine,
+  OrderRefund,
+  AuditAction,
+  AuditEntry,
+  UndoScope,
+  UndoStep,
+  QuarantinedRecord,
+  ValidationIssue,
+} from '../types';
+import {
+  ProductSchema,
+  CategorySchema,
+  OrderSchema,
+  PaymentMethodSchema,
+  PricingRuleSchema,
+  PromotionSchema,
+  CurrentOrderSchema,
+  ParkedOrderSchema,
+  ArchivedSessionSchema,
+  CashDrawerSchema,
+  AuditEntrySchema,
+  QuarantinedRecordSchema,
+  partitionRecords,
+  toValidationIssues,
+} from '../validators/schemas';
+import { DEFAULT_CATEGORIES, sortCategories } from '../data/categories';
+import {
+  CASH_PAYMENT_METHOD_ID,
+  DEFAULT_PAYMENT_METHODS,
+  TOKENS_PAYMENT_METHOD,
+} from '../data/paymentMethods';
+import {
+  CURRENT_SCHEMA_VERSION,
+  getStoredSchemaVersion,
+  runMigrations,
+  PersistedData,
+} from '../storage/migrations';
+import { Cents } from '../utils/money';
+import { sumPayments, getCashAmount } from '../utils/payments';
+import { calculateOrderTotals } from '../utils/pricing';
+import { getLineKey, reconcileOrderItems, usesProduct } from '../utils/orderItems';
+import { getUnitsInOrder } from '../utils/bundles';
+import { applyStockChange, getAvailableStock, hasStockFor } from '../utils/stock';
+import { applyPricingRules } from '../utils/pricingRules';
+import { applyPromotions } from '../utils/promotions';
+import { changeDepositReturns } from '../utils/deposits';
+import { getOrderTokenPrice } from '../utils/tokens';
+import { getRefundAmount, getRefundableQuantity, getRefundedItems, getVoidLines } from '../utils/refunds';
+import { createOrderEdit } from '../utils/orderEdits';
+import { createCashCount, EMPTY_CASH_DRAWER, getCashDrawerSummary } from '../utils/cashDrawer';
 import { APP_CONSTANTS } from '../constants/theme';
 
 /**
@@ -19,34 +89,199 @@ import { APP_CONSTANTS } from '../constants/theme';
 interface AppContextType {
   /** All products in the catalog */
   products: Product[];
-  /** All completed orders */
+  /** User-defined categories, sorted by display order */
+  categories: Category[];
+  /** Orders completed in the current session */
   orders: Order[];
+  /** Closed events with their orders, newest first */
+  sessions: ArchivedSession[];
   /** Items in the current order being built */
   currentOrder: OrderItem[];
+  /** Discount on the whole current order, if any */
+  currentOrderDiscount?: Discount;
+  /** Promotions the current order qualifies for, worked out again whenever it changes */
+  currentOrderPromotions: AppliedPromotion[];
+  /** Deposits handed back in the current order, grouped by amount */
+  currentOrderDepositReturns: DepositReturn[];
+  /** ID of the completed order being edited in the builder (undefined when building a new order) */
+  editingOrderId?: string;
 
   /** Add a new product to the catalog */
   addProduct: (product: Product) => void;
-  /** Update an existing product by ID */
+  /** Update an existing product by ID (lines of the current order follow the edit) */
   updateProduct: (id: string, product: Product) => void;
-  /** Remove a product from the catalog (doesn't affect completed orders) */
+  /** Remove a product from the catalog and the current order (doesn't affect completed orders) */
   deleteProduct: (id: string) => void;
+  /** Add units to a product's stock (starts tracking stock if it wasn't) */
+  restockProduct: (id: string, quantity: number) => void;
 
-  /** Add a product to the current order (increments quantity if already exists) */
-  addToCurrentOrder: (product: Product) => void;
-  /** Remove one unit of a product from current order (removes item if quantity becomes 0) */
-  removeFromCurrentOrder: (productId: string) => void;
-  /** Clear all items from the current order */
+  /** Add a new category (appended at the end of the display order) */
+  addCategory: (category: Omit<Category, 'order'>) => void;
+  /** Update an existing category by ID */
+  updateCategory: (id: string, category: Category) => void;
+  /**
+   * Remove a category. Products still assigned to it are moved to `reassignTo`,
+   * or left without a category when omitted.
+   */
+  deleteCategory: (id: string, reassignTo?: string) => void;
+  /** Move a category one position up or down in the display order */
+  moveCategory: (id: string, direction: 'up' | 'down') => void;
+
+  /**
+   * Add a product, with the chosen variant, modifiers or bundle components, to the current order
+   * Increments the line with the same choices if it exists; never beyond the stock of the product,
+   * its variant or its bundle components. The order is re-priced with the pricing rules active now,
+   * or when the order was placed if it is a completed order being edited.
+   */
+  addToCurrentOrder: (product: Product, selection?: LineSelection) => void;
+  /** Remove one unit from a line of the current order by line key (removes the line if quantity becomes 0) */
+  removeFromCurrentOrder: (lineKey: string) => void;
+  /** Refund one returned cup or bottle with the given deposit (in cents) in the current order */
+  addDepositReturn: (amount: Cents) => void;
+  /** Take back one deposit refund of the given amount from the current order */
+  removeDepositReturn: (amount: Cents) => void;
+  /** Clear all items (and the order discount and deposit returns) from the current order; cancels an edit */
   clearCurrentOrder: () => void;
+  /** Set or remove (with undefined) the discount on a line of the current order, by line key */
+  setItemDiscount: (lineKey: string, discount?: Discount) => void;
+  /** Set or remove (with undefined) the discount on the whole current order */
+  setOrderDiscount: (discount?: Discount) => void;
 
-  /** Complete the current order and save it to history */
-  completeOrder: (cashPaid?: number) => void;
-  /** Delete a specific order from history */
-  deleteOrder: (orderId: string) => void;
-  /** Reset all orders (keeps products) - cannot be undone */
-  resetSession: () => void;
+  /** Unpaid orders set aside under a customer name or table, oldest first */
+  parkedOrders: ParkedOrder[];
+  /** Set the current order (and its discount) aside under a name and start a new one */
+  parkCurrentOrder: (name: string) => void;
+  /**
+   * Load a parked order into the current order and remove it from the parked list
+   * Lines follow later product edits; lines for deleted products are dropped.
+   * Refused while an order is being edited or the builder holds lines, a discount or deposit returns.
+   */
+  resumeParkedOrder: (id: string) => void;
+  /** Discard a parked order without completing it */
+  deleteParkedOrder: (id: string) => void;
+
+  /** Payment methods in picker order, including disabled ones */
+  paymentMethods: PaymentMethod[];
+  /** Add a new payment method at the end of the list */
+  addPaymentMethod: (method: PaymentMethod) => void;
+  /** Update an existing payment method by ID (cash always stays enabled) */
+  updatePaymentMethod: (id: string, method: PaymentMethod) => void;
+  /** Remove a payment method (the built-in cash method can't be removed) */
+  deletePaymentMethod: (id: string) => void;
+
+  /** Time-based pricing rules (e.g. happy hour), in priority order */
+  pricingRules: PricingRule[];
+  /** Add a pricing rule at the end of the list (lowest priority) */
+  addPricingRule: (rule: PricingRule) => void;
+  /** Update an existing pricing rule by ID (lines already in the order are re-priced on the next add or at checkout) */
+  updatePricingRule: (id: string, rule: PricingRule) => void;
+  /** Remove a pricing rule (completed orders keep the rule's name and price) */
+  deletePricingRule: (id: string) => void;
+
+  /** Multi-buy promotions (e.g. 3x2), in priority order */
+  promotions: Promotion[];
+  /** Add a promotion at the end of the list (lowest priority) */
+  addPromotion: (promotion: Promotion) => void;
+  /** Update an existing promotion by ID */
+  updatePromotion: (id: string, promotion: Promotion) => void;
+  /** Remove a promotion (completed orders keep the promotion's name and savings) */
+  deletePromotion: (id: string) => void;
+
+  /**
+   * Apply the pricing rules active now (or when the edited order was placed) to the order being built,
+   * so the receipt shows the prices checkout will charge
+   */
+  repriceCurrentOrder: () => void;
+  /**
+   * Complete the current order and save it to history
+   * Lines are re-priced with the pricing rules active at checkout, then promotions are applied;
+   * if a price changed, nothing is saved and the new prices are left in the builder to confirm.
+   * An order can just hand back deposits; a negative total is paid out in cash.
+   * Paying with the tokens method records the tokens redeemed (every line needs a token price).
+   * Nothing is saved if the catalog doesn't have stock for every unit (lines, variants and bundle components).
+   * Pass a method ID to pay the whole total with it, or payment legs to split it.
+   * `cashPaid` (in cents) is only recorded when there is a cash leg, to compute change.
+   * Returns the saved order, or why nothing was saved (the builder is left as it was).
+   */
+  completeOrder: (payment: string | PaymentLeg[], cashPaid?: Cents) => CompleteOrderResult;
+  /**
+   * Void a completed order: everything not refunded yet is refunded and put back in stock
+   * The order stays in history with the void and its reason.
+   */
+  voidOrder: (orderId: string, reason: string) => void;
+  /**
+   * Refund some units of a completed order, putting them back in stock
+   * The order stays in history with the refund and its reason.
+   */
+  refundOrder: (orderId: string, lines: RefundLine[], reason: string) => void;
+  /**
+   * Reopen a completed order in the builder to fix it; its units go back in stock until it is saved again
+   * Only works when the builder is empty and the order was never refunded.
+   * Completing the order then replaces it, keeping its ID and timestamp and recording the edit.
+   */
+  editOrder: (orderId: string) => void;
+  /** Stop editing a completed order, leaving it as it was */
+  cancelOrderEdit: () => void;
+  /**
+   * Close the event: archive its orders and cash drawer under a name and start a new, empty session
+   * Pass the pieces counted per denomination (in cents) to store the drawer count, and its
+   * over/short against the expected cash, with the session.
+   * Products, parked orders and the audit log are kept; the order being built is cleared.
+   * Not allowed while a completed order is being edited. Resolves to whether the event was closed.
+   */
+  closeSession: (name: string, count?: { [value: number]: number }) => Promise<boolean>;
+
+  /** Opening float and cash movements of the current session */
+  cashDrawer: CashDrawer;
+  /** Set the cash the drawer opened with, in cents */
+  setOpeningFloat: (amount: Cents) => void;
+  /** Record cash put into ('in') or taken out of ('out') the drawer outside of sales, with a reason */
+  addCashMovement: (type: CashMovement['type'], amount: Cents, reason: string) => void;
+  /** Remove a cash movement recorded by mistake */
+  deleteCashMovement: (id: string) => void;
+
+  /** Persisted records that failed validation on load, awaiting repair */
+  quarantine: QuarantinedRecord[];
+  /**
+   * Validate a (possibly edited) quarantined record and move it back into live data
+   * @returns Remaining validation issues, or an empty array if the record was restored
+   */
+  restoreQuarantinedRecord: (id: string, record: unknown) => ValidationIssue[];
+  /** Permanently discard a quarantined record */
+  deleteQuarantinedRecord: (id: string) => void;
+
+  /** Append-only log of state-changing actions, oldest first (kept when the event is closed) */
+  auditLog: AuditEntry[];
+  /** Oldest audit entries, rolled over from `auditLog` to archive keys once it is full, oldest first */
+  auditArchive: AuditEntry[];
+  /** Name of the operator on the till, signed on every audit entry (empty when not set) */
+  operator: string;
+  /** Set the operator on the till (an empty name stops signing entries) */
+  setOperator: (name: string) => void;
+
+  /** Latest change that undo would revert, per scope (undefined when there is nothing to undo) */
+  undoSteps: Record<UndoScope, UndoStep | undefined>;
+  /** Latest undone change that redo would apply again, per scope (undefined when there is nothing to redo) */
+  redoSteps: Record<UndoScope, UndoStep | undefined>;
+  /**
+   * Revert the latest change to the order being built or to the catalog
+   * Only changes still in effect can be undone: once a product is sold or the
+   * order is completed, earlier changes drop out of reach.
+   */
+  undo: (scope: UndoScope) => void;
+  /** Apply the latest undone change again (until a new change is made) */
+  redo: (scope: UndoScope) => void;
 
   /** True while loading data from AsyncStorage on app start */
   isLoading: boolean;
+  /**
+   * True when saved data could not be fully read on load
+   * Nothing is saved while it is set, so what is on the device isn't overwritten
+   * with the partial data in memory.
+   */
+  loadFailed: boolean;
+  /** Read saved data again after a failed load, replacing what is in memory */
+  reloadData: () => Promise<void>;
   /** Error message if storage operations fail */
   error: string | null;
 }
@@ -59,9 +294,144 @@ const AppContext = createContext<AppContextType | undefined>(undefined);
  */
 const STORAGE_KEYS = {
   PRODUCTS: '@party_kiosk_products',
+  CATEGORIES: '@party_kiosk_categories',
   ORDERS: '@party_kiosk_orders',
+  SCHEMA_VERSION: '@party_kiosk_schema_version',
+  QUARANTINE: '@party_kiosk_quarantine',
+  PAYMENT_METHODS: '@party_kiosk_payment_methods',
+  PARKED_ORDERS: '@party_kiosk_parked_orders',
+  CURRENT_ORDER: '@party_kiosk_current_order',
+  PRICING_RULES: '@party_kiosk_pricing_rules',
+  PROMOTIONS: '@party_kiosk_promotions',
+  AUDIT_LOG: '@party_kiosk_audit_log',
+  /** Prefix of the keys the oldest audit entries are rolled over to, one write per batch */
+  AUDIT_LOG_ARCHIVE: '@party_kiosk_audit_log_archive_',
+  OPERATOR: '@party_kiosk_operator',
+  /** Prefix of the keys archived sessions are stored under, one key per session written at close */
+  SESSION: '@party_kiosk_session_',
+  CASH_DRAWER: '@party_kiosk_cash_drawer',
 } as const;
 
+/**
+ * The order being built, as one undoable state
+ */
+interface OrderState {
+  items: OrderItem[];
+  discount?: Discount;
+  depositReturns: DepositReturn[];
+}
+
+/**
+ * A change to record in an undo history, with the state before and after it
+ * Product changes keep the product's position so a deleted product comes back in place.
+ */
+type UndoChange = { action: AuditAction } & (
+  | { scope: 'currentOrder'; before: OrderState; after: OrderState }
+  | { scope: 'products'; productId: string; index: number; before?: Product; after?: Product }
+);
+
+/**
+ * A recorded change, identified for the undo toast
+ * Its id is also the state it leaves behind; `beforeStateId` is the state it was made in.
+ */
+type UndoEntry = UndoChange & { id: string; beforeStateId: string };
+
+/**
+ * Undoable changes (oldest first) and undone ones (most recently undone last), per scope,
+ * with the id of the state the scope is in: a recorded change's id, or a fresh id after
+ * any change made outside the history
+ */
+type UndoHistory = Record<UndoScope, { past: UndoEntry[]; future: UndoEntry[]; stateId: string }>;
+
+const EMPTY_UNDO_HISTORY: UndoHistory = {
+  currentOrder: { past: [], future: [], stateId: 'initial' },
+  products: { past: [], future: [], stateId: 'initial' },
+};
+
+/**
+ * Turn a stored record's ISO timestamp back into a Date before validation
+ */
+const reviveTimestamp = (record: unknown): unknown => {
+  if (typeof record === 'object' && record !== null && 'timestamp' in record) {
+    return { ...record, timestamp: new Date((record as { timestamp: string }).timestamp) };
+  }
+  return record;
+};
+
+/**
+ * Turn a stored order's ISO timestamps (its own, its refunds' and its edits') back into Dates before validation
+ */
+const reviveOrder = (order: unknown): unknown => {
+  if (typeof order === 'object' && order !== null && 'timestamp' in order) {
+    const { refunds, edits } = order as { refunds?: unknown; edits?: unknown };
+    const revived = reviveTimestamp(order) as object;
+    return {
+      ...revived,
+      ...(Array.isArray(refunds) && { refunds: refunds.map(reviveTimestamp) }),
+      ...(Array.isArray(edits) && { edits: edits.map(reviveTimestamp) }),
+    };
+  }
+  return order;
+};
+
+/**
+ * Turn a stored parked order's ISO date back into a Date before validation
+ */
+const reviveParkedOrder = (parkedOrder: unknown): unknown => {
+  if (typeof parkedOrder === 'object' && parkedOrder !== null && 'parkedAt' in parkedOrder) {
+    return { ...parkedOrder, parkedAt: new Date((parkedOrder as { parkedAt: string }).parkedAt) };
+  }
+  return parkedOrder;
+};
+
+/**
+ * Turn a stored cash drawer's movement timestamps back into Dates before validation
+ */
+const reviveCashDrawer = (drawer: unknown): unknown => {
+  if (typeof drawer === 'object' && drawer !== null && 'movements' in drawer) {
+    const { movements } = drawer as { movements: unknown };
+    return Array.isArray(movements) ? { ...drawer, movements: movements.map(reviveTimestamp) } : drawer;
+  }
+  return drawer;
+};
+
+/**
+ * Turn a stored archived session's ISO dates, and its orders' and cash drawer's, back into Dates before validation
+ */
+const reviveSession = (session: unknown): unknown => {
+  if (typeof session === 'object' && session !== null && 'closedAt' in session) {
+    const { openedAt, closedAt, orders, cashDrawer } = session as {
+      openedAt: string;
+      closedAt: string;
+      orders?: unknown;
+      cashDrawer?: unknown;
+    };
+    return {
+      ...session,
+      openedAt: new Date(openedAt),
+      closedAt: new Date(closedAt),
+      ...(Array.isArray(orders) && { orders: orders.map(reviveOrder) }),
+      ...(cashDrawer !== undefined && { cashDrawer: reviveCashDrawer(cashDrawer) }),
+    };
+  }
+  return session;
+};
+
+/**
+ * Refresh order lines from the catalog, except the lines of a completed order being edited,
+ * which keep the product as it was sold so catalog changes don't rewrite a past sale
+ *
+ * @param items - Lines of the order being built
+ * @param products - Current product catalog
+ * @param editedOrder - Completed order being edited, if any
+ */
+const reconcileBuilderItems = (items: OrderItem[], products: Product[], editedOrder?: Order): OrderItem[] => {
+  const soldLineKeys = new Set(editedOrder?.items.map(getLineKey));
+  return items.flatMap(item =>
+    soldLineKeys.has(getLineKey(item)) ? [item] : reconcileOrderItems([item], products).items
+  );
+};
+
 /**
  * AppProvider - Context provider component
  *
@@ -81,264 +451,1606 @@ const STORAGE_KEYS = {
  */
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>(DEFAULT_CATEGORIES);
   const [orders, setOrders] = useState<Order[]>([]);
+  const [sessions, setSessions] = useState<ArchivedSession[]>([]);
+  const [cashDrawer, setCashDrawer] = useState<CashDrawer>(EMPTY_CASH_DRAWER);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>(DEFAULT_PAYMENT_METHODS);
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
   const [currentOrder, setCurrentOrder] = useState<OrderItem[]>([]);
+  const [currentOrderDiscount, setCurrentOrderDiscount] = useState<Discount | undefined>();
+  const [currentOrderDepositReturns, setCurrentOrderDepositReturns] = useState<DepositReturn[]>([]);
+  const [editingOrderId, setEditingOrderId] = useState<string | undefined>();
+  const [parkedOrders, setParkedOrders] = useState<ParkedOrder[]>([]);
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [auditArchive, setAuditArchive] = useState<AuditEntry[]>([]);
+  const [operator, setOperatorName] = useState('');
+  const [undoHistory, setUndoHistory] = useState<UndoHistory>(EMPTY_UNDO_HISTORY);
   const [isLoading, setIsLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Refs for debounced save timeouts (cleaned up on unmount)
-  const productsTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const ordersTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Debounced save timeouts per storage key (cleaned up on unmount)
+  const saveTimeoutsRef = useRef<{ [key: string]: NodeJS.Timeout }>({});
+  // Tells apart undo steps recorded in the same millisecond
+  const undoCounterRef = useRef(0);
+  // The order being built as left by the latest action, ahead of the next render,
+  // so actions fired together (two quick taps) build on each other
+  const orderStateRef = useRef<OrderState>({
+    items: currentOrder,
+    discount: currentOrderDiscount,
+    depositReturns: currentOrderDepositReturns,
+  });
+  // Creation time of the latest new order; orders completed in the same millisecond get the next one
+  const lastOrderTimeRef = useRef(0);
+  // Set while the oldest audit entries are being written to the archive
+  const auditRolloverRef = useRef(false);
+
+  /**
+   * Mark the order being built or the catalog as changed outside its undo history
+   * The scope moves to a state no recorded change leads to, so earlier changes can't be undone or redone over it.
+   */
+  const breakUndoChain = useCallback((scope: UndoScope) => {
+    const stateId = `${Date.now()}-${undoCounterRef.current++}`;
+    setUndoHistory(prev => ({ ...prev, [scope]: { ...prev[scope], stateId } }));
+  }, []);
+
+  /**
+   * Replace parts of the order being built, keeping `orderStateRef` in step
+   */
+  const writeOrderState = useCallback((next: Partial<OrderState>) => {
+    orderStateRef.current = { ...orderStateRef.current, ...next };
+    if (next.items) setCurrentOrder(next.items);
+    if ('discount' in next) setCurrentOrderDiscount(next.discount);
+    if (next.depositReturns) setCurrentOrderDepositReturns(next.depositReturns);
+  }, []);
+
+  /**
+   * Replace parts of the order being built outside its undo history (a sale, a resumed order)
+   */
+  const setOrderState = useCallback((next: Partial<OrderState>) => {
+    writeOrderState(next);
+    breakUndoChain('currentOrder');
+  }, [writeOrderState, breakUndoChain]);
 
   /**
-   * Load products and orders from AsyncStorage on app start
-   * Validates data with Zod schemas before setting state
+   * Load products, categories, orders, payment methods, pricing rules,
+   * promotions, parked orders, the in-progress order, the audit log, the operator, archived sessions and the cash drawer from AsyncStorage on app start
+   * Upgrades data saved by older versions through the migration pipeline,
+   * then validates each record with Zod schemas before setting state.
+   * The in-progress order is reconciled with the loaded products.
+   * Invalid records (and unparseable payloads) are written to the quarantine
+   * key before anything else is saved, so nothing is lost.
+   * Each key is read on its own: if any read or write fails, whatever could be
+   * read is shown but `loadFailed` stops all saves until a reload succeeds.
    */
   const loadData = useCallback(async () => {
+    setIsLoading(true);
     try {
-      const [productsData, ordersData] = await Promise.all([
-        AsyncStorage.getItem(STORAGE_KEYS.PRODUCTS),
-        AsyncStorage.getItem(STORAGE_KEYS.ORDERS),
-      ]);
+      const loadedKeys = [
+        STORAGE_KEYS.PRODUCTS,
+        STORAGE_KEYS.CATEGORIES,
+        STORAGE_KEYS.ORDERS,
+        STORAGE_KEYS.SCHEMA_VERSION,
+        STORAGE_KEYS.QUARANTINE,
+        STORAGE_KEYS.PAYMENT_METHODS,
+        STORAGE_KEYS.PARKED_ORDERS,
+        STORAGE_KEYS.CURRENT_ORDER,
+        STORAGE_KEYS.PRICING_RULES,
+        STORAGE_KEYS.PROMOTIONS,
+        STORAGE_KEYS.AUDIT_LOG,
+        STORAGE_KEYS.OPERATOR,
+        STORAGE_KEYS.CASH_DRAWER,
+      ];
+      const reads = await Promise.allSettled(loadedKeys.map(key => AsyncStorage.getItem(key)));
+      const unreadableKeys: string[] = loadedKeys.filter((key, index) => {
+        const read = reads[index];
+        if (read.status === 'fulfilled') return false;
+        console.error(`Error reading ${key}:`, read.reason);
+        return true;
+      });
+      // Without the version, stored data can't be told apart from data needing migration
+      if (unreadableKeys.includes(STORAGE_KEYS.SCHEMA_VERSION)) {
+        throw new Error('Could not read the schema version');
+      }
 
-      if (productsData) {
-        const parsedProducts = JSON.parse(productsData);
-        const validationResult = validateProducts(parsedProducts);
+      const [
+        productsData,
+        categoriesData,
+        ordersData,
+        versionData,
+        quarantineData,
+        paymentMethodsData,
+        parkedOrdersData,
+        currentOrderData,
+        pricingRulesData,
+        promotionsData,
+        auditLogData,
+        operatorData,
+        cashDrawerData,
+      ] = reads.map(read => (read.status === 'fulfilled' ? read.value : null));
 
-        if (validationResult.success) {
-          setProducts(validationResult.data);
+      // Archived sessions and rolled-over audit entries are written once, each under its own key
+      let keyedData: readonly (readonly [string, string | null])[] = [];
+      try {
+        const keyedKeys = (await AsyncStorage.getAllKeys()).filter(
+          key => key.startsWith(STORAGE_KEYS.SESSION) || key.startsWith(STORAGE_KEYS.AUDIT_LOG_ARCHIVE)
+        );
+        keyedData = keyedKeys.length > 0 ? await AsyncStorage.multiGet(keyedKeys) : [];
+      } catch (error) {
+        console.error('Error reading archived sessions and audit entries:', error);
+        unreadableKeys.push(STORAGE_KEYS.SESSION);
+      }
+      // Writing back with a key missing would bump the version over its unmigrated data
+      // or overwrite the stored quarantine, so nothing is written until every key reads
+      const canWrite = unreadableKeys.length === 0;
+
+      const quarantinedAt = new Date().toISOString();
+      const newlyQuarantined: QuarantinedRecord[] = [];
+      const quarantineRecords = (
+        kind: QuarantinedRecord['kind'],
+        rejected: { record: unknown; issues: ValidationIssue[] }[]
+      ) => {
+        rejected.forEach(({ record, issues }) => {
+          newlyQuarantined.push({
+            id: `${kind}-${Date.now()}-${newlyQuarantined.length}`,
+            kind,
+            record,
+            issues,
+            quarantinedAt,
+          });
+        });
+      };
+
+      const parseStored = (raw: string | null, kind: QuarantinedRecord['kind']): unknown => {
+        if (raw === null) return null;
+        try {
+          return JSON.parse(raw);
+        } catch {
+          quarantineRecords(kind, [{ record: raw, issues: [{ path: '', message: 'Invalid JSON' }] }]);
+          return null;
+        }
+      };
+
+      // Keys of the stored sessions, in step with `data.sessions`, and of sessions moved to the quarantine
+      const sessionKeys: string[] = [];
+      const quarantinedSessionKeys: string[] = [];
+      const storedSessions: unknown[] = [];
+      keyedData.forEach(([key, raw]) => {
+        if (!key.startsWith(STORAGE_KEYS.SESSION) || raw === null) return;
+        const session = parseStored(raw, 'session');
+        if (session === null) {
+          quarantinedSessionKeys.push(key);
+          return;
+        }
+        sessionKeys.push(key);
+        storedSessions.push(session);
+      });
+
+      let data: PersistedData = {
+        products: parseStored(productsData, 'product'),
+        categories: parseStored(categoriesData, 'category'),
+        orders: parseStored(ordersData, 'order'),
+        sessions: storedSessions.length > 0 ? storedSessions : null,
+      };
+
+      const storedVersion = getStoredSchemaVersion(versionData);
+
+      // Also runs when the version was only inferred (fresh install) so it gets persisted
+      if (storedVersion < CURRENT_SCHEMA_VERSION || versionData === null) {
+        const migrated = runMigrations(data, storedVersion);
+        data = migrated.data;
+
+        // Write upgraded data together with the new version so a crash can't migrate twice
+        const entries: [string, string][] = [
+          [STORAGE_KEYS.SCHEMA_VERSION, migrated.version.toString()],
+        ];
+        if (data.products !== null) entries.push([STORAGE_KEYS.PRODUCTS, JSON.stringify(data.products)]);
+        if (data.categories !== null) entries.push([STORAGE_KEYS.CATEGORIES, JSON.stringify(data.categories)]);
+        if (data.orders !== null) entries.push([STORAGE_KEYS.ORDERS, JSON.stringify(data.orders)]);
+        if (Array.isArray(data.sessions)) {
+          data.sessions.forEach((session, index) => entries.push([sessionKeys[index], JSON.stringify(session)]));
+        }
+        if (canWrite) await AsyncStorage.multiSet(entries);
+      }
+
+      let loadedProducts: Product[] = [];
+      let loadedOrders: Order[] = [];
+      if (data.products !== null) {
+        const { valid, rejected } = partitionRecords(ProductSchema, data.products);
+        loadedProducts = valid;
+        setProducts(valid);
+        quarantineRecords('product', rejected);
+      }
+
+      if (data.categories !== null) {
+        const { valid, rejected } = partitionRecords(CategorySchema, data.categories);
+        setCategories(sortCategories(valid));
+        quarantineRecords('category', rejected);
+      }
+
+      if (data.orders !== null) {
+        const ordersWithDates = Array.isArray(data.orders) ? data.orders.map(reviveOrder) : data.orders;
+        const { valid, rejected } = partitionRecords(OrderSchema, ordersWithDates);
+        loadedOrders = valid;
+        setOrders(valid);
+        quarantineRecords('order', rejected);
+      }
+
+      const storedPaymentMethods = parseStored(paymentMethodsData, 'paymentMethod');
+      if (storedPaymentMethods !== null) {
+        const { valid, rejected } = partitionRecords(PaymentMethodSchema, storedPaymentMethods);
+        // Cash drives the change calculation, so it must always be available
+        const hasCash = valid.some(method => method.id === CASH_PAYMENT_METHOD_ID);
+        setPaymentMethods(hasCash ? valid : [DEFAULT_PAYMENT_METHODS[0], ...valid]);
+        quarantineRecords('paymentMethod', rejected);
+      }
+
+      const storedPricingRules = parseStored(pricingRulesData, 'pricingRule');
+      if (storedPricingRules !== null) {
+        const { valid, rejected } = partitionRecords(PricingRuleSchema, storedPricingRules);
+        setPricingRules(valid);
+        quarantineRecords('pricingRule', rejected);
+      }
+
+      const storedPromotions = parseStored(promotionsData, 'promotion');
+      if (storedPromotions !== null) {
+        const { valid, rejected } = partitionRecords(PromotionSchema, storedPromotions);
+        setPromotions(valid);
+        quarantineRecords('promotion', rejected);
+      }
+
+      const storedParkedOrders = parseStored(parkedOrdersData, 'parkedOrder');
+      if (storedParkedOrders !== null) {
+        const parkedWithDates = Array.isArray(storedParkedOrders)
+          ? storedParkedOrders.map(reviveParkedOrder)
+          : storedParkedOrders;
+        const { valid, rejected } = partitionRecords(ParkedOrderSchema, parkedWithDates);
+        setParkedOrders(valid);
+        quarantineRecords('parkedOrder', rejected);
+      }
+
+      const storedCurrentOrder = parseStored(currentOrderData, 'currentOrder');
+      if (storedCurrentOrder !== null) {
+        const result = CurrentOrderSchema.safeParse(storedCurrentOrder);
+        if (result.success) {
+          const editedOrder = loadedOrders.find(order => order.id === result.data.editingOrderId);
+          setOrderState({
+            items: reconcileBuilderItems(result.data.items, loadedProducts, editedOrder),
+            discount: result.data.discount,
+            depositReturns: result.data.depositReturns ?? [],
+          });
+          setEditingOrderId(result.data.editingOrderId);
         } else {
-          console.error('Invalid products data:', validationResult.errors);
-          setProducts([]);
+          quarantineRecords('currentOrder', [
+            { record: storedCurrentOrder, issues: toValidationIssues(result.error.issues) },
+          ]);
         }
       }
 
-      if (ordersData) {
-        const parsedOrders = JSON.parse(ordersData);
-        const ordersWithDates = parsedOrders.map((order: Order) => ({
-          ...order,
-          timestamp: new Date(order.timestamp),
-        }));
+      const storedAuditLog = parseStored(auditLogData, 'auditEntry');
+      if (storedAuditLog !== null) {
+        const entriesWithDates = Array.isArray(storedAuditLog)
+          ? storedAuditLog.map(reviveTimestamp)
+          : storedAuditLog;
+        const { valid, rejected } = partitionRecords(AuditEntrySchema, entriesWithDates);
+        setAuditLog(valid);
+        quarantineRecords('auditEntry', rejected);
+      }
+
+      // Archive keys are never saved over, so invalid entries are only logged
+      const archived = keyedData.flatMap(([key, raw]) => {
+        if (!key.startsWith(STORAGE_KEYS.AUDIT_LOG_ARCHIVE) || raw === null) return [];
+        try {
+          const entries: unknown = JSON.parse(raw);
+          const { valid, rejected } = partitionRecords(
+            AuditEntrySchema,
+            Array.isArray(entries) ? entries.map(reviveTimestamp) : entries
+          );
+          if (rejected.length > 0) console.error(`Invalid audit entries in ${key}:`, rejected);
+          return valid;
+        } catch (error) {
+          console.error(`Invalid audit log archive ${key}:`, error);
+          return [];
+        }
+      });
+      setAuditArchive(archived.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()));
+
+      if (operatorData !== null) {
+        try {
+          const storedOperator: unknown = JSON.parse(operatorData);
+          if (typeof storedOperator === 'string') setOperatorName(storedOperator);
+        } catch (error) {
+          console.error('Invalid operator data:', error);
+        }
+      }
 
-        const validationResult = validateOrders(ordersWithDates);
+      if (Array.isArray(data.sessions)) {
+        const valid: ArchivedSession[] = [];
+        data.sessions.forEach((session, index) => {
+          const revived = reviveSession(session);
+          const result = ArchivedSessionSchema.safeParse(revived);
+          if (result.success) {
+            valid.push(result.data);
+          } else {
+            quarantineRecords('session', [{ record: revived, issues: toValidationIssues(result.error.issues) }]);
+            quarantinedSessionKeys.push(sessionKeys[index]);
+          }
+        });
+        setSessions(valid.sort((a, b) => b.closedAt.getTime() - a.closedAt.getTime()));
+      }
 
-        if (validationResult.success) {
-          setOrders(validationResult.data);
+      const storedCashDrawer = parseStored(cashDrawerData, 'cashDrawer');
+      if (storedCashDrawer !== null) {
+        const result = CashDrawerSchema.safeParse(reviveCashDrawer(storedCashDrawer));
+        if (result.success) {
+          setCashDrawer(result.data);
         } else {
-          console.error('Invalid orders data:', validationResult.errors);
-          setOrders([]);
+          quarantineRecords('cashDrawer', [
+            { record: storedCashDrawer, issues: toValidationIssues(result.error.issues) },
+          ]);
+        }
+      }
+
+      let storedQuarantine: QuarantinedRecord[] = [];
+      try {
+        storedQuarantine = partitionRecords(
+          QuarantinedRecordSchema,
+          quarantineData ? JSON.parse(quarantineData) : []
+        ).valid;
+      } catch (error) {
+        console.error('Invalid quarantine data:', error);
+      }
+
+      setQuarantine([...storedQuarantine, ...newlyQuarantined]);
+      if (newlyQuarantined.length > 0) {
+        console.error(`Quarantined ${newlyQuarantined.length} invalid records:`, newlyQuarantined);
+      }
+      if (newlyQuarantined.length > 0 && canWrite) {
+        await AsyncStorage.setItem(
+          STORAGE_KEYS.QUARANTINE,
+          JSON.stringify([...storedQuarantine, ...newlyQuarantined])
+        );
+        // Session keys aren't saved over, so quarantined ones are removed once the quarantine is written
+        if (quarantinedSessionKeys.length > 0) {
+          await AsyncStorage.multiRemove(quarantinedSessionKeys);
         }
       }
+
+      setLoadFailed(!canWrite);
+      setError(canWrite ? null : 'Failed to load saved data');
     } catch (error) {
       console.error('Error loading data:', error);
+      setLoadFailed(true);
+      setError('Failed to load saved data');
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [setOrderState]);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
+  // Saves wait for the load, and stop after a failed one so partial data can't overwrite storage
+  const canSave = !isLoading && !loadFailed;
+
   /**
-   * Save products to AsyncStorage with debouncing
-   * Prevents excessive writes during rapid updates (500ms delay)
+   * Save a value to AsyncStorage with debouncing
+   * Prevents excessive writes during rapid updates (500ms delay per key)
+   *
+   * @param key - Storage key to write
+   * @param value - Value to serialize as JSON
+   * @param label - Human-readable name used in error messages
    */
-  const debouncedSaveProducts = useCallback((productsToSave: Product[]) => {
-    if (productsTimeoutRef.current) {
-      clearTimeout(productsTimeoutRef.current);
+  const debouncedSave = useCallback((key: string, value: unknown, label: string) => {
+    if (saveTimeoutsRef.current[key]) {
+      clearTimeout(saveTimeoutsRef.current[key]);
     }
 
-    productsTimeoutRef.current = setTimeout(async () => {
+    saveTimeoutsRef.current[key] = setTimeout(async () => {
       try {
-        await AsyncStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(productsToSave));
+        await AsyncStorage.setItem(key, JSON.stringify(value));
       } catch (error) {
-        console.error('Error saving products:', error);
-        setError('Failed to save products');
+        console.error(`Error saving ${label}:`, error);
+        setError(`Failed to save ${label}`);
       }
     }, APP_CONSTANTS.DEBOUNCE_DELAY);
   }, []);
 
-  /**
-   * Save orders to AsyncStorage with debouncing
-   * Prevents excessive writes during rapid updates (500ms delay)
-   */
-  const debouncedSaveOrders = useCallback((ordersToSave: Order[]) => {
-    if (ordersTimeoutRef.current) {
-      clearTimeout(ordersTimeoutRef.current);
+  useEffect(() => {
+    if (canSave) {
+      debouncedSave(STORAGE_KEYS.PRODUCTS, products, 'products');
     }
+  }, [products, canSave, debouncedSave]);
 
-    ordersTimeoutRef.current = setTimeout(async () => {
-      try {
-        await AsyncStorage.setItem(STORAGE_KEYS.ORDERS, JSON.stringify(ordersToSave));
-      } catch (error) {
-        console.error('Error saving orders:', error);
-        setError('Failed to save orders');
-      }
-    }, APP_CONSTANTS.DEBOUNCE_DELAY);
-  }, []);
+  useEffect(() => {
+    if (canSave) {
+      debouncedSave(STORAGE_KEYS.CATEGORIES, categories, 'categories');
+    }
+  }, [categories, canSave, debouncedSave]);
 
   useEffect(() => {
-    if (!isLoading) {
-      debouncedSaveProducts(products);
+    if (canSave) {
+      debouncedSave(STORAGE_KEYS.ORDERS, orders, 'orders');
     }
-  }, [products, isLoading, debouncedSaveProducts]);
+  }, [orders, canSave, debouncedSave]);
 
   useEffect(() => {
-    if (!isLoading) {
-      debouncedSaveOrders(orders);
+    if (canSave) {
+      debouncedSave(STORAGE_KEYS.CASH_DRAWER, cashDrawer, 'cash drawer');
     }
-  }, [orders, isLoading, debouncedSaveOrders]);
+  }, [cashDrawer, canSave, debouncedSave]);
 
   useEffect(() => {
-    return () => {
-      if (productsTimeoutRef.current) {
-        clearTimeout(productsTimeoutRef.current);
+    if (canSave) {
+      debouncedSave(STORAGE_KEYS.PAYMENT_METHODS, paymentMethods, 'payment methods');
+    }
+  }, [paymentMethods, canSave, debouncedSave]);
+
+  useEffect(() => {
+    if (canSave) {
+      debouncedSave(STORAGE_KEYS.PRICING_RULES, pricingRules, 'pricing rules');
+    }
+  }, [pricingRules, canSave, debouncedSave]);
+
+  useEffect(() => {
+    if (canSave) {
+      debouncedSave(STORAGE_KEYS.PROMOTIONS, promotions, 'promotions');
+    }
+  }, [promotions, canSave, debouncedSave]);
+
+  useEffect(() => {
+    if (canSave) {
+      debouncedSave(STORAGE_KEYS.PARKED_ORDERS, parkedOrders, 'parked orders');
+    }
+  }, [parkedOrders, canSave, debouncedSave]);
+
+  useEffect(() => {
+    if (canSave) {
+      const snapshot: CurrentOrderSnapshot = { items: currentOrder, discount: currentOrderDiscount };
+      if (currentOrderDepositReturns.length > 0) {
+        snapshot.depositReturns = currentOrderDepositReturns;
       }
-      if (ordersTimeoutRef.current) {
-        clearTimeout(ordersTimeoutRef.current);
+      if (editingOrderId) {
+        snapshot.editingOrderId = editingOrderId;
       }
+      debouncedSave(STORAGE_KEYS.CURRENT_ORDER, snapshot, 'current order');
+    }
+  }, [currentOrder, currentOrderDiscount, currentOrderDepositReturns, editingOrderId, canSave, debouncedSave]);
+
+  useEffect(() => {
+    if (canSave) {
+      debouncedSave(STORAGE_KEYS.QUARANTINE, quarantine, 'quarantine');
+    }
+  }, [quarantine, canSave, debouncedSave]);
+
+  useEffect(() => {
+    if (canSave) {
+      debouncedSave(STORAGE_KEYS.AUDIT_LOG, auditLog, 'audit log');
+    }
+  }, [auditLog, canSave, debouncedSave]);
+
+  // Once the live log is full, its oldest entries are written once to their own archive key
+  // and dropped from the live log, so each save rewrites a bounded log
+  useEffect(() => {
+    if (!canSave || auditRolloverRef.current || auditLog.length <= APP_CONSTANTS.AUDIT_LOG_SIZE) return;
+
+    const overflow = auditLog.length - APP_CONSTANTS.AUDIT_LOG_SIZE;
+    const rolled = auditLog.slice(0, overflow + APP_CONSTANTS.AUDIT_LOG_ROLLOVER);
+    auditRolloverRef.current = true;
+    AsyncStorage.setItem(`${STORAGE_KEYS.AUDIT_LOG_ARCHIVE}${rolled[0].id}`, JSON.stringify(rolled))
+      .then(() => {
+        const rolledIds = new Set(rolled.map(entry => entry.id));
+        setAuditArchive(prev => [...prev, ...rolled]);
+        setAuditLog(prev => prev.filter(entry => !rolledIds.has(entry.id)));
+      })
+      .catch(error => {
+        console.error('Error archiving audit log:', error);
+        setError('Failed to save audit log');
+      })
+      .finally(() => {
+        auditRolloverRef.current = false;
+      });
+  }, [auditLog, canSave]);
+
+  useEffect(() => {
+    if (canSave) {
+      debouncedSave(STORAGE_KEYS.OPERATOR, operator, 'operator');
+    }
+  }, [operator, canSave, debouncedSave]);
+
+  useEffect(() => {
+    const timeouts = saveTimeoutsRef.current;
+    return () => {
+      Object.values(timeouts).forEach(clearTimeout);
     };
   }, []);
 
+  /**
+   * Append an entry to the audit log, signed by the operator on the till
+   *
+   * @param action - Action taken
+   * @param details - Record acted on and its state before and after the action
+   */
+  const recordAudit = useCallback((
+    action: AuditAction,
+    details: Pick<AuditEntry, 'targetId' | 'before' | 'after'> = {}
+  ) => {
+    const timestamp = new Date();
+    setAuditLog(prev => {
+      const entry: AuditEntry = { id: `${timestamp.getTime()}-${prev.length}`, timestamp, action, ...details };
+      if (operator) {
+        entry.actor = operator;
+      }
+      return [...prev, entry];
+    });
+  }, [operator]);
+
+  const setOperator = useCallback((name: string) => {
+    const trimmed = name.trim();
+    if (trimmed === operator) return;
+    recordAudit('setOperator', { before: operator || undefined, after: trimmed || undefined });
+    setOperatorName(trimmed);
+  }, [operator, recordAudit]);
+
+  /**
+   * Add a change to an undo history, dropping the oldest beyond the history size
+   * A new change can't be redone over, so the undone changes are discarded.
+   */
+  const pushUndo = useCallback((change: UndoChange) => {
+    const id = `${Date.now()}-${undoCounterRef.current++}`;
+    setUndoHistory(prev => {
+      const { past, stateId } = prev[change.scope];
+      return {
+        ...prev,
+        [change.scope]: {
+          past: [...past, { ...change, id, beforeStateId: stateId }].slice(-APP_CONSTANTS.UNDO_HISTORY_SIZE),
+          future: [],
+          stateId: id,
+        },
+      };
+    });
+  }, []);
+
+  /**
+   * Change the order being built and record the change in its undo history
+   * Parts not given stay as they are.
+   */
+  const changeCurrentOrder = useCallback((action: AuditAction, next: Partial<OrderState>) => {
+    const before = orderStateRef.current;
+    pushUndo({ action, scope: 'currentOrder', before, after: { ...before, ...next } });
+    writeOrderState(next);
+  }, [pushUndo, writeOrderState]);
+
+  /**
+   * Record a change to a product in the catalog (before is missing for a new product, after for a deleted one)
+   */
+  const recordProductChange = useCallback((
+    action: AuditAction,
+    productId: string,
+    before?: Product,
+    after?: Product
+  ) => {
+    const index = before ? products.indexOf(before) : products.length;
+    pushUndo({ action, scope: 'products', productId, index, before, after });
+  }, [products, pushUndo]);
+
   const addProduct = useCallback((product: Product) => {
     setProducts(prev => [...prev, product]);
-  }, []);
+    recordAudit('addProduct', { targetId: product.id, after: product });
+    recordProductChange('addProduct', product.id, undefined, product);
+  }, [recordAudit, recordProductChange]);
 
-  const updateProduct = useCallback((id: string, updatedProduct: Product) => {
+  /**
+   * Replace a product in the catalog, without an audit entry
+   * Lines of the order being built follow the change, except those of a completed order being edited.
+   */
+  const replaceProduct = useCallback((id: string, updatedProduct: Product) => {
     setProducts(prev => prev.map(p => (p.id === id ? updatedProduct : p)));
-  }, []);
+    // Lines for a variant or bundle slot that no longer exists are dropped
+    const items = orderStateRef.current.items;
+    const catalog = [...products.filter(p => p.id !== id), updatedProduct];
+    const editedOrder = orders.find(o => o.id === editingOrderId);
+    const next = items.flatMap(item =>
+      usesProduct(item, id) ? reconcileBuilderItems([item], catalog, editedOrder) : [item]
+    );
+    if (next.length === items.length && next.every((item, index) => item === items[index])) return;
+    setOrderState({ items: next });
+  }, [products, orders, editingOrderId, setOrderState]);
 
-  const deleteProduct = useCallback((id: string) => {
+  const updateProduct = useCallback((id: string, updatedProduct: Product) => {
+    const product = products.find(p => p.id === id);
+    recordAudit('updateProduct', { targetId: id, before: product, after: updatedProduct });
+    if (product) {
+      recordProductChange('updateProduct', id, product, updatedProduct);
+    }
+    replaceProduct(id, updatedProduct);
+  }, [products, replaceProduct, recordAudit, recordProductChange]);
+
+  /**
+   * Remove a product from the catalog and the current order, without an audit entry
+   * Lines of a completed order being edited stay, as they were sold.
+   */
+  const removeProduct = useCallback((id: string) => {
     setProducts(prev => prev.filter(p => p.id !== id));
-  }, []);
+    const soldLineKeys = new Set(orders.find(o => o.id === editingOrderId)?.items.map(getLineKey));
+    const removed = (item: OrderItem) => usesProduct(item, id) && !soldLineKeys.has(getLineKey(item));
+    if (!orderStateRef.current.items.some(removed)) return;
+    setOrderState({ items: orderStateRef.current.items.filter(item => !removed(item)) });
+  }, [orders, editingOrderId, setOrderState]);
+
+  const deleteProduct = useCallback((id: string) => {
+    const product = products.find(p => p.id === id);
+    removeProduct(id);
+    recordAudit('deleteProduct', { targetId: id, before: product });
+    if (product) {
+      recordProductChange('deleteProduct', id, product, undefined);
+    }
+  }, [products, removeProduct, recordAudit, recordProductChange]);
+
+  const restockProduct = useCallback((id: string, quantity: number) => {
+    const product = products.find(p => p.id === id);
+    if (!product || !Number.isInteger(quantity) || quantity <= 0) return;
+
+    const restocked = { ...product, stock: (product.stock ?? 0) + quantity };
+    recordAudit('restockProduct', { targetId: id, before: product, after: restocked });
+    replaceProduct(id, restocked);
+    breakUndoChain('products');
+  }, [products, replaceProduct, recordAudit, breakUndoChain]);
+
+  const addCategory = useCallback((category: Omit<Category, 'order'>) => {
+    setCategories(prev => [
+      ...prev,
+      { ...category, order: prev.reduce((max, c) => Math.max(max, c.order + 1), 0) },
+    ]);
+    recordAudit('addCategory', { targetId: category.id, after: category });
+  }, [recordAudit]);
+
+  const updateCategory = useCallback((id: string, updatedCategory: Category) => {
+    setCategories(prev => sortCategories(prev.map(c => (c.id === id ? updatedCategory : c))));
+    recordAudit('updateCategory', {
+      targetId: id,
+      before: categories.find(c => c.id === id),
+      after: updatedCategory,
+    });
+  }, [categories, recordAudit]);
+
+  /**
+   * Delete a category and reassign its products
+   * Products pointing at the deleted category are moved to `reassignTo`
+   * (or left uncategorized) so no product is orphaned.
+   */
+  const deleteCategory = useCallback((id: string, reassignTo?: string) => {
+    const target = reassignTo && reassignTo !== id ? reassignTo : undefined;
+    setCategories(prev => prev.filter(c => c.id !== id));
+    setProducts(prev =>
+      prev.map(p => (p.category === id ? { ...p, category: target } : p))
+    );
+    recordAudit('deleteCategory', { targetId: id, before: categories.find(c => c.id === id) });
+    breakUndoChain('products');
+  }, [categories, recordAudit, breakUndoChain]);
+
+  /**
+   * Swap a category with its neighbour in the display order
+   * Orders are renumbered 0..n-1 so they stay contiguous after deletions.
+   */
+  const moveCategory = useCallback((id: string, direction: 'up' | 'down') => {
+    const sorted = sortCategories(categories);
+    const index = sorted.findIndex(c => c.id === id);
+    const swapIndex = direction === 'up' ? index - 1 : index + 1;
+
+    if (index === -1 || swapIndex < 0 || swapIndex >= sorted.length) {
+      return;
+    }
+
+    [sorted[index], sorted[swapIndex]] = [sorted[swapIndex], sorted[index]];
+    setCategories(sorted.map((c, i) => ({ ...c, order: i })));
+    recordAudit('moveCategory', { targetId: id, before: index, after: swapIndex });
+  }, [categories, recordAudit]);
+
+  /**
+   * Moment the order being built is priced at: when the edited order was placed, or now
+   */
+  const getPricingTime = useCallback(
+    () => orders.find(o => o.id === editingOrderId)?.timestamp ?? new Date(),
+    [orders, editingOrderId]
+  );
 
   /**
    * Add a product to the current order
-   * If product already exists in order, increments quantity by 1
-   * Otherwise adds it with quantity 1
+   * Stock is checked against the catalog across every line of the product (and
+   * of the chosen variant), so sold-out products can't be added
+   * If a line with the same product, variant and modifiers exists, increments its quantity by 1
+   * Otherwise adds a new line with quantity 1
    */
-  const addToCurrentOrder = useCallback((product: Product) => {
-    setCurrentOrder(prev => {
-      const existingItem = prev.find(item => item.product.id === product.id);
+  const addToCurrentOrder = useCallback((product: Product, selection: LineSelection = {}) => {
+    const latest = products.find(p => p.id === product.id) ?? product;
+    const newItem: OrderItem = { product, quantity: 1 };
+    if (selection.variantId) {
+      newItem.variantId = selection.variantId;
+    }
+    if (selection.modifiers && selection.modifiers.length > 0) {
+      newItem.modifiers = selection.modifiers;
+    }
+    const components = selection.bundleComponents ?? [];
+    if (components.length > 0) {
+      newItem.bundleComponents = components;
+    }
+    const lineKey = getLineKey(newItem);
+    const latestVariant = latest.variants?.find(variant => variant.id === selection.variantId);
 
-      if (existingItem) {
-        return prev.map(item =>
-          item.product.id === product.id
+    const prev = orderStateRef.current.items;
+    const variantInOrder = prev
+      .filter(item => item.product.id === product.id && item.variantId === selection.variantId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+    // A bundle needs one unit of each component (more if a product fills several slots)
+    const componentsShort = components.some(component => {
+      const componentId = component.product.id;
+      const latestComponent = products.find(p => p.id === componentId) ?? component.product;
+      const needed = components.filter(c => c.product.id === componentId).length;
+      return getAvailableStock(latestComponent, getUnitsInOrder(prev, componentId)) < needed;
+    });
+    if (
+      getAvailableStock(latest, getUnitsInOrder(prev, product.id)) === 0 ||
+      (latestVariant && getAvailableStock(latestVariant, variantInOrder) === 0) ||
+      componentsShort
+    ) {
+      return;
+    }
+
+    const existingItem = prev.find(item => getLineKey(item) === lineKey);
+    const next = existingItem
+      ? prev.map(item =>
+          getLineKey(item) === lineKey
             ? { ...item, quantity: item.quantity + 1 }
             : item
-        );
-      } else {
-        return [...prev, { product, quantity: 1 }];
-      }
+        )
+      : [...prev, newItem];
+    recordAudit('addToCurrentOrder', {
+      targetId: lineKey,
+      before: existingItem?.quantity,
+      after: (existingItem?.quantity ?? 0) + 1,
     });
-  }, []);
+    changeCurrentOrder('addToCurrentOrder', { items: applyPricingRules(next, pricingRules, getPricingTime()) });
+  }, [products, pricingRules, getPricingTime, recordAudit, changeCurrentOrder]);
 
   /**
-   * Remove one unit of a product from current order
+   * Remove one unit from a line of the current order
    * If quantity > 1, decrements by 1
-   * If quantity = 1, removes the item entirely
+   * If quantity = 1, removes the line entirely
    */
-  const removeFromCurrentOrder = useCallback((productId: string) => {
-    setCurrentOrder(prev => {
-      const existingItem = prev.find(item => item.product.id === productId);
+  const removeFromCurrentOrder = useCallback((lineKey: string) => {
+    const prev = orderStateRef.current.items;
+    const existingItem = prev.find(item => getLineKey(item) === lineKey);
+    if (!existingItem) return;
 
-      if (existingItem && existingItem.quantity > 1) {
-        return prev.map(item =>
-          item.product.id === productId
+    recordAudit('removeFromCurrentOrder', {
+      targetId: lineKey,
+      before: existingItem.quantity,
+      after: existingItem.quantity > 1 ? existingItem.quantity - 1 : undefined,
+    });
+    const next = existingItem.quantity > 1
+      ? prev.map(item =>
+          getLineKey(item) === lineKey
             ? { ...item, quantity: item.quantity - 1 }
             : item
-        );
-      } else {
-        return prev.filter(item => item.product.id !== productId);
-      }
-    });
-  }, []);
+        )
+      : prev.filter(item => getLineKey(item) !== lineKey);
+    changeCurrentOrder('removeFromCurrentOrder', { items: next });
+  }, [recordAudit, changeCurrentOrder]);
+
+  const addDepositReturn = useCallback((amount: Cents) => {
+    const prev = orderStateRef.current.depositReturns;
+    const next = changeDepositReturns(prev, amount, 1);
+    recordAudit('addDepositReturn', { before: prev, after: next });
+    changeCurrentOrder('addDepositReturn', { depositReturns: next });
+  }, [recordAudit, changeCurrentOrder]);
+
+  const removeDepositReturn = useCallback((amount: Cents) => {
+    const prev = orderStateRef.current.depositReturns;
+    const next = changeDepositReturns(prev, amount, -1);
+    recordAudit('removeDepositReturn', { before: prev, after: next });
+    changeCurrentOrder('removeDepositReturn', { depositReturns: next });
+  }, [recordAudit, changeCurrentOrder]);
+
+  /**
+   * Stop editing a completed order: its units come out of stock again and the builder is cleared
+   */
+  const cancelOrderEdit = useCallback(() => {
+    const order = orders.find(o => o.id === editingOrderId);
+    if (order) {
+      setProducts(prev => applyStockChange(prev, order.items, 'sell'));
+      breakUndoChain('products');
+      recordAudit('cancelOrderEdit', { targetId: order.id, before: orderStateRef.current.items, after: order });
+    }
+    setEditingOrderId(undefined);
+    setOrderState({ items: [], discount: undefined, depositReturns: [] });
+  }, [orders, editingOrderId, setOrderState, breakUndoChain, recordAudit]);
 
   const clearCurrentOrder = useCallback(() => {
-    setCurrentOrder([]);
-  }, []);
+    if (editingOrderId) {
+      cancelOrderEdit();
+      return;
+    }
+    recordAudit('clearCurrentOrder', { before: orderStateRef.current });
+    changeCurrentOrder('clearCurrentOrder', { items: [], discount: undefined, depositReturns: [] });
+  }, [editingOrderId, cancelOrderEdit, recordAudit, changeCurrentOrder]);
+
+  const setItemDiscount = useCallback((lineKey: string, discount?: Discount) => {
+    const prev = orderStateRef.current.items;
+    const line = prev.find(item => getLineKey(item) === lineKey);
+    if (!line) return;
+
+    recordAudit('setItemDiscount', { targetId: lineKey, before: line.discount, after: discount });
+    const { discount: _previous, ...rest } = line;
+    const updated = discount ? { ...rest, discount } : rest;
+    changeCurrentOrder('setItemDiscount', { items: prev.map(item => (item === line ? updated : item)) });
+  }, [recordAudit, changeCurrentOrder]);
+
+  const setOrderDiscount = useCallback((discount?: Discount) => {
+    recordAudit('setOrderDiscount', { before: orderStateRef.current.discount, after: discount });
+    changeCurrentOrder('setOrderDiscount', { discount });
+  }, [recordAudit, changeCurrentOrder]);
+
+  /**
+   * Park the current order under a name so another customer can be served
+   * Does nothing if the current order is empty or is an edit of a completed order.
+   */
+  const parkCurrentOrder = useCallback((name: string) => {
+    const { items, discount, depositReturns } = orderStateRef.current;
+    if (items.length === 0 || editingOrderId) return;
+
+    const parkedOrder: ParkedOrder = {
+      id: Date.now().toString(),
+      name: name.trim(),
+      items,
+      parkedAt: new Date(),
+    };
+    if (discount) {
+      parkedOrder.discount = discount;
+    }
+    if (depositReturns.length > 0) {
+      parkedOrder.depositReturns = depositReturns;
+    }
+
+    setParkedOrders(prev => [...prev, parkedOrder]);
+    setOrderState({ items: [], discount: undefined, depositReturns: [] });
+    recordAudit('parkCurrentOrder', { targetId: parkedOrder.id, after: parkedOrder });
+  }, [editingOrderId, setOrderState, recordAudit]);
+
+  const resumeParkedOrder = useCallback((id: string) => {
+    const parkedOrder = parkedOrders.find(p => p.id === id);
+    if (!parkedOrder) return;
+    const { items, discount, depositReturns } = orderStateRef.current;
+    if (editingOrderId || items.length > 0 || discount || depositReturns.length > 0) {
+      console.error('Parked order cannot be resumed now:', id);
+      return;
+    }
+
+    setOrderState({
+      items: reconcileOrderItems(parkedOrder.items, products).items,
+      discount: parkedOrder.discount,
+      depositReturns: parkedOrder.depositReturns ?? [],
+    });
+    setParkedOrders(prev => prev.filter(p => p.id !== id));
+    recordAudit('resumeParkedOrder', { targetId: id, before: parkedOrder });
+  }, [parkedOrders, products, editingOrderId, setOrderState, recordAudit]);
+
+  const deleteParkedOrder = useCallback((id: string) => {
+    setParkedOrders(prev => prev.filter(p => p.id !== id));
+    recordAudit('deleteParkedOrder', { targetId: id, before: parkedOrders.find(p => p.id === id) });
+  }, [parkedOrders, recordAudit]);
+
+  const addPaymentMethod = useCallback((method: PaymentMethod) => {
+    setPaymentMethods(prev => [...prev, method]);
+    recordAudit('addPaymentMethod', { targetId: method.id, after: method });
+  }, [recordAudit]);
+
+  const updatePaymentMethod = useCallback((id: string, updatedMethod: PaymentMethod) => {
+    const method = id === CASH_PAYMENT_METHOD_ID ? { ...updatedMethod, enabled: true } : updatedMethod;
+    setPaymentMethods(prev => prev.map(m => (m.id === id ? method : m)));
+    recordAudit('updatePaymentMethod', {
+      targetId: id,
+      before: paymentMethods.find(m => m.id === id),
+      after: method,
+    });
+  }, [paymentMethods, recordAudit]);
+
+  /**
+   * Delete a payment method
+   * Past orders keep the method ID; they fall back to showing it as-is.
+   */
+  const deletePaymentMethod = useCallback((id: string) => {
+    if (id === CASH_PAYMENT_METHOD_ID) return;
+    setPaymentMethods(prev => prev.filter(m => m.id !== id));
+    recordAudit('deletePaymentMethod', { targetId: id, before: paymentMethods.find(m => m.id === id) });
+  }, [paymentMethods, recordAudit]);
+
+  const addPricingRule = useCallback((rule: PricingRule) => {
+    setPricingRules(prev => [...prev, rule]);
+    recordAudit('addPricingRule', { targetId: rule.id, after: rule });
+  }, [recordAudit]);
+
+  const updatePricingRule = useCallback((id: string, updatedRule: PricingRule) => {
+    setPricingRules(prev => prev.map(r => (r.id === id ? updatedRule : r)));
+    recordAudit('updatePricingRule', {
+      targetId: id,
+      before: pricingRules.find(r => r.id === id),
+      after: updatedRule,
+    });
+  }, [pricingRules, recordAudit]);
+
+  const deletePricingRule = useCallback((id: string) => {
+    setPricingRules(prev => prev.filter(r => r.id !== id));
+    recordAudit('deletePricingRule', { targetId: id, before: pricingRules.find(r => r.id === id) });
+  }, [pricingRules, recordAudit]);
+
+  const addPromotion = useCallback((promotion: Promotion) => {
+    setPromotions(prev => [...prev, promotion]);
+    recordAudit('addPromotion', { targetId: promotion.id, after: promotion });
+  }, [recordAudit]);
+
+  const updatePromotion = useCallback((id: string, updatedPromotion: Promotion) => {
+    setPromotions(prev => prev.map(p => (p.id === id ? updatedPromotion : p)));
+    recordAudit('updatePromotion', {
+      targetId: id,
+      before: promotions.find(p => p.id === id),
+      after: updatedPromotion,
+    });
+  }, [promotions, recordAudit]);
+
+  const deletePromotion = useCallback((id: string) => {
+    setPromotions(prev => prev.filter(p => p.id !== id));
+    recordAudit('deletePromotion', { targetId: id, before: promotions.find(p => p.id === id) });
+  }, [promotions, recordAudit]);
+
+  const repriceCurrentOrder = useCallback(() => {
+    const lines = orderStateRef.current.items;
+    const items = applyPricingRules(lines, pricingRules, getPricingTime());
+    if (items.some((item, index) => item !== lines[index])) {
+      setOrderState({ items });
+    }
+  }, [pricingRules, getPricingTime, setOrderState]);
+
+  const currentOrderPromotions = useMemo(
+    () => applyPromotions(currentOrder, promotions),
+    [currentOrder, promotions]
+  );
 
   /**
    * Complete the current order and add it to order history
-   * Calculates total and change if cash payment provided
-   * Clears current order after completion
+   * Re-prices the lines with the pricing rules active now (saving nothing if that changes a price
+   * the cashier was shown) and applies promotions, then calculates the discounted total and, when cash was tendered, the change due on the cash legs
+   * Deposits charged and returned are part of the total; a negative total is paid out in cash
+   * Refuses to sell more units than are in stock (a resumed or restored order may hold units sold since)
+   * Takes the sold units out of stock and clears current order, its discount and deposit returns after completion
+   * When editing a completed order, replaces it (same ID and timestamp, priced as at that time) and records the edit
    *
-   * @param cashPaid - Optional cash amount paid (if using cash payment)
+   * @param payment - Payment method ID for the whole total, or legs that add up to it
+   * @param cashPaid - Optional cash handed over in cents (only used with a cash leg)
+   * @returns The saved order, or why it couldn't be completed
    */
-  const completeOrder = useCallback((cashPaid?: number) => {
-    setCurrentOrder(prev => {
-      if (prev.length === 0) return prev;
+  const completeOrder = useCallback((payment: string | PaymentLeg[], cashPaid?: Cents): CompleteOrderResult => {
+    const { items: lines, discount, depositReturns } = orderStateRef.current;
+    if (lines.length === 0 && depositReturns.length === 0) {
+      return { success: false, error: 'empty' };
+    }
+    // The edited order's own units were put back in stock when the edit started
+    if (!hasStockFor(products, lines)) {
+      console.error('Not enough stock for order:', lines);
+      return { success: false, error: 'stock' };
+    }
 
-      const total = prev.reduce(
-        (sum, item) => sum + item.product.price * item.quantity,
-        0
-      );
+    const editedOrder = orders.find(o => o.id === editingOrderId);
+    const items = applyPricingRules(lines, pricingRules, getPricingTime());
+    // The cashier was shown (and may have taken payment for) the builder's prices
+    if (items.some((item, index) => item !== lines[index])) {
+      console.error('Prices changed at checkout:', items);
+      setOrderState({ items });
+      return { success: false, error: 'pricesChanged' };
+    }
 
-      const newOrder: Order = {
-        id: Date.now().toString(),
-        items: prev,
-        total,
-        timestamp: new Date(),
-        cashPaid,
-        change: cashPaid ? cashPaid - total : undefined,
-      };
+    const appliedPromotions = applyPromotions(items, promotions);
+    const { total, discountTotal, depositsCharged } = calculateOrderTotals(
+      items,
+      discount,
+      appliedPromotions,
+      depositReturns
+    );
+
+    // Tokens pay for the goods only, so deposits rule them out
+    const tokensRedeemed = payment === TOKENS_PAYMENT_METHOD.id ? getOrderTokenPrice(items) : undefined;
+    const hasDeposits = depositsCharged > 0 || depositReturns.length > 0;
+    if (tokensRedeemed === null || (tokensRedeemed !== undefined && hasDeposits)) {
+      console.error('Order cannot be paid with tokens:', items);
+      return { success: false, error: 'tokens' };
+    }
+
+    // A fully discounted order has nothing to pay, so it gets no payment legs;
+    // deposits handed back beyond the total are paid out from the cash drawer
+    let payments: PaymentLeg[];
+    if (total === 0) {
+      payments = [];
+    } else if (total < 0) {
+      payments = [{ method: CASH_PAYMENT_METHOD_ID, amount: total }];
+    } else {
+      payments = typeof payment === 'string' ? [{ method: payment, amount: total }] : payment;
+    }
+    if (sumPayments(payments) !== total) {
+      console.error('Payments do not add up to the order total:', payments);
+      return { success: false, error: 'payments' };
+    }
+
+    if (!editedOrder) {
+      lastOrderTimeRef.current = Math.max(Date.now(), lastOrderTimeRef.current + 1);
+    }
+    const newOrder: Order = {
+      id: editedOrder?.id ?? lastOrderTimeRef.current.toString(),
+      items,
+      total,
+      timestamp: editedOrder?.timestamp ?? new Date(),
+    };
+
+    if (payments.length > 0) {
+      newOrder.payments = payments;
+    }
+    if (discount) {
+      newOrder.discount = discount;
+    }
+    if (discountTotal > 0) {
+      newOrder.discountTotal = discountTotal;
+    }
+    if (appliedPromotions.length > 0) {
+      newOrder.promotions = appliedPromotions;
+    }
+    if (depositReturns.length > 0) {
+      newOrder.depositReturns = depositReturns;
+    }
+    if (tokensRedeemed) {
+      newOrder.tokensRedeemed = tokensRedeemed;
+    }
+
+    const cashAmount = getCashAmount(payments);
+    if (cashAmount > 0 && cashPaid !== undefined && cashPaid >= cashAmount) {
+      newOrder.cashPaid = cashPaid;
+      newOrder.change = cashPaid - cashAmount;
+    }
 
+    if (editedOrder) {
+      newOrder.edits = [...(editedOrder.edits ?? []), createOrderEdit(editedOrder, newOrder, new Date())];
+      setOrders(prevOrders => prevOrders.map(o => (o.id === editedOrder.id ? newOrder : o)));
+    } else {
       setOrders(prevOrders => [newOrder, ...prevOrders]);
-      return [];
+    }
+    setProducts(prevProducts => applyStockChange(prevProducts, items, 'sell'));
+    breakUndoChain('products');
+    setOrderState({ items: [], discount: undefined, depositReturns: [] });
+    setEditingOrderId(undefined);
+    recordAudit('completeOrder', { targetId: newOrder.id, before: editedOrder, after: newOrder });
+    return { success: true, order: newOrder };
+  }, [
+    editingOrderId,
+    orders,
+    products,
+    pricingRules,
+    promotions,
+    getPricingTime,
+    setOrderState,
+    breakUndoChain,
+    recordAudit,
+  ]);
+
+  /**
+   * Record a refund on an order, hand back its share of the payment and restock the units
+   * Invalid refunds (no reason, nothing to refund, more units than are left) are logged and ignored,
+   * as are refunds of the order being edited.
+   */
+  const addRefund = useCallback((
+    orderId: string,
+    type: OrderRefund['type'],
+    lines: RefundLine[],
+    reason: string
+  ) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order || order.id === editingOrderId) return;
+
+    const selected = lines.filter(line => line.quantity > 0);
+    const isValid =
+      reason.trim() !== '' &&
+      selected.length > 0 &&
+      new Set(selected.map(line => line.itemIndex)).size === selected.length &&
+      selected.every(line => line.quantity <= getRefundableQuantity(order, line.itemIndex));
+    if (!isValid) {
+      console.error('Invalid refund:', orderId, lines);
+      return;
+    }
+
+    const refund: OrderRefund = {
+      id: Date.now().toString(),
+      type,
+      reason: reason.trim(),
+      lines: selected,
+      amount: getRefundAmount(order, selected),
+      timestamp: new Date(),
+    };
+
+    const refundedOrder: Order = { ...order, refunds: [...(order.refunds ?? []), refund] };
+    setOrders(prev => prev.map(o => (o.id === orderId ? refundedOrder : o)));
+    setProducts(prev => applyStockChange(prev, getRefundedItems(order, selected), 'return'));
+    breakUndoChain('products');
+    recordAudit(type === 'void' ? 'voidOrder' : 'refundOrder', {
+      targetId: orderId,
+      before: order,
+      after: refundedOrder,
     });
-  }, []);
+  }, [orders, editingOrderId, recordAudit, breakUndoChain]);
 
-  const deleteOrder = useCallback((orderId: string) => {
-    setOrders(prev => prev.filter(order => order.id !== orderId));
-  }, []);
+  const voidOrder = useCallback((orderId: string, reason: string) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order) return;
+    addRefund(orderId, 'void', getVoidLines(order), reason);
+  }, [orders, addRefund]);
+
+  const refundOrder = useCallback((orderId: string, lines: RefundLine[], reason: string) => {
+    addRefund(orderId, 'partial', lines, reason);
+  }, [addRefund]);
+
+  /**
+   * Load a completed order into the builder, as it was sold, and put its units back in stock
+   * Refunded orders can't be edited: their refunds point at the original lines.
+   */
+  const editOrder = useCallback((orderId: string) => {
+    const order = orders.find(o => o.id === orderId);
+    if (!order) return;
+    const { items, depositReturns } = orderStateRef.current;
+    if (order.refunds || editingOrderId || items.length > 0 || depositReturns.length > 0) {
+      console.error('Order cannot be edited now:', orderId);
+      return;
+    }
+
+    setEditingOrderId(order.id);
+    setOrderState({ items: order.items, discount: order.discount, depositReturns: order.depositReturns ?? [] });
+    setProducts(prev => applyStockChange(prev, order.items, 'return'));
+    breakUndoChain('products');
+    recordAudit('editOrder', { targetId: order.id, before: order });
+  }, [orders, editingOrderId, setOrderState, recordAudit, breakUndoChain]);
 
   /**
-   * Reset the session by clearing all orders
-   * Keeps products intact. Cannot be undone.
-   * Also clears current order and removes orders from storage.
+   * Close the event by moving its orders and cash drawer into a named archived session
+   * A session with no orders can still be closed to archive its float and cash movements.
+   * The session is written to its own key before the orders are cleared, so a failed write
+   * leaves the session open instead of losing its orders.
+   * Also clears the current order, starts an empty drawer and removes both from storage.
+   *
+   * @returns Whether the session was archived
    */
-  const resetSession = useCallback(async () => {
+  const closeSession = useCallback(async (name: string, count?: { [value: number]: number }): Promise<boolean> => {
+    const hasDrawerActivity = cashDrawer.openingFloat > 0 || cashDrawer.movements.length > 0;
+    if ((orders.length === 0 && !hasDrawerActivity) || !name.trim()) return false;
+    // The orders and drawer in memory may not be all that is stored
+    if (loadFailed) {
+      console.error('Cannot close the event while saved data failed to load');
+      return false;
+    }
+    // The edited order's units are back in stock until the edit is saved or cancelled
+    if (editingOrderId) {
+      console.error('Cannot close the event while an order is being edited:', editingOrderId);
+      return false;
+    }
+
+    const closedAt = new Date();
+    const session: ArchivedSession = {
+      id: closedAt.getTime().toString(),
+      name: name.trim(),
+      openedAt: new Date(Math.min(
+        ...orders.map(order => order.timestamp.getTime()),
+        ...cashDrawer.movements.map(movement => movement.timestamp.getTime()),
+        closedAt.getTime()
+      )),
+      closedAt,
+      orders,
+      cashDrawer,
+    };
+    if (count) {
+      session.cashCount = createCashCount(count, getCashDrawerSummary(cashDrawer, orders).expected);
+    }
+    try {
+      await AsyncStorage.setItem(`${STORAGE_KEYS.SESSION}${session.id}`, JSON.stringify(session));
+    } catch (error) {
+      console.error('Error archiving session:', error);
+      setError('Failed to save sessions');
+      return false;
+    }
+
+    setSessions(prev => [session, ...prev]);
     setOrders([]);
-    setCurrentOrder([]);
+    setOrderState({ items: [], discount: undefined, depositReturns: [] });
+    setCashDrawer(EMPTY_CASH_DRAWER);
+    recordAudit('closeSession', {
+      targetId: session.id,
+      after: { name: session.name, orders: orders.length, cashCount: session.cashCount },
+    });
     try {
       await AsyncStorage.removeItem(STORAGE_KEYS.ORDERS);
+      await AsyncStorage.removeItem(STORAGE_KEYS.CASH_DRAWER);
     } catch (error) {
-      console.error('Error resetting session:', error);
+      console.error('Error clearing session orders:', error);
     }
-  }, []);
+    return true;
+  }, [orders, cashDrawer, editingOrderId, loadFailed, setOrderState, recordAudit]);
+
+  const setOpeningFloat = useCallback((amount: Cents) => {
+    if (!Number.isInteger(amount) || amount < 0) {
+      console.error('Invalid opening float:', amount);
+      return;
+    }
+    recordAudit('setOpeningFloat', { before: cashDrawer.openingFloat, after: amount });
+    setCashDrawer(prev => ({ ...prev, openingFloat: amount }));
+  }, [cashDrawer.openingFloat, recordAudit]);
+
+  const addCashMovement = useCallback((type: CashMovement['type'], amount: Cents, reason: string) => {
+    if (!Number.isInteger(amount) || amount <= 0 || !reason.trim()) {
+      console.error('Invalid cash movement:', type, amount, reason);
+      return;
+    }
+
+    const movement: CashMovement = {
+      id: Date.now().toString(),
+      type,
+      amount,
+      reason: reason.trim(),
+      timestamp: new Date(),
+    };
+    setCashDrawer(prev => ({ ...prev, movements: [...prev.movements, movement] }));
+    recordAudit('addCashMovement', { targetId: movement.id, after: movement });
+  }, [recordAudit]);
+
+  const deleteCashMovement = useCallback((id: string) => {
+    const movement = cashDrawer.movements.find(m => m.id === id);
+    if (!movement) return;
+    setCashDrawer(prev => ({ ...prev, movements: prev.movements.filter(m => m.id !== id) }));
+    recordAudit('deleteCashMovement', { targetId: id, before: movement });
+  }, [cashDrawer.movements, recordAudit]);
+
+  /**
+   * Move a repaired quarantined record back into live data
+   * The record must pass the same schema as on load and must not clash with
+   * an existing ID; otherwise it stays quarantined and the issues are returned.
+   */
+  const restoreQuarantinedRecord = useCallback((id: string, record: unknown): ValidationIssue[] => {
+    const entry = quarantine.find(q => q.id === id);
+    if (!entry) {
+      return [{ path: '', message: 'Quarantined record not found' }];
+    }
+
+    const duplicateIdIssue = (recordId: string): ValidationIssue => ({
+      path: 'id',
+      message: `A record with ID "${recordId}" already exists`,
+    });
+
+    if (entry.kind === 'product') {
+      const result = ProductSchema.safeParse(record);
+      if (!result.success) return toValidationIssues(result.error.issues);
+      if (products.some(p => p.id === result.data.id)) return [duplicateIdIssue(result.data.id)];
+      setProducts(prev => [...prev, result.data]);
+    } else if (entry.kind === 'category') {
+      const result = CategorySchema.safeParse(record);
+      if (!result.success) return toValidationIssues(result.error.issues);
+      if (categories.some(c => c.id === result.data.id)) return [duplicateIdIssue(result.data.id)];
+      setCategories(prev => sortCategories([...prev, result.data]));
+    } else if (entry.kind === 'paymentMethod') {
+      const result = PaymentMethodSchema.safeParse(record);
+      if (!result.success) return toValidationIssues(result.error.issues);
+      if (paymentMethods.some(m => m.id === result.data.id)) return [duplicateIdIssue(result.data.id)];
+      setPaymentMethods(prev => [...prev, result.data]);
+    } else if (entry.kind === 'pricingRule') {
+      const result = PricingRuleSchema.safeParse(record);
+      if (!result.success) return toValidationIssues(result.error.issues);
+      if (pricingRules.some(r => r.id === result.data.id)) return [duplicateIdIssue(result.data.id)];
+      setPricingRules(prev => [...prev, result.data]);
+    } else if (entry.kind === 'promotion') {
+      const result = PromotionSchema.safeParse(record);
+      if (!result.success) return toValidationIssues(result.error.issues);
+      if (promotions.some(p => p.id === result.data.id)) return [duplicateIdIssue(result.data.id)];
+      setPromotions(prev => [...prev, result.data]);
+    } else if (entry.kind === 'currentOrder') {
+      const result = CurrentOrderSchema.safeParse(record);
+      if (!result.success) return toValidationIssues(result.error.issues);
+      if (orderStateRef.current.items.length > 0) {
+        return [{ path: '', message: 'Complete or clear the current order before restoring this one' }];
+      }
+      setOrderState({
+        items: reconcileOrderItems(result.data.items, products).items,
+        discount: result.data.discount,
+        depositReturns: result.data.depositReturns ?? [],
+      });
+    } else if (entry.kind === 'parkedOrder') {
+      const result = ParkedOrderSchema.safeParse(reviveParkedOrder(record));
+      if (!result.success) return toValidationIssues(result.error.issues);
+      if (parkedOrders.some(p => p.id === result.data.id)) return [duplicateIdIssue(result.data.id)];
+      setParkedOrders(prev =>
+        [...prev, result.data].sort((a, b) => a.parkedAt.getTime() - b.parkedAt.getTime())
+      );
+    } else if (entry.kind === 'cashDrawer') {
+      const result = CashDrawerSchema.safeParse(reviveCashDrawer(record));
+      if (!result.success) return toValidationIssues(result.error.issues);
+      if (cashDrawer.openingFloat > 0 || cashDrawer.movements.length > 0) {
+        return [{ path: '', message: 'Close the event before restoring this cash drawer' }];
+      }
+      setCashDrawer(result.data);
+    } else if (entry.kind === 'session') {
+      const result = ArchivedSessionSchema.safeParse(reviveSession(record));
+      if (!result.success) return toValidationIssues(result.error.issues);
+      if (sessions.some(session => session.id === result.data.id)) return [duplicateIdIssue(result.data.id)];
+      setSessions(prev =>
+        [...prev, result.data].sort((a, b) => b.closedAt.getTime() - a.closedAt.getTime())
+      );
+      // Sessions have no save effect: each one is written once, under its own key
+      if (!loadFailed) {
+        AsyncStorage.setItem(`${STORAGE_KEYS.SESSION}${result.data.id}`, JSON.stringify(result.data)).catch(error => {
+          console.error('Error saving session:', error);
+          setError('Failed to save sessions');
+        });
+      }
+    } else if (entry.kind === 'auditEntry') {
+      const result = AuditEntrySchema.safeParse(reviveTimestamp(record));
+      if (!result.success) return toValidationIssues(result.error.issues);
+      if (auditLog.some(e => e.id === result.data.id)) return [duplicateIdIssue(result.data.id)];
+      setAuditLog(prev =>
+        [...prev, result.data].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      );
+    } else {
+      const result = OrderSchema.safeParse(reviveOrder(record));
+      if (!result.success) return toValidationIssues(result.error.issues);
+      if (orders.some(o => o.id === result.data.id)) return [duplicateIdIssue(result.data.id)];
+      setOrders(prev =>
+        [...prev, result.data].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      );
+    }
+
+    setQuarantine(prev => prev.filter(q => q.id !== id));
+    recordAudit('restoreQuarantinedRecord', { targetId: id, before: entry, after: record });
+    return [];
+  }, [
+    quarantine,
+    products,
+    categories,
+    orders,
+    paymentMethods,
+    pricingRules,
+    promotions,
+    parkedOrders,
+    auditLog,
+    sessions,
+    cashDrawer,
+    loadFailed,
+    setOrderState,
+    recordAudit,
+  ]);
+
+  const deleteQuarantinedRecord = useCallback((id: string) => {
+    setQuarantine(prev => prev.filter(q => q.id !== id));
+    recordAudit('deleteQuarantinedRecord', { targetId: id, before: quarantine.find(q => q.id === id) });
+  }, [quarantine, recordAudit]);
+
+  /**
+   * Put the order being built or a product back in the state recorded for a change
+   */
+  const applyUndoState = useCallback((entry: UndoEntry, side: 'before' | 'after') => {
+    if (entry.scope === 'currentOrder') {
+      const state = entry[side];
+      recordAudit(side === 'before' ? 'undoOrderChange' : 'redoOrderChange', {
+        before: orderStateRef.current,
+        after: state,
+      });
+      writeOrderState(state);
+      return;
+    }
+
+    const product = entry[side];
+    const current = products.find(p => p.id === entry.productId);
+    if (!product) {
+      removeProduct(entry.productId);
+    } else if (!current) {
+      setProducts(prev => [...prev.slice(0, entry.index), product, ...prev.slice(entry.index)]);
+    } else {
+      replaceProduct(entry.productId, product);
+    }
+    recordAudit(side === 'before' ? 'undoProductChange' : 'redoProductChange', {
+      targetId: entry.productId,
+      before: current,
+      after: product,
+    });
+  }, [products, removeProduct, replaceProduct, writeOrderState, recordAudit]);
+
+  const undo = useCallback((scope: UndoScope) => {
+    const { past, stateId } = undoHistory[scope];
+    const entry = past[past.length - 1];
+    if (!entry || entry.id !== stateId) return;
+
+    applyUndoState(entry, 'before');
+    setUndoHistory(prev => ({
+      ...prev,
+      [scope]: {
+        past: prev[scope].past.slice(0, -1),
+        future: [...prev[scope].future, entry],
+        stateId: entry.beforeStateId,
+      },
+    }));
+  }, [undoHistory, applyUndoState]);
+
+  const redo = useCallback((scope: UndoScope) => {
+    const { future, stateId } = undoHistory[scope];
+    const entry = future[future.length - 1];
+    if (!entry || entry.beforeStateId !== stateId) return;
+
+    applyUndoState(entry, 'after');
+    setUndoHistory(prev => ({
+      ...prev,
+      [scope]: {
+        past: [...prev[scope].past, entry],
+        future: prev[scope].future.slice(0, -1),
+        stateId: entry.id,
+      },
+    }));
+  }, [undoHistory, applyUndoState]);
+
+  const { undoSteps, redoSteps } = useMemo(() => {
+    // A change can be undone from the state it left, and redone from the state it was made in
+    const undoStep = (scope: UndoScope): UndoStep | undefined => {
+      const { past, stateId } = undoHistory[scope];
+      const entry = past[past.length - 1];
+      return entry && entry.id === stateId ? { id: entry.id, action: entry.action } : undefined;
+    };
+    const redoStep = (scope: UndoScope): UndoStep | undefined => {
+      const { future, stateId } = undoHistory[scope];
+      const entry = future[future.length - 1];
+      return entry && entry.beforeStateId === stateId ? { id: entry.id, action: entry.action } : undefined;
+    };
+    return {
+      undoSteps: { currentOrder: undoStep('currentOrder'), products: undoStep('products') },
+      redoSteps: { currentOrder: redoStep('currentOrder'), products: redoStep('products') },
+    };
+  }, [undoHistory]);
 
   const contextValue = useMemo(
     () => ({
       products,
+      categories,
       orders,
+      sessions,
       currentOrder,
+      currentOrderDiscount,
+      currentOrderPromotions,
+      currentOrderDepositReturns,
+      editingOrderId,
       addProduct,
       updateProduct,
       deleteProduct,
+      restockProduct,
+      addCategory,
+      updateCategory,
+      deleteCategory,
+      moveCategory,
       addToCurrentOrder,
       removeFromCurrentOrder,
+      addDepositReturn,
+      removeDepositReturn,
       clearCurrentOrder,
+      setItemDiscount,
+      setOrderDiscount,
+      parkedOrders,
+      parkCurrentOrder,
+      resumeParkedOrder,
+      deleteParkedOrder,
+      paymentMethods,
+      addPaymentMethod,
+      updatePaymentMethod,
+      deletePaymentMethod,
+      pricingRules,
+      addPricingRule,
+      updatePricingRule,
+      deletePricingRule,
+      promotions,
+      addPromotion,
+      updatePromotion,
+      deletePromotion,
+      repriceCurrentOrder,
       completeOrder,
-      deleteOrder,
-      resetSession,
+      voidOrder,
+      refundOrder,
+      editOrder,
+      cancelOrderEdit,
+      closeSession,
+      cashDrawer,
+      setOpeningFloat,
+      addCashMovement,
+      deleteCashMovement,
+      quarantine,
+      restoreQuarantinedRecord,
+      deleteQuarantinedRecord,
+      auditLog,
+      auditArchive,
+      operator,
+      setOperator,
+      undoSteps,
+      redoSteps,
+      undo,
+      redo,
       isLoading,
+      loadFailed,
+      reloadData: loadData,
       error,
     }),
     [
       products,
+      categories,
       orders,
+      sessions,
       currentOrder,
+      currentOrderDiscount,
+      currentOrderPromotions,
+      currentOrderDepositReturns,
+      editingOrderId,
       addProduct,
       updateProduct,
       deleteProduct,
+      restockProduct,
+      addCategory,
+      updateCategory,
+      deleteCategory,
+      moveCategory,
       addToCurrentOrder,
       removeFromCurrentOrder,
+      addDepositReturn,
+      removeDepositReturn,
       clearCurrentOrder,
+      setItemDiscount,
+      setOrderDiscount,
+      parkedOrders,
+      parkCurrentOrder,
+      resumeParkedOrder,
+      deleteParkedOrder,
+      paymentMethods,
+      addPaymentMethod,
+      updatePaymentMethod,
+      deletePaymentMethod,
+      pricingRules,
+      addPricingRule,
+      updatePricingRule,
+      deletePricingRule,
+      promotions,
+      addPromotion,
+      updatePromotion,
+      deletePromotion,
+      repriceCurrentOrder,
       completeOrder,
-      deleteOrder,
-      resetSession,
+      voidOrder,
+      refundOrder,
+      editOrder,
+      cancelOrderEdit,
+      closeSession,
+      cashDrawer,
+      setOpeningFloat,
+      addCashMovement,
+      deleteCashMovement,
+      quarantine,
+      restoreQuarantinedRecord,
+      deleteQuarantinedRecord,
+      auditLog,
+      auditArchive,
+      operator,
+      setOperator,
+      undoSteps,
+      redoSteps,
+      undo,
+      redo,
       isLoading,
+      loadFailed,
+      loadData,
       error,
     ]
   );
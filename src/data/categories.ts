@@ -1,49 +1,72 @@
-export interface Category {
-  id: string;
-  name: string;
-  emoji: string;
-  color: string;
-}
+import { Category } from '../types';
 
+export type { Category };
+
+/**
+ * Pseudo-category used by the OrderScreen tabs to show every product.
+ * Never persisted and never assignable to a product.
+ */
+export const ALL_CATEGORY: Category = {
+  id: 'all',
+  name: 'Tutti',
+  emoji: '🎉',
+  color: '#9C27B0',
+  order: -1,
+};
+
+/**
+ * Categories seeded on first launch, before the user has defined their own
+ */
 export const DEFAULT_CATEGORIES: Category[] = [
-  {
-    id: 'all',
-    name: 'Tutti',
-    emoji: '🎉',
-    color: '#9C27B0',
-  },
   {
     id: 'food',
     name: 'Cibo',
     emoji: '🍕',
     color: '#FF5722',
+    order: 0,
   },
   {
     id: 'drinks',
     name: 'Bevande',
     emoji: '🥤',
     color: '#2196F3',
+    order: 1,
   },
   {
     id: 'desserts',
     name: 'Dolci',
     emoji: '🍰',
     color: '#E91E63',
+    order: 2,
   },
   {
     id: 'snacks',
     name: 'Snack',
     emoji: '🍿',
     color: '#FF9800',
+    order: 3,
   },
   {
     id: 'other',
     name: 'Altro',
     emoji: '⭐',
     color: '#607D8B',
+    order: 4,
   },
 ];
 
-export const getCategoryById = (id?: string): Category => {
-  return DEFAULT_CATEGORIES.find(cat => cat.id === id) || DEFAULT_CATEGORIES[0];
+/**
+ * Sort categories by their display order
+ */
+export const sortCategories = (categories: Category[]): Category[] => {
+  return [...categories].sort((a, b) => a.order - b.order);
+};
+
+/**
+ * Find a category by ID
+ *
+ * @returns The matching category, or undefined if it doesn't exist (e.g. it was deleted)
+ */
+export const getCategoryById = (categories: Category[], id?: string): Category | undefined => {
+  return categories.find(cat => cat.id === id);
 };
@@ -0,0 +1,76 @@
+import { PaymentMethod } from '../types';
+
+export type { PaymentMethod };
+
+/**
+ * ID of the built-in cash method. Cash is the only method that takes an
+ * amount tendered and gives change, so it can't be deleted or disabled.
+ */
+export const CASH_PAYMENT_METHOD_ID = 'cash';
+
+/**
+ * Built-in method for paying by redeeming prepaid tokens (gettoni). It isn't
+ * configurable: it is offered at checkout whenever every line has a token price.
+ */
+export const TOKENS_PAYMENT_METHOD: PaymentMethod = {
+  id: 'tokens',
+  name: 'Gettoni',
+  emoji: '🪙',
+  enabled: true,
+};
+
+/**
+ * Payment methods seeded on first launch, before the user has configured their own
+ */
+export const DEFAULT_PAYMENT_METHODS: PaymentMethod[] = [
+  {
+    id: CASH_PAYMENT_METHOD_ID,
+    name: 'Contanti',
+    emoji: '💶',
+    enabled: true,
+  },
+  {
+    id: 'card',
+    name: 'Carta',
+    emoji: '💳',
+    enabled: true,
+  },
+  {
+    id: 'satispay',
+    name: 'Satispay',
+    emoji: '📱',
+    enabled: true,
+  },
+  {
+    id: 'voucher',
+    name: 'Buono',
+    emoji: '🎟️',
+    enabled: true,
+  },
+];
+
+/**
+ * Find a payment method by ID
+ *
+ * @returns The matching method, or undefined if it doesn't exist (e.g. it was deleted)
+ */
+export const getPaymentMethodById = (
+  paymentMethods: PaymentMethod[],
+  id?: string
+): PaymentMethod | undefined => {
+  return paymentMethods.find(method => method.id === id);
+};
+
+/**
+ * Display label for the payment method stored on an order
+ * Orders saved before payment methods were tracked have no method.
+ */
+export const getPaymentMethodLabel = (paymentMethods: PaymentMethod[], id?: string): string => {
+  if (!id) {
+    return 'Non specificato';
+  }
+  if (id === TOKENS_PAYMENT_METHOD.id) {
+    return TOKENS_PAYMENT_METHOD.name;
+  }
+  return getPaymentMethodById(paymentMethods, id)?.name ?? id;
+};
@@ -0,0 +1,290 @@
+/**
+ * AuditLogScreen - Browse and export the log of every state-changing action
+ *
+ * When the cash doesn't add up, the audit log shows who deleted, voided,
+ * discounted or edited what and when, with the record before and after the
+ * change. The log is append-only: entries can be filtered and exported, never
+ * edited or deleted.
+ *
+ * Features:
+ * - Entries newest first, with time, operator, action and record (archived entries included)
+ * - Before/after state of each change
+ * - Filter by area (orders, products, settings...) and by time
+ * - Export the filtered entries as JSON through the system share sheet
+ * - Empty state when nothing matches
+ *
+ * @module screens/AuditLogScreen
+ */
+
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Share,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import { useApp } from '../context/AppContext';
+import { AuditEntry, RootTabParamList } from '../types';
+import { Button, Card, EmptyState, Loading } from '../components';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_AREA_LABELS,
+  AuditArea,
+  filterAuditLog,
+  formatAuditValue,
+} from '../utils/audit';
+import {
+  COLORS,
+  SPACING,
+  FONT_SIZES,
+  BORDER_RADIUS,
+  TOUCH_TARGETS,
+  APP_CONSTANTS,
+} from '../constants/theme';
+
+type TimeFilter = 'hour' | 'today' | 'all';
+
+const TIME_FILTER_LABELS: Record<TimeFilter, string> = {
+  hour: 'Ultima ora',
+  today: 'Oggi',
+  all: 'Sempre',
+};
+
+/** Earliest time kept by a time filter, or undefined to keep everything */
+const getSince = (filter: TimeFilter, now: Date): Date | undefined => {
+  if (filter === 'hour') return new Date(now.getTime() - 60 * 60 * 1000);
+  if (filter === 'today') return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return undefined;
+};
+
+/**
+ * AuditLogScreen component
+ */
+export default function AuditLogScreen() {
+  const navigation = useNavigation<BottomTabNavigationProp<RootTabParamList>>();
+  const { auditLog, auditArchive, isLoading } = useApp();
+  const [area, setArea] = useState<AuditArea | undefined>();
+  const [timeFilter, setTimeFilter] = useState<TimeFilter>('all');
+
+  const entries = useMemo(
+    () => filterAuditLog([...auditArchive, ...auditLog], { area, since: getSince(timeFilter, new Date()) }),
+    [auditArchive, auditLog, area, timeFilter]
+  );
+
+  const handleExport = useCallback(async () => {
+    try {
+      await Share.share({
+        title: 'Registro attività',
+        message: JSON.stringify(entries, null, 2),
+      });
+    } catch (error) {
+      console.error('Failed to export audit log:', error);
+      Alert.alert('Errore', 'Impossibile esportare il registro');
+    }
+  }, [entries]);
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+    accessibilityLabel: string
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      accessibilityRole="radio"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityState={{ selected }}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderEntry = useCallback(({ item: entry }: { item: AuditEntry }) => (
+    <Card style={styles.entryCard} padding="md">
+      <View style={styles.entryHeader}>
+        <Text style={styles.entryAction}>{AUDIT_ACTION_LABELS[entry.action]}</Text>
+        <Text style={styles.entryDate}>{entry.timestamp.toLocaleString('it-IT')}</Text>
+      </View>
+      <Text style={styles.entryMeta}>
+        {`👤 ${entry.actor ?? 'Operatore non indicato'}${entry.targetId ? ` • #${entry.targetId}` : ''}`}
+      </Text>
+      {entry.before !== undefined && (
+        <Text style={styles.entryValue}>{`Prima: ${formatAuditValue(entry.before)}`}</Text>
+      )}
+      {entry.after !== undefined && (
+        <Text style={styles.entryValue}>{`Dopo: ${formatAuditValue(entry.after)}`}</Text>
+      )}
+    </Card>
+  ), []);
+
+  const ListEmptyComponent = useCallback(() => (
+    <EmptyState
+      emoji="📋"
+      title="Nessuna attività"
+      subtitle="Le modifiche ai dati compariranno qui"
+    />
+  ), []);
+
+  if (isLoading) {
+    return <Loading fullScreen text="Caricamento..." />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Registro Attività</Text>
+        <View style={styles.headerActions}>
+          <Button
+            title="Esporta"
+            variant="secondary"
+            size="small"
+            onPress={handleExport}
+            disabled={entries.length === 0}
+            accessibilityLabel="Export audit log"
+          />
+          <Button
+            title="Indietro"
+            variant="ghost"
+            size="small"
+            onPress={() => navigation.goBack()}
+            accessibilityLabel="Go back"
+          />
+        </View>
+      </View>
+
+      <View style={styles.filters}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {renderChip('all', 'Tutto', area === undefined, () => setArea(undefined), 'Show all areas')}
+          {(Object.keys(AUDIT_AREA_LABELS) as AuditArea[]).map(key =>
+            renderChip(key, AUDIT_AREA_LABELS[key], area === key, () => setArea(key), `Show ${key} entries`)
+          )}
+        </ScrollView>
+        <View style={styles.chips}>
+          {(Object.keys(TIME_FILTER_LABELS) as TimeFilter[]).map(key =>
+            renderChip(
+              key,
+              TIME_FILTER_LABELS[key],
+              timeFilter === key,
+              () => setTimeFilter(key),
+              `Show entries from ${key}`
+            )
+          )}
+        </View>
+      </View>
+
+      <FlatList
+        data={entries}
+        renderItem={renderEntry}
+        keyExtractor={item => item.id}
+        ListEmptyComponent={ListEmptyComponent}
+        contentContainerStyle={styles.listContent}
+        removeClippedSubviews={Platform.OS === 'android'}
+        windowSize={APP_CONSTANTS.LIST_PERFORMANCE.windowSize}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    backgroundColor: COLORS.surface,
+    padding: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: FONT_SIZES.xxxl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  filters: {
+    backgroundColor: COLORS.surface,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.sm,
+    gap: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    minHeight: TOUCH_TARGETS.small,
+    justifyContent: 'center',
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  chipSelected: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textPrimary,
+  },
+  chipTextSelected: {
+    color: COLORS.surface,
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingTop: SPACING.md,
+  },
+  entryCard: {
+    marginBottom: SPACING.sm,
+    marginHorizontal: SPACING.lg,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: SPACING.xs,
+  },
+  entryAction: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  entryDate: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  entryMeta: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.xs,
+  },
+  entryValue: {
+    fontSize: FONT_SIZES.sm,
+    fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'monospace' }),
+    color: COLORS.textPrimary,
+  },
+});
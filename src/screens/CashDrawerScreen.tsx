@@ -0,0 +1,377 @@
+/**
+ * CashDrawerScreen - Opening float, cash movements and expected cash
+ *
+ * Keeps track of how much cash should be in the box during the event. The
+ * drawer is counted when the event is closed from the history.
+ *
+ * Features:
+ * - Set the opening float
+ * - Record cash put in or taken out outside of sales (e.g. paying a supplier), with a reason
+ * - Delete a movement recorded by mistake
+ * - Expected cash: float, cash kept from orders, cash in and cash out
+ *
+ * @module screens/CashDrawerScreen
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import { useApp } from '../context/AppContext';
+import { CashMovement, RootTabParamList } from '../types';
+import { Button, Card, Loading } from '../components';
+import { triggerHaptic } from '../utils/haptics';
+import { formatMoney, formatMoneyInput, parseMoney } from '../utils/money';
+import { getCashDrawerSummary } from '../utils/cashDrawer';
+import {
+  COLORS,
+  SPACING,
+  FONT_SIZES,
+  BORDER_RADIUS,
+  TOUCH_TARGETS,
+} from '../constants/theme';
+
+const MOVEMENT_LABELS: Record<CashMovement['type'], string> = {
+  in: 'Entrata',
+  out: 'Uscita',
+};
+
+/**
+ * CashDrawerScreen component
+ */
+export default function CashDrawerScreen() {
+  const navigation = useNavigation<BottomTabNavigationProp<RootTabParamList>>();
+  const {
+    orders,
+    cashDrawer,
+    setOpeningFloat,
+    addCashMovement,
+    deleteCashMovement,
+    isLoading,
+  } = useApp();
+
+  const [floatInput, setFloatInput] = useState('');
+  const [movementType, setMovementType] = useState<CashMovement['type']>('out');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+
+  useEffect(() => {
+    setFloatInput(cashDrawer.openingFloat > 0 ? formatMoneyInput(cashDrawer.openingFloat) : '');
+  }, [cashDrawer.openingFloat]);
+
+  const summary = useMemo(() => getCashDrawerSummary(cashDrawer, orders), [cashDrawer, orders]);
+
+  const handleSaveFloat = useCallback(() => {
+    const amount = parseMoney(floatInput || '0');
+    if (amount === null) {
+      Alert.alert('Errore', 'Inserisci un importo valido');
+      return;
+    }
+
+    setOpeningFloat(amount);
+    triggerHaptic('success');
+  }, [floatInput, setOpeningFloat]);
+
+  const handleAddMovement = useCallback(() => {
+    const amount = parseMoney(movementAmount);
+    if (amount === null || amount === 0) {
+      Alert.alert('Errore', 'Inserisci un importo valido');
+      return;
+    }
+    if (!movementReason.trim()) {
+      Alert.alert('Errore', 'Inserisci il motivo');
+      return;
+    }
+
+    addCashMovement(movementType, amount, movementReason);
+    triggerHaptic('success');
+    setMovementAmount('');
+    setMovementReason('');
+  }, [movementAmount, movementReason, movementType, addCashMovement]);
+
+  const handleDeleteMovement = useCallback((movement: CashMovement) => {
+    Alert.alert(
+      'Elimina Movimento',
+      `Eliminare "${movement.reason}" (${formatMoney(movement.amount)})?`,
+      [
+        { text: 'Annulla', style: 'cancel' },
+        {
+          text: 'Elimina',
+          style: 'destructive',
+          onPress: () => {
+            deleteCashMovement(movement.id);
+            triggerHaptic('error');
+          },
+        },
+      ]
+    );
+  }, [deleteCashMovement]);
+
+  const renderRow = (label: string, value: string, bold = false) => (
+    <View style={styles.row}>
+      <Text style={[styles.rowLabel, bold && styles.bold]}>{label}</Text>
+      <Text style={[styles.rowValue, bold && styles.bold]}>{value}</Text>
+    </View>
+  );
+
+  if (isLoading) {
+    return <Loading fullScreen text="Caricamento..." />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Cassa</Text>
+        <Button
+          title="Indietro"
+          variant="ghost"
+          size="small"
+          onPress={() => navigation.goBack()}
+          accessibilityLabel="Go back"
+        />
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Card style={styles.section} padding="lg" variant="filled">
+            <Text style={styles.sectionTitle}>Contanti Attesi</Text>
+            {renderRow('Fondo cassa', formatMoney(summary.openingFloat))}
+            {renderRow('Vendite in contanti', formatMoney(summary.sales))}
+            {renderRow('Entrate', formatMoney(summary.cashIn))}
+            {renderRow('Uscite', formatMoney(-summary.cashOut))}
+            {renderRow('Atteso in cassa', formatMoney(summary.expected), true)}
+          </Card>
+
+          <Card style={styles.section} padding="lg" variant="filled">
+            <Text style={styles.sectionTitle}>Fondo Cassa</Text>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[styles.input, styles.amountInput]}
+                placeholder="0.00"
+                value={floatInput}
+                onChangeText={setFloatInput}
+                keyboardType="decimal-pad"
+                accessibilityLabel="Opening float input"
+              />
+              <Button
+                title="Salva"
+                variant="primary"
+                size="medium"
+                onPress={handleSaveFloat}
+                accessibilityLabel="Save opening float"
+              />
+            </View>
+          </Card>
+
+          <Card style={styles.section} padding="lg" variant="filled">
+            <Text style={styles.sectionTitle}>Movimenti di Cassa</Text>
+            <View style={styles.chips}>
+              {(Object.keys(MOVEMENT_LABELS) as CashMovement['type'][]).map(type => {
+                const selected = movementType === type;
+                return (
+                  <TouchableOpacity
+                    key={type}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setMovementType(type)}
+                    accessibilityRole="radio"
+                    accessibilityLabel={type === 'in' ? 'Cash in' : 'Cash out'}
+                    accessibilityState={{ selected }}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {MOVEMENT_LABELS[type]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <TextInput
+              style={styles.input}
+              placeholder="Importo (es. 20.00)"
+              value={movementAmount}
+              onChangeText={setMovementAmount}
+              keyboardType="decimal-pad"
+              accessibilityLabel="Cash movement amount input"
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Motivo (es. Pagamento fornitore)"
+              value={movementReason}
+              onChangeText={setMovementReason}
+              maxLength={50}
+              accessibilityLabel="Cash movement reason input"
+              returnKeyType="done"
+              onSubmitEditing={handleAddMovement}
+            />
+            <Button
+              title="Registra"
+              variant="primary"
+              size="medium"
+              onPress={handleAddMovement}
+              accessibilityLabel="Add cash movement"
+            />
+
+            {cashDrawer.movements.length === 0 ? (
+              <Text style={styles.emptyText}>Nessun movimento</Text>
+            ) : (
+              [...cashDrawer.movements].reverse().map(movement => (
+                <View key={movement.id} style={styles.movementRow}>
+                  <View style={styles.movementDetails}>
+                    <Text style={styles.rowLabel} numberOfLines={1}>
+                      {movement.type === 'in' ? '⬇️' : '⬆️'} {movement.reason}
+                    </Text>
+                    <Text style={styles.movementTime}>
+                      {movement.timestamp.toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}
+                    </Text>
+                  </View>
+                  <Text style={[styles.rowValue, movement.type === 'out' && styles.cashOut]}>
+                    {formatMoney(movement.type === 'in' ? movement.amount : -movement.amount)}
+                  </Text>
+                  <Button
+                    title="Elimina"
+                    variant="ghost"
+                    size="small"
+                    onPress={() => handleDeleteMovement(movement)}
+                    accessibilityLabel={`Delete cash movement ${movement.reason}`}
+                  />
+                </View>
+              ))
+            )}
+          </Card>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    backgroundColor: COLORS.surface,
+    padding: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: FONT_SIZES.xxxl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  content: {
+    padding: SPACING.lg,
+  },
+  section: {
+    marginBottom: SPACING.md,
+    gap: SPACING.sm,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textPrimary,
+    marginRight: SPACING.sm,
+  },
+  rowValue: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+  },
+  bold: {
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  cashOut: {
+    color: COLORS.error,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.lg,
+    minHeight: TOUCH_TARGETS.medium,
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.surface,
+  },
+  amountInput: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    minHeight: TOUCH_TARGETS.small,
+    justifyContent: 'center',
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  chipSelected: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textPrimary,
+  },
+  chipTextSelected: {
+    color: COLORS.surface,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    paddingVertical: SPACING.sm,
+  },
+  movementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  movementDetails: {
+    flex: 1,
+  },
+  movementTime: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+});
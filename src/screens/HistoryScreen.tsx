@@ -6,31 +6,74 @@
  *
  * Features:
  * - Total orders count and revenue
- * - Top-selling products ranked by quantity
- * - Detailed order list with timestamps
+ * - Revenue per payment method (split payments counted per leg), less refunds
+ * - Tokens issued vs redeemed, with redemptions kept out of revenue (already cashed when the tokens were sold)
+ * - Total discounts given, broken down by reason
+ * - Top-selling products ranked by quantity, each variant (size) counted separately
+ * - Bundles (menus) sold, with each bundle's components counted as product sales
+ * - Stock overview: units left, units sold and projected run-out time
+ * - Detailed order list with timestamps and each line's modifiers, bundle components and pricing rule
  * - Cash payment details (when applicable)
- * - Delete individual orders
- * - Reset all orders (session reset)
+ * - Void orders or refund selected lines with a reason; refunds are kept with the order,
+ *   taken off revenue and sales, and shown as voided/refunded states
+ * - Edit a completed order in the order builder; each edit's before/after lines and total are listed
+ * - Close the event (once no order is being edited): its orders are archived under a name and a new session starts
+ * - Cash drawer: expected cash of the current session, counted by denomination at close
+ *   with over/short kept with the archived session
+ * - Session picker to browse past sessions (read-only), compare them and export one as JSON
+ * - Z report of the session being viewed
+ * - Warning banner linking to the repair screen when data is quarantined
  * - Empty state when no orders exist
  *
  * @module screens/HistoryScreen
  */
 
-import React, { useMemo, useCallback } from 'react';
+import React, { useMemo, useCallback, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   FlatList,
+  ScrollView,
   TouchableOpacity,
   Alert,
+  Share,
   Platform,
+  Modal,
+  TextInput,
+  KeyboardAvoidingView,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { useApp } from '../context/AppContext';
-import { Order, OrderItem } from '../types';
-import { Button, Card, EmptyState, Loading } from '../components';
+import { Order, OrderItem, OrderRefund, RefundLine, RootTabParamList } from '../types';
+import { Button, Card, EmptyState, Loading, LoadFailedBanner, QuarantineBanner } from '../components';
+import { getPaymentMethodLabel } from '../data/paymentMethods';
 import { triggerHaptic } from '../utils/haptics';
+import { formatMoney } from '../utils/money';
+import { getStockOverview, StockOverviewEntry } from '../utils/stock';
+import { formatModifiers } from '../utils/modifiers';
+import { formatBundleComponents } from '../utils/bundles';
+import { getLineDeposit } from '../utils/deposits';
+import { getItemName } from '../utils/orderItems';
+import { formatTokens } from '../utils/tokens';
+import { formatOrderEditChange } from '../utils/orderEdits';
+import {
+  getKeptItems,
+  getOrderStatus,
+  getRefundableQuantity,
+  getRefundAmount,
+  getVoidLines,
+} from '../utils/refunds';
+import { formatDiscountValue, getDiscountAmount, getLineSubtotal } from '../utils/pricing';
+import { getSalesSummary, ProductSales } from '../utils/salesSummary';
+import {
+  createCashCount,
+  EURO_DENOMINATIONS,
+  formatOverShort,
+  getCashDrawerSummary,
+} from '../utils/cashDrawer';
 import {
   COLORS,
   SPACING,
@@ -44,73 +87,211 @@ import {
  * HistoryScreen component
  */
 export default function HistoryScreen() {
-  const { orders, deleteOrder, resetSession, isLoading } = useApp();
-
-  const summary = useMemo(() => {
-    const productCounts: { [key: string]: { name: string; emoji: string; count: number; total: number } } = {};
-    let totalRevenue = 0;
-
-    orders.forEach(order => {
-      totalRevenue += order.total;
-      order.items.forEach(item => {
-        const key = item.product.id;
-        if (!productCounts[key]) {
-          productCounts[key] = {
-            name: item.product.name,
-            emoji: item.product.emoji,
-            count: 0,
-            total: 0,
-          };
-        }
-        productCounts[key].count += item.quantity;
-        productCounts[key].total += item.product.price * item.quantity;
-      });
+  const {
+    orders,
+    sessions,
+    cashDrawer,
+    products,
+    paymentMethods,
+    currentOrder,
+    currentOrderDepositReturns,
+    editingOrderId,
+    editOrder,
+    voidOrder,
+    refundOrder,
+    closeSession,
+    quarantine,
+    isLoading,
+    loadFailed,
+    reloadData,
+  } = useApp();
+  const navigation = useNavigation<BottomTabNavigationProp<RootTabParamList>>();
+
+  const [refundTarget, setRefundTarget] = useState<{ order: Order; type: OrderRefund['type'] } | null>(null);
+  const [refundQuantities, setRefundQuantities] = useState<{ [itemIndex: number]: number }>({});
+  const [refundReason, setRefundReason] = useState('');
+  const [selectedSessionId, setSelectedSessionId] = useState<string | undefined>();
+  const [closeModalVisible, setCloseModalVisible] = useState(false);
+  const [sessionName, setSessionName] = useState('');
+  const [cashCountInputs, setCashCountInputs] = useState<{ [value: number]: string }>({});
+
+  // Past sessions are shown read-only; the current session when none is picked
+  const selectedSession = sessions.find(session => session.id === selectedSessionId);
+  const viewedOrders = selectedSession?.orders ?? orders;
+
+  const summary = useMemo(
+    () => getSalesSummary(viewedOrders, paymentMethods),
+    [viewedOrders, paymentMethods]
+  );
+
+  const drawerSummary = useMemo(
+    () => getCashDrawerSummary(cashDrawer, orders),
+    [cashDrawer, orders]
+  );
+
+  /** Pieces entered per denomination in the close modal, empty entries left out */
+  const cashCountQuantities = useMemo(() => {
+    const quantities: { [value: number]: number } = {};
+    EURO_DENOMINATIONS.forEach(value => {
+      const quantity = parseInt(cashCountInputs[value] ?? '', 10);
+      if (quantity > 0) quantities[value] = quantity;
     });
+    return quantities;
+  }, [cashCountInputs]);
+  const hasCashCount = Object.keys(cashCountQuantities).length > 0;
+  const cashCount = useMemo(
+    () => createCashCount(cashCountQuantities, drawerSummary.expected),
+    [cashCountQuantities, drawerSummary.expected]
+  );
 
-    const sortedProducts = Object.values(productCounts).sort((a, b) => b.count - a.count);
-
-    return {
-      totalOrders: orders.length,
-      totalRevenue,
-      products: sortedProducts,
-    };
-  }, [orders]);
-
-  const handleDeleteOrder = useCallback((orderId: string) => {
-    Alert.alert(
-      'Elimina Ordine',
-      'Sei sicuro di voler eliminare questo ordine?',
-      [
-        { text: 'Annulla', style: 'cancel' },
-        {
-          text: 'Elimina',
-          style: 'destructive',
-          onPress: () => {
-            deleteOrder(orderId);
-            triggerHaptic('error');
-          },
-        },
-      ]
-    );
-  }, [deleteOrder]);
-
-  const handleResetSession = useCallback(() => {
-    Alert.alert(
-      'Reset Sessione',
-      'Sei sicuro di voler cancellare tutti gli ordini? Questa azione non può essere annullata.',
-      [
-        { text: 'Annulla', style: 'cancel' },
-        {
-          text: 'Reset',
-          style: 'destructive',
-          onPress: () => {
-            resetSession();
-            triggerHaptic('error');
-          },
-        },
-      ]
-    );
-  }, [resetSession]);
+  /** A session with no orders can still be closed to archive its float and cash movements */
+  const canCloseSession =
+    orders.length > 0 || cashDrawer.openingFloat > 0 || cashDrawer.movements.length > 0;
+
+  /** Orders, units sold and revenue of every session, current one first */
+  const sessionComparison = useMemo(() => {
+    const rows = sessions.map(session => ({
+      id: session.id as string | undefined,
+      name: session.name,
+      summary: getSalesSummary(session.orders, paymentMethods),
+    }));
+    if (orders.length > 0) {
+      rows.unshift({ id: undefined, name: 'Sessione corrente', summary: getSalesSummary(orders, paymentMethods) });
+    }
+    return rows.map(row => ({
+      ...row,
+      units: row.summary.products.reduce((sum, product) => sum + product.count, 0),
+    }));
+  }, [sessions, orders, paymentMethods]);
+
+  /**
+   * Reopen an order in the builder and switch to the Order tab
+   * The builder must be empty so the order in progress isn't lost.
+   */
+  const handleEditOrder = useCallback((order: Order) => {
+    if (editingOrderId || currentOrder.length > 0 || currentOrderDepositReturns.length > 0) {
+      Alert.alert(
+        'Ordine in corso',
+        'Completa, parcheggia o cancella l\'ordine corrente prima di modificarne un altro'
+      );
+      return;
+    }
+
+    editOrder(order.id);
+    triggerHaptic('light');
+    navigation.navigate('Order');
+  }, [editingOrderId, currentOrder.length, currentOrderDepositReturns.length, editOrder, navigation]);
+
+  const openRefundModal = useCallback((order: Order, type: OrderRefund['type']) => {
+    setRefundTarget({ order, type });
+    setRefundQuantities({});
+    setRefundReason('');
+    triggerHaptic('light');
+  }, []);
+
+  const closeRefundModal = useCallback(() => {
+    setRefundTarget(null);
+  }, []);
+
+  const changeRefundQuantity = useCallback((itemIndex: number, delta: number) => {
+    if (!refundTarget) return;
+    setRefundQuantities(prev => {
+      const max = getRefundableQuantity(refundTarget.order, itemIndex);
+      const quantity = Math.min(max, Math.max(0, (prev[itemIndex] ?? 0) + delta));
+      return { ...prev, [itemIndex]: quantity };
+    });
+  }, [refundTarget]);
+
+  const refundLines = useMemo((): RefundLine[] => {
+    if (!refundTarget) return [];
+    if (refundTarget.type === 'void') return getVoidLines(refundTarget.order);
+    return Object.entries(refundQuantities)
+      .map(([itemIndex, quantity]) => ({ itemIndex: Number(itemIndex), quantity }))
+      .filter(line => line.quantity > 0);
+  }, [refundTarget, refundQuantities]);
+
+  const refundAmount = useMemo(
+    () => (refundTarget && refundLines.length > 0 ? getRefundAmount(refundTarget.order, refundLines) : 0),
+    [refundTarget, refundLines]
+  );
+
+  const handleConfirmRefund = useCallback(() => {
+    if (!refundTarget) return;
+    if (refundLines.length === 0) {
+      Alert.alert('Errore', 'Seleziona almeno un prodotto da rimborsare');
+      return;
+    }
+    if (!refundReason.trim()) {
+      Alert.alert('Errore', 'Inserisci il motivo');
+      return;
+    }
+
+    if (refundTarget.type === 'void') {
+      voidOrder(refundTarget.order.id, refundReason);
+    } else {
+      refundOrder(refundTarget.order.id, refundLines, refundReason);
+    }
+    triggerHaptic('success');
+    setRefundTarget(null);
+  }, [refundTarget, refundLines, refundReason, voidOrder, refundOrder]);
+
+  const openCloseModal = useCallback(() => {
+    setSessionName(`Evento ${new Date().toLocaleDateString('it-IT')}`);
+    setCashCountInputs({});
+    setCloseModalVisible(true);
+    triggerHaptic('light');
+  }, []);
+
+  const handleCloseSession = useCallback(async () => {
+    if (!sessionName.trim()) {
+      Alert.alert('Errore', 'Inserisci il nome dell\'evento');
+      return;
+    }
+
+    // Closing without a count is allowed; the session then has no over/short
+    const closed = await closeSession(sessionName, hasCashCount ? cashCountQuantities : undefined);
+    if (!closed) {
+      triggerHaptic('error');
+      Alert.alert('Errore', 'Impossibile chiudere l\'evento');
+      return;
+    }
+    triggerHaptic('success');
+    setCloseModalVisible(false);
+  }, [sessionName, hasCashCount, cashCountQuantities, closeSession]);
+
+  const handleExportSession = useCallback(async () => {
+    if (!selectedSession) return;
+    try {
+      await Share.share({
+        title: selectedSession.name,
+        message: JSON.stringify(selectedSession, null, 2),
+      });
+    } catch (error) {
+      console.error('Failed to export session:', error);
+      Alert.alert('Errore', 'Impossibile esportare la sessione');
+    }
+  }, [selectedSession]);
+
+  const stockOverview = useMemo(
+    () =>
+      getStockOverview(
+        products,
+        orders.map(order => ({ ...order, items: getKeptItems(order) })),
+        new Date(),
+        APP_CONSTANTS.STOCK_RATE_WINDOW_MINUTES
+      ),
+    [products, orders]
+  );
+
+  const formatStock = useCallback((entry: StockOverviewEntry) => {
+    if (entry.remaining === 0) {
+      return `Esaurito • ${entry.sold} venduti`;
+    }
+    const runOut = entry.projectedRunOut
+      ? ` • finisce ~${entry.projectedRunOut.toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}`
+      : '';
+    return `${entry.remaining} rimasti • ${entry.sold} venduti${runOut}`;
+  }, []);
 
   const formatDate = useCallback((date: Date) => {
     const d = new Date(date);
@@ -123,7 +304,22 @@ export default function HistoryScreen() {
     });
   }, []);
 
-  const renderTopProduct = useCallback(({ item, index }: { item: typeof summary.products[0]; index: number }) => (
+  /**
+   * Describe how an order was paid, listing each leg's amount for split payments
+   */
+  const formatPayments = useCallback((order: Order) => {
+    if (!order.payments) {
+      return getPaymentMethodLabel(paymentMethods);
+    }
+    if (order.payments.length === 1) {
+      return getPaymentMethodLabel(paymentMethods, order.payments[0].method);
+    }
+    return order.payments
+      .map(leg => `${getPaymentMethodLabel(paymentMethods, leg.method)} ${formatMoney(leg.amount)}`)
+      .join(' • ');
+  }, [paymentMethods]);
+
+  const renderTopProduct = useCallback(({ item, index }: { item: ProductSales; index: number }) => (
     <View style={styles.topProductItem}>
       <View style={styles.topProductRank}>
         <Text style={styles.topProductRankText}>{index + 1}</Text>
@@ -134,70 +330,226 @@ export default function HistoryScreen() {
           {item.name}
         </Text>
         <Text style={styles.topProductStats}>
-          {item.count} venduti • € {item.total.toFixed(2)}
+          {item.count} venduti • {formatMoney(item.total)}
         </Text>
       </View>
     </View>
   ), []);
 
   const renderOrderItem = useCallback(({ item }: { item: OrderItem }) => (
-    <View style={styles.orderItemRow}>
-      <Text style={styles.orderItemText} numberOfLines={1}>
-        {item.product.emoji} {item.product.name} x{item.quantity}
-      </Text>
-      <Text style={styles.orderItemPrice}>
-        € {(item.product.price * item.quantity).toFixed(2)}
-      </Text>
-    </View>
+    <>
+      <View style={styles.orderItemRow}>
+        <Text style={styles.orderItemText} numberOfLines={1}>
+          {item.product.emoji} {getItemName(item)} x{item.quantity}
+        </Text>
+        <Text style={styles.orderItemPrice}>
+          {formatMoney(getLineSubtotal(item))}
+        </Text>
+      </View>
+      {item.pricingRule && (
+        <View style={styles.orderItemRow}>
+          <Text style={[styles.orderItemText, styles.discountText]} numberOfLines={1}>
+            🕒 {item.pricingRule.name}
+          </Text>
+          <Text style={[styles.orderItemPrice, styles.discountText]}>
+            {formatMoney(item.pricingRule.unitPrice)} cad.
+          </Text>
+        </View>
+      )}
+      {item.bundleComponents && (
+        <Text style={[styles.orderItemText, styles.modifierText]} numberOfLines={2}>
+          • {formatBundleComponents(item.bundleComponents)}
+        </Text>
+      )}
+      {item.modifiers && item.modifiers.length > 0 && (
+        <Text style={[styles.orderItemText, styles.modifierText]} numberOfLines={2}>
+          + {formatModifiers(item.modifiers)}
+        </Text>
+      )}
+      {item.discount && (
+        <View style={styles.orderItemRow}>
+          <Text style={[styles.orderItemText, styles.discountText]} numberOfLines={1}>
+            Sconto {formatDiscountValue(item.discount)} ({item.discount.reason})
+          </Text>
+          <Text style={[styles.orderItemPrice, styles.discountText]}>
+            {formatMoney(-getDiscountAmount(getLineSubtotal(item), item.discount))}
+          </Text>
+        </View>
+      )}
+      {getLineDeposit(item) > 0 && (
+        <View style={styles.orderItemRow}>
+          <Text style={[styles.orderItemText, styles.modifierText]} numberOfLines={1}>
+            ♻️ Cauzione x{item.quantity}
+          </Text>
+          <Text style={[styles.orderItemPrice, styles.modifierText]}>
+            {formatMoney(getLineDeposit(item))}
+          </Text>
+        </View>
+      )}
+    </>
   ), []);
 
-  const renderOrder = useCallback(({ item: order }: { item: Order }) => (
-    <Card style={styles.orderCard} padding="lg">
-      <View style={styles.orderHeader}>
-        <View>
-          <Text style={styles.orderDate}>{formatDate(order.timestamp)}</Text>
-          <Text style={styles.orderId}>Ordine #{order.id.slice(-6)}</Text>
+  const renderOrder = useCallback(({ item: order }: { item: Order }) => {
+    const status = getOrderStatus(order);
+    const isEditing = order.id === editingOrderId;
+    const isArchived = selectedSession !== undefined;
+    const canRefund = !isArchived && !isEditing && getVoidLines(order).length > 0;
+    // Refunds point at the original lines, so refunded orders can't be edited
+    const canEdit = !isArchived && !isEditing && status === 'completed' && order.items.length > 0;
+
+    return (
+      <Card style={status === 'voided' ? styles.voidedOrderCard : styles.orderCard} padding="lg">
+        <View style={styles.orderHeader}>
+          <View>
+            <Text style={styles.orderDate}>{formatDate(order.timestamp)}</Text>
+            <Text style={styles.orderId}>Ordine #{order.id.slice(-6)}</Text>
+            <Text style={styles.orderId}>{formatPayments(order)}</Text>
+            {isEditing && <Text style={styles.orderStatus}>IN MODIFICA</Text>}
+            {status !== 'completed' && (
+              <Text style={[styles.orderStatus, status === 'voided' && styles.orderStatusVoided]}>
+                {status === 'voided' ? 'STORNATO' : 'RIMBORSATO PARZIALMENTE'}
+              </Text>
+            )}
+          </View>
+          <View style={styles.orderActions}>
+            {canEdit && (
+              <Button
+                title="Modifica"
+                variant="secondary"
+                size="small"
+                onPress={() => handleEditOrder(order)}
+                accessibilityLabel={`Edit order ${order.id}`}
+              />
+            )}
+            {canRefund && (
+              <>
+                <Button
+                  title="Rimborsa"
+                  variant="secondary"
+                  size="small"
+                  onPress={() => openRefundModal(order, 'partial')}
+                  accessibilityLabel={`Refund order ${order.id}`}
+                />
+                <Button
+                  title="Storna"
+                  variant="warning"
+                  size="small"
+                  onPress={() => openRefundModal(order, 'void')}
+                  accessibilityLabel={`Void order ${order.id}`}
+                />
+              </>
+            )}
+          </View>
         </View>
-        <Button
-          title="Elimina"
-          variant="danger"
-          size="small"
-          onPress={() => handleDeleteOrder(order.id)}
-          accessibilityLabel={`Delete order ${order.id}`}
+
+        <FlatList
+          data={order.items}
+          renderItem={renderOrderItem}
+          keyExtractor={(item, index) => `${item.product.id}-${index}`}
+          scrollEnabled={false}
         />
-      </View>
 
-      <FlatList
-        data={order.items}
-        renderItem={renderOrderItem}
-        keyExtractor={(item, index) => `${item.product.id}-${index}`}
-        scrollEnabled={false}
-      />
+        {order.depositReturns?.map(entry => (
+          <View key={entry.amount} style={styles.orderItemRow}>
+            <Text style={[styles.orderItemText, styles.discountText]} numberOfLines={1}>
+              ♻️ Reso cauzione x{entry.quantity}
+            </Text>
+            <Text style={[styles.orderItemPrice, styles.discountText]}>
+              {formatMoney(-entry.amount * entry.quantity)}
+            </Text>
+          </View>
+        ))}
 
-      <View style={styles.orderFooter}>
-        <View style={styles.orderTotal}>
-          <Text style={styles.orderTotalLabel}>Totale:</Text>
-          <Text style={styles.orderTotalAmount}>€ {order.total.toFixed(2)}</Text>
-        </View>
-        {order.cashPaid && (
-          <View style={styles.paymentDetails}>
-            <Text style={styles.paymentText}>
-              Contanti: € {order.cashPaid.toFixed(2)}
+        {!!order.tokensRedeemed && (
+          <View style={styles.orderItemRow}>
+            <Text style={styles.orderItemText} numberOfLines={1}>
+              🪙 Riscattati {formatTokens(order.tokensRedeemed)}
             </Text>
-            <Text style={styles.paymentText}>
-              Resto: € {order.change?.toFixed(2) || '0.00'}
+          </View>
+        )}
+
+        {order.promotions?.map(promotion => (
+          <View key={promotion.promotionId} style={styles.orderItemRow}>
+            <Text style={[styles.orderItemText, styles.discountText]} numberOfLines={1}>
+              🎁 {promotion.name}
+            </Text>
+            <Text style={[styles.orderItemPrice, styles.discountText]}>
+              {formatMoney(-promotion.savings)}
+            </Text>
+          </View>
+        ))}
+
+        {order.discount && (
+          <View style={styles.orderItemRow}>
+            <Text style={[styles.orderItemText, styles.discountText]} numberOfLines={1}>
+              Sconto ordine {formatDiscountValue(order.discount)} ({order.discount.reason})
             </Text>
           </View>
         )}
-      </View>
-    </Card>
-  ), [formatDate, handleDeleteOrder, renderOrderItem]);
+
+        <View style={styles.orderFooter}>
+          <View style={styles.orderTotal}>
+            <Text style={styles.orderTotalLabel}>Totale:</Text>
+            <Text style={styles.orderTotalAmount}>{formatMoney(order.total)}</Text>
+          </View>
+          {!!order.cashPaid && (
+            <View style={styles.paymentDetails}>
+              <Text style={styles.paymentText}>
+                Contanti: {formatMoney(order.cashPaid)}
+              </Text>
+              <Text style={styles.paymentText}>
+                Resto: {formatMoney(order.change ?? 0)}
+              </Text>
+            </View>
+          )}
+          {order.edits?.map(edit => (
+            <View key={edit.timestamp.toISOString()} style={styles.orderItemRow}>
+              <Text style={[styles.orderItemText, styles.modifierText]} numberOfLines={3}>
+                ✏️ Modificato {formatDate(edit.timestamp)}
+                {edit.changes.length > 0 ? `: ${edit.changes.map(formatOrderEditChange).join(', ')}` : ''}
+              </Text>
+              <Text style={[styles.orderItemPrice, styles.modifierText]}>
+                {formatMoney(edit.totalBefore)} → {formatMoney(edit.totalAfter)}
+              </Text>
+            </View>
+          ))}
+          {order.refunds?.map(refund => (
+            <View key={refund.id} style={styles.orderItemRow}>
+              <Text style={[styles.orderItemText, styles.refundText]} numberOfLines={2}>
+                ↩️ {refund.type === 'void' ? 'Storno' : 'Rimborso'} {formatDate(refund.timestamp)}
+                {` (${refund.reason}): `}
+                {refund.lines
+                  .map(line => `${getItemName(order.items[line.itemIndex])} x${line.quantity}`)
+                  .join(', ')}
+              </Text>
+              <Text style={[styles.orderItemPrice, styles.refundText]}>{formatMoney(-refund.amount)}</Text>
+            </View>
+          ))}
+        </View>
+      </Card>
+    );
+  }, [
+    editingOrderId,
+    selectedSession,
+    formatDate,
+    formatPayments,
+    handleEditOrder,
+    openRefundModal,
+    renderOrderItem,
+  ]);
 
   const ListHeaderComponent = useCallback(() => (
     <>
-      {orders.length > 0 && (
+      {viewedOrders.length > 0 && (
         <View style={styles.summarySection}>
-          <Text style={styles.summaryTitle}>Riepilogo Totale</Text>
+          <Text style={styles.summaryTitle}>
+            {selectedSession ? `Riepilogo: ${selectedSession.name}` : 'Riepilogo Totale'}
+          </Text>
+          {selectedSession && (
+            <Text style={styles.sessionDates}>
+              {formatDate(selectedSession.openedAt)} → {formatDate(selectedSession.closedAt)}
+            </Text>
+          )}
           <View style={styles.summaryCards}>
             <Card style={styles.summaryCard} padding="lg" variant="filled">
               <Text style={styles.summaryValue}>{summary.totalOrders}</Text>
@@ -205,12 +557,138 @@ export default function HistoryScreen() {
             </Card>
             <Card style={styles.summaryCard} padding="lg" variant="filled">
               <Text style={[styles.summaryValue, styles.revenueValue]}>
-                € {summary.totalRevenue.toFixed(2)}
+                {formatMoney(summary.totalRevenue)}
               </Text>
               <Text style={styles.summaryLabel}>Incasso Totale</Text>
             </Card>
           </View>
 
+          <Card style={styles.paymentMethodsSection} padding="lg" variant="filled">
+            <Text style={styles.topProductsTitle}>Incasso per Metodo</Text>
+            {summary.paymentMethods.map(method => (
+              <View key={method.id || 'unspecified'} style={styles.paymentMethodRow}>
+                <Text style={styles.paymentMethodName} numberOfLines={1}>
+                  {method.label}
+                </Text>
+                <Text style={styles.topProductStats}>
+                  {method.count} ordini • {formatMoney(method.total)}
+                </Text>
+              </View>
+            ))}
+          </Card>
+
+          {summary.totalDiscounts > 0 && (
+            <Card style={styles.paymentMethodsSection} padding="lg" variant="filled">
+              <Text style={styles.topProductsTitle}>Sconti Concessi</Text>
+              <View style={styles.paymentMethodRow}>
+                <Text style={styles.paymentMethodName}>Totale</Text>
+                <Text style={styles.topProductStats}>
+                  {summary.discountedOrders} ordini • {formatMoney(summary.totalDiscounts)}
+                </Text>
+              </View>
+              {summary.discountReasons.map(entry => (
+                <View key={entry.reason} style={styles.paymentMethodRow}>
+                  <Text style={styles.paymentMethodName} numberOfLines={1}>
+                    {entry.reason}
+                  </Text>
+                  <Text style={styles.topProductStats}>
+                    {entry.count} sconti • {formatMoney(entry.total)}
+                  </Text>
+                </View>
+              ))}
+            </Card>
+          )}
+
+          {(summary.deposits.charged > 0 || summary.deposits.returned > 0) && (
+            <Card style={styles.paymentMethodsSection} padding="lg" variant="filled">
+              <Text style={styles.topProductsTitle}>Cauzioni (escluse dall'incasso)</Text>
+              <View style={styles.paymentMethodRow}>
+                <Text style={styles.paymentMethodName}>Incassate</Text>
+                <Text style={styles.topProductStats}>
+                  {summary.deposits.chargedUnits} pz • {formatMoney(summary.deposits.charged)}
+                </Text>
+              </View>
+              <View style={styles.paymentMethodRow}>
+                <Text style={styles.paymentMethodName}>Restituite</Text>
+                <Text style={styles.topProductStats}>
+                  {summary.deposits.returnedUnits} pz • {formatMoney(summary.deposits.returned)}
+                </Text>
+              </View>
+              <View style={styles.paymentMethodRow}>
+                <Text style={styles.paymentMethodName}>Da restituire</Text>
+                <Text style={styles.topProductStats}>
+                  {formatMoney(summary.deposits.charged - summary.deposits.returned)}
+                </Text>
+              </View>
+            </Card>
+          )}
+
+          {(summary.tokens.issued > 0 || summary.tokens.redeemed > 0) && (
+            <Card style={styles.paymentMethodsSection} padding="lg" variant="filled">
+              <Text style={styles.topProductsTitle}>Gettoni</Text>
+              <View style={styles.paymentMethodRow}>
+                <Text style={styles.paymentMethodName}>Emessi</Text>
+                <Text style={styles.topProductStats}>{formatTokens(summary.tokens.issued)}</Text>
+              </View>
+              <View style={styles.paymentMethodRow}>
+                <Text style={styles.paymentMethodName}>Riscattati</Text>
+                <Text style={styles.topProductStats}>
+                  {formatTokens(summary.tokens.redeemed)} • {formatMoney(summary.tokens.redeemedValue)}
+                </Text>
+              </View>
+              <View style={styles.paymentMethodRow}>
+                <Text style={styles.paymentMethodName}>In circolazione</Text>
+                <Text style={styles.topProductStats}>
+                  {formatTokens(summary.tokens.issued - summary.tokens.redeemed)}
+                </Text>
+              </View>
+            </Card>
+          )}
+
+          {summary.refundReasons.length > 0 && (
+            <Card style={styles.paymentMethodsSection} padding="lg" variant="filled">
+              <Text style={styles.topProductsTitle}>Storni e Rimborsi (dedotti dall'incasso)</Text>
+              <View style={styles.paymentMethodRow}>
+                <Text style={styles.paymentMethodName}>Ordini stornati</Text>
+                <Text style={styles.topProductStats}>
+                  {summary.refunds.voided} ordini • {formatMoney(summary.refunds.voidedTotal)}
+                </Text>
+              </View>
+              <View style={styles.paymentMethodRow}>
+                <Text style={styles.paymentMethodName}>Rimborsi parziali</Text>
+                <Text style={styles.topProductStats}>
+                  {summary.refunds.refunded} rimborsi • {formatMoney(summary.refunds.refundedTotal)}
+                </Text>
+              </View>
+              {summary.refundReasons.map(entry => (
+                <View key={entry.reason} style={styles.paymentMethodRow}>
+                  <Text style={styles.paymentMethodName} numberOfLines={1}>
+                    {entry.reason}
+                  </Text>
+                  <Text style={styles.topProductStats}>
+                    {entry.count} • {formatMoney(entry.total)}
+                  </Text>
+                </View>
+              ))}
+            </Card>
+          )}
+
+          {summary.promotions.length > 0 && (
+            <Card style={styles.paymentMethodsSection} padding="lg" variant="filled">
+              <Text style={styles.topProductsTitle}>Promozioni</Text>
+              {summary.promotions.map(entry => (
+                <View key={entry.name} style={styles.paymentMethodRow}>
+                  <Text style={styles.paymentMethodName} numberOfLines={1}>
+                    🎁 {entry.name}
+                  </Text>
+                  <Text style={styles.topProductStats}>
+                    {entry.count} ordini • {formatMoney(entry.total)}
+                  </Text>
+                </View>
+              ))}
+            </Card>
+          )}
+
           {summary.products.length > 0 && (
             <Card style={styles.topProductsSection} padding="lg" variant="filled">
               <Text style={styles.topProductsTitle}>Prodotti Più Venduti</Text>
@@ -222,16 +700,135 @@ export default function HistoryScreen() {
               />
             </Card>
           )}
+
+          {summary.bundles.length > 0 && (
+            <Card style={styles.paymentMethodsSection} padding="lg" variant="filled">
+              <Text style={styles.topProductsTitle}>Menu Venduti</Text>
+              {summary.bundles.map(entry => (
+                <View key={entry.name} style={styles.paymentMethodRow}>
+                  <Text style={styles.paymentMethodName} numberOfLines={1}>
+                    {entry.emoji} {entry.name}
+                  </Text>
+                  <Text style={styles.topProductStats}>
+                    {entry.count} venduti • {formatMoney(entry.total)}
+                  </Text>
+                </View>
+              ))}
+            </Card>
+          )}
         </View>
       )}
 
-      {orders.length > 0 && (
+      {!selectedSession && (
+        <Card style={styles.stockSection} padding="lg" variant="filled">
+          <View style={styles.cashDrawerHeader}>
+            <Text style={styles.topProductsTitle}>Cassa</Text>
+            <Button
+              title="Gestisci"
+              variant="secondary"
+              size="small"
+              onPress={() => navigation.navigate('CashDrawer')}
+              accessibilityLabel="Open cash drawer"
+            />
+          </View>
+          <View style={styles.paymentMethodRow}>
+            <Text style={styles.paymentMethodName}>Atteso in cassa</Text>
+            <Text style={styles.topProductStats}>{formatMoney(drawerSummary.expected)}</Text>
+          </View>
+        </Card>
+      )}
+
+      {selectedSession && (
+        <Card style={styles.stockSection} padding="lg" variant="filled">
+          <Text style={styles.topProductsTitle}>Cassa</Text>
+          {selectedSession.cashDrawer && (
+            <View style={styles.paymentMethodRow}>
+              <Text style={styles.paymentMethodName}>Fondo cassa</Text>
+              <Text style={styles.topProductStats}>
+                {formatMoney(selectedSession.cashDrawer.openingFloat)}
+              </Text>
+            </View>
+          )}
+          {selectedSession.cashCount ? (
+            <>
+              <View style={styles.paymentMethodRow}>
+                <Text style={styles.paymentMethodName}>Atteso</Text>
+                <Text style={styles.topProductStats}>
+                  {formatMoney(selectedSession.cashCount.expected)}
+                </Text>
+              </View>
+              <View style={styles.paymentMethodRow}>
+                <Text style={styles.paymentMethodName}>Contato</Text>
+                <Text style={styles.topProductStats}>
+                  {formatMoney(selectedSession.cashCount.counted)}
+                </Text>
+              </View>
+              <Text style={styles.cashOverShort}>{formatOverShort(selectedSession.cashCount)}</Text>
+            </>
+          ) : (
+            <Text style={styles.topProductStats}>Conteggio non eseguito</Text>
+          )}
+        </Card>
+      )}
+
+      {sessionComparison.length > 1 && (
+        <Card style={styles.stockSection} padding="lg" variant="filled">
+          <Text style={styles.topProductsTitle}>Confronto Sessioni</Text>
+          {sessionComparison.map(row => (
+            <View key={row.id ?? 'current'} style={styles.paymentMethodRow}>
+              <Text
+                style={[styles.paymentMethodName, row.id === selectedSessionId && styles.selectedSessionName]}
+                numberOfLines={1}
+              >
+                {row.name}
+              </Text>
+              <Text style={styles.topProductStats}>
+                {row.summary.totalOrders} ordini • {row.units} pz • {formatMoney(row.summary.totalRevenue)}
+              </Text>
+            </View>
+          ))}
+        </Card>
+      )}
+
+      {!selectedSession && stockOverview.length > 0 && (
+        <Card style={styles.stockSection} padding="lg" variant="filled">
+          <Text style={styles.topProductsTitle}>Scorte</Text>
+          {stockOverview.map(entry => (
+            <View
+              key={entry.variant ? `${entry.product.id}/${entry.variant.id}` : entry.product.id}
+              style={styles.paymentMethodRow}
+            >
+              <Text style={styles.paymentMethodName} numberOfLines={1}>
+                {entry.product.emoji} {entry.product.name}
+                {entry.variant ? ` (${entry.variant.name})` : ''}
+              </Text>
+              <Text style={[styles.topProductStats, entry.remaining === 0 && styles.soldOutStats]}>
+                {formatStock(entry)}
+              </Text>
+            </View>
+          ))}
+        </Card>
+      )}
+
+      {viewedOrders.length > 0 && (
         <View style={styles.ordersSectionHeader}>
           <Text style={styles.ordersSectionTitle}>Tutti gli Ordini</Text>
         </View>
       )}
     </>
-  ), [summary, renderTopProduct, orders.length]);
+  ), [
+    summary,
+    renderTopProduct,
+    viewedOrders.length,
+    selectedSession,
+    selectedSessionId,
+    sessionComparison,
+    stockOverview,
+    drawerSummary.expected,
+    navigation,
+    formatStock,
+    formatDate,
+  ]);
 
   const ListEmptyComponent = useCallback(() => (
     <EmptyState
@@ -249,19 +846,74 @@ export default function HistoryScreen() {
     <SafeAreaView style={styles.container} edges={['top']}>
       <View style={styles.header}>
         <Text style={styles.title}>Storico Ordini</Text>
-        {orders.length > 0 && (
-          <Button
-            title="Reset Sessione"
-            variant="danger"
-            size="small"
-            onPress={handleResetSession}
-            accessibilityLabel="Reset session"
-          />
-        )}
+        <View style={styles.headerActions}>
+          {viewedOrders.length > 0 && (
+            <Button
+              title="Report Z"
+              variant="secondary"
+              size="small"
+              onPress={() => navigation.navigate('ZReport', { sessionId: selectedSessionId })}
+              accessibilityLabel="Open Z report"
+            />
+          )}
+          {selectedSession && (
+            <Button
+              title="Esporta"
+              variant="secondary"
+              size="small"
+              onPress={handleExportSession}
+              accessibilityLabel="Export session"
+            />
+          )}
+          {!selectedSession && !editingOrderId && canCloseSession && (
+            <Button
+              title="Chiudi Evento"
+              variant="danger"
+              size="small"
+              onPress={openCloseModal}
+              accessibilityLabel="Close event"
+            />
+          )}
+        </View>
       </View>
 
+      <LoadFailedBanner visible={loadFailed} onRetry={reloadData} />
+      <QuarantineBanner
+        count={quarantine.length}
+        onRepair={() => navigation.navigate('Repair')}
+      />
+
+      {sessions.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.sessionPicker}
+          contentContainerStyle={styles.sessionChips}
+        >
+          {[undefined, ...sessions].map(session => {
+            const selected = session?.id === selectedSessionId;
+            return (
+              <TouchableOpacity
+                key={session?.id ?? 'current'}
+                style={[styles.sessionChip, selected && styles.sessionChipSelected]}
+                onPress={() => setSelectedSessionId(session?.id)}
+                accessibilityRole="radio"
+                accessibilityLabel={session ? `Show session ${session.name}` : 'Show current session'}
+                accessibilityState={{ selected }}
+              >
+                <Text style={[styles.sessionChipText, selected && styles.sessionChipTextSelected]}>
+                  {session
+                    ? `${session.name} • ${session.closedAt.toLocaleDateString('it-IT')}`
+                    : 'Sessione corrente'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
       <FlatList
-        data={orders}
+        data={viewedOrders}
         renderItem={renderOrder}
         keyExtractor={item => item.id}
         ListHeaderComponent={ListHeaderComponent}
@@ -272,6 +924,176 @@ export default function HistoryScreen() {
         maxToRenderPerBatch={5}
         initialNumToRender={8}
       />
+
+      {/* Void / Refund Modal */}
+      <Modal
+        visible={refundTarget !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={closeRefundModal}
+        accessibilityViewIsModal
+      >
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalOverlay}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>
+              {refundTarget?.type === 'void' ? 'Storna Ordine' : 'Rimborso Parziale'}
+            </Text>
+
+            {refundTarget?.order.items.map((item, itemIndex) => {
+              const refundable = getRefundableQuantity(refundTarget.order, itemIndex);
+              if (refundable === 0) return null;
+              const selected = refundTarget.type === 'void' ? refundable : refundQuantities[itemIndex] ?? 0;
+              return (
+                <View key={itemIndex} style={styles.orderItemRow}>
+                  <Text style={styles.orderItemText} numberOfLines={1}>
+                    {item.product.emoji} {getItemName(item)} (max {refundable})
+                  </Text>
+                  {refundTarget.type === 'partial' && (
+                    <TouchableOpacity
+                      style={styles.quantityButton}
+                      onPress={() => changeRefundQuantity(itemIndex, -1)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Refund one less ${getItemName(item)}`}
+                    >
+                      <Text style={styles.quantityButtonText}>-</Text>
+                    </TouchableOpacity>
+                  )}
+                  <Text style={styles.refundQuantity}>{selected}</Text>
+                  {refundTarget.type === 'partial' && (
+                    <TouchableOpacity
+                      style={styles.quantityButton}
+                      onPress={() => changeRefundQuantity(itemIndex, 1)}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Refund one more ${getItemName(item)}`}
+                    >
+                      <Text style={styles.quantityButtonText}>+</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })}
+
+            <View style={styles.orderTotal}>
+              <Text style={styles.orderTotalLabel}>Da restituire:</Text>
+              <Text style={styles.orderTotalAmount}>{formatMoney(refundAmount)}</Text>
+            </View>
+
+            <TextInput
+              style={styles.reasonInput}
+              placeholder="Motivo (es. Ordine sbagliato)"
+              value={refundReason}
+              onChangeText={setRefundReason}
+              maxLength={50}
+              accessibilityLabel="Refund reason input"
+            />
+
+            <View style={styles.modalActions}>
+              <Button
+                title="Indietro"
+                variant="ghost"
+                size="large"
+                onPress={closeRefundModal}
+                style={styles.modalActionButton}
+              />
+              <Button
+                title="Conferma"
+                variant={refundTarget?.type === 'void' ? 'warning' : 'primary'}
+                size="large"
+                onPress={handleConfirmRefund}
+                style={styles.modalActionButton}
+                accessibilityLabel="Confirm refund"
+              />
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      {/* Close Event Modal */}
+      <Modal
+        visible={closeModalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setCloseModalVisible(false)}
+        accessibilityViewIsModal
+      >
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalOverlay}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Chiudi Evento</Text>
+            <Text style={styles.modalMessage}>
+              {orders.length} ordini ({formatMoney(summary.totalRevenue)}) verranno archiviati e
+              si aprirà una nuova sessione vuota.
+            </Text>
+
+            <TextInput
+              style={styles.reasonInput}
+              placeholder="Nome dell'evento"
+              value={sessionName}
+              onChangeText={setSessionName}
+              maxLength={40}
+              accessibilityLabel="Event name input"
+            />
+
+            <Text style={styles.cashCountTitle}>Conteggio cassa</Text>
+            <ScrollView style={styles.cashCountList} keyboardShouldPersistTaps="handled">
+              {EURO_DENOMINATIONS.map(value => (
+                <View key={value} style={styles.cashCountRow}>
+                  <Text style={styles.cashCountValue}>{formatMoney(value)}</Text>
+                  <TextInput
+                    style={styles.cashCountInput}
+                    placeholder="0"
+                    value={cashCountInputs[value] ?? ''}
+                    onChangeText={text =>
+                      setCashCountInputs(prev => ({ ...prev, [value]: text.replace(/[^0-9]/g, '') }))
+                    }
+                    keyboardType="number-pad"
+                    maxLength={4}
+                    accessibilityLabel={`Pieces of ${formatMoney(value)}`}
+                  />
+                </View>
+              ))}
+            </ScrollView>
+            <View style={styles.cashCountTotals}>
+              <View style={styles.paymentMethodRow}>
+                <Text style={styles.paymentMethodName}>Atteso in cassa</Text>
+                <Text style={styles.topProductStats}>{formatMoney(drawerSummary.expected)}</Text>
+              </View>
+              {hasCashCount && (
+                <>
+                  <View style={styles.paymentMethodRow}>
+                    <Text style={styles.paymentMethodName}>Contato</Text>
+                    <Text style={styles.topProductStats}>{formatMoney(cashCount.counted)}</Text>
+                  </View>
+                  <Text style={styles.cashOverShort}>{formatOverShort(cashCount)}</Text>
+                </>
+              )}
+            </View>
+
+            <View style={styles.modalActions}>
+              <Button
+                title="Annulla"
+                variant="ghost"
+                size="large"
+                onPress={() => setCloseModalVisible(false)}
+                style={styles.modalActionButton}
+              />
+              <Button
+                title="Chiudi"
+                variant="danger"
+                size="large"
+                onPress={handleCloseSession}
+                style={styles.modalActionButton}
+                accessibilityLabel="Confirm close event"
+              />
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -295,9 +1117,54 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: COLORS.textPrimary,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
   listContent: {
     flexGrow: 1,
   },
+  sessionPicker: {
+    flexGrow: 0,
+    backgroundColor: COLORS.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  sessionChips: {
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.sm,
+  },
+  sessionChip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    minHeight: TOUCH_TARGETS.small,
+    justifyContent: 'center',
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  sessionChipSelected: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary,
+  },
+  sessionChipText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textPrimary,
+  },
+  sessionChipTextSelected: {
+    color: COLORS.surface,
+  },
+  sessionDates: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginTop: -SPACING.md,
+    marginBottom: SPACING.lg,
+  },
+  selectedSessionName: {
+    fontWeight: 'bold',
+  },
   summarySection: {
     backgroundColor: COLORS.surface,
     padding: SPACING.lg,
@@ -334,6 +1201,25 @@ const styles = StyleSheet.create({
     color: COLORS.textSecondary,
     textAlign: 'center',
   },
+  paymentMethodsSection: {
+    marginBottom: SPACING.md,
+  },
+  paymentMethodRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    padding: SPACING.md,
+    borderRadius: BORDER_RADIUS.md,
+    marginBottom: SPACING.sm,
+  },
+  paymentMethodName: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+    flex: 1,
+    marginRight: SPACING.sm,
+  },
   topProductsSection: {
     marginTop: SPACING.sm,
   },
@@ -382,6 +1268,60 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.sm,
     color: COLORS.textSecondary,
   },
+  soldOutStats: {
+    color: COLORS.error,
+    fontWeight: '600',
+  },
+  cashDrawerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cashOverShort: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+    marginTop: SPACING.sm,
+  },
+  cashCountTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+    marginBottom: SPACING.sm,
+  },
+  cashCountList: {
+    maxHeight: 220,
+    marginBottom: SPACING.md,
+  },
+  cashCountTotals: {
+    marginBottom: SPACING.lg,
+  },
+  cashCountRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: SPACING.xs,
+  },
+  cashCountValue: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textPrimary,
+  },
+  cashCountInput: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    fontSize: FONT_SIZES.md,
+    minHeight: TOUCH_TARGETS.small,
+    width: 80,
+    textAlign: 'right',
+    color: COLORS.textPrimary,
+  },
+  stockSection: {
+    marginHorizontal: SPACING.lg,
+    marginTop: SPACING.lg,
+  },
   ordersSectionHeader: {
     padding: SPACING.lg,
     paddingBottom: SPACING.sm,
@@ -395,6 +1335,24 @@ const styles = StyleSheet.create({
     marginBottom: SPACING.md,
     marginHorizontal: SPACING.lg,
   },
+  voidedOrderCard: {
+    marginBottom: SPACING.md,
+    marginHorizontal: SPACING.lg,
+    opacity: 0.6,
+  },
+  orderActions: {
+    alignItems: 'flex-end',
+    gap: SPACING.xs,
+  },
+  orderStatus: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: 'bold',
+    color: COLORS.warning,
+    marginTop: SPACING.xs,
+  },
+  orderStatusVoided: {
+    color: COLORS.error,
+  },
   orderHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -431,6 +1389,16 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: COLORS.textPrimary,
   },
+  discountText: {
+    color: COLORS.warning,
+  },
+  modifierText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  refundText: {
+    color: COLORS.error,
+  },
   orderFooter: {
     paddingTop: SPACING.md,
     borderTopWidth: 1,
@@ -463,4 +1431,67 @@ const styles = StyleSheet.create({
     color: COLORS.textSecondary,
     marginBottom: 2,
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.lg,
+  },
+  modalContent: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.xl,
+    padding: SPACING.xxl,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: FONT_SIZES.xxl,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    color: COLORS.textPrimary,
+    marginBottom: SPACING.lg,
+  },
+  modalMessage: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.lg,
+  },
+  quantityButton: {
+    width: TOUCH_TARGETS.medium,
+    height: TOUCH_TARGETS.medium,
+    borderRadius: BORDER_RADIUS.round,
+    backgroundColor: COLORS.info,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  quantityButtonText: {
+    color: COLORS.textInverse,
+    fontSize: FONT_SIZES.xxl,
+    fontWeight: 'bold',
+  },
+  refundQuantity: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+    minWidth: 32,
+    textAlign: 'center',
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.lg,
+    minHeight: TOUCH_TARGETS.medium,
+    marginBottom: SPACING.lg,
+    color: COLORS.textPrimary,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+  },
+  modalActionButton: {
+    flex: 1,
+  },
 });
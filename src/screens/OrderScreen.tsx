@@ -9,13 +9,23 @@
  * - Real-time order total calculation
  * - Quantity adjustment with +/- controls
  * - Cash and direct payment flows
- * - Receipt modal with payment details
+ * - Receipt modal with payment method picker
+ * - Split payments across several methods, with remaining balance and change
+ * - Percentage or fixed discounts on single lines or the whole order, with a reason
+ * - Park orders under a customer name or table and resume them later
+ * - Edit mode for a completed order reopened from the history, saved in place or cancelled
+ * - Selection sheet for products with variants (e.g. piccola/media) or modifiers (e.g. sauces, "no onions")
+ * - Bundles (menus) with fixed components or one pick from a category, checked against component stock
+ * - Time-based prices (e.g. happy hour) named on the lines and receipt they apply to, re-checked when the receipt opens
+ * - Remaining stock on product buttons; sold-out products are greyed out and disabled
+ * - Low-stock banner, and a badge on the Order tab counting low-stock products
+ * - Undo toast after each change to the order, with redo
  * - Responsive layout adapting to device size
  *
  * @module screens/OrderScreen
  */
 
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import {
   View,
   Text,
@@ -31,12 +41,59 @@ import {
   Pressable,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { TabView, SceneMap, TabBar, Route } from 'react-native-tab-view';
 import { useApp } from '../context/AppContext';
-import { Product, OrderItem } from '../types';
-import { DEFAULT_CATEGORIES } from '../data/categories';
-import { Button, Card, EmptyState, Loading } from '../components';
+import {
+  Product,
+  OrderItem,
+  Category,
+  PaymentMethod,
+  PaymentLeg,
+  Discount,
+  LineSelection,
+  ParkedOrder,
+  CompleteOrderError,
+  RootTabParamList,
+} from '../types';
+import { ALL_CATEGORY } from '../data/categories';
+import { CASH_PAYMENT_METHOD_ID, TOKENS_PAYMENT_METHOD } from '../data/paymentMethods';
+import {
+  Button,
+  Card,
+  DepositReturns,
+  DiscountModal,
+  EmptyState,
+  Loading,
+  LowStockBanner,
+  ParkOrderModal,
+  ParkedOrdersModal,
+  ProductSelectionSheet,
+  SplitPaymentModal,
+  UndoToast,
+} from '../components';
 import { triggerHaptic } from '../utils/haptics';
+import { parseMoney, formatMoney, formatMoneyInput, Cents } from '../utils/money';
+import {
+  calculateOrderTotals,
+  formatDiscountValue,
+  getDiscountAmount,
+  getLineSubtotal,
+  getLineTotal,
+  getUnitPrice,
+} from '../utils/pricing';
+import { getDepositAmounts, getLineDeposit, getUnitDeposit } from '../utils/deposits';
+import { formatTokens, getOrderTokenPrice } from '../utils/tokens';
+import { formatModifiers, formatPriceDelta, hasModifiers } from '../utils/modifiers';
+import { getItemName, getLineKey } from '../utils/orderItems';
+import {
+  expandBundleComponents,
+  formatBundleComponents,
+  getSlotChoices,
+  isBundle,
+} from '../utils/bundles';
+import { getAvailableStock, isLowStock, isSoldOut } from '../utils/stock';
 import { isTablet } from '../utils/responsive';
 import {
   COLORS,
@@ -47,113 +104,454 @@ import {
   APP_CONSTANTS,
 } from '../constants/theme';
 
+/** What the discount modal is editing: one line of the order, or the whole order */
+type DiscountTarget = { kind: 'item'; item: OrderItem } | { kind: 'order' };
+
+/** Message shown when an order can't be completed, per reason */
+const COMPLETE_ORDER_ERRORS: Record<CompleteOrderError, string> = {
+  empty: 'Aggiungi almeno un prodotto all\'ordine',
+  stock: 'Scorte insufficienti per alcuni prodotti: togli le unità mancanti e riprova',
+  pricesChanged: 'I prezzi sono cambiati con la fascia oraria: controlla il nuovo totale e conferma di nuovo',
+  tokens: 'Questo ordine non si può pagare con i gettoni',
+  payments: 'I pagamenti non corrispondono al totale dell\'ordine',
+};
+
 /**
  * OrderScreen component
  */
 export default function OrderScreen() {
-  const { products, currentOrder, addToCurrentOrder, removeFromCurrentOrder, clearCurrentOrder, completeOrder, isLoading } = useApp();
+  const {
+    products,
+    categories,
+    paymentMethods,
+    currentOrder,
+    currentOrderDiscount,
+    currentOrderPromotions,
+    currentOrderDepositReturns,
+    editingOrderId,
+    promotions,
+    addToCurrentOrder,
+    removeFromCurrentOrder,
+    addDepositReturn,
+    removeDepositReturn,
+    clearCurrentOrder,
+    setItemDiscount,
+    setOrderDiscount,
+    parkedOrders,
+    parkCurrentOrder,
+    resumeParkedOrder,
+    deleteParkedOrder,
+    repriceCurrentOrder,
+    completeOrder,
+    cancelOrderEdit,
+    undoSteps,
+    redoSteps,
+    undo,
+    redo,
+    isLoading,
+  } = useApp();
+  const navigation = useNavigation<BottomTabNavigationProp<RootTabParamList>>();
   const { width } = useWindowDimensions();
   const [receiptModalVisible, setReceiptModalVisible] = useState(false);
   const [paymentModalVisible, setPaymentModalVisible] = useState(false);
   const [cashPaid, setCashPaid] = useState('');
+  const [selectedPaymentMethod, setSelectedPaymentMethod] = useState(CASH_PAYMENT_METHOD_ID);
+  const [splitModalVisible, setSplitModalVisible] = useState(false);
+  const [discountTarget, setDiscountTarget] = useState<DiscountTarget | null>(null);
+  const [parkModalVisible, setParkModalVisible] = useState(false);
+  const [parkedListVisible, setParkedListVisible] = useState(false);
+  const [selectionProduct, setSelectionProduct] = useState<Product | null>(null);
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [tabIndex, setTabIndex] = useState(0);
 
   const deviceIsTablet = isTablet(width);
 
-  const total = useMemo(
-    () => currentOrder.reduce((sum, item) => sum + item.product.price * item.quantity, 0),
-    [currentOrder]
+  const totals = useMemo(
+    () => calculateOrderTotals(
+      currentOrder,
+      currentOrderDiscount,
+      currentOrderPromotions,
+      currentOrderDepositReturns
+    ),
+    [currentOrder, currentOrderDiscount, currentOrderPromotions, currentOrderDepositReturns]
+  );
+  const depositAmounts = useMemo(() => getDepositAmounts(products), [products]);
+  const hasOrderLines = currentOrder.length > 0 || currentOrderDepositReturns.length > 0;
+  const { total } = totals;
+
+  const cashAmount = parseMoney(cashPaid);
+
+  const lowStockProducts = useMemo(() => products.filter(isLowStock), [products]);
+
+  // Badge the Order tab so shortages are visible from every screen
+  useEffect(() => {
+    navigation.setOptions({
+      tabBarBadge: lowStockProducts.length > 0 ? lowStockProducts.length : undefined,
+    });
+  }, [navigation, lowStockProducts.length]);
+
+  const quantityInOrder = useMemo(() => {
+    const quantities: { [productId: string]: number } = {};
+    // The same product can be on several lines with different variants or modifiers,
+    // or inside bundles; variant units are also counted under "productId/variantId"
+    const add = (key: string, quantity: number) => {
+      quantities[key] = (quantities[key] ?? 0) + quantity;
+    };
+    [...currentOrder, ...expandBundleComponents(currentOrder)].forEach(item => {
+      add(item.product.id, item.quantity);
+      if (item.variantId) {
+        add(`${item.product.id}/${item.variantId}`, item.quantity);
+      }
+    });
+    return quantities;
+  }, [currentOrder]);
+
+  const categoryTabs = useMemo(() => [ALL_CATEGORY, ...categories], [categories]);
+
+  // Fall back to "Tutti" if the selected category has been deleted
+  const activeCategory = categoryTabs.some(c => c.id === selectedCategory)
+    ? selectedCategory
+    : ALL_CATEGORY.id;
+
+  const enabledPaymentMethods = useMemo(
+    () => paymentMethods.filter(method => method.enabled),
+    [paymentMethods]
   );
 
+  // Tokens pay for the goods only, so they are offered when every line has a token price and no deposits
+  const orderTokenPrice = useMemo(() => getOrderTokenPrice(currentOrder), [currentOrder]);
+  const canPayWithTokens =
+    orderTokenPrice !== null && totals.depositsCharged === 0 && currentOrderDepositReturns.length === 0;
+  const checkoutPaymentMethods = useMemo(
+    () => (canPayWithTokens ? [...enabledPaymentMethods, TOKENS_PAYMENT_METHOD] : enabledPaymentMethods),
+    [canPayWithTokens, enabledPaymentMethods]
+  );
+
+  // Fall back to cash if the selected method has been disabled or deleted
+  const activePaymentMethod = checkoutPaymentMethods.some(m => m.id === selectedPaymentMethod)
+    ? selectedPaymentMethod
+    : CASH_PAYMENT_METHOD_ID;
+
   const filteredProducts = useMemo(() => {
-    if (selectedCategory === 'all') {
+    if (activeCategory === ALL_CATEGORY.id) {
       return products;
     }
-    return products.filter(p => p.category === selectedCategory);
-  }, [products, selectedCategory]);
+    return products.filter(p => p.category === activeCategory);
+  }, [products, activeCategory]);
 
+  /**
+   * Add a product from the grid; products with variants or modifiers, and
+   * bundles, open the selection sheet first
+   */
   const handleAddToOrder = useCallback((product: Product) => {
+    if (product.variants?.length || hasModifiers(product) || isBundle(product)) {
+      setSelectionProduct(product);
+      triggerHaptic('light');
+      return;
+    }
+
     addToCurrentOrder(product);
     triggerHaptic('light');
   }, [addToCurrentOrder]);
 
-  const handleRemoveFromOrder = useCallback((productId: string) => {
-    removeFromCurrentOrder(productId);
+  const handleIncreaseLine = useCallback((item: OrderItem) => {
+    addToCurrentOrder(item.product, {
+      variantId: item.variantId,
+      modifiers: item.modifiers,
+      bundleComponents: item.bundleComponents,
+    });
+    triggerHaptic('light');
+  }, [addToCurrentOrder]);
+
+  /** Add the product with the choices made in the selection sheet */
+  const handleAddSelection = useCallback((product: Product, selection: LineSelection) => {
+    addToCurrentOrder(product, selection);
+    setSelectionProduct(null);
+    triggerHaptic('success');
+  }, [addToCurrentOrder]);
+
+  const handleRemoveFromOrder = useCallback((lineKey: string) => {
+    removeFromCurrentOrder(lineKey);
     triggerHaptic('medium');
   }, [removeFromCurrentOrder]);
 
+  const handleReturnDeposit = useCallback((amount: number) => {
+    addDepositReturn(amount);
+    triggerHaptic('light');
+  }, [addDepositReturn]);
+
+  const handleRemoveDepositReturn = useCallback((amount: number) => {
+    removeDepositReturn(amount);
+    triggerHaptic('medium');
+  }, [removeDepositReturn]);
+
   const handleCompleteOrder = useCallback(() => {
-    if (currentOrder.length === 0) {
+    if (!hasOrderLines) {
       Alert.alert('Ordine vuoto', 'Aggiungi almeno un prodotto all\'ordine');
       return;
     }
+    repriceCurrentOrder();
     triggerHaptic('medium');
     setReceiptModalVisible(true);
-  }, [currentOrder.length]);
+  }, [hasOrderLines, repriceCurrentOrder]);
 
   const handlePayWithCash = useCallback(() => {
     setReceiptModalVisible(false);
     setPaymentModalVisible(true);
   }, []);
 
-  const handleConfirmPayment = useCallback(() => {
-    const cashAmount = parseFloat(cashPaid);
+  /**
+   * Complete the order and tell the cashier whether it was saved
+   * @returns Whether the order was saved
+   */
+  const finishOrder = useCallback((payment: string | PaymentLeg[], tendered?: Cents): boolean => {
+    const result = completeOrder(payment, tendered);
+    if (!result.success) {
+      triggerHaptic('error');
+      Alert.alert('Errore', COMPLETE_ORDER_ERRORS[result.error]);
+      return false;
+    }
 
-    if (isNaN(cashAmount) || cashAmount < total) {
+    setSelectedPaymentMethod(CASH_PAYMENT_METHOD_ID);
+    triggerHaptic('success');
+    Alert.alert('Successo', 'Ordine completato!');
+    return true;
+  }, [completeOrder]);
+
+  const handleConfirmPayment = useCallback(() => {
+    if (cashAmount === null || cashAmount < total) {
       Alert.alert('Errore', 'Importo insufficiente');
       return;
     }
 
-    completeOrder(cashAmount);
+    if (!finishOrder(CASH_PAYMENT_METHOD_ID, cashAmount)) return;
     setPaymentModalVisible(false);
     setCashPaid('');
-    triggerHaptic('success');
-    Alert.alert('Successo', 'Ordine completato!');
-  }, [cashPaid, total, completeOrder]);
+  }, [cashAmount, total, finishOrder]);
+
+  const handleCompleteWithMethod = useCallback(() => {
+    if (!finishOrder(activePaymentMethod)) return;
+    setReceiptModalVisible(false);
+  }, [activePaymentMethod, finishOrder]);
+
+  const handleSelectPaymentMethod = useCallback((methodId: string) => {
+    setSelectedPaymentMethod(methodId);
+    triggerHaptic('light');
+  }, []);
 
-  const handleCompleteWithoutCash = useCallback(() => {
-    completeOrder();
+  const handleOpenSplit = useCallback(() => {
+    // Tokens can't be part of a split payment
+    if (selectedPaymentMethod === TOKENS_PAYMENT_METHOD.id) {
+      setSelectedPaymentMethod(CASH_PAYMENT_METHOD_ID);
+    }
     setReceiptModalVisible(false);
+    setSplitModalVisible(true);
+  }, [selectedPaymentMethod]);
+
+  const handleCloseSplit = useCallback(() => {
+    setSplitModalVisible(false);
+    setReceiptModalVisible(true);
+  }, []);
+
+  const handleConfirmSplit = useCallback((payments: PaymentLeg[], cashTendered?: Cents): boolean => {
+    if (!finishOrder(payments, cashTendered)) return false;
+    setSplitModalVisible(false);
+    return true;
+  }, [finishOrder]);
+
+  /** Open the discount modal for a line or the whole order, in place of the receipt */
+  const handleOpenDiscount = useCallback((target: DiscountTarget) => {
+    setDiscountTarget(target);
+    setReceiptModalVisible(false);
+  }, []);
+
+  const targetDiscount = discountTarget?.kind === 'item' ? discountTarget.item.discount : currentOrderDiscount;
+
+  const closeDiscountModal = useCallback(() => {
+    setDiscountTarget(null);
+    setReceiptModalVisible(true);
+  }, []);
+
+  const applyDiscount = useCallback((discount?: Discount) => {
+    if (!discountTarget) return;
+
+    if (discountTarget.kind === 'item') {
+      setItemDiscount(getLineKey(discountTarget.item), discount);
+    } else {
+      setOrderDiscount(discount);
+    }
+    closeDiscountModal();
+  }, [discountTarget, setItemDiscount, setOrderDiscount, closeDiscountModal]);
+
+  const parkedNames = useMemo(() => parkedOrders.map(p => p.name), [parkedOrders]);
+
+  const handleOpenPark = useCallback(() => {
+    setParkModalVisible(true);
+  }, []);
+
+  const handleConfirmPark = useCallback((name: string) => {
+    parkCurrentOrder(name);
+    setParkModalVisible(false);
     triggerHaptic('success');
-    Alert.alert('Successo', 'Ordine completato!');
-  }, [completeOrder]);
+  }, [parkCurrentOrder]);
 
-  const handleClearOrder = useCallback(() => {
+  /**
+   * Resume a parked order into the builder
+   * The current order must be parked or cleared first so it isn't lost.
+   */
+  const handleResumeParked = useCallback((parkedOrder: ParkedOrder) => {
+    if (editingOrderId) {
+      Alert.alert(
+        'Modifica in corso',
+        'Salva o annulla la modifica dell\'ordine prima di riprendere un ordine sospeso'
+      );
+      return;
+    }
+    if (currentOrder.length > 0 || currentOrderDiscount || currentOrderDepositReturns.length > 0) {
+      Alert.alert(
+        'Ordine in corso',
+        'Parcheggia o cancella l\'ordine corrente prima di riprenderne un altro'
+      );
+      return;
+    }
+
+    resumeParkedOrder(parkedOrder.id);
+    setParkedListVisible(false);
+    triggerHaptic('success');
+  }, [
+    editingOrderId,
+    currentOrder.length,
+    currentOrderDiscount,
+    currentOrderDepositReturns.length,
+    resumeParkedOrder,
+  ]);
+
+  const handleDeleteParked = useCallback((parkedOrder: ParkedOrder) => {
     Alert.alert(
-      'Cancella ordine',
-      'Vuoi cancellare l\'ordine corrente?',
+      'Elimina ordine sospeso',
+      `Vuoi eliminare l'ordine di "${parkedOrder.name}"? Non verrà registrato alcun incasso.`,
       [
-        { text: 'No', style: 'cancel' },
+        { text: 'Annulla', style: 'cancel' },
         {
-          text: 'Sì',
+          text: 'Elimina',
+          style: 'destructive',
           onPress: () => {
-            clearCurrentOrder();
+            deleteParkedOrder(parkedOrder.id);
             triggerHaptic('error');
           },
         },
       ]
     );
-  }, [clearCurrentOrder]);
+  }, [deleteParkedOrder]);
 
-  const renderProductItem = useCallback(({ item: product }: { item: Product }) => (
+  const renderPaymentMethod = useCallback(({ item }: { item: PaymentMethod }) => (
     <TouchableOpacity
       style={[
-        styles.productButton,
-        { backgroundColor: product.buttonColor },
+        styles.categoryTab,
+        activePaymentMethod === item.id && styles.categoryTabActive,
       ]}
-      onPress={() => handleAddToOrder(product)}
-      activeOpacity={0.8}
+      onPress={() => handleSelectPaymentMethod(item.id)}
       accessibilityRole="button"
-      accessibilityLabel={`Add ${product.name}, ${product.price} euros`}
+      accessibilityLabel={`Pay with ${item.name}`}
+      accessibilityState={{ selected: activePaymentMethod === item.id }}
     >
-      <Text style={styles.productEmoji}>{product.emoji}</Text>
-      <Text style={styles.productButtonName} numberOfLines={2}>
-        {product.name}
+      <Text style={styles.categoryEmoji}>{item.emoji}</Text>
+      <Text
+        style={[
+          styles.categoryTabText,
+          activePaymentMethod === item.id && styles.categoryTabTextActive,
+        ]}
+      >
+        {item.name}
       </Text>
-      <Text style={styles.productButtonPrice}>€ {product.price.toFixed(2)}</Text>
     </TouchableOpacity>
-  ), [handleAddToOrder]);
+  ), [activePaymentMethod, handleSelectPaymentMethod]);
+
+  const handleCancelEdit = useCallback(() => {
+    Alert.alert(
+      'Annulla modifica',
+      'Vuoi annullare le modifiche? L\'ordine resterà com\'era.',
+      [
+        { text: 'No', style: 'cancel' },
+        {
+          text: 'Sì',
+          onPress: () => {
+            cancelOrderEdit();
+            triggerHaptic('warning');
+          },
+        },
+      ]
+    );
+  }, [cancelOrderEdit]);
+
+  const handleClearOrder = useCallback(() => {
+    Alert.alert(
+      'Cancella ordine',
+      'Vuoi cancellare l\'ordine corrente?',
+      [
+        { text: 'No', style: 'cancel' },
+        {
+          text: 'Sì',
+          onPress: () => {
+            clearCurrentOrder();
+            triggerHaptic('error');
+          },
+        },
+      ]
+    );
+  }, [clearCurrentOrder]);
+
+  const renderProductItem = useCallback(({ item: product }: { item: Product }) => {
+    const soldOut = isSoldOut(product);
+    const available = getAvailableStock(product, quantityInOrder[product.id]);
+    // A bundle can't be sold when one of its slots has nothing left to pick
+    const slotEmpty = (product.bundleSlots ?? []).some(slot =>
+      getSlotChoices(slot, products).every(
+        choice => getAvailableStock(choice, quantityInOrder[choice.id]) === 0
+      )
+    );
+    const unavailable = soldOut || available === 0 || slotEmpty;
+    // Products with variants show their cheapest price
+    const fromPrice = product.variants?.length
+      ? Math.min(...product.variants.map(variant => variant.price))
+      : undefined;
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.productButton,
+          { backgroundColor: soldOut ? COLORS.textDisabled : product.buttonColor },
+          unavailable && styles.productButtonUnavailable,
+        ]}
+        onPress={() => handleAddToOrder(product)}
+        disabled={unavailable}
+        activeOpacity={0.8}
+        accessibilityRole="button"
+        accessibilityLabel={
+          soldOut
+            ? `${product.name}, sold out`
+            : `Add ${product.name}, ${formatMoneyInput(fromPrice ?? product.price)} euros`
+        }
+        accessibilityState={{ disabled: unavailable }}
+      >
+        <Text style={styles.productEmoji}>{product.emoji}</Text>
+        <Text style={styles.productButtonName} numberOfLines={2}>
+          {product.name}
+        </Text>
+        <Text style={styles.productButtonPrice}>
+          {fromPrice === undefined ? formatMoney(product.price) : `da ${formatMoney(fromPrice)}`}
+        </Text>
+        {product.tokenPrice !== undefined && (
+          <Text style={styles.productButtonStock}>🪙 {formatTokens(product.tokenPrice)}</Text>
+        )}
+        {product.stock !== undefined && (
+          <Text style={styles.productButtonStock}>
+            {soldOut ? 'Esaurito' : `Rimasti: ${available}`}
+          </Text>
+        )}
+      </TouchableOpacity>
+    );
+  }, [handleAddToOrder, quantityInOrder, products]);
 
   const renderOrderItem = useCallback(({ item }: { item: OrderItem }) => (
     <Card style={styles.orderItemCard} padding="md">
@@ -161,18 +559,44 @@ export default function OrderScreen() {
         <Text style={styles.orderItemEmoji}>{item.product.emoji}</Text>
         <View style={styles.orderItemDetails}>
           <Text style={styles.orderItemName} numberOfLines={2}>
-            {item.product.name}
+            {getItemName(item)}
           </Text>
+          {item.bundleComponents && (
+            <Text style={styles.modifierText} numberOfLines={2}>
+              {formatBundleComponents(item.bundleComponents)}
+            </Text>
+          )}
+          {item.pricingRule && (
+            <Text style={styles.discountText} numberOfLines={1}>
+              🕒 {item.pricingRule.name}
+            </Text>
+          )}
+          {item.modifiers && item.modifiers.length > 0 && (
+            <Text style={styles.modifierText} numberOfLines={2}>
+              {formatModifiers(item.modifiers)}
+            </Text>
+          )}
           <Text style={styles.orderItemPrice}>
-            € {item.product.price.toFixed(2)} x {item.quantity} = € {(item.product.price * item.quantity).toFixed(2)}
+            {formatMoney(getUnitPrice(item))} x {item.quantity} = {formatMoney(getLineTotal(item))}
           </Text>
+          {item.discount && (
+            <Text style={styles.discountText} numberOfLines={1}>
+              Sconto {formatDiscountValue(item.discount)} ({item.discount.reason})
+            </Text>
+          )}
+          {getUnitDeposit(item) > 0 && (
+            <Text style={styles.modifierText} numberOfLines={1}>
+              ♻️ Cauzione {formatMoney(getUnitDeposit(item))} x {item.quantity} ={' '}
+              {formatMoney(getLineDeposit(item))}
+            </Text>
+          )}
         </View>
         <View style={styles.quantityControls}>
           <TouchableOpacity
             style={styles.quantityButton}
-            onPress={() => handleRemoveFromOrder(item.product.id)}
+            onPress={() => handleRemoveFromOrder(getLineKey(item))}
             accessibilityRole="button"
-            accessibilityLabel={`Decrease quantity of ${item.product.name}`}
+            accessibilityLabel={`Decrease quantity of ${getItemName(item)}`}
           >
             <Text style={styles.quantityButtonText}>-</Text>
           </TouchableOpacity>
@@ -181,22 +605,22 @@ export default function OrderScreen() {
           </Text>
           <TouchableOpacity
             style={styles.quantityButton}
-            onPress={() => handleAddToOrder(item.product)}
+            onPress={() => handleIncreaseLine(item)}
             accessibilityRole="button"
-            accessibilityLabel={`Increase quantity of ${item.product.name}`}
+            accessibilityLabel={`Increase quantity of ${getItemName(item)}`}
           >
             <Text style={styles.quantityButtonText}>+</Text>
           </TouchableOpacity>
         </View>
       </View>
     </Card>
-  ), [handleRemoveFromOrder, handleAddToOrder]);
+  ), [handleRemoveFromOrder, handleIncreaseLine]);
 
-  const renderCategoryTab = useCallback(({ item }: { item: typeof DEFAULT_CATEGORIES[0] }) => (
+  const renderCategoryTab = useCallback(({ item }: { item: Category }) => (
     <TouchableOpacity
       style={[
         styles.categoryTab,
-        selectedCategory === item.id && styles.categoryTabActive,
+        activeCategory === item.id && styles.categoryTabActive,
       ]}
       onPress={() => {
         setSelectedCategory(item.id);
@@ -204,26 +628,26 @@ export default function OrderScreen() {
       }}
       accessibilityRole="tab"
       accessibilityLabel={`Category ${item.name}`}
-      accessibilityState={{ selected: selectedCategory === item.id }}
+      accessibilityState={{ selected: activeCategory === item.id }}
     >
       <Text style={styles.categoryEmoji}>{item.emoji}</Text>
       <Text
         style={[
           styles.categoryTabText,
-          selectedCategory === item.id && styles.categoryTabTextActive,
+          activeCategory === item.id && styles.categoryTabTextActive,
         ]}
       >
         {item.name}
       </Text>
     </TouchableOpacity>
-  ), [selectedCategory]);
+  ), [activeCategory]);
 
   const renderProductsSection = useCallback(() => (
     <View style={styles.productsSection}>
       <Text style={styles.sectionTitle}>Seleziona Prodotti</Text>
       <FlatList
         horizontal
-        data={DEFAULT_CATEGORIES}
+        data={categoryTabs}
         renderItem={renderCategoryTab}
         keyExtractor={item => item.id}
         style={styles.categoriesList}
@@ -250,7 +674,7 @@ export default function OrderScreen() {
         />
       )}
     </View>
-  ), [filteredProducts, deviceIsTablet, renderProductItem, renderCategoryTab]);
+  ), [filteredProducts, categoryTabs, deviceIsTablet, renderProductItem, renderCategoryTab]);
 
   const renderOrderSection = useCallback(() => (
     <View style={styles.orderSection}>
@@ -258,7 +682,7 @@ export default function OrderScreen() {
       <FlatList
         data={currentOrder}
         renderItem={renderOrderItem}
-        keyExtractor={item => item.product.id}
+        keyExtractor={getLineKey}
         style={styles.orderItems}
         ListEmptyComponent={
           <EmptyState
@@ -271,16 +695,29 @@ export default function OrderScreen() {
         windowSize={5}
       />
 
-      {currentOrder.length > 0 && (
+      <DepositReturns
+        depositAmounts={depositAmounts}
+        depositReturns={currentOrderDepositReturns}
+        onReturn={handleReturnDeposit}
+        onRemove={handleRemoveDepositReturn}
+      />
+
+      {hasOrderLines && (
         <>
+          {currentOrderPromotions.map(promotion => (
+            <View key={promotion.promotionId} style={styles.promotionRow}>
+              <Text style={styles.discountText}>🎁 {promotion.name}</Text>
+              <Text style={styles.discountText}>{formatMoney(-promotion.savings)}</Text>
+            </View>
+          ))}
           <View style={styles.totalSection}>
             <Text style={styles.totalLabel}>TOTALE:</Text>
-            <Text style={styles.totalAmount} accessibilityLabel={`Total ${total} euros`}>
-              € {total.toFixed(2)}
+            <Text style={styles.totalAmount} accessibilityLabel={`Total ${formatMoneyInput(total)} euros`}>
+              {formatMoney(total)}
             </Text>
           </View>
           <Button
-            title="Completa Ordine"
+            title={editingOrderId ? 'Salva Modifiche' : 'Completa Ordine'}
             variant="primary"
             size="large"
             onPress={handleCompleteOrder}
@@ -290,7 +727,19 @@ export default function OrderScreen() {
         </>
       )}
     </View>
-  ), [currentOrder, renderOrderItem, total, handleCompleteOrder]);
+  ), [
+    currentOrder,
+    currentOrderPromotions,
+    currentOrderDepositReturns,
+    depositAmounts,
+    editingOrderId,
+    hasOrderLines,
+    renderOrderItem,
+    total,
+    handleCompleteOrder,
+    handleReturnDeposit,
+    handleRemoveDepositReturn,
+  ]);
 
   const tabRoutes: Route[] = [
     { key: 'products', title: 'Prodotti' },
@@ -320,18 +769,57 @@ export default function OrderScreen() {
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <View style={styles.header}>
-        <Text style={styles.title}>Nuovo Ordine</Text>
-        {currentOrder.length > 0 && (
-          <Button
-            title="Cancella"
-            variant="danger"
-            size="small"
-            onPress={handleClearOrder}
-            accessibilityLabel="Clear order"
-          />
-        )}
+        <Text style={styles.title}>
+          {editingOrderId ? `Modifica #${editingOrderId.slice(-6)}` : 'Nuovo Ordine'}
+        </Text>
+        <View style={styles.headerActions}>
+          {editingOrderId && (
+            <Button
+              title="Annulla modifica"
+              variant="danger"
+              size="small"
+              onPress={handleCancelEdit}
+              accessibilityLabel="Cancel order edit"
+            />
+          )}
+          {!editingOrderId && parkedOrders.length > 0 && (
+            <Button
+              title={`Sospesi (${parkedOrders.length})`}
+              variant="secondary"
+              size="small"
+              onPress={() => setParkedListVisible(true)}
+              accessibilityLabel="Show parked orders"
+            />
+          )}
+          {!editingOrderId && currentOrder.length > 0 && (
+            <>
+              <Button
+                title="Parcheggia"
+                variant="warning"
+                size="small"
+                onPress={handleOpenPark}
+                accessibilityLabel="Park order"
+              />
+              <Button
+                title="Cancella"
+                variant="danger"
+                size="small"
+                onPress={handleClearOrder}
+                accessibilityLabel="Clear order"
+              />
+            </>
+          )}
+        </View>
       </View>
 
+      <LowStockBanner products={lowStockProducts} />
+      <UndoToast
+        undoStep={undoSteps.currentOrder}
+        redoStep={redoSteps.currentOrder}
+        onUndo={() => undo('currentOrder')}
+        onRedo={() => redo('currentOrder')}
+      />
+
       {deviceIsTablet ? (
         <View style={styles.content}>
           {renderProductsSection()}
@@ -362,41 +850,169 @@ export default function OrderScreen() {
             <FlatList
               data={currentOrder}
               renderItem={({ item }) => (
-                <View style={styles.receiptItem}>
-                  <Text style={styles.receiptItemText}>
-                    {item.product.emoji} {item.product.name} x{item.quantity}
-                  </Text>
-                  <Text style={styles.receiptItemPrice}>
-                    € {(item.product.price * item.quantity).toFixed(2)}
-                  </Text>
+                <View>
+                  <View style={styles.receiptItem}>
+                    <Text style={styles.receiptItemText}>
+                      {item.product.emoji} {getItemName(item)} x{item.quantity}
+                    </Text>
+                    <Text style={styles.receiptItemPrice}>
+                      {formatMoney(getLineSubtotal(item))}
+                    </Text>
+                    <TouchableOpacity
+                      style={styles.discountButton}
+                      onPress={() => handleOpenDiscount({ kind: 'item', item })}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Discount ${getItemName(item)}`}
+                    >
+                      <Text style={styles.discountButtonText}>%</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {item.pricingRule && (
+                    <View style={styles.receiptItem}>
+                      <Text style={styles.discountText}>  🕒 {item.pricingRule.name}</Text>
+                      <Text style={styles.discountText}>
+                        {formatMoney(item.pricingRule.unitPrice)} cad.
+                      </Text>
+                    </View>
+                  )}
+                  {item.bundleComponents?.map(component => (
+                    <View key={component.slotId} style={styles.receiptItem}>
+                      <Text style={styles.modifierText}>
+                        {'  '}• {component.product.emoji} {component.product.name}
+                      </Text>
+                    </View>
+                  ))}
+                  {item.modifiers?.map(modifier => (
+                    <View key={`${modifier.groupId}.${modifier.optionId}`} style={styles.receiptItem}>
+                      <Text style={styles.modifierText}>  + {modifier.name}</Text>
+                      {modifier.priceDelta !== 0 && (
+                        <Text style={styles.modifierText}>
+                          {formatPriceDelta(modifier.priceDelta)}
+                        </Text>
+                      )}
+                    </View>
+                  ))}
+                  {item.discount && (
+                    <View style={styles.receiptItem}>
+                      <Text style={styles.discountText}>
+                        Sconto {formatDiscountValue(item.discount)} ({item.discount.reason})
+                      </Text>
+                      <Text style={styles.discountText}>
+                        {formatMoney(-getDiscountAmount(getLineSubtotal(item), item.discount))}
+                      </Text>
+                    </View>
+                  )}
+                  {getUnitDeposit(item) > 0 && (
+                    <View style={styles.receiptItem}>
+                      <Text style={styles.modifierText}>  ♻️ Cauzione x{item.quantity}</Text>
+                      <Text style={styles.modifierText}>{formatMoney(getLineDeposit(item))}</Text>
+                    </View>
+                  )}
                 </View>
               )}
-              keyExtractor={item => item.product.id}
+              keyExtractor={getLineKey}
               style={styles.receiptItems}
             />
 
             <View style={styles.receiptDivider} />
+            {(totals.discountTotal > 0 || totals.promotionSavings > 0) && (
+              <View style={styles.receiptItem}>
+                <Text style={styles.receiptItemText}>Subtotale</Text>
+                <Text style={styles.receiptItemPrice}>{formatMoney(totals.subtotal)}</Text>
+              </View>
+            )}
+            {currentOrderPromotions.map(promotion => (
+              <View key={promotion.promotionId} style={styles.receiptItem}>
+                <Text style={styles.discountText}>🎁 {promotion.name}</Text>
+                <Text style={styles.discountText}>{formatMoney(-promotion.savings)}</Text>
+              </View>
+            ))}
+            {currentOrderDiscount && (
+              <View style={styles.receiptItem}>
+                <Text style={styles.discountText}>
+                  Sconto ordine {formatDiscountValue(currentOrderDiscount)} ({currentOrderDiscount.reason})
+                </Text>
+                <Text style={styles.discountText}>{formatMoney(-totals.orderDiscount)}</Text>
+              </View>
+            )}
+            {currentOrderDepositReturns.map(entry => (
+              <View key={entry.amount} style={styles.receiptItem}>
+                <Text style={styles.discountText}>♻️ Reso cauzione x{entry.quantity}</Text>
+                <Text style={styles.discountText}>{formatMoney(-entry.amount * entry.quantity)}</Text>
+              </View>
+            ))}
             <View style={styles.receiptTotal}>
-              <Text style={styles.receiptTotalLabel}>TOTALE:</Text>
-              <Text style={styles.receiptTotalAmount}>€ {total.toFixed(2)}</Text>
+              <Text style={styles.receiptTotalLabel}>{total < 0 ? 'DA RESTITUIRE:' : 'TOTALE:'}</Text>
+              <Text style={styles.receiptTotalAmount}>{formatMoney(Math.abs(total))}</Text>
             </View>
 
-            <View style={styles.receiptActions}>
+            {total < 0 ? (
+              // Deposits handed back beyond the total are always paid out in cash
               <Button
-                title="Contanti"
-                variant="warning"
-                size="medium"
-                onPress={handlePayWithCash}
-                style={styles.receiptActionButton}
-              />
-              <Button
-                title="Completa"
+                title="Restituisci in contanti"
                 variant="primary"
                 size="medium"
-                onPress={handleCompleteWithoutCash}
-                style={styles.receiptActionButton}
+                onPress={handleCompleteWithMethod}
+                fullWidth
+                accessibilityLabel="Pay out deposits in cash"
               />
-            </View>
+            ) : (
+              <>
+                <Text style={styles.paymentMethodLabel}>Metodo di pagamento</Text>
+                <FlatList
+                  horizontal
+                  data={checkoutPaymentMethods}
+                  renderItem={renderPaymentMethod}
+                  keyExtractor={item => item.id}
+                  style={styles.paymentMethodList}
+                  showsHorizontalScrollIndicator={false}
+                />
+                {activePaymentMethod === TOKENS_PAYMENT_METHOD.id && orderTokenPrice !== null && (
+                  <View style={styles.receiptItem}>
+                    <Text style={styles.receiptItemText}>Da riscattare</Text>
+                    <Text style={styles.receiptItemPrice}>🪙 {formatTokens(orderTokenPrice)}</Text>
+                  </View>
+                )}
+
+                <View style={styles.receiptActions}>
+                  {activePaymentMethod === CASH_PAYMENT_METHOD_ID && (
+                    <Button
+                      title="Calcola resto"
+                      variant="warning"
+                      size="medium"
+                      onPress={handlePayWithCash}
+                      style={styles.receiptActionButton}
+                    />
+                  )}
+                  <Button
+                    title="Completa"
+                    variant="primary"
+                    size="medium"
+                    onPress={handleCompleteWithMethod}
+                    style={styles.receiptActionButton}
+                  />
+                </View>
+
+                <Button
+                  title="Dividi pagamento"
+                  variant="secondary"
+                  size="medium"
+                  onPress={handleOpenSplit}
+                  fullWidth
+                  accessibilityLabel="Split payment"
+                />
+              </>
+            )}
+
+            <Button
+              title={currentOrderDiscount ? 'Modifica sconto ordine' : 'Sconto ordine'}
+              variant="secondary"
+              size="medium"
+              onPress={() => handleOpenDiscount({ kind: 'order' })}
+              fullWidth
+              style={styles.cancelButton}
+              accessibilityLabel="Discount order"
+            />
 
             <Button
               title="Annulla"
@@ -410,6 +1026,49 @@ export default function OrderScreen() {
         </View>
       </Modal>
 
+      <ParkOrderModal
+        visible={parkModalVisible}
+        total={total}
+        parkedNames={parkedNames}
+        onPark={handleConfirmPark}
+        onClose={() => setParkModalVisible(false)}
+      />
+
+      <ParkedOrdersModal
+        visible={parkedListVisible}
+        parkedOrders={parkedOrders}
+        promotions={promotions}
+        onResume={handleResumeParked}
+        onDelete={handleDeleteParked}
+        onClose={() => setParkedListVisible(false)}
+      />
+
+      <DiscountModal
+        visible={discountTarget !== null}
+        title={discountTarget?.kind === 'item' ? `Sconto ${getItemName(discountTarget.item)}` : 'Sconto Ordine'}
+        discount={targetDiscount}
+        onApply={applyDiscount}
+        onClose={closeDiscountModal}
+      />
+
+      <ProductSelectionSheet
+        product={selectionProduct}
+        products={products}
+        quantityInOrder={quantityInOrder}
+        onAdd={handleAddSelection}
+        onClose={() => setSelectionProduct(null)}
+      />
+
+      <SplitPaymentModal
+        visible={splitModalVisible}
+        total={total}
+        paymentMethods={enabledPaymentMethods}
+        selectedMethodId={activePaymentMethod}
+        onSelectMethod={handleSelectPaymentMethod}
+        onConfirm={handleConfirmSplit}
+        onBack={handleCloseSplit}
+      />
+
       {/* Payment Modal */}
       <Modal
         visible={paymentModalVisible}
@@ -426,7 +1085,7 @@ export default function OrderScreen() {
             <Text style={styles.paymentTitle}>Pagamento Contanti</Text>
             <View style={styles.paymentTotal}>
               <Text style={styles.paymentTotalLabel}>Totale da pagare:</Text>
-              <Text style={styles.paymentTotalAmount}>€ {total.toFixed(2)}</Text>
+              <Text style={styles.paymentTotalAmount}>{formatMoney(total)}</Text>
             </View>
 
             <TextInput
@@ -439,11 +1098,11 @@ export default function OrderScreen() {
               accessibilityLabel="Cash received input"
             />
 
-            {cashPaid && parseFloat(cashPaid) >= total && (
+            {cashAmount !== null && cashAmount >= total && (
               <View style={styles.changeSection}>
                 <Text style={styles.changeLabel}>Resto:</Text>
                 <Text style={styles.changeAmount}>
-                  € {(parseFloat(cashPaid) - total).toFixed(2)}
+                  {formatMoney(cashAmount - total)}
                 </Text>
               </View>
             )}
@@ -493,6 +1152,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: COLORS.textPrimary,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
   content: {
     flex: 1,
     flexDirection: 'row',
@@ -582,6 +1245,14 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.sm,
     fontWeight: '600',
   },
+  productButtonStock: {
+    color: COLORS.textInverse,
+    fontSize: FONT_SIZES.xs,
+    marginTop: SPACING.xs,
+  },
+  productButtonUnavailable: {
+    opacity: 0.5,
+  },
   orderItems: {
     flex: 1,
     marginBottom: SPACING.lg,
@@ -635,6 +1306,12 @@ const styles = StyleSheet.create({
     minWidth: 24,
     textAlign: 'center',
   },
+  promotionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: SPACING.xs,
+  },
   totalSection: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -724,6 +1401,16 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: COLORS.primary,
   },
+  paymentMethodLabel: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    marginTop: SPACING.md,
+    marginBottom: SPACING.sm,
+  },
+  paymentMethodList: {
+    flexGrow: 0,
+  },
   receiptActions: {
     flexDirection: 'row',
     gap: SPACING.md,
@@ -792,6 +1479,27 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: COLORS.primary,
   },
+  discountButton: {
+    width: TOUCH_TARGETS.small,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: SPACING.sm,
+    borderRadius: BORDER_RADIUS.round,
+    backgroundColor: COLORS.background,
+  },
+  discountButtonText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: 'bold',
+    color: COLORS.info,
+  },
+  discountText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.warning,
+  },
+  modifierText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
   paymentActions: {
     flexDirection: 'row',
     gap: SPACING.md,
@@ -9,6 +9,15 @@
  * - Emoji picker with 100+ food-related emojis
  * - Color picker with preset colors
  * - Category assignment
+ * - Optional stock level per product, with quick restocking
+ * - Optional low-stock threshold; products at or below it are highlighted
+ * - Variants (sizes or formats) with their own price and optional stock
+ * - Modifier groups per product (required or optional, single or multiple choice, price change)
+ * - Bundles (menus) made of fixed products or one pick from a category, sold at their own price
+ * - Optional cup deposit, token price, or tokens sold per unit
+ * - Category management (add/edit/reorder/delete with product reassignment)
+ * - Warning banner linking to the repair screen when data is quarantined
+ * - Undo toast after adding, editing or deleting a product, with redo
  * - List view with product details
  * - Haptic feedback for actions
  *
@@ -31,12 +40,37 @@ import {
   ScrollView,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { useApp } from '../context/AppContext';
-import { Product } from '../types';
+import { Product, Category, RootTabParamList } from '../types';
 import { foodEmojis } from '../data/foodEmojis';
-import { DEFAULT_CATEGORIES } from '../data/categories';
-import { Button, Card, EmptyState, Loading } from '../components';
+import { getCategoryById } from '../data/categories';
+import {
+  Button,
+  Card,
+  EmptyState,
+  Loading,
+  QuarantineBanner,
+  LoadFailedBanner,
+  UndoToast,
+  ModifierGroupsEditor,
+  ModifierGroupDraft,
+  toModifierGroupDrafts,
+  parseModifierGroupDrafts,
+  VariantsEditor,
+  VariantDraft,
+  toVariantDrafts,
+  parseVariantDrafts,
+  BundleSlotsEditor,
+  BundleSlotDraft,
+  toBundleSlotDrafts,
+  parseBundleSlotDrafts,
+} from '../components';
 import { triggerHaptic } from '../utils/haptics';
+import { parseMoney, formatMoney, formatMoneyInput } from '../utils/money';
+import { isLowStock, isSoldOut } from '../utils/stock';
+import { formatTokens } from '../utils/tokens';
 import {
   COLORS,
   SPACING,
@@ -53,39 +87,106 @@ const PRESET_COLORS = COLORS.productColors;
  * ProductsScreen component
  */
 export default function ProductsScreen() {
-  const { products, addProduct, updateProduct, deleteProduct, isLoading } = useApp();
+  const {
+    products,
+    categories,
+    addProduct,
+    updateProduct,
+    deleteProduct,
+    restockProduct,
+    addCategory,
+    updateCategory,
+    deleteCategory,
+    moveCategory,
+    quarantine,
+    undoSteps,
+    redoSteps,
+    undo,
+    redo,
+    isLoading,
+    loadFailed,
+    reloadData,
+  } = useApp();
+  const navigation = useNavigation<BottomTabNavigationProp<RootTabParamList>>();
   const insets = useSafeAreaInsets();
   const [modalVisible, setModalVisible] = useState(false);
   const [emojiPickerVisible, setEmojiPickerVisible] = useState(false);
+  const [emojiPickerTarget, setEmojiPickerTarget] = useState<'product' | 'category'>('product');
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
 
   const [name, setName] = useState('');
   const [emoji, setEmoji] = useState('🍕');
   const [price, setPrice] = useState('');
+  const [deposit, setDeposit] = useState('');
+  const [tokenPrice, setTokenPrice] = useState('');
+  const [tokensIssued, setTokensIssued] = useState('');
   const [buttonColor, setButtonColor] = useState<string>(PRESET_COLORS[0]);
-  const [category, setCategory] = useState('food');
+  const [category, setCategory] = useState<string | undefined>(undefined);
+  const [stock, setStock] = useState('');
+  const [lowStockThreshold, setLowStockThreshold] = useState('');
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroupDraft[]>([]);
+  const [bundleSlots, setBundleSlots] = useState<BundleSlotDraft[]>([]);
+
+  const [restockingProduct, setRestockingProduct] = useState<Product | null>(null);
+  const [restockQuantity, setRestockQuantity] = useState('');
+
+  const [categoriesModalVisible, setCategoriesModalVisible] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [categoryName, setCategoryName] = useState('');
+  const [categoryEmoji, setCategoryEmoji] = useState('⭐');
+  const [categoryColor, setCategoryColor] = useState<string>(PRESET_COLORS[0]);
+  const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(null);
+
+  const productCountByCategory = useMemo(() => {
+    const counts: { [key: string]: number } = {};
+    products.forEach(p => {
+      if (p.category) {
+        counts[p.category] = (counts[p.category] || 0) + 1;
+      }
+    });
+    return counts;
+  }, [products]);
 
   const openAddModal = useCallback(() => {
     setEditingProduct(null);
     setName('');
     setEmoji('🍕');
     setPrice('');
+    setDeposit('');
+    setTokenPrice('');
+    setTokensIssued('');
     setButtonColor(PRESET_COLORS[0]);
-    setCategory('food');
+    setCategory(categories[0]?.id);
+    setStock('');
+    setLowStockThreshold('');
+    setVariants([]);
+    setModifierGroups([]);
+    setBundleSlots([]);
     setModalVisible(true);
     triggerHaptic('light');
-  }, []);
+  }, [categories]);
 
   const openEditModal = useCallback((product: Product) => {
     setEditingProduct(product);
     setName(product.name);
     setEmoji(product.emoji);
-    setPrice(product.price.toString());
+    setPrice(formatMoneyInput(product.price));
+    setDeposit(product.deposit === undefined ? '' : formatMoneyInput(product.deposit));
+    setTokenPrice(product.tokenPrice === undefined ? '' : String(product.tokenPrice));
+    setTokensIssued(product.tokensIssued === undefined ? '' : String(product.tokensIssued));
     setButtonColor(product.buttonColor);
-    setCategory(product.category || 'food');
+    setCategory(getCategoryById(categories, product.category)?.id);
+    setStock(product.stock === undefined ? '' : String(product.stock));
+    setLowStockThreshold(
+      product.lowStockThreshold === undefined ? '' : String(product.lowStockThreshold)
+    );
+    setVariants(toVariantDrafts(product.variants));
+    setModifierGroups(toModifierGroupDrafts(product.modifierGroups));
+    setBundleSlots(toBundleSlotDrafts(product.bundleSlots));
     setModalVisible(true);
     triggerHaptic('light');
-  }, []);
+  }, [categories]);
 
   const handleSave = useCallback(() => {
     if (!name.trim()) {
@@ -93,20 +194,106 @@ export default function ProductsScreen() {
       return;
     }
 
-    const priceNum = parseFloat(price);
-    if (isNaN(priceNum) || priceNum <= 0) {
+    const parsedVariants = parseVariantDrafts(variants);
+    if ('error' in parsedVariants) {
+      Alert.alert('Errore', parsedVariants.error);
+      return;
+    }
+
+    // Products with variants are listed at their cheapest variant's price
+    const priceCents = parsedVariants.variants.length > 0
+      ? Math.min(...parsedVariants.variants.map(variant => variant.price))
+      : parseMoney(price);
+    if (priceCents === null || priceCents <= 0) {
       Alert.alert('Errore', 'Inserisci un prezzo valido');
       return;
     }
 
+    // An empty deposit field means no deposit is charged
+    const depositCents = deposit.trim() === '' ? undefined : parseMoney(deposit);
+    if (depositCents === null || depositCents === 0) {
+      Alert.alert('Errore', 'Inserisci una cauzione valida');
+      return;
+    }
+
+    // Empty token fields mean the product can't be paid with tokens / doesn't sell tokens
+    const tokenPriceUnits = tokenPrice.trim() === '' ? undefined : Number(tokenPrice.trim());
+    if (tokenPriceUnits !== undefined && (!Number.isInteger(tokenPriceUnits) || tokenPriceUnits <= 0)) {
+      Alert.alert('Errore', 'Inserisci un prezzo in gettoni valido');
+      return;
+    }
+    const tokensIssuedUnits = tokensIssued.trim() === '' ? undefined : Number(tokensIssued.trim());
+    if (tokensIssuedUnits !== undefined && (!Number.isInteger(tokensIssuedUnits) || tokensIssuedUnits <= 0)) {
+      Alert.alert('Errore', 'Inserisci un numero di gettoni valido');
+      return;
+    }
+    if (tokenPriceUnits !== undefined && tokensIssuedUnits !== undefined) {
+      Alert.alert('Errore', 'I gettoni non si possono pagare con i gettoni');
+      return;
+    }
+
+    // An empty stock field means stock isn't tracked for this product
+    const stockUnits = stock.trim() === '' ? undefined : Number(stock.trim());
+    if (stockUnits !== undefined && (!Number.isInteger(stockUnits) || stockUnits < 0)) {
+      Alert.alert('Errore', 'Inserisci una quantità valida');
+      return;
+    }
+
+    const thresholdUnits = lowStockThreshold.trim() === '' ? undefined : Number(lowStockThreshold.trim());
+    if (thresholdUnits !== undefined && (!Number.isInteger(thresholdUnits) || thresholdUnits < 0)) {
+      Alert.alert('Errore', 'Inserisci una soglia valida');
+      return;
+    }
+
+    const parsedModifiers = parseModifierGroupDrafts(modifierGroups);
+    if ('error' in parsedModifiers) {
+      Alert.alert('Errore', parsedModifiers.error);
+      return;
+    }
+
+    const parsedSlots = parseBundleSlotDrafts(bundleSlots);
+    if ('error' in parsedSlots) {
+      Alert.alert('Errore', parsedSlots.error);
+      return;
+    }
+    // Components are counted per product, so a menu comes in a single size
+    if (parsedSlots.slots.length > 0 && parsedVariants.variants.length > 0) {
+      Alert.alert('Errore', 'Un menu non può avere formati');
+      return;
+    }
+
     const product: Product = {
       id: editingProduct?.id || Date.now().toString(),
       name: name.trim(),
       emoji,
-      price: priceNum,
+      price: priceCents,
       buttonColor,
       category,
     };
+    if (stockUnits !== undefined) {
+      product.stock = stockUnits;
+    }
+    if (thresholdUnits !== undefined) {
+      product.lowStockThreshold = thresholdUnits;
+    }
+    if (parsedVariants.variants.length > 0) {
+      product.variants = parsedVariants.variants;
+    }
+    if (parsedModifiers.groups.length > 0) {
+      product.modifierGroups = parsedModifiers.groups;
+    }
+    if (parsedSlots.slots.length > 0) {
+      product.bundleSlots = parsedSlots.slots;
+    }
+    if (depositCents !== undefined) {
+      product.deposit = depositCents;
+    }
+    if (tokenPriceUnits !== undefined) {
+      product.tokenPrice = tokenPriceUnits;
+    }
+    if (tokensIssuedUnits !== undefined) {
+      product.tokensIssued = tokensIssuedUnits;
+    }
 
     if (editingProduct) {
       updateProduct(editingProduct.id, product);
@@ -116,7 +303,44 @@ export default function ProductsScreen() {
 
     triggerHaptic('success');
     setModalVisible(false);
-  }, [name, price, emoji, buttonColor, category, editingProduct, addProduct, updateProduct]);
+  }, [
+    name,
+    price,
+    deposit,
+    tokenPrice,
+    tokensIssued,
+    emoji,
+    buttonColor,
+    category,
+    stock,
+    lowStockThreshold,
+    variants,
+    modifierGroups,
+    bundleSlots,
+    editingProduct,
+    addProduct,
+    updateProduct,
+  ]);
+
+  const openRestockModal = useCallback((product: Product) => {
+    setRestockingProduct(product);
+    setRestockQuantity('');
+    triggerHaptic('light');
+  }, []);
+
+  const handleRestock = useCallback(() => {
+    if (!restockingProduct) return;
+
+    const quantity = Number(restockQuantity.trim());
+    if (!restockQuantity.trim() || !Number.isInteger(quantity) || quantity <= 0) {
+      Alert.alert('Errore', 'Inserisci una quantità valida');
+      return;
+    }
+
+    restockProduct(restockingProduct.id, quantity);
+    setRestockingProduct(null);
+    triggerHaptic('success');
+  }, [restockingProduct, restockQuantity, restockProduct]);
 
   const handleDelete = useCallback((product: Product) => {
     Alert.alert(
@@ -136,6 +360,103 @@ export default function ProductsScreen() {
     );
   }, [deleteProduct]);
 
+  const resetCategoryForm = useCallback(() => {
+    setEditingCategory(null);
+    setCategoryName('');
+    setCategoryEmoji('⭐');
+    setCategoryColor(PRESET_COLORS[0]);
+  }, []);
+
+  const openCategoriesModal = useCallback(() => {
+    resetCategoryForm();
+    setCategoriesModalVisible(true);
+    triggerHaptic('light');
+  }, [resetCategoryForm]);
+
+  const startEditCategory = useCallback((item: Category) => {
+    setEditingCategory(item);
+    setCategoryName(item.name);
+    setCategoryEmoji(item.emoji);
+    setCategoryColor(item.color);
+    triggerHaptic('light');
+  }, []);
+
+  const handleSaveCategory = useCallback(() => {
+    const trimmedName = categoryName.trim();
+    if (!trimmedName) {
+      Alert.alert('Errore', 'Inserisci un nome per la categoria');
+      return;
+    }
+
+    const duplicate = categories.some(
+      c => c.name.toLowerCase() === trimmedName.toLowerCase() && c.id !== editingCategory?.id
+    );
+    if (duplicate) {
+      Alert.alert('Errore', 'Esiste già una categoria con questo nome');
+      return;
+    }
+
+    if (editingCategory) {
+      updateCategory(editingCategory.id, {
+        ...editingCategory,
+        name: trimmedName,
+        emoji: categoryEmoji,
+        color: categoryColor,
+      });
+    } else {
+      addCategory({
+        id: Date.now().toString(),
+        name: trimmedName,
+        emoji: categoryEmoji,
+        color: categoryColor,
+      });
+    }
+
+    triggerHaptic('success');
+    resetCategoryForm();
+  }, [categoryName, categoryEmoji, categoryColor, categories, editingCategory, addCategory, updateCategory, resetCategoryForm]);
+
+  /**
+   * Delete a category. If products still use it, ask where to move them
+   * instead of leaving them pointing at a category that no longer exists.
+   */
+  const handleDeleteCategory = useCallback((item: Category) => {
+    if (productCountByCategory[item.id]) {
+      setCategoryToDelete(item);
+      return;
+    }
+
+    Alert.alert(
+      'Elimina Categoria',
+      `Vuoi eliminare "${item.name}"?`,
+      [
+        { text: 'Annulla', style: 'cancel' },
+        {
+          text: 'Elimina',
+          style: 'destructive',
+          onPress: () => {
+            deleteCategory(item.id);
+            if (editingCategory?.id === item.id) {
+              resetCategoryForm();
+            }
+            triggerHaptic('error');
+          },
+        },
+      ]
+    );
+  }, [productCountByCategory, deleteCategory, editingCategory, resetCategoryForm]);
+
+  const handleConfirmReassign = useCallback((reassignTo?: string) => {
+    if (!categoryToDelete) return;
+
+    deleteCategory(categoryToDelete.id, reassignTo);
+    if (editingCategory?.id === categoryToDelete.id) {
+      resetCategoryForm();
+    }
+    setCategoryToDelete(null);
+    triggerHaptic('error');
+  }, [categoryToDelete, deleteCategory, editingCategory, resetCategoryForm]);
+
   const renderProductCard = useCallback(({ item: product }: { item: Product }) => (
     <Card style={styles.productCard} padding="lg">
       <View style={styles.productInfo}>
@@ -146,12 +467,44 @@ export default function ProductsScreen() {
           <Text style={styles.productName} numberOfLines={2}>
             {product.name}
           </Text>
-          <Text style={styles.productPrice} accessibilityLabel={`Price ${product.price} euros`}>
-            € {product.price.toFixed(2)}
+          <Text style={styles.productPrice} accessibilityLabel={`Price ${formatMoneyInput(product.price)} euros`}>
+            {product.variants?.length ? `da ${formatMoney(product.price)}` : formatMoney(product.price)}
+          </Text>
+          {product.variants && product.variants.length > 0 && (
+            <Text style={styles.productCategory} numberOfLines={2}>
+              {product.variants
+                .map(variant =>
+                  variant.stock === undefined ? variant.name : `${variant.name} (${variant.stock})`
+                )
+                .join(' • ')}
+            </Text>
+          )}
+          {product.bundleSlots && product.bundleSlots.length > 0 && (
+            <Text style={styles.productCategory} numberOfLines={2}>
+              Menu: {product.bundleSlots.map(slot => slot.name).join(' + ')}
+            </Text>
+          )}
+          <Text style={styles.productCategory}>
+            {getCategoryById(categories, product.category)?.name || 'Senza categoria'}
           </Text>
-          {product.category && (
-            <Text style={styles.productCategory}>
-              {DEFAULT_CATEGORIES.find(c => c.id === product.category)?.name || 'Altro'}
+          {product.deposit !== undefined && (
+            <Text style={styles.productCategory}>♻️ Cauzione {formatMoney(product.deposit)}</Text>
+          )}
+          {product.tokensIssued !== undefined && (
+            <Text style={styles.productCategory}>🪙 Vende {formatTokens(product.tokensIssued)}</Text>
+          )}
+          {product.tokenPrice !== undefined && (
+            <Text style={styles.productCategory}>🪙 Costa {formatTokens(product.tokenPrice)}</Text>
+          )}
+          {product.stock !== undefined && (
+            <Text
+              style={[
+                styles.productStock,
+                isLowStock(product) && styles.productStockLow,
+                isSoldOut(product) && styles.productStockSoldOut,
+              ]}
+            >
+              {isSoldOut(product) ? 'Esaurito' : `Scorte: ${product.stock}`}
             </Text>
           )}
         </View>
@@ -169,6 +522,14 @@ export default function ProductsScreen() {
           style={styles.actionButton}
           accessibilityLabel={`Edit ${product.name}`}
         />
+        <Button
+          title="Rifornisci"
+          variant="warning"
+          size="small"
+          onPress={() => openRestockModal(product)}
+          style={styles.actionButton}
+          accessibilityLabel={`Restock ${product.name}`}
+        />
         <Button
           title="Elimina"
           variant="danger"
@@ -179,13 +540,17 @@ export default function ProductsScreen() {
         />
       </View>
     </Card>
-  ), [openEditModal, handleDelete]);
+  ), [categories, openEditModal, openRestockModal, handleDelete]);
 
   const renderEmojiOption = useCallback(({ item: emojiOption }: { item: string }) => (
     <Pressable
       style={styles.emojiOption}
       onPress={() => {
-        setEmoji(emojiOption);
+        if (emojiPickerTarget === 'category') {
+          setCategoryEmoji(emojiOption);
+        } else {
+          setEmoji(emojiOption);
+        }
         setEmojiPickerVisible(false);
         triggerHaptic('light');
       }}
@@ -194,7 +559,7 @@ export default function ProductsScreen() {
     >
       <Text style={styles.emojiOptionText}>{emojiOption}</Text>
     </Pressable>
-  ), []);
+  ), [emojiPickerTarget]);
 
   const renderColorOption = useCallback(({ item: color }: { item: string }) => (
     <TouchableOpacity
@@ -213,9 +578,7 @@ export default function ProductsScreen() {
     />
   ), [buttonColor]);
 
-  const renderCategoryOption = useCallback(({ item }: { item: typeof DEFAULT_CATEGORIES[0] }) => {
-    if (item.id === 'all') return null;
-
+  const renderCategoryOption = useCallback(({ item }: { item: Category }) => {
     return (
       <TouchableOpacity
         style={[
@@ -243,6 +606,61 @@ export default function ProductsScreen() {
     );
   }, [category]);
 
+  const renderManagedCategory = useCallback(({ item, index }: { item: Category; index: number }) => (
+    <View style={styles.managedCategoryRow}>
+      <View style={[styles.managedCategorySwatch, { backgroundColor: item.color }]}>
+        <Text style={styles.categoryOptionEmoji}>{item.emoji}</Text>
+      </View>
+      <View style={styles.managedCategoryDetails}>
+        <Text style={styles.managedCategoryName} numberOfLines={1}>
+          {item.name}
+        </Text>
+        <Text style={styles.productCategory}>
+          {productCountByCategory[item.id] || 0} prodotti
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={styles.orderButton}
+        onPress={() => moveCategory(item.id, 'up')}
+        disabled={index === 0}
+        accessibilityRole="button"
+        accessibilityLabel={`Move ${item.name} up`}
+      >
+        <Text style={[styles.orderButtonText, index === 0 && styles.orderButtonTextDisabled]}>▲</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.orderButton}
+        onPress={() => moveCategory(item.id, 'down')}
+        disabled={index === categories.length - 1}
+        accessibilityRole="button"
+        accessibilityLabel={`Move ${item.name} down`}
+      >
+        <Text
+          style={[
+            styles.orderButtonText,
+            index === categories.length - 1 && styles.orderButtonTextDisabled,
+          ]}
+        >
+          ▼
+        </Text>
+      </TouchableOpacity>
+      <Button
+        title="Modifica"
+        variant="secondary"
+        size="small"
+        onPress={() => startEditCategory(item)}
+        accessibilityLabel={`Edit category ${item.name}`}
+      />
+      <Button
+        title="Elimina"
+        variant="danger"
+        size="small"
+        onPress={() => handleDeleteCategory(item)}
+        accessibilityLabel={`Delete category ${item.name}`}
+      />
+    </View>
+  ), [categories.length, productCountByCategory, moveCategory, startEditCategory, handleDeleteCategory]);
+
   const keyExtractor = useCallback((item: Product) => item.id, []);
   const emojiKeyExtractor = useCallback((item: string, index: number) => `${item}-${index}`, []);
 
@@ -254,16 +672,39 @@ export default function ProductsScreen() {
     <SafeAreaView style={styles.container} edges={['top']}>
       <View style={styles.header}>
         <Text style={styles.title}>Gestione Prodotti</Text>
-        <Button
-          title="Aggiungi Prodotto"
-          variant="primary"
-          size="medium"
-          onPress={openAddModal}
-          leftIcon={<Text style={styles.addIcon}>+</Text>}
-          accessibilityLabel="Add new product"
-        />
+        <View style={styles.headerActions}>
+          <Button
+            title="Aggiungi Prodotto"
+            variant="primary"
+            size="medium"
+            onPress={openAddModal}
+            leftIcon={<Text style={styles.addIcon}>+</Text>}
+            style={styles.headerActionButton}
+            accessibilityLabel="Add new product"
+          />
+          <Button
+            title="Categorie"
+            variant="secondary"
+            size="medium"
+            onPress={openCategoriesModal}
+            style={styles.headerActionButton}
+            accessibilityLabel="Manage categories"
+          />
+        </View>
       </View>
 
+      <LoadFailedBanner visible={loadFailed} onRetry={reloadData} />
+      <QuarantineBanner
+        count={quarantine.length}
+        onRepair={() => navigation.navigate('Repair')}
+      />
+      <UndoToast
+        undoStep={undoSteps.products}
+        redoStep={redoSteps.products}
+        onUndo={() => undo('products')}
+        onRedo={() => redo('products')}
+      />
+
       <FlatList
         data={products}
         renderItem={renderProductCard}
@@ -303,6 +744,7 @@ export default function ProductsScreen() {
                 <TouchableOpacity
                   style={styles.emojiButton}
                   onPress={() => {
+                    setEmojiPickerTarget('product');
                     setEmojiPickerVisible(true);
                     triggerHaptic('light');
                   }}
@@ -323,25 +765,86 @@ export default function ProductsScreen() {
                   returnKeyType="next"
                 />
 
+                {variants.length === 0 && (
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Prezzo (€)"
+                    value={price}
+                    onChangeText={setPrice}
+                    keyboardType="decimal-pad"
+                    accessibilityLabel="Product price input"
+                    returnKeyType="next"
+                  />
+                )}
+
                 <TextInput
                   style={styles.input}
-                  placeholder="Prezzo (€)"
-                  value={price}
-                  onChangeText={setPrice}
+                  placeholder="Cauzione bicchiere/bottiglia (€, vuoto = nessuna)"
+                  value={deposit}
+                  onChangeText={setDeposit}
                   keyboardType="decimal-pad"
-                  accessibilityLabel="Product price input"
+                  accessibilityLabel="Product deposit input"
+                  returnKeyType="next"
+                />
+
+                <TextInput
+                  style={styles.input}
+                  placeholder="Prezzo in gettoni (vuoto = non pagabile in gettoni)"
+                  value={tokenPrice}
+                  onChangeText={setTokenPrice}
+                  keyboardType="number-pad"
+                  accessibilityLabel="Product token price input"
+                  returnKeyType="next"
+                />
+
+                <TextInput
+                  style={styles.input}
+                  placeholder="Gettoni venduti per pezzo (vuoto = non è un pacchetto gettoni)"
+                  value={tokensIssued}
+                  onChangeText={setTokensIssued}
+                  keyboardType="number-pad"
+                  accessibilityLabel="Product tokens issued input"
+                  returnKeyType="next"
+                />
+
+                <Text style={styles.sectionLabel}>Formati (es. piccola/media):</Text>
+                <VariantsEditor variants={variants} onChange={setVariants} style={styles.colorList} />
+
+                <TextInput
+                  style={styles.input}
+                  placeholder="Scorte (vuoto = non tracciate)"
+                  value={stock}
+                  onChangeText={setStock}
+                  keyboardType="number-pad"
+                  accessibilityLabel="Product stock input"
+                  returnKeyType="next"
+                />
+
+                <TextInput
+                  style={styles.input}
+                  placeholder="Soglia scorte basse (vuoto = nessun avviso)"
+                  value={lowStockThreshold}
+                  onChangeText={setLowStockThreshold}
+                  keyboardType="number-pad"
+                  accessibilityLabel="Product low stock threshold input"
                   returnKeyType="done"
                 />
 
                 <Text style={styles.sectionLabel}>Categoria:</Text>
-                <FlatList
-                  horizontal
-                  data={DEFAULT_CATEGORIES}
-                  renderItem={renderCategoryOption}
-                  keyExtractor={item => item.id}
-                  style={styles.categoryList}
-                  showsHorizontalScrollIndicator={false}
-                />
+                {categories.length === 0 ? (
+                  <Text style={styles.hintText}>
+                    Nessuna categoria: creane una da "Categorie"
+                  </Text>
+                ) : (
+                  <FlatList
+                    horizontal
+                    data={categories}
+                    renderItem={renderCategoryOption}
+                    keyExtractor={item => item.id}
+                    style={styles.categoryList}
+                    showsHorizontalScrollIndicator={false}
+                  />
+                )}
 
                 <Text style={styles.sectionLabel}>Colore pulsante:</Text>
                 <FlatList
@@ -353,6 +856,22 @@ export default function ProductsScreen() {
                   showsHorizontalScrollIndicator={false}
                 />
 
+                <Text style={styles.sectionLabel}>Opzioni (es. salse, cottura):</Text>
+                <ModifierGroupsEditor
+                  groups={modifierGroups}
+                  onChange={setModifierGroups}
+                  style={styles.colorList}
+                />
+
+                <Text style={styles.sectionLabel}>Menu (es. panino + bibita):</Text>
+                <BundleSlotsEditor
+                  slots={bundleSlots}
+                  products={products.filter(p => p.id !== editingProduct?.id)}
+                  categories={categories}
+                  onChange={setBundleSlots}
+                  style={styles.colorList}
+                />
+
                 <View style={styles.modalActions}>
                   <Button
                     title="Annulla"
@@ -375,6 +894,208 @@ export default function ProductsScreen() {
         </KeyboardAvoidingView>
       </Modal>
 
+      <Modal
+        visible={restockingProduct !== null}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setRestockingProduct(null)}
+        accessibilityViewIsModal
+      >
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalOverlay}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>
+              Rifornisci {restockingProduct?.emoji} {restockingProduct?.name}
+            </Text>
+            <Text style={styles.reassignText}>
+              {restockingProduct?.stock === undefined
+                ? 'Le scorte non sono ancora tracciate per questo prodotto.'
+                : `Scorte attuali: ${restockingProduct.stock}`}
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Quantità da aggiungere"
+              value={restockQuantity}
+              onChangeText={setRestockQuantity}
+              keyboardType="number-pad"
+              autoFocus
+              accessibilityLabel="Restock quantity input"
+            />
+            <View style={styles.modalActions}>
+              <Button
+                title="Annulla"
+                variant="ghost"
+                size="large"
+                onPress={() => setRestockingProduct(null)}
+                style={styles.modalActionButton}
+              />
+              <Button
+                title="Aggiungi"
+                variant="primary"
+                size="large"
+                onPress={handleRestock}
+                style={styles.modalActionButton}
+                accessibilityLabel="Confirm restock"
+              />
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      <Modal
+        visible={categoriesModalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setCategoriesModalVisible(false)}
+        accessibilityViewIsModal
+      >
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalOverlay}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Categorie</Text>
+
+            <FlatList
+              data={categories}
+              renderItem={renderManagedCategory}
+              keyExtractor={item => item.id}
+              style={styles.managedCategoryList}
+              ListEmptyComponent={
+                <Text style={styles.hintText}>Nessuna categoria definita</Text>
+              }
+            />
+
+            <Text style={styles.sectionLabel}>
+              {editingCategory ? `Modifica "${editingCategory.name}"` : 'Nuova categoria'}
+            </Text>
+            <View style={styles.categoryFormRow}>
+              <TouchableOpacity
+                style={[styles.categoryEmojiButton, { backgroundColor: categoryColor }]}
+                onPress={() => {
+                  setEmojiPickerTarget('category');
+                  setEmojiPickerVisible(true);
+                  triggerHaptic('light');
+                }}
+                accessibilityRole="button"
+                accessibilityLabel={`Selected category emoji ${categoryEmoji}, tap to change`}
+              >
+                <Text style={styles.categoryOptionEmoji}>{categoryEmoji}</Text>
+              </TouchableOpacity>
+              <TextInput
+                style={[styles.input, styles.categoryNameInput]}
+                placeholder="Nome categoria"
+                value={categoryName}
+                onChangeText={setCategoryName}
+                maxLength={50}
+                accessibilityLabel="Category name input"
+                returnKeyType="done"
+              />
+            </View>
+            <FlatList
+              horizontal
+              data={PRESET_COLORS}
+              renderItem={({ item: color }) => (
+                <TouchableOpacity
+                  style={[
+                    styles.colorOption,
+                    { backgroundColor: color },
+                    categoryColor === color && styles.colorOptionSelected,
+                  ]}
+                  onPress={() => setCategoryColor(color)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Select category color ${color}`}
+                  accessibilityState={{ selected: categoryColor === color }}
+                />
+              )}
+              keyExtractor={item => item}
+              style={styles.colorList}
+              showsHorizontalScrollIndicator={false}
+            />
+
+            <View style={styles.modalActions}>
+              {editingCategory && (
+                <Button
+                  title="Annulla modifica"
+                  variant="ghost"
+                  size="medium"
+                  onPress={resetCategoryForm}
+                  style={styles.modalActionButton}
+                />
+              )}
+              <Button
+                title={editingCategory ? 'Salva' : 'Aggiungi'}
+                variant="primary"
+                size="medium"
+                onPress={handleSaveCategory}
+                style={styles.modalActionButton}
+                accessibilityLabel="Save category"
+              />
+            </View>
+
+            <Button
+              title="Chiudi"
+              variant="ghost"
+              size="large"
+              onPress={() => setCategoriesModalVisible(false)}
+              fullWidth
+            />
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      <Modal
+        visible={categoryToDelete !== null}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setCategoryToDelete(null)}
+        accessibilityViewIsModal
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Elimina "{categoryToDelete?.name}"</Text>
+            <Text style={styles.reassignText}>
+              {categoryToDelete ? productCountByCategory[categoryToDelete.id] || 0 : 0} prodotti
+              usano questa categoria. Dove vuoi spostarli?
+            </Text>
+            <ScrollView style={styles.managedCategoryList}>
+              {categories
+                .filter(c => c.id !== categoryToDelete?.id)
+                .map(c => (
+                  <Button
+                    key={c.id}
+                    title={`${c.emoji} ${c.name}`}
+                    variant="secondary"
+                    size="medium"
+                    onPress={() => handleConfirmReassign(c.id)}
+                    fullWidth
+                    style={styles.reassignButton}
+                    accessibilityLabel={`Move products to ${c.name}`}
+                  />
+                ))}
+              <Button
+                title="Nessuna categoria"
+                variant="warning"
+                size="medium"
+                onPress={() => handleConfirmReassign(undefined)}
+                fullWidth
+                style={styles.reassignButton}
+                accessibilityLabel="Leave products without category"
+              />
+            </ScrollView>
+            <Button
+              title="Annulla"
+              variant="ghost"
+              size="large"
+              onPress={() => setCategoryToDelete(null)}
+              fullWidth
+            />
+          </View>
+        </View>
+      </Modal>
+
       <Modal
         visible={emojiPickerVisible}
         animationType="slide"
@@ -425,6 +1146,13 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: COLORS.textPrimary,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  headerActionButton: {
+    flex: 1,
+  },
   addIcon: {
     fontSize: FONT_SIZES.xl,
     color: COLORS.textInverse,
@@ -465,6 +1193,19 @@ const styles = StyleSheet.create({
     fontSize: FONT_SIZES.sm,
     color: COLORS.textSecondary,
   },
+  productStock: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  productStockLow: {
+    color: COLORS.warning,
+    fontWeight: '600',
+  },
+  productStockSoldOut: {
+    color: COLORS.error,
+    fontWeight: '600',
+  },
   colorPreview: {
     width: 32,
     height: 32,
@@ -610,4 +1351,74 @@ const styles = StyleSheet.create({
   emojiOptionText: {
     fontSize: 32,
   },
+  hintText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.lg,
+  },
+  managedCategoryList: {
+    maxHeight: 260,
+    marginBottom: SPACING.lg,
+  },
+  managedCategoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  managedCategorySwatch: {
+    width: TOUCH_TARGETS.medium,
+    height: TOUCH_TARGETS.medium,
+    borderRadius: BORDER_RADIUS.round,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  managedCategoryDetails: {
+    flex: 1,
+    marginLeft: SPACING.xs,
+  },
+  managedCategoryName: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  orderButton: {
+    width: TOUCH_TARGETS.small,
+    height: TOUCH_TARGETS.small,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  orderButtonText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.info,
+  },
+  orderButtonTextDisabled: {
+    color: COLORS.textDisabled,
+  },
+  categoryFormRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: SPACING.sm,
+  },
+  categoryEmojiButton: {
+    width: TOUCH_TARGETS.large,
+    height: TOUCH_TARGETS.large,
+    borderRadius: BORDER_RADIUS.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  categoryNameInput: {
+    flex: 1,
+  },
+  reassignText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.lg,
+    textAlign: 'center',
+  },
+  reassignButton: {
+    marginBottom: SPACING.sm,
+  },
 });
@@ -0,0 +1,295 @@
+/**
+ * RepairScreen - Review and fix records that failed validation on load
+ *
+ * Invalid products, categories, orders, payment methods, parked orders, the
+ * in-progress order and audit log entries are quarantined instead of being
+ * discarded. This screen lists them with the reasons they were rejected so
+ * they can be corrected and restored, exported for safekeeping, or deleted.
+ *
+ * Features:
+ * - Quarantined records with their type and validation issues
+ * - Edit the raw JSON of a record and restore it once valid
+ * - Export a record through the system share sheet
+ * - Permanently delete a record
+ * - Empty state when nothing is quarantined
+ *
+ * @module screens/RepairScreen
+ */
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  Alert,
+  Share,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import { useApp } from '../context/AppContext';
+import { QuarantinedRecord, RootTabParamList, ValidationIssue } from '../types';
+import { Button, Card, EmptyState, Loading } from '../components';
+import { triggerHaptic } from '../utils/haptics';
+import {
+  COLORS,
+  SPACING,
+  FONT_SIZES,
+  BORDER_RADIUS,
+  APP_CONSTANTS,
+} from '../constants/theme';
+
+const KIND_LABELS: Record<QuarantinedRecord['kind'], string> = {
+  product: 'Prodotto',
+  category: 'Categoria',
+  order: 'Ordine',
+  paymentMethod: 'Metodo di pagamento',
+  pricingRule: 'Regola di prezzo',
+  promotion: 'Promozione',
+  parkedOrder: 'Ordine sospeso',
+  currentOrder: 'Ordine in corso',
+  auditEntry: 'Voce del registro attività',
+  session: 'Sessione archiviata',
+  cashDrawer: 'Cassa',
+};
+
+/** Pretty-print a record for editing; unparseable payloads are kept as raw text */
+const toEditableText = (record: unknown): string =>
+  typeof record === 'string' ? record : JSON.stringify(record, null, 2) ?? '';
+
+const formatIssue = (issue: ValidationIssue): string =>
+  issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+
+/**
+ * RepairScreen component
+ */
+export default function RepairScreen() {
+  const navigation = useNavigation<BottomTabNavigationProp<RootTabParamList>>();
+  const { quarantine, restoreQuarantinedRecord, deleteQuarantinedRecord, isLoading } = useApp();
+  const [drafts, setDrafts] = useState<{ [id: string]: string }>({});
+
+  const getDraft = useCallback(
+    (entry: QuarantinedRecord) => drafts[entry.id] ?? toEditableText(entry.record),
+    [drafts]
+  );
+
+  const handleRestore = useCallback((entry: QuarantinedRecord) => {
+    let record: unknown;
+    try {
+      record = JSON.parse(getDraft(entry));
+    } catch {
+      Alert.alert('Errore', 'Il testo non è un JSON valido');
+      triggerHaptic('error');
+      return;
+    }
+
+    const issues = restoreQuarantinedRecord(entry.id, record);
+    if (issues.length > 0) {
+      Alert.alert('Record ancora non valido', issues.map(formatIssue).join('\n'));
+      triggerHaptic('error');
+      return;
+    }
+
+    setDrafts(prev => {
+      const { [entry.id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    triggerHaptic('success');
+  }, [getDraft, restoreQuarantinedRecord]);
+
+  const handleExport = useCallback(async (entry: QuarantinedRecord) => {
+    try {
+      await Share.share({
+        title: `${KIND_LABELS[entry.kind]} in quarantena`,
+        message: JSON.stringify(entry, null, 2),
+      });
+    } catch (error) {
+      console.error('Failed to export quarantined record:', error);
+      Alert.alert('Errore', 'Impossibile esportare il record');
+    }
+  }, []);
+
+  const handleDelete = useCallback((entry: QuarantinedRecord) => {
+    Alert.alert(
+      'Elimina Record',
+      'Il record verrà eliminato definitivamente. Continuare?',
+      [
+        { text: 'Annulla', style: 'cancel' },
+        {
+          text: 'Elimina',
+          style: 'destructive',
+          onPress: () => {
+            deleteQuarantinedRecord(entry.id);
+            triggerHaptic('error');
+          },
+        },
+      ]
+    );
+  }, [deleteQuarantinedRecord]);
+
+  const renderEntry = useCallback(({ item: entry }: { item: QuarantinedRecord }) => (
+    <Card style={styles.entryCard} padding="lg">
+      <View style={styles.entryHeader}>
+        <Text style={styles.entryKind}>{KIND_LABELS[entry.kind]}</Text>
+        <Text style={styles.entryDate}>
+          {new Date(entry.quarantinedAt).toLocaleString('it-IT')}
+        </Text>
+      </View>
+
+      <View style={styles.issues}>
+        {entry.issues.map((issue, index) => (
+          <Text key={`${issue.path}-${index}`} style={styles.issueText}>
+            • {formatIssue(issue)}
+          </Text>
+        ))}
+      </View>
+
+      <TextInput
+        style={styles.recordInput}
+        value={getDraft(entry)}
+        onChangeText={text => setDrafts(prev => ({ ...prev, [entry.id]: text }))}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+        accessibilityLabel={`Edit ${entry.kind} record`}
+      />
+
+      <View style={styles.entryActions}>
+        <Button
+          title="Ripristina"
+          variant="primary"
+          size="small"
+          onPress={() => handleRestore(entry)}
+          accessibilityLabel={`Restore ${entry.kind} record`}
+        />
+        <Button
+          title="Esporta"
+          variant="secondary"
+          size="small"
+          onPress={() => handleExport(entry)}
+          accessibilityLabel={`Export ${entry.kind} record`}
+        />
+        <Button
+          title="Elimina"
+          variant="danger"
+          size="small"
+          onPress={() => handleDelete(entry)}
+          accessibilityLabel={`Delete ${entry.kind} record`}
+        />
+      </View>
+    </Card>
+  ), [getDraft, handleRestore, handleExport, handleDelete]);
+
+  const ListEmptyComponent = useCallback(() => (
+    <EmptyState
+      emoji="✅"
+      title="Nessun dato da riparare"
+      subtitle="Tutti i dati salvati sono validi"
+    />
+  ), []);
+
+  if (isLoading) {
+    return <Loading fullScreen text="Caricamento..." />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Ripara Dati</Text>
+        <Button
+          title="Indietro"
+          variant="ghost"
+          size="small"
+          onPress={() => navigation.goBack()}
+          accessibilityLabel="Go back"
+        />
+      </View>
+
+      <FlatList
+        data={quarantine}
+        renderItem={renderEntry}
+        keyExtractor={item => item.id}
+        ListEmptyComponent={ListEmptyComponent}
+        contentContainerStyle={styles.listContent}
+        removeClippedSubviews={Platform.OS === 'android'}
+        windowSize={APP_CONSTANTS.LIST_PERFORMANCE.windowSize}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    backgroundColor: COLORS.surface,
+    padding: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: FONT_SIZES.xxxl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingTop: SPACING.md,
+  },
+  entryCard: {
+    marginBottom: SPACING.md,
+    marginHorizontal: SPACING.lg,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: SPACING.sm,
+  },
+  entryKind: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  entryDate: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  issues: {
+    backgroundColor: COLORS.background,
+    padding: SPACING.sm,
+    borderRadius: BORDER_RADIUS.sm,
+    marginBottom: SPACING.md,
+  },
+  issueText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+    marginBottom: 2,
+  },
+  recordInput: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.sm,
+    fontFamily: Platform.select({ ios: 'Menlo', android: 'monospace', default: 'monospace' }),
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.surface,
+    minHeight: 120,
+    textAlignVertical: 'top',
+    marginBottom: SPACING.md,
+  },
+  entryActions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    justifyContent: 'flex-end',
+  },
+});
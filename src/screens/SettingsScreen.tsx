@@ -0,0 +1,1069 @@
+/**
+ * SettingsScreen - Configure how the kiosk takes payments and prices products
+ *
+ * Lets the user manage the payment methods offered in the OrderScreen
+ * receipt modal. Cash is built in: it can be renamed but never disabled
+ * or deleted, since it is the only method that gives change.
+ * Pricing rules change prices during a daily time window (e.g. happy hour)
+ * without editing the products. Promotions (e.g. 3x2) are applied to the
+ * order automatically as soon as it qualifies.
+ * The operator on the till signs every entry of the audit log.
+ *
+ * Features:
+ * - Set the operator name and open the audit log
+ * - Add/Edit payment methods (name and emoji)
+ * - Enable/disable methods at checkout
+ * - Delete unused methods (methods used by orders can only be disabled)
+ * - Add/Edit/Delete pricing rules: time window, days, categories or products,
+ *   fixed price or percentage off
+ * - Enable/disable pricing rules
+ * - Add/Edit/Delete promotions: "buy X pay Y" or "Nth unit discounted",
+ *   on categories or products
+ * - Enable/disable promotions
+ *
+ * @module screens/SettingsScreen
+ */
+
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  Switch,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import { useApp } from '../context/AppContext';
+import { PaymentMethod, PricingRule, Promotion, RootTabParamList } from '../types';
+import { CASH_PAYMENT_METHOD_ID } from '../data/paymentMethods';
+import { Button, Card, Loading } from '../components';
+import { triggerHaptic } from '../utils/haptics';
+import { formatMoney, formatMoneyInput, parseMoney } from '../utils/money';
+import {
+  DAY_LABELS,
+  formatRuleSchedule,
+  formatTimeOfDay,
+  parseTimeOfDay,
+} from '../utils/pricingRules';
+import { formatDeal } from '../utils/promotions';
+import {
+  COLORS,
+  SPACING,
+  FONT_SIZES,
+  BORDER_RADIUS,
+  TOUCH_TARGETS,
+} from '../constants/theme';
+
+const DEFAULT_METHOD_EMOJI = '💳';
+
+/** Days in the order shown in the rule form, Monday first */
+const WEEK_DAYS = [1, 2, 3, 4, 5, 6, 0];
+
+/** Add a value to a multi-choice list, or remove it if already chosen */
+const toggleInList = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+/**
+ * SettingsScreen component
+ */
+export default function SettingsScreen() {
+  const navigation = useNavigation<BottomTabNavigationProp<RootTabParamList>>();
+  const {
+    paymentMethods,
+    orders,
+    products,
+    categories,
+    addPaymentMethod,
+    updatePaymentMethod,
+    deletePaymentMethod,
+    pricingRules,
+    addPricingRule,
+    updatePricingRule,
+    deletePricingRule,
+    promotions,
+    addPromotion,
+    updatePromotion,
+    deletePromotion,
+    operator,
+    setOperator,
+    isLoading,
+  } = useApp();
+  const [operatorName, setOperatorName] = useState(operator);
+  const [editingMethod, setEditingMethod] = useState<PaymentMethod | null>(null);
+  const [methodName, setMethodName] = useState('');
+  const [methodEmoji, setMethodEmoji] = useState(DEFAULT_METHOD_EMOJI);
+
+  const [editingRule, setEditingRule] = useState<PricingRule | null>(null);
+  const [ruleName, setRuleName] = useState('');
+  const [ruleStart, setRuleStart] = useState('');
+  const [ruleEnd, setRuleEnd] = useState('');
+  const [ruleDays, setRuleDays] = useState<number[]>([]);
+  const [ruleCategoryIds, setRuleCategoryIds] = useState<string[]>([]);
+  const [ruleProductIds, setRuleProductIds] = useState<string[]>([]);
+  const [ruleType, setRuleType] = useState<PricingRule['adjustment']['type']>('fixedPrice');
+  const [ruleValue, setRuleValue] = useState('');
+
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [promotionName, setPromotionName] = useState('');
+  const [promotionCategoryIds, setPromotionCategoryIds] = useState<string[]>([]);
+  const [promotionProductIds, setPromotionProductIds] = useState<string[]>([]);
+  const [dealType, setDealType] = useState<Promotion['deal']['type']>('multiBuy');
+  const [dealQuantity, setDealQuantity] = useState('');
+  const [dealValue, setDealValue] = useState('');
+
+  // Follow the stored operator once it has loaded
+  useEffect(() => {
+    setOperatorName(operator);
+  }, [operator]);
+
+  const handleSaveOperator = useCallback(() => {
+    setOperator(operatorName);
+    triggerHaptic('success');
+  }, [operatorName, setOperator]);
+
+  const usedMethodIds = useMemo(
+    () => new Set(orders.flatMap(order => order.payments ?? []).map(leg => leg.method)),
+    [orders]
+  );
+
+  const resetForm = useCallback(() => {
+    setEditingMethod(null);
+    setMethodName('');
+    setMethodEmoji(DEFAULT_METHOD_EMOJI);
+  }, []);
+
+  const startEditMethod = useCallback((method: PaymentMethod) => {
+    setEditingMethod(method);
+    setMethodName(method.name);
+    setMethodEmoji(method.emoji);
+    triggerHaptic('light');
+  }, []);
+
+  const handleSaveMethod = useCallback(() => {
+    const trimmedName = methodName.trim();
+    const trimmedEmoji = methodEmoji.trim();
+    if (!trimmedName) {
+      Alert.alert('Errore', 'Inserisci un nome per il metodo di pagamento');
+      return;
+    }
+    if (!trimmedEmoji) {
+      Alert.alert('Errore', 'Inserisci un\'emoji per il metodo di pagamento');
+      return;
+    }
+
+    const duplicate = paymentMethods.some(
+      m => m.name.toLowerCase() === trimmedName.toLowerCase() && m.id !== editingMethod?.id
+    );
+    if (duplicate) {
+      Alert.alert('Errore', 'Esiste già un metodo di pagamento con questo nome');
+      return;
+    }
+
+    if (editingMethod) {
+      updatePaymentMethod(editingMethod.id, {
+        ...editingMethod,
+        name: trimmedName,
+        emoji: trimmedEmoji,
+      });
+    } else {
+      addPaymentMethod({
+        id: Date.now().toString(),
+        name: trimmedName,
+        emoji: trimmedEmoji,
+        enabled: true,
+      });
+    }
+
+    triggerHaptic('success');
+    resetForm();
+  }, [methodName, methodEmoji, paymentMethods, editingMethod, addPaymentMethod, updatePaymentMethod, resetForm]);
+
+  const handleToggleMethod = useCallback((method: PaymentMethod, enabled: boolean) => {
+    updatePaymentMethod(method.id, { ...method, enabled });
+    triggerHaptic('light');
+  }, [updatePaymentMethod]);
+
+  /**
+   * Delete a payment method. Methods already used by orders are only
+   * disabled, so the history keeps showing their name.
+   */
+  const handleDeleteMethod = useCallback((method: PaymentMethod) => {
+    if (usedMethodIds.has(method.id)) {
+      Alert.alert(
+        'Metodo in uso',
+        `Ci sono ordini pagati con "${method.name}". Puoi disattivarlo invece di eliminarlo.`,
+        [
+          { text: 'Annulla', style: 'cancel' },
+          {
+            text: 'Disattiva',
+            onPress: () => handleToggleMethod(method, false),
+          },
+        ]
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Elimina Metodo',
+      `Vuoi eliminare "${method.name}"?`,
+      [
+        { text: 'Annulla', style: 'cancel' },
+        {
+          text: 'Elimina',
+          style: 'destructive',
+          onPress: () => {
+            deletePaymentMethod(method.id);
+            if (editingMethod?.id === method.id) {
+              resetForm();
+            }
+            triggerHaptic('error');
+          },
+        },
+      ]
+    );
+  }, [usedMethodIds, handleToggleMethod, deletePaymentMethod, editingMethod, resetForm]);
+
+  const resetRuleForm = useCallback(() => {
+    setEditingRule(null);
+    setRuleName('');
+    setRuleStart('');
+    setRuleEnd('');
+    setRuleDays([]);
+    setRuleCategoryIds([]);
+    setRuleProductIds([]);
+    setRuleType('fixedPrice');
+    setRuleValue('');
+  }, []);
+
+  const startEditRule = useCallback((rule: PricingRule) => {
+    setEditingRule(rule);
+    setRuleName(rule.name);
+    setRuleStart(rule.startTime);
+    setRuleEnd(rule.endTime);
+    setRuleDays(rule.days);
+    setRuleCategoryIds(rule.categoryIds);
+    setRuleProductIds(rule.productIds);
+    setRuleType(rule.adjustment.type);
+    setRuleValue(
+      rule.adjustment.type === 'fixedPrice'
+        ? formatMoneyInput(rule.adjustment.value)
+        : String(rule.adjustment.value)
+    );
+    triggerHaptic('light');
+  }, []);
+
+  const handleSaveRule = useCallback(() => {
+    const trimmedName = ruleName.trim();
+    if (!trimmedName) {
+      Alert.alert('Errore', 'Inserisci un nome per la regola');
+      return;
+    }
+
+    const start = parseTimeOfDay(ruleStart);
+    const end = parseTimeOfDay(ruleEnd);
+    if (start === null || end === null) {
+      Alert.alert('Errore', 'Inserisci orari validi (es. 18:00)');
+      return;
+    }
+    if (start === end) {
+      Alert.alert('Errore', 'L\'orario di fine deve essere diverso da quello di inizio');
+      return;
+    }
+
+    if (ruleCategoryIds.length === 0 && ruleProductIds.length === 0) {
+      Alert.alert('Errore', 'Scegli almeno una categoria o un prodotto');
+      return;
+    }
+
+    let value: number | null;
+    if (ruleType === 'fixedPrice') {
+      value = parseMoney(ruleValue);
+      if (value === null) {
+        Alert.alert('Errore', 'Inserisci un prezzo valido');
+        return;
+      }
+    } else {
+      value = Number(ruleValue.trim());
+      if (!Number.isInteger(value) || value < 1 || value > 100) {
+        Alert.alert('Errore', 'Inserisci una percentuale tra 1 e 100');
+        return;
+      }
+    }
+
+    const rule: PricingRule = {
+      id: editingRule?.id ?? Date.now().toString(),
+      name: trimmedName,
+      enabled: editingRule?.enabled ?? true,
+      startTime: formatTimeOfDay(start),
+      endTime: formatTimeOfDay(end),
+      days: ruleDays,
+      categoryIds: ruleCategoryIds,
+      productIds: ruleProductIds,
+      adjustment: { type: ruleType, value },
+    };
+
+    if (editingRule) {
+      updatePricingRule(editingRule.id, rule);
+    } else {
+      addPricingRule(rule);
+    }
+
+    triggerHaptic('success');
+    resetRuleForm();
+  }, [
+    ruleName,
+    ruleStart,
+    ruleEnd,
+    ruleDays,
+    ruleCategoryIds,
+    ruleProductIds,
+    ruleType,
+    ruleValue,
+    editingRule,
+    addPricingRule,
+    updatePricingRule,
+    resetRuleForm,
+  ]);
+
+  const handleToggleRule = useCallback((rule: PricingRule, enabled: boolean) => {
+    updatePricingRule(rule.id, { ...rule, enabled });
+    triggerHaptic('light');
+  }, [updatePricingRule]);
+
+  const handleDeleteRule = useCallback((rule: PricingRule) => {
+    Alert.alert(
+      'Elimina Regola',
+      `Vuoi eliminare "${rule.name}"? Gli ordini già completati mantengono i prezzi applicati.`,
+      [
+        { text: 'Annulla', style: 'cancel' },
+        {
+          text: 'Elimina',
+          style: 'destructive',
+          onPress: () => {
+            deletePricingRule(rule.id);
+            if (editingRule?.id === rule.id) {
+              resetRuleForm();
+            }
+            triggerHaptic('error');
+          },
+        },
+      ]
+    );
+  }, [deletePricingRule, editingRule, resetRuleForm]);
+
+  const resetPromotionForm = useCallback(() => {
+    setEditingPromotion(null);
+    setPromotionName('');
+    setPromotionCategoryIds([]);
+    setPromotionProductIds([]);
+    setDealType('multiBuy');
+    setDealQuantity('');
+    setDealValue('');
+  }, []);
+
+  const startEditPromotion = useCallback((promotion: Promotion) => {
+    const { deal } = promotion;
+    setEditingPromotion(promotion);
+    setPromotionName(promotion.name);
+    setPromotionCategoryIds(promotion.categoryIds);
+    setPromotionProductIds(promotion.productIds);
+    setDealType(deal.type);
+    setDealQuantity(String(deal.type === 'multiBuy' ? deal.buy : deal.nth));
+    setDealValue(String(deal.type === 'multiBuy' ? deal.pay : deal.percentage));
+    triggerHaptic('light');
+  }, []);
+
+  const handleSavePromotion = useCallback(() => {
+    const trimmedName = promotionName.trim();
+    if (!trimmedName) {
+      Alert.alert('Errore', 'Inserisci un nome per la promozione');
+      return;
+    }
+
+    if (promotionCategoryIds.length === 0 && promotionProductIds.length === 0) {
+      Alert.alert('Errore', 'Scegli almeno una categoria o un prodotto');
+      return;
+    }
+
+    const quantity = Number(dealQuantity.trim());
+    const value = Number(dealValue.trim());
+    if (!Number.isInteger(quantity) || quantity < 2) {
+      Alert.alert('Errore', 'La promozione deve valere da almeno 2 pezzi');
+      return;
+    }
+
+    let deal: Promotion['deal'];
+    if (dealType === 'multiBuy') {
+      if (!Number.isInteger(value) || value < 1 || value >= quantity) {
+        Alert.alert('Errore', `I pezzi da pagare devono essere tra 1 e ${quantity - 1}`);
+        return;
+      }
+      deal = { type: 'multiBuy', buy: quantity, pay: value };
+    } else {
+      if (!Number.isInteger(value) || value < 1 || value > 100) {
+        Alert.alert('Errore', 'Inserisci una percentuale tra 1 e 100');
+        return;
+      }
+      deal = { type: 'nthDiscounted', nth: quantity, percentage: value };
+    }
+
+    const promotion: Promotion = {
+      id: editingPromotion?.id ?? Date.now().toString(),
+      name: trimmedName,
+      enabled: editingPromotion?.enabled ?? true,
+      categoryIds: promotionCategoryIds,
+      productIds: promotionProductIds,
+      deal,
+    };
+
+    if (editingPromotion) {
+      updatePromotion(editingPromotion.id, promotion);
+    } else {
+      addPromotion(promotion);
+    }
+
+    triggerHaptic('success');
+    resetPromotionForm();
+  }, [
+    promotionName,
+    promotionCategoryIds,
+    promotionProductIds,
+    dealType,
+    dealQuantity,
+    dealValue,
+    editingPromotion,
+    addPromotion,
+    updatePromotion,
+    resetPromotionForm,
+  ]);
+
+  const handleTogglePromotion = useCallback((promotion: Promotion, enabled: boolean) => {
+    updatePromotion(promotion.id, { ...promotion, enabled });
+    triggerHaptic('light');
+  }, [updatePromotion]);
+
+  const handleDeletePromotion = useCallback((promotion: Promotion) => {
+    Alert.alert(
+      'Elimina Promozione',
+      `Vuoi eliminare "${promotion.name}"? Gli ordini già completati mantengono gli sconti applicati.`,
+      [
+        { text: 'Annulla', style: 'cancel' },
+        {
+          text: 'Elimina',
+          style: 'destructive',
+          onPress: () => {
+            deletePromotion(promotion.id);
+            if (editingPromotion?.id === promotion.id) {
+              resetPromotionForm();
+            }
+            triggerHaptic('error');
+          },
+        },
+      ]
+    );
+  }, [deletePromotion, editingPromotion, resetPromotionForm]);
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+    accessibilityLabel: string
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      accessibilityRole="checkbox"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityState={{ checked: selected }}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  if (isLoading) {
+    return <Loading fullScreen text="Caricamento impostazioni..." />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Impostazioni</Text>
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.content}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          <Card padding="lg">
+            <Text style={styles.sectionTitle}>Operatore</Text>
+            <Text style={styles.hintText}>
+              Chi è alla cassa: il nome viene registrato con ogni modifica nel registro attività
+            </Text>
+            <View style={[styles.formRow, styles.formRowSpaced]}>
+              <TextInput
+                style={[styles.input, styles.nameInput]}
+                placeholder="Nome (es. Giulia)"
+                value={operatorName}
+                onChangeText={setOperatorName}
+                maxLength={30}
+                accessibilityLabel="Operator name input"
+                returnKeyType="done"
+                onSubmitEditing={handleSaveOperator}
+              />
+              <Button
+                title="Salva"
+                variant="primary"
+                size="medium"
+                onPress={handleSaveOperator}
+                disabled={operatorName.trim() === operator}
+                accessibilityLabel="Save operator"
+              />
+            </View>
+            <View style={styles.formActions}>
+              <Button
+                title="📋 Registro attività"
+                variant="secondary"
+                size="medium"
+                onPress={() => navigation.navigate('AuditLog')}
+                style={styles.formActionButton}
+                accessibilityLabel="Open audit log"
+              />
+            </View>
+          </Card>
+
+          <Card padding="lg" style={styles.card}>
+            <Text style={styles.sectionTitle}>Metodi di Pagamento</Text>
+
+            {paymentMethods.map(method => {
+              const isCash = method.id === CASH_PAYMENT_METHOD_ID;
+              return (
+                <View key={method.id} style={styles.methodRow}>
+                  <Text style={styles.methodEmoji}>{method.emoji}</Text>
+                  <Text
+                    style={[styles.methodName, !method.enabled && styles.methodNameDisabled]}
+                    numberOfLines={1}
+                  >
+                    {method.name}
+                  </Text>
+                  <Switch
+                    value={method.enabled}
+                    onValueChange={enabled => handleToggleMethod(method, enabled)}
+                    disabled={isCash}
+                    trackColor={{ true: COLORS.primary, false: COLORS.border }}
+                    accessibilityLabel={`Enable ${method.name}`}
+                  />
+                  <Button
+                    title="Modifica"
+                    variant="secondary"
+                    size="small"
+                    onPress={() => startEditMethod(method)}
+                    accessibilityLabel={`Edit payment method ${method.name}`}
+                  />
+                  {!isCash && (
+                    <Button
+                      title="Elimina"
+                      variant="danger"
+                      size="small"
+                      onPress={() => handleDeleteMethod(method)}
+                      accessibilityLabel={`Delete payment method ${method.name}`}
+                    />
+                  )}
+                </View>
+              );
+            })}
+
+            <Text style={styles.sectionLabel}>
+              {editingMethod ? `Modifica "${editingMethod.name}"` : 'Nuovo metodo'}
+            </Text>
+            <View style={styles.formRow}>
+              <TextInput
+                style={[styles.input, styles.emojiInput]}
+                value={methodEmoji}
+                onChangeText={setMethodEmoji}
+                maxLength={4}
+                accessibilityLabel="Payment method emoji input"
+              />
+              <TextInput
+                style={[styles.input, styles.nameInput]}
+                placeholder="Nome metodo (es. Satispay)"
+                value={methodName}
+                onChangeText={setMethodName}
+                maxLength={30}
+                accessibilityLabel="Payment method name input"
+                returnKeyType="done"
+              />
+            </View>
+
+            <View style={styles.formActions}>
+              {editingMethod && (
+                <Button
+                  title="Annulla modifica"
+                  variant="ghost"
+                  size="medium"
+                  onPress={resetForm}
+                  style={styles.formActionButton}
+                />
+              )}
+              <Button
+                title={editingMethod ? 'Salva' : 'Aggiungi'}
+                variant="primary"
+                size="medium"
+                onPress={handleSaveMethod}
+                style={styles.formActionButton}
+                accessibilityLabel="Save payment method"
+              />
+            </View>
+          </Card>
+
+          <Card padding="lg" style={styles.card}>
+            <Text style={styles.sectionTitle}>Prezzi a Tempo</Text>
+            {pricingRules.length === 0 && (
+              <Text style={styles.hintText}>
+                Nessuna regola: aggiungine una per l'happy hour o i prezzi serali
+              </Text>
+            )}
+
+            {pricingRules.map(rule => (
+              <View key={rule.id} style={styles.methodRow}>
+                <View style={styles.ruleInfo}>
+                  <Text
+                    style={[styles.methodName, !rule.enabled && styles.methodNameDisabled]}
+                    numberOfLines={1}
+                  >
+                    {rule.name}
+                  </Text>
+                  <Text style={styles.hintText} numberOfLines={2}>
+                    {formatRuleSchedule(rule)} •{' '}
+                    {rule.adjustment.type === 'fixedPrice'
+                      ? formatMoney(rule.adjustment.value)
+                      : `-${rule.adjustment.value}%`}
+                  </Text>
+                </View>
+                <Switch
+                  value={rule.enabled}
+                  onValueChange={enabled => handleToggleRule(rule, enabled)}
+                  trackColor={{ true: COLORS.primary, false: COLORS.border }}
+                  accessibilityLabel={`Enable pricing rule ${rule.name}`}
+                />
+                <Button
+                  title="Modifica"
+                  variant="secondary"
+                  size="small"
+                  onPress={() => startEditRule(rule)}
+                  accessibilityLabel={`Edit pricing rule ${rule.name}`}
+                />
+                <Button
+                  title="Elimina"
+                  variant="danger"
+                  size="small"
+                  onPress={() => handleDeleteRule(rule)}
+                  accessibilityLabel={`Delete pricing rule ${rule.name}`}
+                />
+              </View>
+            ))}
+
+            <Text style={styles.sectionLabel}>
+              {editingRule ? `Modifica "${editingRule.name}"` : 'Nuova regola'}
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Nome regola (es. Happy Hour)"
+              value={ruleName}
+              onChangeText={setRuleName}
+              maxLength={30}
+              accessibilityLabel="Pricing rule name input"
+            />
+            <View style={[styles.formRow, styles.formRowSpaced]}>
+              <TextInput
+                style={[styles.input, styles.nameInput]}
+                placeholder="Dalle (18:00)"
+                value={ruleStart}
+                onChangeText={setRuleStart}
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+                accessibilityLabel="Pricing rule start time input"
+              />
+              <TextInput
+                style={[styles.input, styles.nameInput]}
+                placeholder="Alle (20:00)"
+                value={ruleEnd}
+                onChangeText={setRuleEnd}
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+                accessibilityLabel="Pricing rule end time input"
+              />
+            </View>
+
+            <Text style={styles.sectionLabel}>Giorni (nessuno = tutti):</Text>
+            <View style={styles.chips}>
+              {WEEK_DAYS.map(day =>
+                renderChip(
+                  String(day),
+                  DAY_LABELS[day],
+                  ruleDays.includes(day),
+                  () => setRuleDays(prev => toggleInList(prev, day)),
+                  `Pricing rule day ${DAY_LABELS[day]}`
+                )
+              )}
+            </View>
+
+            <Text style={styles.sectionLabel}>Categorie:</Text>
+            <View style={styles.chips}>
+              {categories.map(category =>
+                renderChip(
+                  category.id,
+                  `${category.emoji} ${category.name}`,
+                  ruleCategoryIds.includes(category.id),
+                  () => setRuleCategoryIds(prev => toggleInList(prev, category.id)),
+                  `Pricing rule category ${category.name}`
+                )
+              )}
+            </View>
+
+            {products.length > 0 && (
+              <>
+                <Text style={styles.sectionLabel}>Prodotti:</Text>
+                <View style={styles.chips}>
+                  {products.map(product =>
+                    renderChip(
+                      product.id,
+                      `${product.emoji} ${product.name}`,
+                      ruleProductIds.includes(product.id),
+                      () => setRuleProductIds(prev => toggleInList(prev, product.id)),
+                      `Pricing rule product ${product.name}`
+                    )
+                  )}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.sectionLabel}>Prezzo:</Text>
+            <View style={styles.chips}>
+              {renderChip(
+                'fixedPrice',
+                'Prezzo fisso',
+                ruleType === 'fixedPrice',
+                () => setRuleType('fixedPrice'),
+                'Pricing rule fixed price'
+              )}
+              {renderChip(
+                'percentage',
+                'Sconto %',
+                ruleType === 'percentage',
+                () => setRuleType('percentage'),
+                'Pricing rule percentage off'
+              )}
+            </View>
+            <TextInput
+              style={styles.input}
+              placeholder={ruleType === 'fixedPrice' ? 'Prezzo (€)' : 'Sconto (%)'}
+              value={ruleValue}
+              onChangeText={setRuleValue}
+              keyboardType="decimal-pad"
+              accessibilityLabel="Pricing rule value input"
+            />
+
+            <View style={styles.formActions}>
+              {editingRule && (
+                <Button
+                  title="Annulla modifica"
+                  variant="ghost"
+                  size="medium"
+                  onPress={resetRuleForm}
+                  style={styles.formActionButton}
+                />
+              )}
+              <Button
+                title={editingRule ? 'Salva' : 'Aggiungi'}
+                variant="primary"
+                size="medium"
+                onPress={handleSaveRule}
+                style={styles.formActionButton}
+                accessibilityLabel="Save pricing rule"
+              />
+            </View>
+          </Card>
+
+          <Card padding="lg" style={styles.card}>
+            <Text style={styles.sectionTitle}>Promozioni</Text>
+            {promotions.length === 0 && (
+              <Text style={styles.hintText}>
+                Nessuna promozione: aggiungine una come il 3x2 sulle birre
+              </Text>
+            )}
+
+            {promotions.map(promotion => (
+              <View key={promotion.id} style={styles.methodRow}>
+                <View style={styles.ruleInfo}>
+                  <Text
+                    style={[styles.methodName, !promotion.enabled && styles.methodNameDisabled]}
+                    numberOfLines={1}
+                  >
+                    {promotion.name}
+                  </Text>
+                  <Text style={styles.hintText} numberOfLines={1}>
+                    {formatDeal(promotion.deal)}
+                  </Text>
+                </View>
+                <Switch
+                  value={promotion.enabled}
+                  onValueChange={enabled => handleTogglePromotion(promotion, enabled)}
+                  trackColor={{ true: COLORS.primary, false: COLORS.border }}
+                  accessibilityLabel={`Enable promotion ${promotion.name}`}
+                />
+                <Button
+                  title="Modifica"
+                  variant="secondary"
+                  size="small"
+                  onPress={() => startEditPromotion(promotion)}
+                  accessibilityLabel={`Edit promotion ${promotion.name}`}
+                />
+                <Button
+                  title="Elimina"
+                  variant="danger"
+                  size="small"
+                  onPress={() => handleDeletePromotion(promotion)}
+                  accessibilityLabel={`Delete promotion ${promotion.name}`}
+                />
+              </View>
+            ))}
+
+            <Text style={styles.sectionLabel}>
+              {editingPromotion ? `Modifica "${editingPromotion.name}"` : 'Nuova promozione'}
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Nome promozione (es. 3x2 Birre)"
+              value={promotionName}
+              onChangeText={setPromotionName}
+              maxLength={30}
+              accessibilityLabel="Promotion name input"
+            />
+
+            <Text style={styles.sectionLabel}>Tipo:</Text>
+            <View style={styles.chips}>
+              {renderChip(
+                'multiBuy',
+                'Prendi X paghi Y',
+                dealType === 'multiBuy',
+                () => setDealType('multiBuy'),
+                'Promotion buy X pay Y'
+              )}
+              {renderChip(
+                'nthDiscounted',
+                'N° pezzo scontato',
+                dealType === 'nthDiscounted',
+                () => setDealType('nthDiscounted'),
+                'Promotion Nth unit discounted'
+              )}
+            </View>
+            <View style={[styles.formRow, styles.formRowSpaced]}>
+              <TextInput
+                style={[styles.input, styles.nameInput]}
+                placeholder={dealType === 'multiBuy' ? 'Prendi (3)' : 'Ogni (2)'}
+                value={dealQuantity}
+                onChangeText={setDealQuantity}
+                keyboardType="number-pad"
+                maxLength={2}
+                accessibilityLabel="Promotion quantity input"
+              />
+              <TextInput
+                style={[styles.input, styles.nameInput]}
+                placeholder={dealType === 'multiBuy' ? 'Paghi (2)' : 'Sconto (%)'}
+                value={dealValue}
+                onChangeText={setDealValue}
+                keyboardType="number-pad"
+                maxLength={3}
+                accessibilityLabel="Promotion value input"
+              />
+            </View>
+
+            <Text style={styles.sectionLabel}>Categorie:</Text>
+            <View style={styles.chips}>
+              {categories.map(category =>
+                renderChip(
+                  category.id,
+                  `${category.emoji} ${category.name}`,
+                  promotionCategoryIds.includes(category.id),
+                  () => setPromotionCategoryIds(prev => toggleInList(prev, category.id)),
+                  `Promotion category ${category.name}`
+                )
+              )}
+            </View>
+
+            {products.length > 0 && (
+              <>
+                <Text style={styles.sectionLabel}>Prodotti:</Text>
+                <View style={styles.chips}>
+                  {products.map(product =>
+                    renderChip(
+                      product.id,
+                      `${product.emoji} ${product.name}`,
+                      promotionProductIds.includes(product.id),
+                      () => setPromotionProductIds(prev => toggleInList(prev, product.id)),
+                      `Promotion product ${product.name}`
+                    )
+                  )}
+                </View>
+              </>
+            )}
+
+            <View style={styles.formActions}>
+              {editingPromotion && (
+                <Button
+                  title="Annulla modifica"
+                  variant="ghost"
+                  size="medium"
+                  onPress={resetPromotionForm}
+                  style={styles.formActionButton}
+                />
+              )}
+              <Button
+                title={editingPromotion ? 'Salva' : 'Aggiungi'}
+                variant="primary"
+                size="medium"
+                onPress={handleSavePromotion}
+                style={styles.formActionButton}
+                accessibilityLabel="Save promotion"
+              />
+            </View>
+          </Card>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    backgroundColor: COLORS.surface,
+    padding: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  title: {
+    fontSize: FONT_SIZES.xxxl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: SPACING.lg,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+    marginBottom: SPACING.md,
+  },
+  sectionLabel: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+    marginTop: SPACING.lg,
+    marginBottom: SPACING.sm,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  methodEmoji: {
+    fontSize: FONT_SIZES.xl,
+  },
+  methodName: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  methodNameDisabled: {
+    color: COLORS.textDisabled,
+  },
+  formRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  formRowSpaced: {
+    marginTop: SPACING.sm,
+  },
+  card: {
+    marginTop: SPACING.lg,
+  },
+  hintText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  ruleInfo: {
+    flex: 1,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    minHeight: TOUCH_TARGETS.small,
+    justifyContent: 'center',
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  chipSelected: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textPrimary,
+  },
+  chipTextSelected: {
+    color: COLORS.surface,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.lg,
+    minHeight: TOUCH_TARGETS.medium,
+    color: COLORS.textPrimary,
+  },
+  emojiInput: {
+    width: TOUCH_TARGETS.large,
+    textAlign: 'center',
+  },
+  nameInput: {
+    flex: 1,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+    marginTop: SPACING.lg,
+  },
+  formActionButton: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,230 @@
+/**
+ * ZReportScreen - End-of-day Z report for the treasurer
+ *
+ * One summary of a session at close, built from the same aggregation as the
+ * history so the two always agree. Opened from the history for the current
+ * session or for the archived session being browsed.
+ *
+ * Features:
+ * - Order count, gross, discounts, refunds and net, plus the deposits still held
+ * - First and last order time
+ * - Takings per payment method, units and revenue per category and per product
+ * - Export as plain text or CSV through the system share sheet
+ * - Empty state when the session has no orders
+ *
+ * @module screens/ZReportScreen
+ */
+
+import React, { useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert, Share } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import { useApp } from '../context/AppContext';
+import { RootTabParamList } from '../types';
+import { Button, Card, EmptyState, Loading } from '../components';
+import { formatMoney } from '../utils/money';
+import { formatZReportCsv, formatZReportText, getZReport } from '../utils/zReport';
+import { COLORS, SPACING, FONT_SIZES } from '../constants/theme';
+
+/**
+ * ZReportScreen component
+ */
+export default function ZReportScreen() {
+  const navigation = useNavigation<BottomTabNavigationProp<RootTabParamList>>();
+  const route = useRoute<RouteProp<RootTabParamList, 'ZReport'>>();
+  const { orders, sessions, categories, paymentMethods, isLoading } = useApp();
+
+  const session = sessions.find(s => s.id === route.params?.sessionId);
+  const title = session?.name ?? 'Sessione corrente';
+
+  const report = useMemo(
+    () => getZReport(session?.orders ?? orders, categories, paymentMethods),
+    [session, orders, categories, paymentMethods]
+  );
+
+  const handleExport = useCallback(async (format: 'text' | 'csv') => {
+    try {
+      await Share.share({
+        title: `Report Z - ${title}`,
+        message: format === 'csv' ? formatZReportCsv(report) : formatZReportText(report, title),
+      });
+    } catch (error) {
+      console.error('Failed to export Z report:', error);
+      Alert.alert('Errore', 'Impossibile esportare il report');
+    }
+  }, [report, title]);
+
+  const renderRow = (key: string, label: string, value: string, bold = false) => (
+    <View key={key} style={styles.row}>
+      <Text style={[styles.rowLabel, bold && styles.bold]} numberOfLines={1}>
+        {label}
+      </Text>
+      <Text style={[styles.rowValue, bold && styles.bold]}>{value}</Text>
+    </View>
+  );
+
+  if (isLoading) {
+    return <Loading fullScreen text="Caricamento..." />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <View style={styles.headerTitle}>
+          <Text style={styles.title}>Report Z</Text>
+          <Text style={styles.subtitle} numberOfLines={1}>{title}</Text>
+        </View>
+        <View style={styles.headerActions}>
+          <Button
+            title="Testo"
+            variant="secondary"
+            size="small"
+            onPress={() => handleExport('text')}
+            disabled={report.orderCount === 0}
+            accessibilityLabel="Export Z report as text"
+          />
+          <Button
+            title="CSV"
+            variant="secondary"
+            size="small"
+            onPress={() => handleExport('csv')}
+            disabled={report.orderCount === 0}
+            accessibilityLabel="Export Z report as CSV"
+          />
+          <Button
+            title="Indietro"
+            variant="ghost"
+            size="small"
+            onPress={() => navigation.goBack()}
+            accessibilityLabel="Go back"
+          />
+        </View>
+      </View>
+
+      {report.orderCount === 0 ? (
+        <EmptyState
+          emoji="🧾"
+          title="Nessun ordine"
+          subtitle="Il report comparirà dopo il primo ordine"
+        />
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <Card style={styles.section} padding="lg" variant="filled">
+            <Text style={styles.sectionTitle}>Totali</Text>
+            {renderRow('orders', 'Ordini', String(report.orderCount))}
+            {renderRow('gross', 'Lordo', formatMoney(report.gross))}
+            {renderRow('discounts', 'Sconti e promozioni', formatMoney(-report.discounts))}
+            {renderRow('refunds', 'Storni e rimborsi', formatMoney(-report.refunds))}
+            {renderRow('net', 'Netto', formatMoney(report.net), true)}
+            {renderRow('deposits', 'Cauzioni nette', formatMoney(report.deposits))}
+          </Card>
+
+          <Card style={styles.section} padding="lg" variant="filled">
+            <Text style={styles.sectionTitle}>Orari</Text>
+            {renderRow('first', 'Primo ordine', report.firstOrderAt?.toLocaleString('it-IT') ?? '-')}
+            {renderRow('last', 'Ultimo ordine', report.lastOrderAt?.toLocaleString('it-IT') ?? '-')}
+          </Card>
+
+          <Card style={styles.section} padding="lg" variant="filled">
+            <Text style={styles.sectionTitle}>Per Metodo di Pagamento</Text>
+            {report.paymentMethods.map(method =>
+              renderRow(
+                method.id || 'unspecified',
+                method.label,
+                `${method.count} ordini • ${formatMoney(method.total)}`
+              )
+            )}
+          </Card>
+
+          <Card style={styles.section} padding="lg" variant="filled">
+            <Text style={styles.sectionTitle}>Per Categoria</Text>
+            {report.categories.map(category =>
+              renderRow(
+                category.id || 'uncategorized',
+                category.name,
+                `${category.count} pz • ${formatMoney(category.total)}`
+              )
+            )}
+          </Card>
+
+          <Card style={styles.section} padding="lg" variant="filled">
+            <Text style={styles.sectionTitle}>Per Prodotto</Text>
+            {report.products.map((product, index) =>
+              renderRow(
+                `${product.name}-${index}`,
+                `${product.emoji} ${product.name}`,
+                `${product.count} pz • ${formatMoney(product.total)}`
+              )
+            )}
+          </Card>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    backgroundColor: COLORS.surface,
+    padding: SPACING.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    marginRight: SPACING.sm,
+  },
+  title: {
+    fontSize: FONT_SIZES.xxxl,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+  subtitle: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  content: {
+    padding: SPACING.lg,
+  },
+  section: {
+    marginBottom: SPACING.md,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+    marginBottom: SPACING.md,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: SPACING.xs,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textPrimary,
+    marginRight: SPACING.sm,
+  },
+  rowValue: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+  },
+  bold: {
+    fontWeight: 'bold',
+    color: COLORS.textPrimary,
+  },
+});
@@ -0,0 +1,226 @@
+/**
+ * Versioned migrations for data persisted by older app versions
+ *
+ * Persisted data carries a schema version. On load, every migration newer than
+ * the stored version runs in order on the raw JSON-parsed payloads, before Zod
+ * validation. Migrations must tolerate malformed input and leave anything they
+ * don't recognise untouched for the validators to reject.
+ *
+ * To change a persisted shape, append a migration with the next version number;
+ * never edit or reorder a migration that has already shipped.
+ *
+ * @module storage/migrations
+ */
+
+import { toCents } from '../utils/money';
+import { CASH_PAYMENT_METHOD_ID } from '../data/paymentMethods';
+
+type UnknownRecord = { [key: string]: unknown };
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Convert a euro amount to cents, passing non-numbers through unchanged */
+const amountToCents = (value: unknown): unknown =>
+  typeof value === 'number' ? toCents(value) : value;
+
+const productToCents = (product: unknown): unknown => {
+  if (!isRecord(product)) return product;
+  return { ...product, price: amountToCents(product.price) };
+};
+
+/**
+ * Convert persisted products from floating-point euros to integer cents
+ *
+ * @param products - Raw products array from AsyncStorage
+ * @returns Products with `price` in cents
+ */
+export const convertProductsToCents = (products: unknown): unknown => {
+  if (!Array.isArray(products)) return products;
+  return products.map(productToCents);
+};
+
+/**
+ * Convert persisted orders from floating-point euros to integer cents
+ * Converts `total`, `cashPaid`, `change` and every item's product price.
+ *
+ * @param orders - Raw orders array from AsyncStorage
+ * @returns Orders with all amounts in cents
+ */
+export const convertOrdersToCents = (orders: unknown): unknown => {
+  if (!Array.isArray(orders)) return orders;
+
+  return orders.map(order => {
+    if (!isRecord(order)) return order;
+
+    const converted: UnknownRecord = {
+      ...order,
+      total: amountToCents(order.total),
+      items: Array.isArray(order.items)
+        ? order.items.map(item =>
+            isRecord(item) ? { ...item, product: productToCents(item.product) } : item
+          )
+        : order.items,
+    };
+
+    if (order.cashPaid !== undefined) {
+      converted.cashPaid = amountToCents(order.cashPaid);
+    }
+    if (order.change !== undefined) {
+      converted.change = amountToCents(order.change);
+    }
+
+    return converted;
+  });
+};
+
+/**
+ * Record cash as the payment method of orders that were paid with cash
+ * Other legacy orders are left without a method, since they could have been
+ * paid by card or with exact cash.
+ *
+ * @param orders - Raw orders array from AsyncStorage
+ * @returns Orders with `paymentMethod` set where it can be inferred
+ */
+export const inferOrderPaymentMethods = (orders: unknown): unknown => {
+  if (!Array.isArray(orders)) return orders;
+
+  return orders.map(order => {
+    if (!isRecord(order) || order.paymentMethod !== undefined || order.cashPaid === undefined) {
+      return order;
+    }
+    return { ...order, paymentMethod: CASH_PAYMENT_METHOD_ID };
+  });
+};
+
+/**
+ * Turn each order's single payment method into a payment leg for the full total
+ * Orders without a method stay unspecified.
+ *
+ * @param orders - Raw orders array from AsyncStorage
+ * @returns Orders with `payments` instead of `paymentMethod`
+ */
+export const convertPaymentMethodsToLegs = (orders: unknown): unknown => {
+  if (!Array.isArray(orders)) return orders;
+
+  return orders.map(order => {
+    if (!isRecord(order) || order.paymentMethod === undefined) return order;
+
+    const { paymentMethod, ...rest } = order;
+    return { ...rest, payments: [{ method: paymentMethod, amount: order.total }] };
+  });
+};
+
+/**
+ * Raw payloads read from AsyncStorage, one entry per persisted data set
+ * (null when nothing is stored under that key)
+ */
+export interface PersistedData {
+  products: unknown;
+  categories: unknown;
+  orders: unknown;
+  /** Archived sessions, whose orders are migrated like the open session's */
+  sessions: unknown;
+}
+
+/**
+ * A single step in the migration pipeline
+ */
+export interface Migration {
+  /** Schema version the data is at after this migration runs */
+  version: number;
+  /** Short description of what changed in this version */
+  description: string;
+  /** Upgrade data from `version - 1` to `version` */
+  migrate: (data: PersistedData) => PersistedData;
+}
+
+/**
+ * Ordered list of migrations. Version 0 is data saved before versioning existed.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Store money as integer cents instead of floating-point euros',
+    migrate: data => ({
+      ...data,
+      products: convertProductsToCents(data.products),
+      orders: convertOrdersToCents(data.orders),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Record the payment method on orders paid with cash',
+    migrate: data => ({
+      ...data,
+      orders: inferOrderPaymentMethods(data.orders),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Store order payments as method/amount legs to allow split payments',
+    migrate: data => ({
+      ...data,
+      orders: convertPaymentMethodsToLegs(data.orders),
+    }),
+  },
+];
+
+/** Schema version written by this build of the app */
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Work out which schema version stored data is at
+ *
+ * @param storedVersion - Raw value of the schema version key (null if missing)
+ * @returns The stored schema version, or 0 for unversioned data
+ */
+export const getStoredSchemaVersion = (storedVersion: string | null): number => {
+  const version = storedVersion === null ? NaN : parseInt(storedVersion, 10);
+  return Number.isInteger(version) && version >= 0 ? version : 0;
+};
+
+/**
+ * Run a migration on the data, then on the orders archived in each session
+ * Migrations only upgrade `orders`; the sessions' orders go through the same step.
+ */
+const applyMigration = (migration: Migration, data: PersistedData): PersistedData => {
+  const migrated = migration.migrate(data);
+  if (!Array.isArray(migrated.sessions)) return migrated;
+
+  return {
+    ...migrated,
+    sessions: migrated.sessions.map(session => {
+      if (!isRecord(session)) return session;
+      const { orders } = migration.migrate({
+        products: null,
+        categories: null,
+        orders: session.orders ?? null,
+        sessions: null,
+      });
+      return { ...session, orders };
+    }),
+  };
+};
+
+/**
+ * Run every migration newer than `fromVersion`, in order
+ *
+ * @param data - Raw payloads read from AsyncStorage
+ * @param fromVersion - Schema version the data is currently at
+ * @returns Upgraded payloads and the version they are now at
+ *
+ * @example
+ * ```ts
+ * const { data, version } = runMigrations(rawData, getStoredSchemaVersion(versionData));
+ * ```
+ */
+export const runMigrations = (
+  data: PersistedData,
+  fromVersion: number
+): { data: PersistedData; version: number } => {
+  return MIGRATIONS.filter(migration => migration.version > fromVersion).reduce(
+    (acc, migration) => ({ data: applyMigration(migration, acc.data), version: migration.version }),
+    { data, version: fromVersion }
+  );
+};
@@ -8,12 +8,332 @@ export interface Product {
   name: string;
   /** Emoji icon representing the product */
   emoji: string;
-  /** Price in euros */
+  /** Price in integer euro cents (e.g. 350 for € 3.50); the cheapest variant's price when it has variants */
   price: number;
   /** Hex color code for the product button (e.g., "#FF6B6B") */
   buttonColor: string;
-  /** Category ID for filtering (food, drinks, desserts, snacks, other) */
+  /** ID of the user-defined category this product belongs to */
   category?: string;
+  /**
+   * Prepared units left to sell, shared by all variants (missing when stock
+   * isn't tracked; 0 means sold out)
+   */
+  stock?: number;
+  /** Warn when stock drops to this many units or fewer (only with tracked stock) */
+  lowStockThreshold?: number;
+  /** Sizes or formats sold at their own price (e.g. piccola/media); one must be chosen when present */
+  variants?: ProductVariant[];
+  /** Choices offered when the product is added to an order (e.g. sauces, "no onions") */
+  modifierGroups?: ModifierGroup[];
+  /** Components of a bundle (e.g. panino + bibita + patatine), sold together at `price` */
+  bundleSlots?: BundleSlot[];
+  /**
+   * Refundable deposit in cents charged with every unit (e.g. 100 for a reusable cup);
+   * kept apart from the price and from revenue
+   */
+  deposit?: number;
+  /** Price in tokens (gettoni) when paid by redeeming tokens, the same for every variant */
+  tokenPrice?: number;
+  /** Tokens handed out with every unit sold; makes the product a token sale (e.g. 10 for a pack) */
+  tokensIssued?: number;
+}
+
+/**
+ * A component of a bundle: either always the same product, or one product
+ * picked from a category when the bundle is ordered
+ */
+export type BundleSlot =
+  | {
+      /** Unique identifier within its bundle */
+      id: string;
+      /** Display name shown in the selection sheet (e.g. "Bibita") */
+      name: string;
+      type: 'fixed';
+      /** ID of the product always included */
+      productId: string;
+    }
+  | {
+      id: string;
+      name: string;
+      type: 'category';
+      /** ID of the category the customer picks one product from */
+      categoryId: string;
+    };
+
+/**
+ * The product filling one slot of a bundle on an order line
+ */
+export interface BundleComponent {
+  /** ID of the bundle slot this product fills */
+  slotId: string;
+  /** The component product as it was when chosen */
+  product: Product;
+}
+
+/**
+ * A size or format of a product with its own price (e.g. "Bottiglia")
+ */
+export interface ProductVariant {
+  /** Unique identifier within its product */
+  id: string;
+  /** Display name shown in the chooser, on receipts and in reports */
+  name: string;
+  /** Price in integer euro cents, replacing the product price */
+  price: number;
+  /** Units of this variant left to sell (missing when not tracked separately) */
+  stock?: number;
+}
+
+/**
+ * One choice within a modifier group (e.g. "Extra formaggio")
+ */
+export interface ModifierOption {
+  /** Unique identifier within its group */
+  id: string;
+  /** Display name shown in the selection sheet and on receipts */
+  name: string;
+  /** Amount added to the unit price in cents (negative for a reduction, 0 for free) */
+  priceDelta: number;
+}
+
+/**
+ * A set of related choices attached to a product (e.g. "Salse", "Cottura")
+ */
+export interface ModifierGroup {
+  /** Unique identifier within its product */
+  id: string;
+  /** Display name shown as the heading in the selection sheet */
+  name: string;
+  /** Whether at least one option must be chosen before adding the product */
+  required: boolean;
+  /** Whether several options can be chosen (otherwise exactly one at most) */
+  multiple: boolean;
+  /** Options to choose from */
+  options: ModifierOption[];
+}
+
+/**
+ * A modifier option chosen for an order line
+ * Name and price are copied so receipts and history don't change when the product is edited.
+ */
+export interface SelectedModifier {
+  /** ID of the group the option belongs to */
+  groupId: string;
+  /** ID of the chosen option */
+  optionId: string;
+  /** Name of the option when it was chosen */
+  name: string;
+  /** Amount added to the unit price in cents when it was chosen */
+  priceDelta: number;
+}
+
+/**
+ * Represents a user-defined product category
+ */
+export interface Category {
+  /** Unique identifier for the category */
+  id: string;
+  /** Display name of the category (e.g., "Griglia") */
+  name: string;
+  /** Emoji icon shown in category tabs */
+  emoji: string;
+  /** Hex color code for the category (e.g., "#FF5722") */
+  color: string;
+  /** Position in category tabs and pickers (lower comes first) */
+  order: number;
+}
+
+/**
+ * A way customers can pay (cash, card, Satispay, vouchers, ...)
+ */
+export interface PaymentMethod {
+  /** Unique identifier, stored on orders paid with this method */
+  id: string;
+  /** Display name shown in the payment picker and reports (e.g., "Satispay") */
+  name: string;
+  /** Emoji icon shown in the payment picker */
+  emoji: string;
+  /** Whether the method is offered at checkout; disabled methods still label past orders */
+  enabled: boolean;
+}
+
+/**
+ * A time-limited price for some products (e.g. drinks at € 3 during happy hour)
+ * Windows whose end is before their start run past midnight, and count as the
+ * day they started on.
+ */
+export interface PricingRule {
+  /** Unique identifier, stored on order lines priced by this rule */
+  id: string;
+  /** Display name shown on receipts and in history (e.g. "Happy Hour") */
+  name: string;
+  /** Whether the rule is applied; disabled rules are kept for later */
+  enabled: boolean;
+  /** Start of the daily window, "HH:MM" (inclusive) */
+  startTime: string;
+  /** End of the daily window, "HH:MM" (exclusive) */
+  endTime: string;
+  /** Days of the week the window opens on (0 = Sunday); empty for every day */
+  days: number[];
+  /** IDs of the categories whose products the rule prices */
+  categoryIds: string[];
+  /** IDs of products the rule prices on top of its categories */
+  productIds: string[];
+  /**
+   * New unit price: `value` cents for fixed prices, or `value` percent off the
+   * product's (or variant's) price for percentage rules
+   */
+  adjustment: { type: 'fixedPrice' | 'percentage'; value: number };
+}
+
+/**
+ * The pricing rule that set an order line's unit price
+ * Name and price are copied so receipts and history don't change when the rule is edited.
+ */
+export interface AppliedPricingRule {
+  /** ID of the rule */
+  ruleId: string;
+  /** Name of the rule when it was applied */
+  name: string;
+  /** Unit price set by the rule in cents, before modifiers */
+  unitPrice: number;
+}
+
+/**
+ * A multi-buy deal applied automatically to the current order (e.g. "3x2")
+ * Matching units from every line are pooled and grouped from the most
+ * expensive down; the deal applies within each full group.
+ */
+export interface Promotion {
+  /** Unique identifier, stored on orders the promotion was applied to */
+  id: string;
+  /** Display name shown in the order, on receipts and in reports (e.g. "3x2 Birre") */
+  name: string;
+  /** Whether the promotion is applied; disabled promotions are kept for later */
+  enabled: boolean;
+  /** IDs of the categories whose products count towards the deal */
+  categoryIds: string[];
+  /** IDs of products counting towards the deal on top of its categories */
+  productIds: string[];
+  /**
+   * - multiBuy: in every group of `buy` units, only `pay` are charged (the cheapest are free)
+   * - nthDiscounted: in every group of `nth` units, the cheapest gets `percentage` off
+   */
+  deal:
+    | { type: 'multiBuy'; buy: number; pay: number }
+    | { type: 'nthDiscounted'; nth: number; percentage: number };
+}
+
+/**
+ * A promotion applied to an order, with what it saved
+ */
+export interface AppliedPromotion {
+  /** ID of the promotion */
+  promotionId: string;
+  /** Name of the promotion when it was applied */
+  name: string;
+  /** Amount taken off the order in cents */
+  savings: number;
+}
+
+/**
+ * Deposits handed back to customers in an order, grouped by amount
+ */
+export interface DepositReturn {
+  /** Deposit refunded per returned cup or bottle, in cents */
+  amount: number;
+  /** Number of cups or bottles returned */
+  quantity: number;
+}
+
+/**
+ * Units of one order line taken back in a refund
+ */
+export interface RefundLine {
+  /** Position of the line in the order's items */
+  itemIndex: number;
+  /** Units refunded */
+  quantity: number;
+}
+
+/**
+ * A void or partial refund of a completed order, kept with the order it corrects
+ */
+export interface OrderRefund {
+  /** Unique identifier for the refund (timestamp-based) */
+  id: string;
+  /** 'void' cancels everything not refunded yet; 'partial' refunds selected lines */
+  type: 'void' | 'partial';
+  /** Why the order was corrected (e.g. "Ordine sbagliato") */
+  reason: string;
+  /** Lines and units taken back */
+  lines: RefundLine[];
+  /** Money handed back in cents, deposits excluded (they go back with the cups) */
+  amount: number;
+  /** When the refund was made */
+  timestamp: Date;
+}
+
+/**
+ * Change in the units of one line when a completed order was edited
+ */
+export interface OrderEditChange {
+  /** Line name, with its variant (e.g. "Birra (Media)") */
+  name: string;
+  /** Units before the edit (0 for a line that was added) */
+  before: number;
+  /** Units after the edit (0 for a line that was removed) */
+  after: number;
+}
+
+/**
+ * Before/after record of an edit to a completed order
+ */
+export interface OrderEdit {
+  /** When the edited order was saved */
+  timestamp: Date;
+  /** Lines whose units changed */
+  changes: OrderEditChange[];
+  /** Total before the edit, in cents */
+  totalBefore: number;
+  /** Total after the edit, in cents */
+  totalAfter: number;
+  /** How the order was paid before the edit (missing when it had no payment legs) */
+  paymentsBefore?: PaymentLeg[];
+}
+
+/**
+ * One part of an order's payment (an order paid with a single method has one leg)
+ */
+export interface PaymentLeg {
+  /** ID of the payment method used for this part */
+  method: string;
+  /** Share of the order total settled by this leg, in cents (never includes change) */
+  amount: number;
+}
+
+/**
+ * A price reduction on a single order line or on the whole order
+ */
+export interface Discount {
+  /** Whether `value` is a percentage of the amount or a fixed amount off */
+  type: 'percentage' | 'fixed';
+  /** Percentage off (1-100) for percentage discounts, cents off for fixed ones */
+  value: number;
+  /** Why the discount was given (e.g. "Volontario", "Socio") */
+  reason: string;
+}
+
+/**
+ * Choices made when adding a product to an order
+ */
+export interface LineSelection {
+  /** ID of the chosen variant, for products with variants */
+  variantId?: string;
+  /** Modifier options chosen for the unit */
+  modifiers?: SelectedModifier[];
+  /** Products filling each slot, for bundle products */
+  bundleComponents?: BundleComponent[];
 }
 
 /**
@@ -24,6 +344,19 @@ export interface OrderItem {
   product: Product;
   /** Number of units ordered (must be positive integer) */
   quantity: number;
+  /** ID of the chosen variant among `product.variants` (required when the product has variants) */
+  variantId?: string;
+  /**
+   * Modifier options chosen for every unit on this line; the same product with
+   * different modifiers is a separate line
+   */
+  modifiers?: SelectedModifier[];
+  /** Products making up each unit, for bundle products (one per bundle slot) */
+  bundleComponents?: BundleComponent[];
+  /** Time-based rule pricing this line, set when the line is added and again at checkout */
+  pricingRule?: AppliedPricingRule;
+  /** Discount on this line (applies to the whole line, not to each unit) */
+  discount?: Discount;
 }
 
 /**
@@ -32,18 +365,250 @@ export interface OrderItem {
 export interface Order {
   /** Unique identifier for the order (timestamp-based) */
   id: string;
-  /** List of products and quantities in this order */
+  /**
+   * List of products and quantities in this order (empty only when the order
+   * just hands back deposits)
+   */
   items: OrderItem[];
-  /** Total price of the order in euros */
+  /**
+   * Total price of the order in integer euro cents, after discounts and including
+   * deposits charged minus deposits returned (negative when more deposits were
+   * returned than charged, paid out as a negative cash leg)
+   */
   total: number;
+  /** Discount on the whole order, applied after line discounts */
+  discount?: Discount;
+  /** Sum of all line and order discounts in cents (missing when nothing was discounted) */
+  discountTotal?: number;
+  /** Promotions applied automatically, not counted in `discountTotal` (missing when none applied) */
+  promotions?: AppliedPromotion[];
+  /** Deposits handed back in this order (missing when none) */
+  depositReturns?: DepositReturn[];
+  /**
+   * Tokens collected when the order was paid by redeeming tokens; the payment
+   * leg then holds the order's value in euros (missing when paid otherwise)
+   */
+  tokensRedeemed?: number;
+  /** Voids and partial refunds, oldest first (missing when the order was never corrected) */
+  refunds?: OrderRefund[];
+  /** Edits made after the order was completed, oldest first (missing when never edited) */
+  edits?: OrderEdit[];
   /** When the order was completed */
   timestamp: Date;
-  /** Amount paid in cash (if cash payment was used) */
+  /**
+   * How the total was paid, one leg per method/amount; amounts add up to `total`
+   * (missing on orders saved before payment methods were tracked)
+   */
+  payments?: PaymentLeg[];
+  /** Cash handed over across all cash legs, in cents (if the amount was entered) */
   cashPaid?: number;
-  /** Change returned to customer (calculated as cashPaid - total) */
+  /** Change returned to customer in cents (cashPaid minus the cash legs' amount) */
   change?: number;
 }
 
+/**
+ * The order being built, as persisted so it survives an app restart
+ */
+export interface CurrentOrderSnapshot {
+  /** Items in the order, with their line discounts */
+  items: OrderItem[];
+  /** Discount on the whole order, if any */
+  discount?: Discount;
+  /** Deposits returned in the order (missing when none) */
+  depositReturns?: DepositReturn[];
+  /** Completed order being edited in the builder (missing for a new order) */
+  editingOrderId?: string;
+}
+
+/**
+ * Why the order being built couldn't be completed: nothing to sell, a pricing rule
+ * started or ended since the total was shown, tokens used for lines without a token
+ * price (or with deposits), or payments that don't add up to the total
+ */
+export type CompleteOrderError = 'empty' | 'stock' | 'pricesChanged' | 'tokens' | 'payments';
+
+/**
+ * Outcome of completing the order being built: the saved order, or why nothing was saved
+ */
+export type CompleteOrderResult =
+  | { success: true; order: Order }
+  | { success: false; error: CompleteOrderError };
+
+/**
+ * An unpaid order set aside under a name (customer or table) so the till can
+ * serve someone else, to be resumed and completed later
+ */
+export interface ParkedOrder {
+  /** Unique identifier for the parked order (timestamp-based) */
+  id: string;
+  /** Customer name or table number the order is held under */
+  name: string;
+  /** Items in the order, with their line discounts */
+  items: OrderItem[];
+  /** Discount on the whole order, if any */
+  discount?: Discount;
+  /** Deposits returned in the order (missing when none) */
+  depositReturns?: DepositReturn[];
+  /** When the order was parked */
+  parkedAt: Date;
+}
+
+/**
+ * Cash put into or taken out of the drawer outside of sales (e.g. paying a supplier)
+ */
+export interface CashMovement {
+  /** Unique identifier for the movement (timestamp-based) */
+  id: string;
+  /** 'in' adds cash to the drawer, 'out' takes it out */
+  type: 'in' | 'out';
+  /** Amount moved in cents (always positive) */
+  amount: number;
+  /** Why the cash was moved (e.g. "Pagamento fornitore ghiaccio") */
+  reason: string;
+  /** When the cash was moved */
+  timestamp: Date;
+}
+
+/**
+ * The cash drawer of a session: the float it opened with and the cash moved since
+ */
+export interface CashDrawer {
+  /** Cash in the drawer when the session opened, in cents */
+  openingFloat: number;
+  /** Cash moved in or out outside of sales, oldest first */
+  movements: CashMovement[];
+}
+
+/**
+ * Pieces of one coin or note found in the drawer
+ */
+export interface CashCountLine {
+  /** Face value of the coin or note in cents */
+  value: number;
+  /** Number of pieces counted */
+  quantity: number;
+}
+
+/**
+ * Cash counted in the drawer at close, against what should have been there
+ */
+export interface CashCount {
+  /** Pieces counted per denomination */
+  lines: CashCountLine[];
+  /** Total counted in cents */
+  counted: number;
+  /** Cash the drawer should have held at close in cents */
+  expected: number;
+}
+
+/**
+ * A closed event: the orders taken between two closes, kept under a name so
+ * past nights can be browsed, compared and exported
+ */
+export interface ArchivedSession {
+  /** Unique identifier for the session (timestamp-based) */
+  id: string;
+  /** Name given at close (e.g. "Festa di primavera") */
+  name: string;
+  /** When the first order of the session was taken */
+  openedAt: Date;
+  /** When the event was closed */
+  closedAt: Date;
+  /** Orders taken during the session, as they were at close */
+  orders: Order[];
+  /** Opening float and cash movements of the session (missing for sessions closed before the drawer was tracked) */
+  cashDrawer?: CashDrawer;
+  /** Drawer count at close (missing when the cash wasn't counted) */
+  cashCount?: CashCount;
+}
+
+/**
+ * A state-changing action recorded in the audit log, named after the AppContext action
+ * ('resetSession' is kept for entries written before events were archived)
+ */
+export type AuditAction =
+  | 'addProduct'
+  | 'updateProduct'
+  | 'deleteProduct'
+  | 'restockProduct'
+  | 'addCategory'
+  | 'updateCategory'
+  | 'deleteCategory'
+  | 'moveCategory'
+  | 'addToCurrentOrder'
+  | 'removeFromCurrentOrder'
+  | 'addDepositReturn'
+  | 'removeDepositReturn'
+  | 'clearCurrentOrder'
+  | 'setItemDiscount'
+  | 'setOrderDiscount'
+  | 'parkCurrentOrder'
+  | 'resumeParkedOrder'
+  | 'deleteParkedOrder'
+  | 'addPaymentMethod'
+  | 'updatePaymentMethod'
+  | 'deletePaymentMethod'
+  | 'addPricingRule'
+  | 'updatePricingRule'
+  | 'deletePricingRule'
+  | 'addPromotion'
+  | 'updatePromotion'
+  | 'deletePromotion'
+  | 'completeOrder'
+  | 'voidOrder'
+  | 'refundOrder'
+  | 'editOrder'
+  | 'cancelOrderEdit'
+  | 'deleteOrder'
+  | 'resetSession'
+  | 'closeSession'
+  | 'setOpeningFloat'
+  | 'addCashMovement'
+  | 'deleteCashMovement'
+  | 'setOperator'
+  | 'restoreQuarantinedRecord'
+  | 'deleteQuarantinedRecord'
+  | 'undoOrderChange'
+  | 'redoOrderChange'
+  | 'undoProductChange'
+  | 'redoProductChange';
+
+/**
+ * Data with its own undo/redo history: the order being built or the product catalog
+ */
+export type UndoScope = 'currentOrder' | 'products';
+
+/**
+ * A change that can be undone or redone, as shown in the undo toast
+ */
+export interface UndoStep {
+  /** Unique identifier for the change (timestamp-based) */
+  id: string;
+  /** The action that made the change */
+  action: AuditAction;
+}
+
+/**
+ * One entry of the append-only audit log: who did what, when, and the state
+ * it changed before and after
+ */
+export interface AuditEntry {
+  /** Unique identifier for the entry (timestamp-based) */
+  id: string;
+  /** When the action was taken */
+  timestamp: Date;
+  /** Operator on the till at the time (missing when no operator was set) */
+  actor?: string;
+  /** The action taken */
+  action: AuditAction;
+  /** ID (or line key) of the record acted on, if any */
+  targetId?: string;
+  /** The record as it was before the action (missing when it didn't exist) */
+  before?: unknown;
+  /** The record as it was after the action (missing when it was removed) */
+  after?: unknown;
+}
+
 /**
  * Global application state structure
  * @deprecated Use AppContext instead of accessing state directly
@@ -56,3 +621,56 @@ export interface AppState {
   /** Items in the current order being built */
   currentOrder: OrderItem[];
 }
+
+/**
+ * A single validation problem, flattened for storage and display
+ */
+export interface ValidationIssue {
+  /** Dot-separated path to the offending field (e.g. "items.0.quantity"), empty for the whole record */
+  path: string;
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * A persisted record that failed validation on load and was set aside
+ * instead of being discarded, so it can be repaired, exported or deleted
+ */
+export interface QuarantinedRecord {
+  /** Unique identifier for the quarantine entry (not the record's own ID) */
+  id: string;
+  /** Which data set the record was loaded from */
+  kind:
+    | 'product'
+    | 'category'
+    | 'order'
+    | 'paymentMethod'
+    | 'pricingRule'
+    | 'promotion'
+    | 'parkedOrder'
+    | 'currentOrder'
+    | 'auditEntry'
+    | 'session'
+    | 'cashDrawer';
+  /** The record exactly as it was read from storage */
+  record: unknown;
+  /** Why the record was rejected */
+  issues: ValidationIssue[];
+  /** When the record was quarantined (ISO 8601) */
+  quarantinedAt: string;
+}
+
+/**
+ * Screens reachable through the bottom tab navigator
+ */
+export type RootTabParamList = {
+  Order: undefined;
+  Products: undefined;
+  History: undefined;
+  Settings: undefined;
+  Repair: undefined;
+  AuditLog: undefined;
+  /** Z report of an archived session, or of the current one when no ID is given */
+  ZReport: { sessionId?: string } | undefined;
+  CashDrawer: undefined;
+};
@@ -0,0 +1,177 @@
+/**
+ * Audit log of state-changing actions
+ *
+ * Every AppContext action that changes data appends an entry with the
+ * operator, the time and the record before and after the change. The log is
+ * append-only: it survives closing the event so the night can be reconstructed
+ * when the cash doesn't match.
+ *
+ * @module utils/audit
+ */
+
+import { AuditAction, AuditEntry } from '../types';
+
+/**
+ * Part of the app an action changes, used to filter the log
+ */
+export type AuditArea =
+  | 'order'
+  | 'currentOrder'
+  | 'parkedOrder'
+  | 'session'
+  | 'cashDrawer'
+  | 'product'
+  | 'category'
+  | 'paymentMethod'
+  | 'pricingRule'
+  | 'promotion'
+  | 'quarantine';
+
+/** Area labels for the log viewer, in filter order */
+export const AUDIT_AREA_LABELS: Record<AuditArea, string> = {
+  order: 'Ordini',
+  currentOrder: 'Ordine in corso',
+  parkedOrder: 'Ordini sospesi',
+  session: 'Sessione',
+  cashDrawer: 'Cassa',
+  product: 'Prodotti',
+  category: 'Categorie',
+  paymentMethod: 'Metodi di pagamento',
+  pricingRule: 'Prezzi a tempo',
+  promotion: 'Promozioni',
+  quarantine: 'Dati da riparare',
+};
+
+/** Area each action belongs to */
+const ACTION_AREAS: Record<AuditAction, AuditArea> = {
+  addProduct: 'product',
+  updateProduct: 'product',
+  deleteProduct: 'product',
+  restockProduct: 'product',
+  addCategory: 'category',
+  updateCategory: 'category',
+  deleteCategory: 'category',
+  moveCategory: 'category',
+  addToCurrentOrder: 'currentOrder',
+  removeFromCurrentOrder: 'currentOrder',
+  addDepositReturn: 'currentOrder',
+  removeDepositReturn: 'currentOrder',
+  clearCurrentOrder: 'currentOrder',
+  setItemDiscount: 'currentOrder',
+  setOrderDiscount: 'currentOrder',
+  parkCurrentOrder: 'parkedOrder',
+  resumeParkedOrder: 'parkedOrder',
+  deleteParkedOrder: 'parkedOrder',
+  addPaymentMethod: 'paymentMethod',
+  updatePaymentMethod: 'paymentMethod',
+  deletePaymentMethod: 'paymentMethod',
+  addPricingRule: 'pricingRule',
+  updatePricingRule: 'pricingRule',
+  deletePricingRule: 'pricingRule',
+  addPromotion: 'promotion',
+  updatePromotion: 'promotion',
+  deletePromotion: 'promotion',
+  completeOrder: 'order',
+  voidOrder: 'order',
+  refundOrder: 'order',
+  editOrder: 'order',
+  cancelOrderEdit: 'order',
+  deleteOrder: 'order',
+  resetSession: 'session',
+  closeSession: 'session',
+  setOpeningFloat: 'cashDrawer',
+  addCashMovement: 'cashDrawer',
+  deleteCashMovement: 'cashDrawer',
+  setOperator: 'session',
+  restoreQuarantinedRecord: 'quarantine',
+  deleteQuarantinedRecord: 'quarantine',
+  undoOrderChange: 'currentOrder',
+  redoOrderChange: 'currentOrder',
+  undoProductChange: 'product',
+  redoProductChange: 'product',
+};
+
+/** Italian description of each action for the log viewer */
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  addProduct: 'Prodotto aggiunto',
+  updateProduct: 'Prodotto modificato',
+  deleteProduct: 'Prodotto eliminato',
+  restockProduct: 'Scorte aggiunte',
+  addCategory: 'Categoria aggiunta',
+  updateCategory: 'Categoria modificata',
+  deleteCategory: 'Categoria eliminata',
+  moveCategory: 'Categoria spostata',
+  addToCurrentOrder: 'Prodotto aggiunto all\'ordine',
+  removeFromCurrentOrder: 'Prodotto tolto dall\'ordine',
+  addDepositReturn: 'Reso cauzione',
+  removeDepositReturn: 'Reso cauzione annullato',
+  clearCurrentOrder: 'Ordine svuotato',
+  setItemDiscount: 'Sconto sulla riga',
+  setOrderDiscount: 'Sconto sull\'ordine',
+  parkCurrentOrder: 'Ordine sospeso',
+  resumeParkedOrder: 'Ordine ripreso',
+  deleteParkedOrder: 'Ordine sospeso eliminato',
+  addPaymentMethod: 'Metodo di pagamento aggiunto',
+  updatePaymentMethod: 'Metodo di pagamento modificato',
+  deletePaymentMethod: 'Metodo di pagamento eliminato',
+  addPricingRule: 'Regola di prezzo aggiunta',
+  updatePricingRule: 'Regola di prezzo modificata',
+  deletePricingRule: 'Regola di prezzo eliminata',
+  addPromotion: 'Promozione aggiunta',
+  updatePromotion: 'Promozione modificata',
+  deletePromotion: 'Promozione eliminata',
+  completeOrder: 'Ordine completato',
+  voidOrder: 'Ordine stornato',
+  refundOrder: 'Ordine rimborsato',
+  editOrder: 'Ordine riaperto per modifica',
+  cancelOrderEdit: 'Modifica annullata',
+  deleteOrder: 'Ordine eliminato',
+  resetSession: 'Sessione azzerata',
+  closeSession: 'Evento chiuso',
+  setOpeningFloat: 'Fondo cassa impostato',
+  addCashMovement: 'Movimento di cassa',
+  deleteCashMovement: 'Movimento di cassa eliminato',
+  setOperator: 'Cambio operatore',
+  restoreQuarantinedRecord: 'Record ripristinato',
+  deleteQuarantinedRecord: 'Record in quarantena eliminato',
+  undoOrderChange: 'Modifica all\'ordine annullata',
+  redoOrderChange: 'Modifica all\'ordine ripetuta',
+  undoProductChange: 'Modifica al prodotto annullata',
+  redoProductChange: 'Modifica al prodotto ripetuta',
+};
+
+/**
+ * Area of the app an entry's action changed
+ */
+export const getAuditArea = (entry: AuditEntry): AuditArea => ACTION_AREAS[entry.action];
+
+/**
+ * Entries matching the viewer filters, newest first
+ *
+ * @param entries - Audit log, oldest first as stored
+ * @param filters - Area to keep (all when omitted) and earliest time to keep
+ * @returns Matching entries, newest first
+ *
+ * @example
+ * ```ts
+ * // Orders deleted or voided in the last hour
+ * filterAuditLog(auditLog, { area: 'order', since: new Date(Date.now() - 3600000) });
+ * ```
+ */
+export const filterAuditLog = (
+  entries: AuditEntry[],
+  filters: { area?: AuditArea; since?: Date }
+): AuditEntry[] => {
+  return entries
+    .filter(entry => !filters.area || getAuditArea(entry) === filters.area)
+    .filter(entry => !filters.since || entry.timestamp.getTime() >= filters.since.getTime())
+    .reverse();
+};
+
+/**
+ * Compact one-line JSON of a before/after state, truncated for the list
+ */
+export const formatAuditValue = (value: unknown, maxLength = 120): string => {
+  const text = JSON.stringify(value) ?? '';
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+};
@@ -0,0 +1,180 @@
+/**
+ * Bundle (combo) product utilities
+ *
+ * A bundle is sold at its own price but is made of other products, one per
+ * slot: either a fixed product or one picked from a category. The chosen
+ * products are stored on the order line so stock and sales statistics can
+ * count them as component sales. Components are plain products: bundles and
+ * products with variants can't be components.
+ *
+ * @module utils/bundles
+ */
+
+import { BundleComponent, BundleSlot, OrderItem, Product } from '../types';
+import { Cents } from './money';
+import { getLineTotal } from './pricing';
+
+/**
+ * Products picked for the category slots of a bundle, as product ID per slot ID
+ */
+export type BundleSelection = { [slotId: string]: string };
+
+/**
+ * Component sales of a bundle line, with the share of the line's revenue
+ */
+export interface BundleBreakdownEntry {
+  /** Component product */
+  product: Product;
+  /** Units of the component sold */
+  quantity: number;
+  /** Share of the bundle line total, in cents */
+  revenue: Cents;
+}
+
+/**
+ * Whether a product is a bundle of other products
+ */
+export const isBundle = (product: Product): boolean => {
+  return (product.bundleSlots?.length ?? 0) > 0;
+};
+
+/**
+ * Whether a product can fill a bundle slot
+ */
+export const canBeBundleComponent = (product: Product): boolean => {
+  return !isBundle(product) && !(product.variants?.length);
+};
+
+/**
+ * Products that can fill a slot
+ *
+ * @param slot - Bundle slot
+ * @param products - Current product catalog
+ * @returns The fixed product, or the category's products (empty if none are left)
+ */
+export const getSlotChoices = (slot: BundleSlot, products: Product[]): Product[] => {
+  return products.filter(product =>
+    canBeBundleComponent(product) &&
+    (slot.type === 'fixed' ? product.id === slot.productId : product.category === slot.categoryId)
+  );
+};
+
+/**
+ * Product filling a slot: the fixed product, or the one picked for a category slot
+ */
+const getSlotProduct = (
+  slot: BundleSlot,
+  selection: BundleSelection,
+  products: Product[]
+): Product | undefined => {
+  const choices = getSlotChoices(slot, products);
+  return slot.type === 'fixed'
+    ? choices[0]
+    : choices.find(product => product.id === selection[slot.id]);
+};
+
+/**
+ * Slots of a bundle that can't be filled yet
+ *
+ * @param bundle - Bundle product being added
+ * @param selection - Products picked so far for category slots
+ * @param products - Current product catalog
+ * @returns Slots with nothing picked, or whose fixed product no longer exists
+ */
+export const getMissingBundleSlots = (
+  bundle: Product,
+  selection: BundleSelection,
+  products: Product[]
+): BundleSlot[] => {
+  return (bundle.bundleSlots ?? []).filter(slot => !getSlotProduct(slot, selection, products));
+};
+
+/**
+ * Turn a selection into the components stored on the order line
+ * Slots that can't be filled are skipped; check `getMissingBundleSlots` first.
+ *
+ * @example
+ * ```ts
+ * addToCurrentOrder(bundle, { bundleComponents: toBundleComponents(bundle, selection, products) });
+ * ```
+ */
+export const toBundleComponents = (
+  bundle: Product,
+  selection: BundleSelection,
+  products: Product[]
+): BundleComponent[] => {
+  return (bundle.bundleSlots ?? []).flatMap(slot => {
+    const product = getSlotProduct(slot, selection, products);
+    return product ? [{ slotId: slot.id, product }] : [];
+  });
+};
+
+/**
+ * Component products of the bundle lines, one line per component
+ * Used to take components out of stock and to check their availability.
+ *
+ * @param items - Order lines (non-bundle lines are ignored)
+ * @returns Lines for each component, with the bundle line's quantity
+ */
+export const expandBundleComponents = (items: OrderItem[]): OrderItem[] => {
+  return items.flatMap(item =>
+    (item.bundleComponents ?? []).map(component => ({
+      product: component.product,
+      quantity: item.quantity,
+    }))
+  );
+};
+
+/**
+ * Units of a product in an order, whether sold on its own or inside bundles
+ */
+export const getUnitsInOrder = (items: OrderItem[], productId: string): number => {
+  return [...items, ...expandBundleComponents(items)]
+    .filter(item => item.product.id === productId)
+    .reduce((sum, item) => sum + item.quantity, 0);
+};
+
+/**
+ * Break a bundle line into component sales
+ * The line's revenue is shared out in proportion to the components' own prices
+ * (equally if they are all free); any rounding cent goes to the last component.
+ *
+ * @param item - Bundle order line
+ * @param lineTotal - Revenue to share out (defaults to the line total)
+ * @returns One entry per component, revenues adding up to `lineTotal`
+ *
+ * @example
+ * ```ts
+ * // Menu at € 8.00 with panino (€ 5.00), bibita (€ 2.50) and patatine (€ 2.50)
+ * getBundleBreakdown(item).map(entry => entry.revenue); // [400, 200, 200]
+ * ```
+ */
+export const getBundleBreakdown = (
+  item: OrderItem,
+  lineTotal: Cents = getLineTotal(item)
+): BundleBreakdownEntry[] => {
+  const components = item.bundleComponents ?? [];
+  if (components.length === 0) return [];
+
+  const totalWeight = components.reduce((sum, component) => sum + component.product.price, 0);
+  let allocated = 0;
+
+  return components.map((component, index) => {
+    const share = totalWeight > 0
+      ? component.product.price / totalWeight
+      : 1 / components.length;
+    const revenue = index === components.length - 1
+      ? lineTotal - allocated
+      : Math.round(lineTotal * share);
+    allocated += revenue;
+
+    return { product: component.product, quantity: item.quantity, revenue };
+  });
+};
+
+/**
+ * Comma-separated list of a bundle line's component names for receipts and history
+ */
+export const formatBundleComponents = (components?: BundleComponent[]): string => {
+  return (components ?? []).map(component => component.product.name).join(', ');
+};
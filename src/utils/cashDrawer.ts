@@ -0,0 +1,111 @@
+/**
+ * Cash drawer reconciliation
+ *
+ * The drawer opens with a float, takes in the cash of each order
+ * (`cashPaid - change`, or the cash legs when nothing was tendered, such as
+ * deposit payouts) and gives back cash refunds. Cash put in or taken out for
+ * anything else is recorded as a movement. At close the cashier counts the
+ * drawer by denomination and the count is compared with what is expected.
+ *
+ * @module utils/cashDrawer
+ */
+
+import { CashCount, CashCountLine, CashDrawer, Order } from '../types';
+import { addMoney, Cents, formatMoney } from './money';
+import { getCashAmount } from './payments';
+import { getRefundTotal } from './refunds';
+
+/** Euro coins and notes, largest first, in cents */
+export const EURO_DENOMINATIONS: Cents[] = [
+  50000, 20000, 10000, 5000, 2000, 1000, 500, 200, 100, 50, 20, 10, 5, 2, 1,
+];
+
+/** Drawer of a new session: no float and no movements yet */
+export const EMPTY_CASH_DRAWER: CashDrawer = { openingFloat: 0, movements: [] };
+
+/**
+ * Cash an order left in the drawer
+ * Refunds come out of the drawer up to what the order was paid in cash; the
+ * rest goes back the way it was paid.
+ *
+ * @example
+ * ```ts
+ * // € 8.00 paid with a € 10.00 note, € 3.00 refunded
+ * getOrderCash({ ...order, cashPaid: 1000, change: 200, refunds: [refund300] }); // 500
+ * ```
+ */
+export const getOrderCash = (order: Order): Cents => {
+  const cash = order.cashPaid !== undefined
+    ? order.cashPaid - (order.change ?? 0)
+    : getCashAmount(order.payments ?? []);
+  if (cash <= 0) return cash;
+  return cash - Math.min(getRefundTotal(order), cash);
+};
+
+/**
+ * How the expected cash in the drawer adds up
+ */
+export interface CashDrawerSummary {
+  openingFloat: Cents;
+  /** Cash kept from orders, refunds and deposit payouts taken off */
+  sales: Cents;
+  cashIn: Cents;
+  cashOut: Cents;
+  /** Cash that should be in the drawer now */
+  expected: Cents;
+}
+
+/**
+ * Work out the cash that should be in the drawer
+ *
+ * @param drawer - Opening float and cash movements of the session
+ * @param orders - Orders of the session
+ */
+export const getCashDrawerSummary = (drawer: CashDrawer, orders: Order[]): CashDrawerSummary => {
+  const sales = addMoney(...orders.map(getOrderCash));
+  const movementTotal = (type: 'in' | 'out') =>
+    addMoney(...drawer.movements.filter(m => m.type === type).map(m => m.amount));
+  const cashIn = movementTotal('in');
+  const cashOut = movementTotal('out');
+
+  return {
+    openingFloat: drawer.openingFloat,
+    sales,
+    cashIn,
+    cashOut,
+    expected: addMoney(drawer.openingFloat, sales, cashIn, -cashOut),
+  };
+};
+
+/**
+ * Count of the drawer from the pieces of each denomination
+ * Denominations with no pieces are left out.
+ *
+ * @param quantities - Pieces counted per denomination (in cents)
+ * @param expected - Cash the drawer should hold
+ */
+export const createCashCount = (quantities: { [value: number]: number }, expected: Cents): CashCount => {
+  const lines: CashCountLine[] = EURO_DENOMINATIONS
+    .map(value => ({ value, quantity: quantities[value] ?? 0 }))
+    .filter(line => line.quantity > 0);
+  return {
+    lines,
+    counted: addMoney(...lines.map(line => line.value * line.quantity)),
+    expected,
+  };
+};
+
+/**
+ * Cash over (positive) or short (negative) against what was expected
+ */
+export const getOverShort = (count: CashCount): Cents => count.counted - count.expected;
+
+/**
+ * Describe a count's over/short for the cashier (e.g. "Ammanco € 2.50")
+ */
+export const formatOverShort = (count: CashCount): string => {
+  const difference = getOverShort(count);
+  if (difference > 0) return `Eccedenza ${formatMoney(difference)}`;
+  if (difference < 0) return `Ammanco ${formatMoney(-difference)}`;
+  return 'In pari';
+};
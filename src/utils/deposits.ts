@@ -0,0 +1,94 @@
+/**
+ * Refundable deposits on reusable cups and bottles ("cauzione")
+ *
+ * A product's deposit is charged with every unit ordered, as a line linked to
+ * the product line, and bundles charge the deposits of their components too.
+ * Returned cups are refunded as negative lines grouped by deposit amount.
+ * Deposits are money held for the customer, not revenue: they are added to
+ * what the customer pays but kept out of prices, discounts and promotions.
+ *
+ * @module utils/deposits
+ */
+
+import { DepositReturn, OrderItem, Product } from '../types';
+import { addMoney, multiplyMoney, Cents } from './money';
+
+/**
+ * Products on a line that charge a deposit: the product itself and, for bundles, its components
+ */
+const getDepositProducts = (item: OrderItem): Product[] => {
+  return [item.product, ...(item.bundleComponents ?? []).map(component => component.product)].filter(
+    product => (product.deposit ?? 0) > 0
+  );
+};
+
+/**
+ * Deposit charged for one unit of a line
+ */
+export const getUnitDeposit = (item: OrderItem): Cents => {
+  return addMoney(...getDepositProducts(item).map(product => product.deposit ?? 0));
+};
+
+/**
+ * Deposit charged for a whole line (the linked deposit line)
+ */
+export const getLineDeposit = (item: OrderItem): Cents => {
+  return multiplyMoney(getUnitDeposit(item), item.quantity);
+};
+
+/**
+ * Cups or bottles a line charges a deposit for
+ */
+export const getLineDepositUnits = (item: OrderItem): number => {
+  return getDepositProducts(item).length * item.quantity;
+};
+
+/**
+ * Deposits charged on all lines of an order
+ */
+export const getDepositsCharged = (items: OrderItem[]): Cents => {
+  return addMoney(...items.map(getLineDeposit));
+};
+
+/**
+ * Deposits handed back in an order
+ */
+export const getDepositsReturned = (returns?: DepositReturn[]): Cents => {
+  return addMoney(...(returns ?? []).map(entry => multiplyMoney(entry.amount, entry.quantity)));
+};
+
+/**
+ * Deposit amounts a cup can be returned for, from the products in the catalog
+ *
+ * @returns Distinct deposit amounts, lowest first
+ *
+ * @example
+ * ```ts
+ * getDepositAmounts(products); // [100, 200] for € 1 cups and € 2 bottles
+ * ```
+ */
+export const getDepositAmounts = (products: Product[]): Cents[] => {
+  const amounts = new Set(products.map(product => product.deposit ?? 0).filter(amount => amount > 0));
+  return [...amounts].sort((a, b) => a - b);
+};
+
+/**
+ * Add (delta 1) or take back (delta -1) a returned deposit of a given amount
+ * Groups stay sorted by amount; a group is removed when it reaches zero.
+ *
+ * @param returns - Deposits returned so far
+ * @param amount - Deposit of the returned cup or bottle, in cents
+ * @param delta - Change in the number returned
+ * @returns Updated deposit returns
+ */
+export const changeDepositReturns = (
+  returns: DepositReturn[],
+  amount: Cents,
+  delta: number
+): DepositReturn[] => {
+  const current = returns.find(entry => entry.amount === amount)?.quantity ?? 0;
+  const quantity = current + delta;
+  const others = returns.filter(entry => entry.amount !== amount);
+  if (quantity <= 0) return others;
+  return [...others, { amount, quantity }].sort((a, b) => a.amount - b.amount);
+};
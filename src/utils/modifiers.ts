@@ -0,0 +1,112 @@
+/**
+ * Product modifier utilities: choices like "extra cheese" or "no onions"
+ *
+ * Modifiers are chosen when a product is added to an order and apply to every
+ * unit on the line. The same product with different modifiers is a separate
+ * line (see `getLineKey` in utils/orderItems).
+ *
+ * @module utils/modifiers
+ */
+
+import { ModifierGroup, Product, SelectedModifier } from '../types';
+import { addMoney, formatMoney, Cents } from './money';
+
+/**
+ * Modifier options picked in the selection sheet, as option IDs per group ID
+ */
+export type ModifierSelection = { [groupId: string]: string[] };
+
+/**
+ * Whether adding the product should open the modifier selection sheet
+ */
+export const hasModifiers = (product: Product): boolean => {
+  return (product.modifierGroups?.length ?? 0) > 0;
+};
+
+/**
+ * Amount the chosen modifiers add to the unit price (negative if they reduce it)
+ */
+export const getModifiersPrice = (modifiers?: SelectedModifier[]): Cents => {
+  return addMoney(...(modifiers ?? []).map(modifier => modifier.priceDelta));
+};
+
+/**
+ * Required groups with no option chosen
+ *
+ * @param product - Product being added
+ * @param selection - Options picked so far
+ * @returns Groups that still need a choice (empty when the selection can be added)
+ */
+export const getMissingRequiredGroups = (
+  product: Product,
+  selection: ModifierSelection
+): ModifierGroup[] => {
+  return (product.modifierGroups ?? []).filter(
+    group => group.required && (selection[group.id]?.length ?? 0) === 0
+  );
+};
+
+/**
+ * Toggle an option in a selection, keeping single-choice groups to one option
+ *
+ * @param selection - Options picked so far
+ * @param group - Group the option belongs to
+ * @param optionId - Option tapped in the selection sheet
+ * @returns New selection
+ */
+export const toggleModifierOption = (
+  selection: ModifierSelection,
+  group: ModifierGroup,
+  optionId: string
+): ModifierSelection => {
+  const current = selection[group.id] ?? [];
+  const isSelected = current.includes(optionId);
+
+  let next: string[];
+  if (isSelected) {
+    next = current.filter(id => id !== optionId);
+  } else {
+    next = group.multiple ? [...current, optionId] : [optionId];
+  }
+
+  return { ...selection, [group.id]: next };
+};
+
+/**
+ * Turn a selection into the modifiers stored on the order line
+ * Options come out in the order the product lists them; unknown IDs are skipped.
+ *
+ * @param product - Product being added
+ * @param selection - Options picked in the selection sheet
+ * @returns Chosen modifiers with their current names and prices
+ */
+export const toSelectedModifiers = (
+  product: Product,
+  selection: ModifierSelection
+): SelectedModifier[] => {
+  return (product.modifierGroups ?? []).flatMap(group =>
+    group.options
+      .filter(option => selection[group.id]?.includes(option.id))
+      .map(option => ({
+        groupId: group.id,
+        optionId: option.id,
+        name: option.name,
+        priceDelta: option.priceDelta,
+      }))
+  );
+};
+
+/**
+ * Label for a modifier's price change (e.g. "+€ 0.50"), empty for free options
+ */
+export const formatPriceDelta = (priceDelta: Cents): string => {
+  if (priceDelta === 0) return '';
+  return priceDelta > 0 ? `+${formatMoney(priceDelta)}` : formatMoney(priceDelta);
+};
+
+/**
+ * Comma-separated list of chosen modifier names for receipts and history
+ */
+export const formatModifiers = (modifiers?: SelectedModifier[]): string => {
+  return (modifiers ?? []).map(modifier => modifier.name).join(', ');
+};
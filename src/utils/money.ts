@@ -0,0 +1,105 @@
+/**
+ * Money utilities based on integer euro cents
+ *
+ * All amounts in the app (prices, totals, cash paid, change) are stored as
+ * integer cents so sums never drift the way floating-point euros do
+ * (e.g. 0.1 + 0.2 !== 0.3).
+ *
+ * @module utils/money
+ */
+
+/** An amount of money expressed in integer euro cents */
+export type Cents = number;
+
+/**
+ * Convert a euro amount to integer cents
+ * Rounds to the nearest cent, so values with up to two decimals convert losslessly.
+ *
+ * @param euros - Amount in euros (e.g. 3.5)
+ * @returns Amount in cents (e.g. 350)
+ *
+ * @example
+ * ```ts
+ * toCents(0.1 + 0.2); // 30
+ * ```
+ */
+export const toCents = (euros: number): Cents => {
+  return Math.round(euros * 100);
+};
+
+/**
+ * Parse a user-entered amount into cents
+ * Accepts both "." and "," as decimal separator and an optional "€" sign.
+ *
+ * @param input - Text typed by the user (e.g. "2,50", "€ 3", "10.")
+ * @returns Amount in cents, or null if the text is not a valid non-negative amount
+ *
+ * @example
+ * ```ts
+ * parseMoney('2,50'); // 250
+ * parseMoney('abc');  // null
+ * ```
+ */
+export const parseMoney = (input: string): Cents | null => {
+  const normalized = input.replace('€', '').trim().replace(',', '.');
+
+  if (!/^\d+(\.\d{0,2})?$|^\.\d{1,2}$/.test(normalized)) {
+    return null;
+  }
+
+  const [whole, fraction = ''] = normalized.split('.');
+  return parseInt(whole || '0', 10) * 100 + parseInt(fraction.padEnd(2, '0'), 10);
+};
+
+/**
+ * Add any number of amounts in cents
+ *
+ * @example
+ * ```ts
+ * addMoney(10, 20, 30); // 60
+ * ```
+ */
+export const addMoney = (...amounts: Cents[]): Cents => {
+  return amounts.reduce((sum, amount) => sum + Math.round(amount), 0);
+};
+
+/**
+ * Multiply an amount in cents by a quantity
+ * The result is rounded to the nearest cent.
+ *
+ * @example
+ * ```ts
+ * multiplyMoney(333, 3); // 999
+ * ```
+ */
+export const multiplyMoney = (amount: Cents, quantity: number): Cents => {
+  return Math.round(amount * quantity);
+};
+
+/**
+ * Format cents as a plain decimal string, suitable for text inputs
+ *
+ * @example
+ * ```ts
+ * formatMoneyInput(550); // "5.50"
+ * ```
+ */
+export const formatMoneyInput = (amount: Cents): string => {
+  const sign = amount < 0 ? '-' : '';
+  const abs = Math.abs(Math.round(amount));
+  return `${sign}${Math.floor(abs / 100)}.${(abs % 100).toString().padStart(2, '0')}`;
+};
+
+/**
+ * Format cents for display with the euro sign
+ *
+ * @example
+ * ```ts
+ * formatMoney(550);  // "€ 5.50"
+ * formatMoney(-200); // "-€ 2.00"
+ * ```
+ */
+export const formatMoney = (amount: Cents): string => {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}€ ${formatMoneyInput(Math.abs(amount))}`;
+};
@@ -0,0 +1,73 @@
+/**
+ * Edits to completed orders
+ *
+ * A completed order can be reopened in the builder to fix a mistake. Saving
+ * it keeps the order's ID and timestamp and appends a before/after record of
+ * the lines and total that changed.
+ *
+ * @module utils/orderEdits
+ */
+
+import { Order, OrderEdit, OrderEditChange, OrderItem } from '../types';
+import { getItemName, getLineKey } from './orderItems';
+import { formatModifiers } from './modifiers';
+import { formatBundleComponents } from './bundles';
+
+/**
+ * Name of a line for the edit record, with its modifiers or bundle components
+ */
+const getChangeName = (item: OrderItem): string => {
+  const details = item.bundleComponents
+    ? formatBundleComponents(item.bundleComponents)
+    : formatModifiers(item.modifiers);
+  return details ? `${getItemName(item)} (${details})` : getItemName(item);
+};
+
+/**
+ * Lines whose units differ between two versions of an order
+ *
+ * @param before - Lines before the edit
+ * @param after - Lines after the edit
+ * @returns Changed lines, in the order they first appear (removed lines show 0 units after)
+ *
+ * @example
+ * ```ts
+ * diffOrderItems([{ product: beer, quantity: 2 }], [{ product: beer, quantity: 3 }]);
+ * // [{ name: 'Birra', before: 2, after: 3 }]
+ * ```
+ */
+export const diffOrderItems = (before: OrderItem[], after: OrderItem[]): OrderEditChange[] => {
+  const changes = new Map<string, OrderEditChange>();
+  const addUnits = (item: OrderItem, side: 'before' | 'after') => {
+    const key = getLineKey(item);
+    const change = changes.get(key) ?? { name: getChangeName(item), before: 0, after: 0 };
+    changes.set(key, { ...change, [side]: change[side] + item.quantity });
+  };
+  before.forEach(item => addUnits(item, 'before'));
+  after.forEach(item => addUnits(item, 'after'));
+
+  return [...changes.values()].filter(change => change.before !== change.after);
+};
+
+/**
+ * Before/after record of an edit, from the order as it was and as it was saved
+ */
+export const createOrderEdit = (before: Order, after: Order, timestamp: Date): OrderEdit => {
+  const edit: OrderEdit = {
+    timestamp,
+    changes: diffOrderItems(before.items, after.items),
+    totalBefore: before.total,
+    totalAfter: after.total,
+  };
+  if (before.payments) {
+    edit.paymentsBefore = before.payments;
+  }
+  return edit;
+};
+
+/**
+ * Describe a line change for history (e.g. "Birra 2 → 3")
+ */
+export const formatOrderEditChange = (change: OrderEditChange): string => {
+  return `${change.name} ${change.before} → ${change.after}`;
+};
@@ -0,0 +1,145 @@
+/**
+ * Keep order lines in step with the product catalog
+ *
+ * Completed orders keep a snapshot of each product as it was sold, but an
+ * order that is still being built (or was restored after a restart) should
+ * follow the catalog: edited products update their lines and deleted
+ * products (or variants) drop out.
+ *
+ * @module utils/orderItems
+ */
+
+import { OrderItem, Product, ProductVariant } from '../types';
+
+/**
+ * Identify an order line by its product, variant, chosen modifiers and bundle components
+ * Lines without a variant, modifiers or components are keyed by product ID alone.
+ *
+ * @param item - Order line (quantity and discount don't affect the key)
+ * @returns Key shared by every line with the same product, variant, modifiers and components
+ *
+ * @example
+ * ```ts
+ * getLineKey({ product, quantity: 1 }); // "42"
+ * getLineKey({ product, quantity: 1, variantId: 'media' }); // "42/media"
+ * getLineKey({ product, quantity: 1, modifiers }); // "42:salse.ketchup,salse.maionese"
+ * getLineKey({ product: menu, quantity: 1, bundleComponents }); // "7[bibita=12,panino=3]"
+ * ```
+ */
+export const getLineKey = (
+  item: Pick<OrderItem, 'product' | 'variantId' | 'modifiers' | 'bundleComponents'>
+): string => {
+  let key = item.variantId ? `${item.product.id}/${item.variantId}` : item.product.id;
+
+  if (item.bundleComponents && item.bundleComponents.length > 0) {
+    const components = item.bundleComponents
+      .map(component => `${component.slotId}=${component.product.id}`)
+      .sort();
+    key += `[${components.join(',')}]`;
+  }
+
+  if (item.modifiers && item.modifiers.length > 0) {
+    const options = item.modifiers
+      .map(modifier => `${modifier.groupId}.${modifier.optionId}`)
+      .sort();
+    key += `:${options.join(',')}`;
+  }
+
+  return key;
+};
+
+/**
+ * Whether a line sells a product, on its own or as a bundle component
+ */
+export const usesProduct = (item: OrderItem, productId: string): boolean => {
+  return (
+    item.product.id === productId ||
+    (item.bundleComponents ?? []).some(component => component.product.id === productId)
+  );
+};
+
+/**
+ * The variant chosen for a line, looked up on the line's product
+ */
+export const getItemVariant = (item: Pick<OrderItem, 'product' | 'variantId'>): ProductVariant | undefined => {
+  if (!item.variantId) return undefined;
+  return item.product.variants?.find(variant => variant.id === item.variantId);
+};
+
+/**
+ * Name of a line's product, with its variant when one was chosen (e.g. "Birra (Media)")
+ */
+export const getItemName = (item: Pick<OrderItem, 'product' | 'variantId'>): string => {
+  const variant = getItemVariant(item);
+  return variant ? `${item.product.name} (${variant.name})` : item.product.name;
+};
+
+/**
+ * Whether a line can be kept once its product has been updated: a chosen
+ * variant must still exist, and products with variants need one chosen
+ */
+const matchesVariants = (item: OrderItem, product: Product): boolean => {
+  if (!product.variants || product.variants.length === 0) {
+    return item.variantId === undefined;
+  }
+  return product.variants.some(variant => variant.id === item.variantId);
+};
+
+/**
+ * Whether a bundle line's components still fill exactly the bundle's slots
+ */
+const matchesBundleSlots = (item: OrderItem, product: Product): boolean => {
+  const slots = product.bundleSlots ?? [];
+  const components = item.bundleComponents ?? [];
+  return (
+    slots.length === components.length &&
+    components.every(component => slots.some(slot => slot.id === component.slotId))
+  );
+};
+
+/**
+ * Refresh order lines from the current catalog
+ *
+ * @param items - Lines of an order that hasn't been completed yet
+ * @param products - Current product catalog
+ * @returns Lines pointing at the current products, and the lines whose product
+ *   (or variant, or bundle component) no longer exists
+ *
+ * @example
+ * ```ts
+ * const { items, removed } = reconcileOrderItems(currentOrder, products);
+ * ```
+ */
+export const reconcileOrderItems = (
+  items: OrderItem[],
+  products: Product[]
+): { items: OrderItem[]; removed: OrderItem[] } => {
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const reconciled: OrderItem[] = [];
+  const removed: OrderItem[] = [];
+
+  items.forEach(item => {
+    const product = productsById.get(item.product.id);
+    if (!product || !matchesVariants(item, product) || !matchesBundleSlots(item, product)) {
+      removed.push(item);
+      return;
+    }
+
+    if (!item.bundleComponents) {
+      reconciled.push(product === item.product ? item : { ...item, product });
+      return;
+    }
+
+    const bundleComponents = item.bundleComponents.flatMap(component => {
+      const componentProduct = productsById.get(component.product.id);
+      return componentProduct ? [{ ...component, product: componentProduct }] : [];
+    });
+    if (bundleComponents.length === item.bundleComponents.length) {
+      reconciled.push({ ...item, product, bundleComponents });
+    } else {
+      removed.push(item);
+    }
+  });
+
+  return { items: reconciled, removed };
+};
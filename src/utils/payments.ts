@@ -0,0 +1,79 @@
+/**
+ * Payment leg utilities for orders paid with one or more methods
+ *
+ * An order's payment is a list of legs (method + amount). Leg amounts never
+ * include change: when a cash leg is tendered for more than the remaining
+ * balance, only the balance is applied and the rest is returned as change.
+ *
+ * @module utils/payments
+ */
+
+import { PaymentLeg } from '../types';
+import { CASH_PAYMENT_METHOD_ID } from '../data/paymentMethods';
+import { addMoney, Cents } from './money';
+
+/**
+ * Sum the amounts of all payment legs
+ *
+ * @example
+ * ```ts
+ * sumPayments([{ method: 'card', amount: 500 }, { method: 'cash', amount: 250 }]); // 750
+ * ```
+ */
+export const sumPayments = (payments: PaymentLeg[]): Cents => {
+  return addMoney(...payments.map(leg => leg.amount));
+};
+
+/**
+ * Amount of the order total settled in cash
+ */
+export const getCashAmount = (payments: PaymentLeg[]): Cents => {
+  return sumPayments(payments.filter(leg => leg.method === CASH_PAYMENT_METHOD_ID));
+};
+
+/**
+ * Balance still to be paid (never negative)
+ *
+ * @param total - Order total in cents
+ * @param payments - Legs paid so far
+ */
+export const getRemainingBalance = (total: Cents, payments: PaymentLeg[]): Cents => {
+  return Math.max(0, total - sumPayments(payments));
+};
+
+/**
+ * Create the next payment leg for an order
+ * Cash may be tendered for more than the remaining balance, in which case the
+ * leg covers the balance and the difference is change. Other methods must not
+ * exceed the balance.
+ *
+ * @param total - Order total in cents
+ * @param payments - Legs paid so far
+ * @param method - Payment method ID for the new leg
+ * @param tendered - Amount handed over, in cents
+ * @returns The new leg and the change due, or null if the amount isn't acceptable
+ *
+ * @example
+ * ```ts
+ * createPaymentLeg(1000, [{ method: 'card', amount: 600 }], 'cash', 500);
+ * // { leg: { method: 'cash', amount: 400 }, change: 100 }
+ * ```
+ */
+export const createPaymentLeg = (
+  total: Cents,
+  payments: PaymentLeg[],
+  method: string,
+  tendered: Cents
+): { leg: PaymentLeg; change: Cents } | null => {
+  const remaining = getRemainingBalance(total, payments);
+
+  if (tendered <= 0 || remaining === 0) {
+    return null;
+  }
+  if (tendered > remaining && method !== CASH_PAYMENT_METHOD_ID) {
+    return null;
+  }
+
+  const amount = Math.min(tendered, remaining);
+  return { leg: { method, amount }, change: tendered - amount };
+};
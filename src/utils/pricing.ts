@@ -0,0 +1,136 @@
+/**
+ * Order pricing utilities: line totals and discounts
+ *
+ * A line's unit price is the product (or chosen variant) price plus its modifiers. Line
+ * discounts apply to the whole line (unit price × quantity). Promotion
+ * savings come off the sum of the discounted lines, and the order discount
+ * applies to what is left. A discount never takes an amount below zero.
+ * Deposits are added to the total after all discounts, which never apply to them.
+ *
+ * @module utils/pricing
+ */
+
+import { AppliedPromotion, DepositReturn, Discount, OrderItem } from '../types';
+import { addMoney, multiplyMoney, formatMoney, Cents } from './money';
+import { getModifiersPrice } from './modifiers';
+import { getDepositsCharged, getDepositsReturned } from './deposits';
+import { getItemVariant } from './orderItems';
+
+/**
+ * Breakdown of an order's amounts, all in cents
+ */
+export interface OrderTotals {
+  /** Sum of every line before any discount */
+  subtotal: Cents;
+  /** Amount taken off by line discounts */
+  lineDiscounts: Cents;
+  /** Amount taken off by promotions (kept apart from discounts) */
+  promotionSavings: Cents;
+  /** Amount taken off by the order discount */
+  orderDiscount: Cents;
+  /** Sum of line and order discounts */
+  discountTotal: Cents;
+  /** Deposits charged on the lines */
+  depositsCharged: Cents;
+  /** Deposits handed back */
+  depositsReturned: Cents;
+  /** Amount to be paid, deposits included (negative when deposits are paid out) */
+  total: Cents;
+}
+
+/**
+ * Amount a discount takes off, capped at the discounted amount
+ *
+ * @param amount - Amount the discount applies to, in cents
+ * @param discount - Discount to apply (none means no reduction)
+ * @returns Amount off in cents
+ *
+ * @example
+ * ```ts
+ * getDiscountAmount(1000, { type: 'percentage', value: 10, reason: 'Socio' }); // 100
+ * getDiscountAmount(150, { type: 'fixed', value: 200, reason: 'Coupon' }); // 150
+ * ```
+ */
+export const getDiscountAmount = (amount: Cents, discount?: Discount): Cents => {
+  if (!discount || amount <= 0) return 0;
+
+  const off = discount.type === 'percentage'
+    ? Math.round((amount * discount.value) / 100)
+    : discount.value;
+
+  return Math.min(Math.max(0, off), amount);
+};
+
+/**
+ * Price of one unit on a line: the price set by a pricing rule, or else the
+ * variant's price if one was chosen, plus its modifiers (never below zero)
+ */
+export const getUnitPrice = (item: OrderItem): Cents => {
+  const basePrice = item.pricingRule?.unitPrice ?? getItemVariant(item)?.price ?? item.product.price;
+  return Math.max(0, basePrice + getModifiersPrice(item.modifiers));
+};
+
+/**
+ * Price of a line before its discount
+ */
+export const getLineSubtotal = (item: OrderItem): Cents => {
+  return multiplyMoney(getUnitPrice(item), item.quantity);
+};
+
+/**
+ * Price of a line after its discount
+ */
+export const getLineTotal = (item: OrderItem): Cents => {
+  const subtotal = getLineSubtotal(item);
+  return subtotal - getDiscountAmount(subtotal, item.discount);
+};
+
+/**
+ * Work out subtotal, discounts and total for a list of order lines
+ *
+ * @param items - Order lines, each with an optional discount
+ * @param discount - Optional discount on the whole order
+ * @param promotions - Promotions applied to the order
+ * @param depositReturns - Deposits handed back in the order
+ *
+ * @example
+ * ```ts
+ * calculateOrderTotals(items, { type: 'fixed', value: 200, reason: 'Coupon' });
+ * // { subtotal: 1000, lineDiscounts: 0, promotionSavings: 0, orderDiscount: 200,
+ * //   discountTotal: 200, depositsCharged: 0, depositsReturned: 0, total: 800 }
+ * ```
+ */
+export const calculateOrderTotals = (
+  items: OrderItem[],
+  discount?: Discount,
+  promotions: AppliedPromotion[] = [],
+  depositReturns: DepositReturn[] = []
+): OrderTotals => {
+  const subtotal = addMoney(...items.map(getLineSubtotal));
+  const linesTotal = addMoney(...items.map(getLineTotal));
+  const lineDiscounts = subtotal - linesTotal;
+  const promotionSavings = Math.min(addMoney(...promotions.map(p => p.savings)), linesTotal);
+  const orderDiscount = getDiscountAmount(linesTotal - promotionSavings, discount);
+  const depositsCharged = getDepositsCharged(items);
+  const depositsReturned = getDepositsReturned(depositReturns);
+
+  return {
+    subtotal,
+    lineDiscounts,
+    promotionSavings,
+    orderDiscount,
+    discountTotal: lineDiscounts + orderDiscount,
+    depositsCharged,
+    depositsReturned,
+    total: linesTotal - promotionSavings - orderDiscount + depositsCharged - depositsReturned,
+  };
+};
+
+/**
+ * Short label for a discount's value (e.g. "-10%" or "-€ 2.00")
+ */
+export const formatDiscountValue = (discount: Discount): string => {
+  return discount.type === 'percentage'
+    ? `-${discount.value}%`
+    : `-${formatMoney(discount.value)}`;
+};
@@ -0,0 +1,153 @@
+/**
+ * Time-based pricing rules (e.g. happy hour)
+ *
+ * A rule sets the unit price of some products during a daily time window.
+ * Rules are evaluated when a product is added to the current order and again
+ * when the order is completed, and the rule that priced a line is recorded on
+ * it. When several active rules match a product, the first one in the list wins.
+ *
+ * @module utils/pricingRules
+ */
+
+import { AppliedPricingRule, OrderItem, PricingRule, Product } from '../types';
+import { Cents } from './money';
+import { getItemVariant } from './orderItems';
+
+/** Short Italian day names, indexed like `Date.getDay()` (0 = Sunday) */
+export const DAY_LABELS = ['Dom', 'Lun', 'Mar', 'Mer', 'Gio', 'Ven', 'Sab'];
+
+/**
+ * Minutes since midnight for an "HH:MM" time
+ *
+ * @param time - Time on a 24-hour clock (e.g. "18:30")
+ * @returns Minutes since midnight, or null if the time is invalid
+ *
+ * @example
+ * ```ts
+ * parseTimeOfDay('18:30'); // 1110
+ * parseTimeOfDay('25:00'); // null
+ * ```
+ */
+export const parseTimeOfDay = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+/**
+ * "HH:MM" for a number of minutes since midnight (e.g. 1110 → "18:30")
+ */
+export const formatTimeOfDay = (minutes: number): string => {
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+  return `${hours}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Whether a rule's time window is open at a given moment
+ * Windows past midnight (e.g. 22:00-02:00) belong to the day they started on.
+ */
+export const isRuleActive = (rule: PricingRule, now: Date): boolean => {
+  const start = parseTimeOfDay(rule.startTime);
+  const end = parseTimeOfDay(rule.endTime);
+  if (!rule.enabled || start === null || end === null) return false;
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const today = now.getDay();
+  const opensOn = (day: number) => rule.days.length === 0 || rule.days.includes(day);
+
+  if (start < end) {
+    return minutes >= start && minutes < end && opensOn(today);
+  }
+  // Past midnight: the late part belongs to today, the early part to yesterday's window
+  if (minutes >= start) return opensOn(today);
+  return minutes < end && opensOn((today + 6) % 7);
+};
+
+/**
+ * Whether a rule prices a product, by its category or by the product itself
+ */
+export const ruleAppliesTo = (rule: PricingRule, product: Product): boolean => {
+  return (
+    rule.productIds.includes(product.id) ||
+    (product.category !== undefined && rule.categoryIds.includes(product.category))
+  );
+};
+
+/**
+ * Unit price a rule sets, from the regular price of the product or variant
+ */
+export const getRuleUnitPrice = (rule: PricingRule, regularPrice: Cents): Cents => {
+  if (rule.adjustment.type === 'fixedPrice') {
+    return rule.adjustment.value;
+  }
+  return Math.max(0, regularPrice - Math.round((regularPrice * rule.adjustment.value) / 100));
+};
+
+/**
+ * The rule pricing an order line at a given moment
+ *
+ * @param item - Order line (its variant decides the regular price)
+ * @param rules - All pricing rules, in priority order
+ * @param now - Moment to evaluate the rules at
+ * @returns The applied rule with its unit price, or undefined if no rule matches
+ */
+export const findPricingRule = (
+  item: OrderItem,
+  rules: PricingRule[],
+  now: Date
+): AppliedPricingRule | undefined => {
+  const rule = rules.find(r => isRuleActive(r, now) && ruleAppliesTo(r, item.product));
+  if (!rule) return undefined;
+
+  const regularPrice = getItemVariant(item)?.price ?? item.product.price;
+  return { ruleId: rule.id, name: rule.name, unitPrice: getRuleUnitPrice(rule, regularPrice) };
+};
+
+/**
+ * Re-price order lines with the rules active at a given moment
+ * Lines no rule matches lose any rule recorded earlier; unchanged lines are
+ * returned as they were.
+ *
+ * @param items - Lines of the order being built
+ * @param rules - All pricing rules, in priority order
+ * @param now - Moment to evaluate the rules at
+ * @returns Lines with their applied rule updated
+ *
+ * @example
+ * ```ts
+ * const items = applyPricingRules(currentOrder, pricingRules, new Date());
+ * ```
+ */
+export const applyPricingRules = (items: OrderItem[], rules: PricingRule[], now: Date): OrderItem[] => {
+  return items.map(item => {
+    const applied = findPricingRule(item, rules, now);
+    const current = item.pricingRule;
+    if (
+      applied?.ruleId === current?.ruleId &&
+      applied?.unitPrice === current?.unitPrice &&
+      applied?.name === current?.name
+    ) {
+      return item;
+    }
+
+    if (!applied) {
+      const { pricingRule: _removed, ...rest } = item;
+      return rest;
+    }
+    return { ...item, pricingRule: applied };
+  });
+};
+
+/**
+ * Short description of a rule's schedule for lists (e.g. "18:00-20:00 • Ven, Sab")
+ */
+export const formatRuleSchedule = (rule: PricingRule): string => {
+  const days = rule.days.length === 0 || rule.days.length === 7
+    ? 'tutti i giorni'
+    : [...rule.days].sort((a, b) => a - b).map(day => DAY_LABELS[day]).join(', ');
+  return `${rule.startTime}-${rule.endTime} • ${days}`;
+};
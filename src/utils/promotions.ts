@@ -0,0 +1,107 @@
+/**
+ * Quantity promotions: multi-buy deals like "3x2" or "second one half price"
+ *
+ * Promotions are worked out from the whole current order every time it
+ * changes, so volunteers never have to apply them by hand. Units of matching
+ * products are pooled across lines, sorted from the most expensive down and
+ * split into groups; the deal applies within each full group, always to its
+ * cheapest units. Each unit counts towards one promotion at most, in list
+ * order. Lines with a manual discount are left out so the two never stack.
+ *
+ * @module utils/promotions
+ */
+
+import { AppliedPromotion, OrderItem, Product, Promotion } from '../types';
+import { addMoney, Cents } from './money';
+import { getUnitPrice } from './pricing';
+
+/**
+ * Whether a product counts towards a promotion, by its category or by the product itself
+ */
+export const promotionAppliesTo = (promotion: Promotion, product: Product): boolean => {
+  return (
+    promotion.productIds.includes(product.id) ||
+    (product.category !== undefined && promotion.categoryIds.includes(product.category))
+  );
+};
+
+/**
+ * Number of units making up one group of a deal
+ */
+const getGroupSize = (promotion: Promotion): number => {
+  return promotion.deal.type === 'multiBuy' ? promotion.deal.buy : promotion.deal.nth;
+};
+
+/**
+ * Amount a deal saves on one full group of unit prices, sorted most expensive first
+ */
+const getGroupSavings = (promotion: Promotion, prices: Cents[]): Cents => {
+  const { deal } = promotion;
+  if (deal.type === 'multiBuy') {
+    return addMoney(...prices.slice(deal.pay));
+  }
+  return Math.round((prices[prices.length - 1] * deal.percentage) / 100);
+};
+
+/**
+ * Work out the promotions an order qualifies for
+ *
+ * @param items - Order lines
+ * @param promotions - All promotions, in priority order (disabled ones are skipped)
+ * @returns Promotions that save something, with their savings
+ *
+ * @example
+ * ```ts
+ * // Three beers at € 5.00 with a "3x2 Birre" promotion
+ * applyPromotions(items, promotions);
+ * // [{ promotionId: '3x2', name: '3x2 Birre', savings: 500 }]
+ * ```
+ */
+export const applyPromotions = (items: OrderItem[], promotions: Promotion[]): AppliedPromotion[] => {
+  // One entry per unit, so units of different lines can be grouped together
+  let units = items
+    .filter(item => !item.discount)
+    .flatMap(item => Array.from({ length: item.quantity }, () => ({ item, price: getUnitPrice(item) })));
+  const applied: AppliedPromotion[] = [];
+
+  promotions
+    .filter(promotion => promotion.enabled)
+    .forEach(promotion => {
+      const groupSize = getGroupSize(promotion);
+      const eligible = units
+        .filter(unit => promotionAppliesTo(promotion, unit.item.product))
+        .sort((a, b) => b.price - a.price);
+      const grouped = eligible.slice(0, Math.floor(eligible.length / groupSize) * groupSize);
+      if (grouped.length === 0) return;
+
+      let savings = 0;
+      for (let start = 0; start < grouped.length; start += groupSize) {
+        const prices = grouped.slice(start, start + groupSize).map(unit => unit.price);
+        savings = addMoney(savings, getGroupSavings(promotion, prices));
+      }
+
+      const used = new Set(grouped);
+      units = units.filter(unit => !used.has(unit));
+      if (savings > 0) {
+        applied.push({ promotionId: promotion.id, name: promotion.name, savings });
+      }
+    });
+
+  return applied;
+};
+
+/**
+ * Total saved by applied promotions
+ */
+export const getPromotionSavings = (applied?: AppliedPromotion[]): Cents => {
+  return addMoney(...(applied ?? []).map(promotion => promotion.savings));
+};
+
+/**
+ * Short label for a deal (e.g. "3x2" or "2° al -50%")
+ */
+export const formatDeal = (deal: Promotion['deal']): string => {
+  return deal.type === 'multiBuy'
+    ? `${deal.buy}x${deal.pay}`
+    : `${deal.nth}° al -${deal.percentage}%`;
+};
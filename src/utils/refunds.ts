@@ -0,0 +1,118 @@
+/**
+ * Voids and partial refunds of completed orders
+ *
+ * Corrections never remove a sale: the order stays in history with refund
+ * records listing the lines and units taken back. Refunds hand back what the
+ * customer paid for the goods, so order discounts and promotions are shared
+ * out across the lines; deposits are left out, since they are refunded when
+ * the cups come back.
+ *
+ * @module utils/refunds
+ */
+
+import { Order, OrderItem, RefundLine } from '../types';
+import { addMoney, Cents } from './money';
+import { getLineTotal } from './pricing';
+import { getDepositsCharged, getDepositsReturned } from './deposits';
+
+/**
+ * State of an order in the history: untouched, partly refunded or voided
+ */
+export type OrderStatus = 'completed' | 'refunded' | 'voided';
+
+/**
+ * Units of a line refunded so far
+ */
+export const getRefundedQuantity = (order: Order, itemIndex: number): number => {
+  return (order.refunds ?? [])
+    .flatMap(refund => refund.lines)
+    .filter(line => line.itemIndex === itemIndex)
+    .reduce((sum, line) => sum + line.quantity, 0);
+};
+
+/**
+ * Units of a line that can still be refunded
+ */
+export const getRefundableQuantity = (order: Order, itemIndex: number): number => {
+  const item = order.items[itemIndex];
+  return item ? item.quantity - getRefundedQuantity(order, itemIndex) : 0;
+};
+
+/**
+ * Money handed back across all of an order's refunds
+ */
+export const getRefundTotal = (order: Order): Cents => {
+  return addMoney(...(order.refunds ?? []).map(refund => refund.amount));
+};
+
+/**
+ * Whether a completed order is untouched, partly refunded or voided
+ */
+export const getOrderStatus = (order: Order): OrderStatus => {
+  if (order.refunds?.some(refund => refund.type === 'void')) return 'voided';
+  return order.refunds ? 'refunded' : 'completed';
+};
+
+/**
+ * Lines still refundable in full, ready to void the rest of an order
+ */
+export const getVoidLines = (order: Order): RefundLine[] => {
+  return order.items
+    .map((_, itemIndex) => ({ itemIndex, quantity: getRefundableQuantity(order, itemIndex) }))
+    .filter(line => line.quantity > 0);
+};
+
+/**
+ * Money to hand back for refunding some units of an order
+ * Each line gets its share of what was paid for the goods; refunding everything
+ * left hands back exactly the rest, so rounding never adds up to more than was paid.
+ *
+ * @param order - Order being refunded
+ * @param lines - Lines and units to refund (must be refundable)
+ * @returns Refund amount in cents
+ *
+ * @example
+ * ```ts
+ * // Two beers at € 5 with 10% off the order: one beer refunds € 4.50
+ * getRefundAmount(order, [{ itemIndex: 0, quantity: 1 }]); // 450
+ * ```
+ */
+export const getRefundAmount = (order: Order, lines: RefundLine[]): Cents => {
+  const goodsPaid = Math.max(
+    0,
+    order.total - getDepositsCharged(order.items) + getDepositsReturned(order.depositReturns)
+  );
+  const remaining = Math.max(0, goodsPaid - getRefundTotal(order));
+
+  const refundsEverything = getVoidLines(order).every(
+    left => lines.find(line => line.itemIndex === left.itemIndex)?.quantity === left.quantity
+  );
+  if (refundsEverything) return remaining;
+
+  const linesTotal = addMoney(...order.items.map(getLineTotal));
+  if (linesTotal === 0) return 0;
+
+  const amount = addMoney(
+    ...lines.map(line => {
+      const item = order.items[line.itemIndex];
+      return Math.round((goodsPaid * getLineTotal(item) * line.quantity) / (linesTotal * item.quantity));
+    })
+  );
+  return Math.min(amount, remaining);
+};
+
+/**
+ * Order lines with the units of some refund lines, e.g. to put them back in stock
+ */
+export const getRefundedItems = (order: Order, lines: RefundLine[]): OrderItem[] => {
+  return lines.map(line => ({ ...order.items[line.itemIndex], quantity: line.quantity }));
+};
+
+/**
+ * Order lines with the units that weren't refunded, for sales figures
+ */
+export const getKeptItems = (order: Order): OrderItem[] => {
+  return order.items
+    .map((item, itemIndex) => ({ ...item, quantity: getRefundableQuantity(order, itemIndex) }))
+    .filter(item => item.quantity > 0);
+};
@@ -0,0 +1,318 @@
+/**
+ * Sales summary of a set of orders
+ *
+ * Totals shown in history and in the Z report, for the current session and for archived ones:
+ * revenue (deposits, token redemptions and refunds kept out), discounts,
+ * promotions, refunds, per-method takings and products sold. Refunds come off the
+ * methods they were paid with, and each line's revenue is its share of what the order
+ * brought in, so products add up to revenue.
+ *
+ * @module utils/salesSummary
+ */
+
+import { Order, OrderItem, PaymentLeg, PaymentMethod } from '../types';
+import { CASH_PAYMENT_METHOD_ID, getPaymentMethodLabel, TOKENS_PAYMENT_METHOD } from '../data/paymentMethods';
+import { addMoney, Cents } from './money';
+import { getBundleBreakdown } from './bundles';
+import { getDepositsCharged, getDepositsReturned, getLineDepositUnits } from './deposits';
+import { getItemName } from './orderItems';
+import { getOrderTokenPrice, getTokensIssued } from './tokens';
+import { getKeptItems, getRefundableQuantity, getRefundTotal } from './refunds';
+import { getDiscountAmount, getLineSubtotal, getLineTotal } from './pricing';
+
+/**
+ * Units sold and revenue of a product, variant or bundle
+ */
+export interface ProductSales {
+  name: string;
+  emoji: string;
+  /** Category of the product, if any */
+  category?: string;
+  count: number;
+  /** Revenue after discounts, promotions and refunds (nothing from token orders) */
+  total: number;
+}
+
+/**
+ * Count and total of a group of orders or refunds (per reason, promotion or method)
+ */
+export interface SalesGroup {
+  count: number;
+  total: number;
+}
+
+/**
+ * Totals of a set of orders, as shown in history
+ */
+export interface SalesSummary {
+  totalOrders: number;
+  /** Takings net of deposits, token redemptions and refunds */
+  totalRevenue: number;
+  totalDiscounts: number;
+  discountedOrders: number;
+  /** Discounts by reason, largest first */
+  discountReasons: (SalesGroup & { reason: string })[];
+  /** Savings by promotion, largest first */
+  promotions: (SalesGroup & { name: string })[];
+  deposits: { chargedUnits: number; charged: number; returnedUnits: number; returned: number };
+  /** Tokens handed out and redeemed by the units kept (refunded units give their tokens back) */
+  tokens: { issued: number; redeemed: number; redeemedValue: number };
+  /** Voids and partial refunds; `deducted` is what came off revenue (token orders give tokens back instead) */
+  refunds: { voided: number; voidedTotal: number; refunded: number; refundedTotal: number; deducted: number };
+  /** Refunds by reason, largest first */
+  refundReasons: (SalesGroup & { reason: string })[];
+  /** Products and variants by units sold, bundles counted as their components */
+  products: ProductSales[];
+  /** Bundles by units sold */
+  bundles: ProductSales[];
+  /** Takings per payment method less refunds, largest first (tokens excluded) */
+  paymentMethods: (SalesGroup & { id: string; label: string })[];
+}
+
+/**
+ * Revenue each line of an order brought in: what was paid for the goods less refunds,
+ * shared out by the units kept on each line so promotions and the order discount come
+ * off every line. Token orders were paid for when the tokens were sold, so they bring in
+ * nothing. Any rounding cent goes to the last line with units kept.
+ */
+const getLineRevenues = (order: Order): Cents[] => {
+  const kept = order.items.map((item, itemIndex) =>
+    Math.round((getLineTotal(item) * getRefundableQuantity(order, itemIndex)) / item.quantity)
+  );
+  const keptTotal = addMoney(...kept);
+  if (keptTotal === 0) return kept.map(() => 0);
+
+  const goodsPaid = order.total - getDepositsCharged(order.items) + getDepositsReturned(order.depositReturns);
+  const revenue = order.tokensRedeemed ? 0 : Math.max(0, goodsPaid - getRefundTotal(order));
+  const lastKept = kept.reduce((last, value, index) => (value > 0 ? index : last), 0);
+  let allocated = 0;
+  return kept.map((value, index) => {
+    const share = index === lastKept ? revenue - allocated : Math.round((revenue * value) / keptTotal);
+    allocated += share;
+    return share;
+  });
+};
+
+/**
+ * Payment legs of an order less its refunds, token legs left out (token refunds give tokens back)
+ * Refunds are handed back in cash first, as the cash drawer counts them, then on the other legs in order.
+ */
+const getNetPayments = (order: Order): PaymentLeg[] => {
+  const legs = (order.payments ?? [{ method: '', amount: order.total }]).filter(
+    leg => leg.method !== TOKENS_PAYMENT_METHOD.id
+  );
+  let toRefund = order.tokensRedeemed ? 0 : getRefundTotal(order);
+  const refunded = legs.map(() => 0);
+  const isCash = (leg: PaymentLeg) => leg.method === CASH_PAYMENT_METHOD_ID;
+  [...legs.filter(isCash), ...legs.filter(leg => !isCash(leg))].forEach(leg => {
+    const index = legs.indexOf(leg);
+    refunded[index] = Math.min(toRefund, Math.max(0, leg.amount));
+    toRefund -= refunded[index];
+  });
+  return legs.map((leg, index) => ({ ...leg, amount: leg.amount - refunded[index] }));
+};
+
+/**
+ * Summarize a set of orders for history
+ *
+ * @param orders - Orders to summarize
+ * @param paymentMethods - Configured methods, for the method labels
+ * @returns Totals and breakdowns of the orders
+ *
+ * @example
+ * ```ts
+ * const { totalRevenue, products } = getSalesSummary(orders, paymentMethods);
+ * ```
+ */
+export const getSalesSummary = (orders: Order[], paymentMethods: PaymentMethod[]): SalesSummary => {
+  const productCounts: { [key: string]: ProductSales } = {};
+  const bundleCounts: { [key: string]: ProductSales } = {};
+  const methodTotals: { [key: string]: SalesSummary['paymentMethods'][number] } = {};
+  const discountReasons: { [key: string]: SalesSummary['discountReasons'][number] } = {};
+  const promotionTotals: { [key: string]: SalesSummary['promotions'][number] } = {};
+  const deposits: SalesSummary['deposits'] = { chargedUnits: 0, charged: 0, returnedUnits: 0, returned: 0 };
+  const tokens: SalesSummary['tokens'] = { issued: 0, redeemed: 0, redeemedValue: 0 };
+  const refunds: SalesSummary['refunds'] = {
+    voided: 0,
+    voidedTotal: 0,
+    refunded: 0,
+    refundedTotal: 0,
+    deducted: 0,
+  };
+  const refundReasons: { [key: string]: SalesSummary['refundReasons'][number] } = {};
+  let totalRevenue = 0;
+  let totalDiscounts = 0;
+  let discountedOrders = 0;
+
+  const addDiscount = (reason: string, amount: number) => {
+    if (!discountReasons[reason]) {
+      discountReasons[reason] = { reason, count: 0, total: 0 };
+    }
+    discountReasons[reason].count += 1;
+    discountReasons[reason].total = addMoney(discountReasons[reason].total, amount);
+  };
+
+  const addProductSale = (
+    counts: typeof productCounts,
+    key: string,
+    item: OrderItem,
+    total: number
+  ) => {
+    if (!counts[key]) {
+      counts[key] = {
+        name: getItemName(item),
+        emoji: item.product.emoji,
+        count: 0,
+        total: 0,
+      };
+      if (item.product.category) {
+        counts[key].category = item.product.category;
+      }
+    }
+    counts[key].count += item.quantity;
+    counts[key].total = addMoney(counts[key].total, total);
+  };
+
+  orders.forEach(order => {
+    // Deposits are held for customers, so they are kept out of revenue
+    const charged = getDepositsCharged(order.items);
+    const returned = getDepositsReturned(order.depositReturns);
+    deposits.charged = addMoney(deposits.charged, charged);
+    deposits.returned = addMoney(deposits.returned, returned);
+    order.items.forEach(item => {
+      deposits.chargedUnits += getLineDepositUnits(item);
+    });
+    order.depositReturns?.forEach(entry => {
+      deposits.returnedUnits += entry.quantity;
+    });
+    totalRevenue = addMoney(totalRevenue, order.total - charged + returned);
+
+    // Token redemptions were paid for when the tokens were sold
+    const keptItems = getKeptItems(order);
+    tokens.issued += getTokensIssued(keptItems);
+    if (order.tokensRedeemed) {
+      const redeemedValue = addMoney(
+        ...(order.payments ?? [])
+          .filter(leg => leg.method === TOKENS_PAYMENT_METHOD.id)
+          .map(leg => leg.amount)
+      );
+      const redeemed = getOrderTokenPrice(keptItems) ?? 0;
+      tokens.redeemed += redeemed;
+      tokens.redeemedValue = addMoney(
+        tokens.redeemedValue,
+        Math.round((redeemedValue * redeemed) / order.tokensRedeemed)
+      );
+      totalRevenue = addMoney(totalRevenue, -redeemedValue);
+    }
+
+    // Refunds hand money back, except on token orders where tokens go back instead
+    order.refunds?.forEach(refund => {
+      if (refund.type === 'void') {
+        refunds.voided += 1;
+        refunds.voidedTotal = addMoney(refunds.voidedTotal, refund.amount);
+      } else {
+        refunds.refunded += 1;
+        refunds.refundedTotal = addMoney(refunds.refundedTotal, refund.amount);
+      }
+      if (!refundReasons[refund.reason]) {
+        refundReasons[refund.reason] = { reason: refund.reason, count: 0, total: 0 };
+      }
+      refundReasons[refund.reason].count += 1;
+      refundReasons[refund.reason].total = addMoney(refundReasons[refund.reason].total, refund.amount);
+    });
+    if (!order.tokensRedeemed) {
+      refunds.deducted = addMoney(refunds.deducted, getRefundTotal(order));
+      totalRevenue = addMoney(totalRevenue, -getRefundTotal(order));
+    }
+
+    if (order.discountTotal) {
+      totalDiscounts = addMoney(totalDiscounts, order.discountTotal);
+      discountedOrders += 1;
+
+      // The order discount is whatever the line discounts don't account for
+      let lineDiscounts = 0;
+      order.items.forEach(item => {
+        if (!item.discount) return;
+        const amount = getDiscountAmount(getLineSubtotal(item), item.discount);
+        lineDiscounts = addMoney(lineDiscounts, amount);
+        addDiscount(item.discount.reason, amount);
+      });
+      if (order.discount) {
+        addDiscount(order.discount.reason, order.discountTotal - lineDiscounts);
+      }
+    }
+
+    order.promotions?.forEach(promotion => {
+      if (!promotionTotals[promotion.promotionId]) {
+        promotionTotals[promotion.promotionId] = { name: promotion.name, count: 0, total: 0 };
+      }
+      promotionTotals[promotion.promotionId].count += 1;
+      promotionTotals[promotion.promotionId].total = addMoney(
+        promotionTotals[promotion.promotionId].total,
+        promotion.savings
+      );
+    });
+
+    // Split payments count towards every method used, less refunds; legacy orders have no method
+    const legs = getNetPayments(order);
+    legs.forEach(leg => {
+      if (!methodTotals[leg.method]) {
+        methodTotals[leg.method] = {
+          id: leg.method,
+          label: getPaymentMethodLabel(paymentMethods, leg.method),
+          count: 0,
+          total: 0,
+        };
+      }
+      methodTotals[leg.method].total = addMoney(methodTotals[leg.method].total, leg.amount);
+    });
+    new Set(legs.map(leg => leg.method)).forEach(method => {
+      methodTotals[method].count += 1;
+    });
+
+    const lineRevenues = getLineRevenues(order);
+    order.items.forEach((orderItem, itemIndex) => {
+      // Refunded units don't count as sold
+      const sold = getRefundableQuantity(order, itemIndex);
+      if (sold === 0) return;
+      const item = { ...orderItem, quantity: sold };
+      const revenue = lineRevenues[itemIndex];
+
+      // Bundles count as sales of their components, with a share of the bundle's revenue
+      if (item.bundleComponents) {
+        addProductSale(bundleCounts, item.product.id, item, revenue);
+        getBundleBreakdown(item, revenue).forEach(entry => {
+          addProductSale(
+            productCounts,
+            entry.product.id,
+            { product: entry.product, quantity: entry.quantity },
+            entry.revenue
+          );
+        });
+        return;
+      }
+
+      // Sizes sell at different prices, so each variant is ranked on its own
+      const key = item.variantId ? `${item.product.id}/${item.variantId}` : item.product.id;
+      addProductSale(productCounts, key, item, revenue);
+    });
+  });
+
+  const sortedProducts = Object.values(productCounts).sort((a, b) => b.count - a.count);
+
+  return {
+    totalOrders: orders.length,
+    totalRevenue,
+    totalDiscounts,
+    discountedOrders,
+    discountReasons: Object.values(discountReasons).sort((a, b) => b.total - a.total),
+    promotions: Object.values(promotionTotals).sort((a, b) => b.total - a.total),
+    deposits,
+    tokens,
+    refunds,
+    refundReasons: Object.values(refundReasons).sort((a, b) => b.total - a.total),
+    products: sortedProducts,
+    bundles: Object.values(bundleCounts).sort((a, b) => b.count - a.count),
+    paymentMethods: Object.values(methodTotals).sort((a, b) => b.total - a.total),
+  };
+};
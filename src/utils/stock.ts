@@ -0,0 +1,247 @@
+/**
+ * Stock level utilities for products with tracked inventory
+ *
+ * Stock is optional: products without a `stock` value are never sold out.
+ * Variants can track their own stock too, on top of the product's shared
+ * stock. Completed orders take units out of stock and deleted orders put them
+ * back; bundles take their components out of stock. Products with a low-stock threshold are flagged once stock drops to
+ * it, and the recent sales rate projects when they will run out.
+ *
+ * @module utils/stock
+ */
+
+import { Order, OrderItem, Product, ProductVariant } from '../types';
+import { expandBundleComponents } from './bundles';
+
+/**
+ * Whether a product has nothing left to sell: its own stock is used up, or
+ * every variant tracks stock and has none left
+ */
+export const isSoldOut = (product: Product): boolean => {
+  if (product.stock !== undefined && product.stock <= 0) return true;
+
+  return (
+    product.variants !== undefined &&
+    product.variants.length > 0 &&
+    product.variants.every(variant => variant.stock !== undefined && variant.stock <= 0)
+  );
+};
+
+/**
+ * Whether a product's stock, or any of its variants' stock, has dropped to
+ * its low-stock threshold (sold out included)
+ */
+export const isLowStock = (product: Product): boolean => {
+  const threshold = product.lowStockThreshold;
+  if (threshold === undefined) return false;
+
+  const levels = [product.stock, ...(product.variants ?? []).map(variant => variant.stock)];
+  return levels.some(stock => stock !== undefined && stock <= threshold);
+};
+
+/**
+ * Units of a product (or of one of its variants) that can still be added to an order
+ *
+ * @param item - Product or variant to check
+ * @param inOrder - Units already in the order being built
+ * @returns Units left, or Infinity when stock isn't tracked
+ */
+export const getAvailableStock = (item: Pick<Product, 'stock'>, inOrder = 0): number => {
+  if (item.stock === undefined) return Infinity;
+  return Math.max(0, item.stock - inOrder);
+};
+
+const addQuantity = (quantities: Map<string, number>, key: string, quantity: number) => {
+  quantities.set(key, (quantities.get(key) ?? 0) + quantity);
+};
+
+/**
+ * Units taken by order lines, per product and per `productId/variantId`,
+ * bundle components included
+ */
+const countUnits = (items: OrderItem[]) => {
+  const quantities = new Map<string, number>();
+  const variantQuantities = new Map<string, number>();
+  [...items, ...expandBundleComponents(items)].forEach(item => {
+    addQuantity(quantities, item.product.id, item.quantity);
+    if (item.variantId) {
+      addQuantity(variantQuantities, `${item.product.id}/${item.variantId}`, item.quantity);
+    }
+  });
+  return { quantities, variantQuantities };
+};
+
+/**
+ * Whether the catalog has stock for every unit of an order
+ * Counts each product across all its lines, variants and bundle components;
+ * products that don't track stock (or are no longer in the catalog) always fit.
+ *
+ * @param products - Current product catalog
+ * @param items - Lines of the order about to be sold
+ * @returns False when any product or variant would go below zero
+ */
+export const hasStockFor = (products: Product[], items: OrderItem[]): boolean => {
+  const { quantities, variantQuantities } = countUnits(items);
+
+  return products.every(product => {
+    const quantity = quantities.get(product.id);
+    if (quantity === undefined) return true;
+
+    return (
+      getAvailableStock(product) >= quantity &&
+      (product.variants ?? []).every(
+        variant => getAvailableStock(variant) >= (variantQuantities.get(`${product.id}/${variant.id}`) ?? 0)
+      )
+    );
+  });
+};
+
+const changeStock = <T extends { stock?: number }>(
+  holder: T,
+  quantity: number | undefined,
+  direction: 'sell' | 'return'
+): T => {
+  if (holder.stock === undefined || quantity === undefined) return holder;
+
+  const change = direction === 'sell' ? -quantity : quantity;
+  return { ...holder, stock: Math.max(0, holder.stock + change) };
+};
+
+/**
+ * Take sold units out of stock, or put them back when an order is removed
+ * Products and variants that don't track stock are left untouched; stock never
+ * goes below zero (sales are checked with `hasStockFor` first).
+ *
+ * @param products - Current product catalog
+ * @param items - Lines of the order being sold or returned
+ * @param direction - 'sell' to decrement stock, 'return' to restore it
+ * @returns Catalog with updated stock levels
+ *
+ * @example
+ * ```ts
+ * setProducts(prev => applyStockChange(prev, order.items, 'sell'));
+ * ```
+ */
+export const applyStockChange = (
+  products: Product[],
+  items: OrderItem[],
+  direction: 'sell' | 'return'
+): Product[] => {
+  const { quantities, variantQuantities } = countUnits(items);
+
+  return products.map(product => {
+    const quantity = quantities.get(product.id);
+    if (quantity === undefined) return product;
+
+    const updated = changeStock(product, quantity, direction);
+    if (!product.variants?.some(variant => variant.stock !== undefined)) {
+      return updated;
+    }
+
+    return {
+      ...updated,
+      variants: product.variants.map(variant =>
+        changeStock(variant, variantQuantities.get(`${product.id}/${variant.id}`), direction)
+      ),
+    };
+  });
+};
+
+/**
+ * Stock figures for a single product, or one of its variants, in the stock overview
+ */
+export interface StockOverviewEntry {
+  /** Product the figures refer to */
+  product: Product;
+  /** Variant the figures refer to (missing for the product's own stock) */
+  variant?: ProductVariant;
+  /** Units left to sell */
+  remaining: number;
+  /** Units sold across the given orders */
+  sold: number;
+  /** Units sold per hour over the recent sales window */
+  hourlyRate: number;
+  /** When stock will run out at the recent rate (null if nothing sold recently or already sold out) */
+  projectedRunOut: Date | null;
+}
+
+/**
+ * Build the stock overview for every product and variant that tracks stock
+ * Run-out times are projected from sales in the last `windowMinutes`.
+ *
+ * @param products - Current product catalog
+ * @param orders - Completed orders
+ * @param now - Reference time for the sales window
+ * @param windowMinutes - Length of the recent sales window
+ * @returns One entry per tracked product or variant, soonest to run out first
+ *
+ * @example
+ * ```ts
+ * getStockOverview(products, orders, new Date(), 60);
+ * ```
+ */
+export const getStockOverview = (
+  products: Product[],
+  orders: Order[],
+  now: Date,
+  windowMinutes: number
+): StockOverviewEntry[] => {
+  const windowStart = now.getTime() - windowMinutes * 60 * 1000;
+  const sold = new Map<string, number>();
+  const recent = new Map<string, number>();
+
+  orders.forEach(order => {
+    const isRecent = new Date(order.timestamp).getTime() >= windowStart;
+    [...order.items, ...expandBundleComponents(order.items)].forEach(item => {
+      const keys = [item.product.id];
+      if (item.variantId) {
+        keys.push(`${item.product.id}/${item.variantId}`);
+      }
+      keys.forEach(key => {
+        addQuantity(sold, key, item.quantity);
+        if (isRecent) {
+          addQuantity(recent, key, item.quantity);
+        }
+      });
+    });
+  });
+
+  const toEntry = (product: Product, stock: number, key: string, variant?: ProductVariant) => {
+    const hourlyRate = ((recent.get(key) ?? 0) * 60) / windowMinutes;
+    const projectedRunOut = stock > 0 && hourlyRate > 0
+      ? new Date(now.getTime() + (stock / hourlyRate) * 60 * 60 * 1000)
+      : null;
+
+    const entry: StockOverviewEntry = {
+      product,
+      remaining: stock,
+      sold: sold.get(key) ?? 0,
+      hourlyRate,
+      projectedRunOut,
+    };
+    if (variant) {
+      entry.variant = variant;
+    }
+    return entry;
+  };
+
+  return products
+    .flatMap(product => {
+      const entries: StockOverviewEntry[] = [];
+      if (product.stock !== undefined) {
+        entries.push(toEntry(product, product.stock, product.id));
+      }
+      (product.variants ?? []).forEach(variant => {
+        if (variant.stock !== undefined) {
+          entries.push(toEntry(product, variant.stock, `${product.id}/${variant.id}`, variant));
+        }
+      });
+      return entries;
+    })
+    .sort((a, b) => {
+      // Sold out first, then by projected run-out; products not selling go last
+      const aTime = a.remaining === 0 ? 0 : a.projectedRunOut?.getTime() ?? Infinity;
+      const bTime = b.remaining === 0 ? 0 : b.projectedRunOut?.getTime() ?? Infinity;
+      return aTime === bTime ? 0 : aTime - bTime;
+    });
+};
@@ -0,0 +1,53 @@
+/**
+ * Prepaid tokens (gettoni): sold at one kiosk, redeemed at the others
+ *
+ * Token products hand out a number of tokens with every unit sold. Products
+ * with a token price can then be paid by redeeming tokens instead of euros.
+ * Token prices are flat: variants, modifiers, discounts and promotions don't
+ * change them. Deposits are always paid in euros, so an order charging or
+ * returning deposits can't be paid with tokens.
+ *
+ * @module utils/tokens
+ */
+
+import { OrderItem, Product } from '../types';
+
+/**
+ * Whether a product is a token sale (e.g. a pack of 10 gettoni)
+ */
+export const isTokenProduct = (product: Product): boolean => {
+  return (product.tokensIssued ?? 0) > 0;
+};
+
+/**
+ * Tokens handed out by the token products in an order
+ */
+export const getTokensIssued = (items: OrderItem[]): number => {
+  return items.reduce((sum, item) => sum + (item.product.tokensIssued ?? 0) * item.quantity, 0);
+};
+
+/**
+ * Price of an order in tokens
+ *
+ * @param items - Order lines
+ * @returns Tokens to redeem, or null if the order is empty or a line has no token price
+ *
+ * @example
+ * ```ts
+ * // Two beers at 2 tokens and a burger at 4 tokens
+ * getOrderTokenPrice(items); // 8
+ * ```
+ */
+export const getOrderTokenPrice = (items: OrderItem[]): number | null => {
+  if (items.length === 0 || items.some(item => item.product.tokenPrice === undefined)) {
+    return null;
+  }
+  return items.reduce((sum, item) => sum + (item.product.tokenPrice ?? 0) * item.quantity, 0);
+};
+
+/**
+ * Token count with its Italian label (e.g. "1 gettone", "5 gettoni")
+ */
+export const formatTokens = (tokens: number): string => {
+  return `${tokens} ${tokens === 1 ? 'gettone' : 'gettoni'}`;
+};
@@ -0,0 +1,183 @@
+/**
+ * End-of-day Z report
+ *
+ * The single summary the treasurer files at close: order count, gross,
+ * discounts, refunds and net, then the takings per payment method, per
+ * category and per product, and the times of the first and last order. Built
+ * on the history's sales summary so both always agree, and exported as plain
+ * text or CSV. Categories and products add up to net; payment methods add up to
+ * net plus the deposits still held.
+ *
+ * @module utils/zReport
+ */
+
+import { Category, Order, PaymentMethod } from '../types';
+import { getCategoryById } from '../data/categories';
+import { addMoney, Cents, formatMoney, formatMoneyInput } from './money';
+import { getSalesSummary, ProductSales, SalesGroup, SalesSummary } from './salesSummary';
+
+/**
+ * Z report of a set of orders
+ */
+export interface ZReport {
+  orderCount: number;
+  /** Net plus discounts, promotions and refunds */
+  gross: Cents;
+  /** Line and order discounts plus promotion savings */
+  discounts: Cents;
+  /** Voids and refunds taken off revenue */
+  refunds: Cents;
+  /** Takings net of deposits, token redemptions and refunds, as in history */
+  net: Cents;
+  /** Deposits charged less deposits returned, taken by the payment methods on top of net */
+  deposits: Cents;
+  /** Takings per payment method less refunds, largest first */
+  paymentMethods: SalesSummary['paymentMethods'];
+  /** Units and revenue (after discounts, promotions and refunds) per category, largest first */
+  categories: (SalesGroup & { id: string; name: string })[];
+  /** Units and revenue (after discounts, promotions and refunds) per product and variant, best sellers first */
+  products: ProductSales[];
+  /** When the first order was taken (missing without orders) */
+  firstOrderAt?: Date;
+  /** When the last order was taken (missing without orders) */
+  lastOrderAt?: Date;
+}
+
+/**
+ * Build the Z report of a set of orders
+ *
+ * @param orders - Orders of the session being closed
+ * @param categories - Categories, for the category labels
+ * @param paymentMethods - Configured methods, for the method labels
+ * @returns The report's totals and breakdowns
+ *
+ * @example
+ * ```ts
+ * const { net, categories: byCategory } = getZReport(orders, categories, paymentMethods);
+ * ```
+ */
+export const getZReport = (
+  orders: Order[],
+  categories: Category[],
+  paymentMethods: PaymentMethod[]
+): ZReport => {
+  const summary = getSalesSummary(orders, paymentMethods);
+  const discounts = addMoney(summary.totalDiscounts, ...summary.promotions.map(entry => entry.total));
+
+  const categoryTotals: { [id: string]: ZReport['categories'][number] } = {};
+  summary.products.forEach(product => {
+    const id = product.category ?? '';
+    if (!categoryTotals[id]) {
+      const name = getCategoryById(categories, id)?.name || 'Senza categoria';
+      categoryTotals[id] = { id, name, count: 0, total: 0 };
+    }
+    categoryTotals[id].count += product.count;
+    categoryTotals[id].total = addMoney(categoryTotals[id].total, product.total);
+  });
+
+  const times = orders.map(order => order.timestamp.getTime());
+
+  return {
+    orderCount: summary.totalOrders,
+    gross: addMoney(summary.totalRevenue, discounts, summary.refunds.deducted),
+    discounts,
+    refunds: summary.refunds.deducted,
+    net: summary.totalRevenue,
+    deposits: summary.deposits.charged - summary.deposits.returned,
+    paymentMethods: summary.paymentMethods,
+    categories: Object.values(categoryTotals).sort((a, b) => b.total - a.total),
+    products: summary.products,
+    firstOrderAt: times.length > 0 ? new Date(Math.min(...times)) : undefined,
+    lastOrderAt: times.length > 0 ? new Date(Math.max(...times)) : undefined,
+  };
+};
+
+/**
+ * Print a Z report as plain text, for messaging or a receipt printer
+ *
+ * @param report - Report to print
+ * @param title - Event or session the report covers
+ */
+export const formatZReportText = (report: ZReport, title: string): string => {
+  const formatTime = (date?: Date) => (date ? date.toLocaleString('it-IT') : '-');
+  const lines = [
+    `REPORT Z - ${title}`,
+    `Primo ordine: ${formatTime(report.firstOrderAt)}`,
+    `Ultimo ordine: ${formatTime(report.lastOrderAt)}`,
+    '',
+    `Ordini: ${report.orderCount}`,
+    `Lordo: ${formatMoney(report.gross)}`,
+    `Sconti: ${formatMoney(-report.discounts)}`,
+    `Rimborsi: ${formatMoney(-report.refunds)}`,
+    `Netto: ${formatMoney(report.net)}`,
+    `Cauzioni nette: ${formatMoney(report.deposits)}`,
+    '',
+    'PER METODO DI PAGAMENTO',
+    ...report.paymentMethods.map(
+      method => `${method.label}: ${method.count} ordini • ${formatMoney(method.total)}`
+    ),
+    '',
+    'PER CATEGORIA',
+    ...report.categories.map(
+      category => `${category.name}: ${category.count} pz • ${formatMoney(category.total)}`
+    ),
+    '',
+    'PER PRODOTTO',
+    ...report.products.map(
+      product => `${product.emoji} ${product.name}: ${product.count} pz • ${formatMoney(product.total)}`
+    ),
+  ];
+  return lines.join('\n');
+};
+
+/**
+ * Quote a CSV field when it holds a separator, a quote or a line break
+ */
+const escapeCsv = (value: string): string => {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Export a Z report as CSV, one row per total or breakdown line
+ *
+ * Columns are section, item, value (a count or an ISO time) and amount in
+ * euros with a dot as decimal separator.
+ *
+ * @example
+ * ```ts
+ * formatZReportCsv(report);
+ * // "Sezione,Voce,Valore,Importo\nTotali,Ordini,12,\nTotali,Lordo,,120.00\n..."
+ * ```
+ */
+export const formatZReportCsv = (report: ZReport): string => {
+  const rows: (string | number)[][] = [
+    ['Sezione', 'Voce', 'Valore', 'Importo'],
+    ['Totali', 'Ordini', report.orderCount, ''],
+    ['Totali', 'Lordo', '', formatMoneyInput(report.gross)],
+    ['Totali', 'Sconti', '', formatMoneyInput(report.discounts)],
+    ['Totali', 'Rimborsi', '', formatMoneyInput(report.refunds)],
+    ['Totali', 'Netto', '', formatMoneyInput(report.net)],
+    ['Totali', 'Cauzioni nette', '', formatMoneyInput(report.deposits)],
+    ['Orari', 'Primo ordine', report.firstOrderAt?.toISOString() ?? '', ''],
+    ['Orari', 'Ultimo ordine', report.lastOrderAt?.toISOString() ?? '', ''],
+    ...report.paymentMethods.map(method => [
+      'Metodo di pagamento',
+      method.label,
+      method.count,
+      formatMoneyInput(method.total),
+    ]),
+    ...report.categories.map(category => [
+      'Categoria',
+      category.name,
+      category.count,
+      formatMoneyInput(category.total),
+    ]),
+    ...report.products.map(product => [
+      'Prodotto',
+      product.name,
+      product.count,
+      formatMoneyInput(product.total),
+    ]),
+  ];
+  return rows.map(row => row.map(value => escapeCsv(String(value))).join(',')).join('\n');
+};
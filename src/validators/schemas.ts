@@ -8,48 +8,539 @@
  */
 
 import { z } from 'zod';
+import { ValidationIssue } from '../types';
+
+/**
+ * Modifier option validation schema
+ * Price deltas are whole cents and may be negative (e.g. "senza formaggio")
+ */
+export const ModifierOptionSchema = z.object({
+  id: z.string().min(1, 'Option ID is required'),
+  name: z.string().trim().min(1, 'Option name is required').max(30, 'Name too long'),
+  priceDelta: z.number().int('Price change must be in whole cents'),
+});
+
+/**
+ * Modifier group validation schema
+ * Validates a named set of options attached to a product
+ */
+export const ModifierGroupSchema = z.object({
+  id: z.string().min(1, 'Group ID is required'),
+  name: z.string().trim().min(1, 'Group name is required').max(30, 'Name too long'),
+  required: z.boolean(),
+  multiple: z.boolean(),
+  options: z.array(ModifierOptionSchema).min(1, 'Group must offer at least one option'),
+});
+
+/**
+ * Product variant validation schema
+ * Validates a size or format sold at its own price
+ */
+export const ProductVariantSchema = z.object({
+  id: z.string().min(1, 'Variant ID is required'),
+  name: z.string().trim().min(1, 'Variant name is required').max(30, 'Name too long'),
+  price: z.number().int('Price must be in whole cents').positive('Price must be positive'),
+  stock: z.number().int('Stock must be a whole number').nonnegative('Stock cannot be negative').optional(),
+});
+
+/**
+ * Bundle slot validation schema
+ * A slot either always holds the same product or lets the customer pick from a category
+ */
+export const BundleSlotSchema = z.discriminatedUnion('type', [
+  z.object({
+    id: z.string().min(1, 'Slot ID is required'),
+    name: z.string().trim().min(1, 'Slot name is required').max(30, 'Name too long'),
+    type: z.literal('fixed'),
+    productId: z.string().min(1, 'Product ID is required'),
+  }),
+  z.object({
+    id: z.string().min(1, 'Slot ID is required'),
+    name: z.string().trim().min(1, 'Slot name is required').max(30, 'Name too long'),
+    type: z.literal('category'),
+    categoryId: z.string().min(1, 'Category ID is required'),
+  }),
+]);
 
 /**
  * Product validation schema
- * Validates product objects have required fields with correct types
+ * Validates product objects have required fields with correct types; a token
+ * product can't itself be paid for with tokens
  */
-export const ProductSchema = z.object({
-  id: z.string().min(1, 'Product ID is required'),
-  name: z.string().min(1, 'Product name is required').max(100, 'Name too long'),
+export const ProductSchema = z
+  .object({
+    id: z.string().min(1, 'Product ID is required'),
+    name: z.string().min(1, 'Product name is required').max(100, 'Name too long'),
+    emoji: z.string().min(1, 'Emoji is required'),
+    price: z.number().int('Price must be in whole cents').positive('Price must be positive'),
+    buttonColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid color format'),
+    category: z.string().optional(),
+    stock: z.number().int('Stock must be a whole number').nonnegative('Stock cannot be negative').optional(),
+    lowStockThreshold: z.number().int('Threshold must be a whole number').nonnegative('Threshold cannot be negative').optional(),
+    variants: z.array(ProductVariantSchema).min(1, 'Product must have at least one variant').optional(),
+    modifierGroups: z.array(ModifierGroupSchema).optional(),
+    bundleSlots: z.array(BundleSlotSchema).min(1, 'Bundle must have at least one component').optional(),
+    deposit: z.number().int('Deposit must be in whole cents').positive('Deposit must be positive').optional(),
+    tokenPrice: z.number().int('Token price must be a whole number').positive('Token price must be positive').optional(),
+    tokensIssued: z.number().int('Tokens must be a whole number').positive('Tokens must be positive').optional(),
+  })
+  .refine(product => product.tokenPrice === undefined || product.tokensIssued === undefined, {
+    message: 'Tokens cannot be bought with tokens',
+    path: ['tokenPrice'],
+  });
+
+/**
+ * Bundle component validation schema
+ * Validates the product chosen for one slot of a bundle on an order line
+ */
+export const BundleComponentSchema = z.object({
+  slotId: z.string().min(1, 'Slot ID is required'),
+  product: ProductSchema,
+});
+
+/**
+ * Category validation schema
+ * Validates user-defined categories have a name, emoji, color and display order
+ */
+export const CategorySchema = z.object({
+  id: z.string().min(1, 'Category ID is required'),
+  name: z.string().min(1, 'Category name is required').max(50, 'Name too long'),
   emoji: z.string().min(1, 'Emoji is required'),
-  price: z.number().positive('Price must be positive').finite(),
-  buttonColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid color format'),
-  category: z.string().optional(),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Invalid color format'),
+  order: z.number().int().nonnegative('Order cannot be negative'),
 });
 
 /**
- * Order item validation schema
- * Validates an order item has a valid product and positive quantity
+ * Payment method validation schema
+ * Validates configurable payment methods offered at checkout
  */
-export const OrderItemSchema = z.object({
-  product: ProductSchema,
+export const PaymentMethodSchema = z.object({
+  id: z.string().min(1, 'Payment method ID is required'),
+  name: z.string().min(1, 'Payment method name is required').max(30, 'Name too long'),
+  emoji: z.string().min(1, 'Emoji is required'),
+  enabled: z.boolean(),
+});
+
+/** "HH:MM" on a 24-hour clock */
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Pricing rule validation schema
+ * Validates time-based prices; percentages must be whole numbers from 1 to 100
+ */
+export const PricingRuleSchema = z
+  .object({
+    id: z.string().min(1, 'Pricing rule ID is required'),
+    name: z.string().trim().min(1, 'Pricing rule name is required').max(30, 'Name too long'),
+    enabled: z.boolean(),
+    startTime: z.string().regex(TIME_OF_DAY, 'Start time must be HH:MM'),
+    endTime: z.string().regex(TIME_OF_DAY, 'End time must be HH:MM'),
+    days: z.array(z.number().int().min(0).max(6, 'Day must be 0 (Sunday) to 6')),
+    categoryIds: z.array(z.string().min(1)),
+    productIds: z.array(z.string().min(1)),
+    adjustment: z.object({
+      type: z.enum(['fixedPrice', 'percentage']),
+      value: z.number().int('Value must be a whole number').nonnegative('Value cannot be negative'),
+    }),
+  })
+  .refine(
+    rule =>
+      rule.adjustment.type !== 'percentage' ||
+      (rule.adjustment.value >= 1 && rule.adjustment.value <= 100),
+    { message: 'Percentage must be between 1 and 100', path: ['adjustment', 'value'] }
+  )
+  .refine(rule => rule.startTime !== rule.endTime, {
+    message: 'Time window cannot be empty',
+    path: ['endTime'],
+  });
+
+/**
+ * Applied pricing rule validation schema
+ * Validates the rule and unit price recorded on an order line
+ */
+export const AppliedPricingRuleSchema = z.object({
+  ruleId: z.string().min(1, 'Pricing rule ID is required'),
+  name: z.string().min(1, 'Pricing rule name is required'),
+  unitPrice: z.number().int('Price must be in whole cents').nonnegative('Price cannot be negative'),
+});
+
+/**
+ * Promotion validation schema
+ * Validates multi-buy deals; a deal must leave something to pay and something to save
+ */
+export const PromotionSchema = z.object({
+  id: z.string().min(1, 'Promotion ID is required'),
+  name: z.string().trim().min(1, 'Promotion name is required').max(30, 'Name too long'),
+  enabled: z.boolean(),
+  categoryIds: z.array(z.string().min(1)),
+  productIds: z.array(z.string().min(1)),
+  deal: z.discriminatedUnion('type', [
+    z
+      .object({
+        type: z.literal('multiBuy'),
+        buy: z.number().int().min(2, 'Buy at least 2 units'),
+        pay: z.number().int().positive('Pay for at least 1 unit'),
+      })
+      .refine(deal => deal.pay < deal.buy, { message: 'Pay must be less than buy', path: ['pay'] }),
+    z.object({
+      type: z.literal('nthDiscounted'),
+      nth: z.number().int().min(2, 'Discount from the 2nd unit on'),
+      percentage: z.number().int().min(1).max(100, 'Percentage cannot exceed 100'),
+    }),
+  ]),
+});
+
+/**
+ * Applied promotion validation schema
+ * Validates a promotion recorded on a completed order
+ */
+export const AppliedPromotionSchema = z.object({
+  promotionId: z.string().min(1, 'Promotion ID is required'),
+  name: z.string().min(1, 'Promotion name is required'),
+  savings: z.number().int('Savings must be in whole cents').positive('Savings must be positive'),
+});
+
+/**
+ * Deposit return validation schema
+ * Validates deposits handed back in an order, grouped by amount
+ */
+export const DepositReturnSchema = z.object({
+  amount: z.number().int('Deposit must be in whole cents').positive('Deposit must be positive'),
   quantity: z.number().int().positive('Quantity must be positive'),
 });
 
+/**
+ * Refund validation schema
+ * Validates a void or partial refund recorded on an order; lines are checked
+ * against the order's items on the order
+ */
+export const OrderRefundSchema = z.object({
+  id: z.string().min(1, 'Refund ID is required'),
+  type: z.enum(['void', 'partial']),
+  reason: z.string().trim().min(1, 'Refund reason is required').max(50, 'Refund reason is too long'),
+  lines: z
+    .array(
+      z.object({
+        itemIndex: z.number().int().nonnegative(),
+        quantity: z.number().int().positive('Quantity must be positive'),
+      })
+    )
+    .min(1, 'Refund must take back at least one line'),
+  amount: z.number().int('Amount must be in whole cents').nonnegative('Amount cannot be negative'),
+  timestamp: z.date(),
+});
+
+/**
+ * Payment leg validation schema
+ * Validates one method/amount part of an order's payment; only deposit
+ * payouts have a negative amount (checked on the order)
+ */
+export const PaymentLegSchema = z.object({
+  method: z.string().min(1, 'Payment method is required'),
+  amount: z
+    .number()
+    .int('Amount must be in whole cents')
+    .refine(amount => amount !== 0, 'Amount cannot be zero'),
+});
+
+/**
+ * Order edit validation schema
+ * Validates the before/after record of an edit to a completed order
+ */
+export const OrderEditSchema = z.object({
+  timestamp: z.date(),
+  changes: z.array(
+    z.object({
+      name: z.string().min(1, 'Line name is required'),
+      before: z.number().int().nonnegative(),
+      after: z.number().int().nonnegative(),
+    })
+  ),
+  totalBefore: z.number().int('Total must be in whole cents'),
+  totalAfter: z.number().int('Total must be in whole cents'),
+  paymentsBefore: z.array(PaymentLegSchema).optional(),
+});
+
+/**
+ * Discount validation schema
+ * Percentages must be whole numbers from 1 to 100; fixed amounts are in whole cents
+ */
+export const DiscountSchema = z
+  .object({
+    type: z.enum(['percentage', 'fixed']),
+    value: z.number().int('Discount value must be a whole number').positive('Discount value must be positive'),
+    reason: z.string().trim().min(1, 'Discount reason is required').max(50, 'Discount reason is too long'),
+  })
+  .refine(discount => discount.type !== 'percentage' || discount.value <= 100, {
+    message: 'Percentage cannot exceed 100',
+    path: ['value'],
+  });
+
+/**
+ * Selected modifier validation schema
+ * Validates a modifier option chosen for an order line
+ */
+export const SelectedModifierSchema = z.object({
+  groupId: z.string().min(1, 'Group ID is required'),
+  optionId: z.string().min(1, 'Option ID is required'),
+  name: z.string().min(1, 'Modifier name is required'),
+  priceDelta: z.number().int('Price change must be in whole cents'),
+});
+
+/**
+ * Order item validation schema
+ * Validates an order item has a valid product and positive quantity; a chosen
+ * variant must be one of the product's variants
+ */
+export const OrderItemSchema = z
+  .object({
+    product: ProductSchema,
+    quantity: z.number().int().positive('Quantity must be positive'),
+    variantId: z.string().min(1, 'Variant ID is required').optional(),
+    modifiers: z.array(SelectedModifierSchema).optional(),
+    bundleComponents: z.array(BundleComponentSchema).optional(),
+    pricingRule: AppliedPricingRuleSchema.optional(),
+    discount: DiscountSchema.optional(),
+  })
+  .refine(
+    item =>
+      item.variantId === undefined ||
+      (item.product.variants ?? []).some(variant => variant.id === item.variantId),
+    { message: 'Variant does not belong to the product', path: ['variantId'] }
+  );
+
 /**
  * Order validation schema
- * Validates completed orders with payment details
+ * Validates completed orders with payment details; payment legs must add up to the total.
+ * An order handing back deposits may have no items and a negative total.
+ * Refunds can't take back more units than a line sold.
  */
-export const OrderSchema = z.object({
-  id: z.string().min(1, 'Order ID is required'),
-  items: z.array(OrderItemSchema).min(1, 'Order must contain at least one item'),
-  total: z.number().nonnegative('Total cannot be negative').finite(),
+export const OrderSchema = z
+  .object({
+    id: z.string().min(1, 'Order ID is required'),
+    items: z.array(OrderItemSchema),
+    total: z.number().int('Total must be in whole cents'),
+    discount: DiscountSchema.optional(),
+    discountTotal: z.number().int('Discount must be in whole cents').positive('Discount must be positive').optional(),
+    promotions: z.array(AppliedPromotionSchema).optional(),
+    depositReturns: z.array(DepositReturnSchema).min(1).optional(),
+    tokensRedeemed: z.number().int().positive('Tokens must be positive').optional(),
+    refunds: z.array(OrderRefundSchema).min(1).optional(),
+    edits: z.array(OrderEditSchema).min(1).optional(),
+    timestamp: z.date(),
+    payments: z.array(PaymentLegSchema).min(1, 'At least one payment is required').optional(),
+    cashPaid: z.number().int().nonnegative().optional(),
+    change: z.number().int().nonnegative().optional(),
+  })
+  .refine(order => order.items.length > 0 || order.depositReturns !== undefined, {
+    message: 'Order must contain at least one item',
+    path: ['items'],
+  })
+  .refine(order => order.total >= 0 || order.depositReturns !== undefined, {
+    message: 'Total cannot be negative',
+    path: ['total'],
+  })
+  .refine(
+    order => order.total < 0 || (order.payments ?? []).every(leg => leg.amount > 0),
+    { message: 'Amount must be positive', path: ['payments'] }
+  )
+  .refine(
+    order =>
+      order.payments === undefined ||
+      order.payments.reduce((sum, leg) => sum + leg.amount, 0) === order.total,
+    { message: 'Payments must add up to the order total', path: ['payments'] }
+  )
+  .refine(
+    order =>
+      order.items.every((item, index) => {
+        const refunded = (order.refunds ?? [])
+          .flatMap(refund => refund.lines)
+          .filter(line => line.itemIndex === index)
+          .reduce((sum, line) => sum + line.quantity, 0);
+        return refunded <= item.quantity;
+      }) &&
+      (order.refunds ?? []).every(refund => refund.lines.every(line => line.itemIndex < order.items.length)),
+    { message: 'Refunds cannot take back more than was sold', path: ['refunds'] }
+  );
+
+/**
+ * Current order validation schema
+ * Validates the persisted order that was being built when the app closed
+ */
+export const CurrentOrderSchema = z.object({
+  items: z.array(OrderItemSchema),
+  discount: DiscountSchema.optional(),
+  depositReturns: z.array(DepositReturnSchema).optional(),
+  editingOrderId: z.string().min(1).optional(),
+});
+
+/**
+ * Parked order validation schema
+ * Validates a named, unpaid order waiting to be resumed
+ */
+export const ParkedOrderSchema = z.object({
+  id: z.string().min(1, 'Parked order ID is required'),
+  name: z.string().trim().min(1, 'Name is required').max(30, 'Name is too long'),
+  items: z.array(OrderItemSchema).min(1, 'Parked order must contain at least one item'),
+  discount: DiscountSchema.optional(),
+  depositReturns: z.array(DepositReturnSchema).optional(),
+  parkedAt: z.date(),
+});
+
+/**
+ * Cash movement validation schema
+ * Validates cash put into or taken out of the drawer outside of sales
+ */
+export const CashMovementSchema = z.object({
+  id: z.string().min(1, 'Cash movement ID is required'),
+  type: z.enum(['in', 'out']),
+  amount: z.number().int('Amount must be in whole cents').positive('Amount must be positive'),
+  reason: z.string().trim().min(1, 'Reason is required').max(50, 'Reason is too long'),
   timestamp: z.date(),
-  cashPaid: z.number().nonnegative().finite().optional(),
-  change: z.number().nonnegative().finite().optional(),
+});
+
+/**
+ * Cash drawer validation schema
+ * Validates the opening float and cash movements of the current session
+ */
+export const CashDrawerSchema = z.object({
+  openingFloat: z.number().int('Float must be in whole cents').nonnegative('Float cannot be negative'),
+  movements: z.array(CashMovementSchema),
+});
+
+/**
+ * Cash count validation schema
+ * The counted total must match the pieces counted
+ */
+export const CashCountSchema = z
+  .object({
+    lines: z.array(
+      z.object({
+        value: z.number().int().positive(),
+        quantity: z.number().int().nonnegative(),
+      })
+    ),
+    counted: z.number().int().nonnegative(),
+    expected: z.number().int(),
+  })
+  .refine(
+    count => count.lines.reduce((sum, line) => sum + line.value * line.quantity, 0) === count.counted,
+    { message: 'Counted total must match the pieces counted', path: ['counted'] }
+  );
+
+/**
+ * Archived session validation schema
+ * Validates a closed event and every order taken during it
+ * A session without orders must have kept a float or cash movements
+ */
+export const ArchivedSessionSchema = z
+  .object({
+    id: z.string().min(1, 'Session ID is required'),
+    name: z.string().trim().min(1, 'Name is required').max(40, 'Name is too long'),
+    openedAt: z.date(),
+    closedAt: z.date(),
+    orders: z.array(OrderSchema),
+    cashDrawer: CashDrawerSchema.optional(),
+    cashCount: CashCountSchema.optional(),
+  })
+  .refine(
+    session =>
+      session.orders.length > 0 ||
+      (session.cashDrawer !== undefined &&
+        (session.cashDrawer.openingFloat > 0 || session.cashDrawer.movements.length > 0)),
+    { message: 'Session must contain at least one order or cash drawer activity', path: ['orders'] }
+  );
+
+/**
+ * Audit log entry validation schema
+ * Before/after states are kept as-is: they hold whatever record the action changed
+ */
+export const AuditEntrySchema = z.object({
+  id: z.string().min(1, 'Audit entry ID is required'),
+  timestamp: z.date(),
+  actor: z.string().trim().min(1).max(30).optional(),
+  action: z.enum([
+    'addProduct',
+    'updateProduct',
+    'deleteProduct',
+    'restockProduct',
+    'addCategory',
+    'updateCategory',
+    'deleteCategory',
+    'moveCategory',
+    'addToCurrentOrder',
+    'removeFromCurrentOrder',
+    'addDepositReturn',
+    'removeDepositReturn',
+    'clearCurrentOrder',
+    'setItemDiscount',
+    'setOrderDiscount',
+    'parkCurrentOrder',
+    'resumeParkedOrder',
+    'deleteParkedOrder',
+    'addPaymentMethod',
+    'updatePaymentMethod',
+    'deletePaymentMethod',
+    'addPricingRule',
+    'updatePricingRule',
+    'deletePricingRule',
+    'addPromotion',
+    'updatePromotion',
+    'deletePromotion',
+    'completeOrder',
+    'voidOrder',
+    'refundOrder',
+    'editOrder',
+    'cancelOrderEdit',
+    'deleteOrder',
+    'resetSession',
+    'closeSession',
+    'setOpeningFloat',
+    'addCashMovement',
+    'deleteCashMovement',
+    'setOperator',
+    'restoreQuarantinedRecord',
+    'deleteQuarantinedRecord',
+    'undoOrderChange',
+    'redoOrderChange',
+    'undoProductChange',
+    'redoProductChange',
+  ]),
+  targetId: z.string().optional(),
+  before: z.unknown().optional(),
+  after: z.unknown().optional(),
 });
 
 /** TypeScript type inferred from ProductSchema */
 export type ValidatedProduct = z.infer<typeof ProductSchema>;
+/** TypeScript type inferred from CategorySchema */
+export type ValidatedCategory = z.infer<typeof CategorySchema>;
+/** TypeScript type inferred from PaymentMethodSchema */
+export type ValidatedPaymentMethod = z.infer<typeof PaymentMethodSchema>;
+/** TypeScript type inferred from PricingRuleSchema */
+export type ValidatedPricingRule = z.infer<typeof PricingRuleSchema>;
+/** TypeScript type inferred from PromotionSchema */
+export type ValidatedPromotion = z.infer<typeof PromotionSchema>;
+/** TypeScript type inferred from PaymentLegSchema */
+export type ValidatedPaymentLeg = z.infer<typeof PaymentLegSchema>;
+/** TypeScript type inferred from ModifierGroupSchema */
+export type ValidatedModifierGroup = z.infer<typeof ModifierGroupSchema>;
+/** TypeScript type inferred from DiscountSchema */
+export type ValidatedDiscount = z.infer<typeof DiscountSchema>;
 /** TypeScript type inferred from OrderItemSchema */
 export type ValidatedOrderItem = z.infer<typeof OrderItemSchema>;
 /** TypeScript type inferred from OrderSchema */
 export type ValidatedOrder = z.infer<typeof OrderSchema>;
+/** TypeScript type inferred from CurrentOrderSchema */
+export type ValidatedCurrentOrder = z.infer<typeof CurrentOrderSchema>;
+/** TypeScript type inferred from ParkedOrderSchema */
+export type ValidatedParkedOrder = z.infer<typeof ParkedOrderSchema>;
+/** TypeScript type inferred from CashDrawerSchema */
+export type ValidatedCashDrawer = z.infer<typeof CashDrawerSchema>;
+/** TypeScript type inferred from ArchivedSessionSchema */
+export type ValidatedArchivedSession = z.infer<typeof ArchivedSessionSchema>;
+/** TypeScript type inferred from AuditEntrySchema */
+export type ValidatedAuditEntry = z.infer<typeof AuditEntrySchema>;
 
 /**
  * Validate a single product object
@@ -122,3 +613,93 @@ export const validateOrders = (data: unknown) => {
     return { success: false as const, errors: [{ message: 'Unknown validation error' }] };
   }
 };
+
+/**
+ * Validate an array of categories
+ * Used when loading user-defined categories from AsyncStorage
+ *
+ * @param data - Unknown data to validate
+ * @returns Success with validated array or failure with error details
+ */
+export const validateCategories = (data: unknown) => {
+  try {
+    const schema = z.array(CategorySchema);
+    return { success: true as const, data: schema.parse(data) };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false as const, errors: error.issues };
+    }
+    return { success: false as const, errors: [{ message: 'Unknown validation error' }] };
+  }
+};
+
+/**
+ * Quarantined record validation schema
+ * The record itself is kept as-is since it already failed validation
+ */
+export const QuarantinedRecordSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum([
+    'product',
+    'category',
+    'order',
+    'paymentMethod',
+    'pricingRule',
+    'promotion',
+    'parkedOrder',
+    'currentOrder',
+    'auditEntry',
+    'session',
+    'cashDrawer',
+  ]),
+  record: z.unknown(),
+  issues: z.array(z.object({ path: z.string(), message: z.string() })),
+  quarantinedAt: z.string(),
+});
+
+/**
+ * Flatten Zod issues into storable validation issues
+ *
+ * @param issues - Issues from a failed Zod parse
+ * @returns Issues with their path joined by dots
+ */
+export const toValidationIssues = (issues: z.ZodError['issues']): ValidationIssue[] => {
+  return issues.map(issue => ({
+    path: issue.path.map(String).join('.'),
+    message: issue.message,
+  }));
+};
+
+/**
+ * Validate an array record by record instead of all-or-nothing
+ * Used when loading from AsyncStorage so one bad record doesn't discard the rest.
+ *
+ * @param schema - Schema each record must satisfy
+ * @param data - Unknown data, expected to be an array
+ * @returns Records that passed validation, and those that didn't with their issues
+ *
+ * @example
+ * ```ts
+ * const { valid, rejected } = partitionRecords(OrderSchema, parsedOrders);
+ * ```
+ */
+export const partitionRecords = <T>(schema: z.ZodType<T>, data: unknown) => {
+  const valid: T[] = [];
+  const rejected: { record: unknown; issues: ValidationIssue[] }[] = [];
+
+  if (!Array.isArray(data)) {
+    rejected.push({ record: data, issues: [{ path: '', message: 'Expected an array of records' }] });
+    return { valid, rejected };
+  }
+
+  data.forEach(record => {
+    const result = schema.safeParse(record);
+    if (result.success) {
+      valid.push(result.data);
+    } else {
+      rejected.push({ record, issues: toValidationIssues(result.error.issues) });
+    }
+  });
+
+  return { valid, rejected };
+};